@@ -20,6 +20,7 @@ import { VideoTrimmerTool } from './components/VideoTrimmerTool';
 import { AudioConverterTool } from './components/AudioConverterTool';
 import { VideoConverterTool } from './components/VideoConverterTool';
 import { VideoToAudioTool } from './components/VideoToAudioTool';
+import { SettingsScreen } from './components/SettingsScreen';
 
 const App: React.FC = () => {
   const [currentView, setCurrentView] = useState('dashboard');
@@ -69,6 +70,8 @@ const App: React.FC = () => {
         return <VideoConverterTool />;
       case 'video-to-audio':
         return <VideoToAudioTool />;
+      case 'settings':
+        return <SettingsScreen />;
       default:
         // Fallback for tools not yet implemented
         return (
@@ -88,7 +91,7 @@ const App: React.FC = () => {
 
   return (
     <div className="min-h-screen flex flex-col bg-gray-50 font-sans text-gray-900">
-      <Header onLogoClick={() => navigateTo('dashboard')} />
+      <Header onLogoClick={() => navigateTo('dashboard')} onSettingsClick={() => navigateTo('settings')} />
       <main className="flex-grow w-full">
         {renderCurrentView()}
       </main>
@@ -1,6 +1,12 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { UploadCloud, Mic, Download, Copy, RefreshCw, PenLine, AlertTriangle, Square, Trash2, Sparkles } from 'lucide-react';
-import { summarizeAudio } from '../services/geminiService';
+import { UploadCloud, Mic, Download, Copy, RefreshCw, PenLine, AlertTriangle, Square, Trash2, Sparkles, FileDown } from 'lucide-react';
+import { summarizeAudio } from '../services/aiProvider';
+import { MAX_LONG_MEDIA_MB } from '../services/mediaChunker';
+import { textToDocx } from '../utils/docxHelpers';
+import { CancelButton } from './CancelButton';
+import { ErrorMessage, ToolError } from './ErrorMessage';
+import { CachedResultNotice } from './CachedResultNotice';
+import { isAbortError, useAbortController } from '../utils/abortHelpers';
 
 export const AudioSummarizerTool: React.FC = () => {
   const [activeTab, setActiveTab] = useState<'upload' | 'record'>('upload');
@@ -8,10 +14,12 @@ export const AudioSummarizerTool: React.FC = () => {
   
   // Processing States
   const [isProcessing, setIsProcessing] = useState(false);
+  const job = useAbortController();
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
   const [progress, setProgress] = useState(0);
   const [resultText, setResultText] = useState('');
   const [editableText, setEditableText] = useState('');
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ToolError | null>(null);
   
   // Recording States
   const [isRecording, setIsRecording] = useState(false);
@@ -40,6 +48,9 @@ export const AudioSummarizerTool: React.FC = () => {
   useEffect(() => {
     return () => {
       if (mediaRecorderRef.current) {
+        // Leaving mid-recording discards it instead of loading it into a tool that is gone
+        mediaRecorderRef.current.onstop = null;
+        if (mediaRecorderRef.current.state !== 'inactive') mediaRecorderRef.current.stop();
         if (mediaRecorderRef.current.stream) {
            mediaRecorderRef.current.stream.getTracks().forEach(track => track.stop());
         }
@@ -54,8 +65,8 @@ export const AudioSummarizerTool: React.FC = () => {
   };
 
   const validateAndSetFile = (selectedFile: File) => {
-    // 25MB recommended limit
-    const LIMIT_MB = 25;
+    // Files above the inline limit are summarized in chunks, so only decoding memory caps the size
+    const LIMIT_MB = MAX_LONG_MEDIA_MB;
     if (selectedFile.size > LIMIT_MB * 1024 * 1024) {
       setError(`File is too large (${(selectedFile.size / 1024 / 1024).toFixed(1)}MB). Please use a file under ${LIMIT_MB}MB to prevent API timeouts.`);
       return;
@@ -131,34 +142,43 @@ export const AudioSummarizerTool: React.FC = () => {
   };
 
   // --- Summarization Logic ---
-  const handleSummarize = async () => {
+  const handleSummarize = async (regenerate = false) => {
     if (!file) return;
 
     setIsProcessing(true);
     setProgress(0);
     setError(null);
+    setCachedAt(null);
 
     const progressInterval = file.size > 5 * 1024 * 1024 ? 1500 : 500;
     const interval = setInterval(() => {
       setProgress((prev) => (prev >= 90 ? prev : prev + (file.size > 5 * 1024 * 1024 ? 1 : 5)));
     }, progressInterval);
 
+    const signal = job.start();
+    // Long media reports its finished chunks, which moves the bar on past the estimate
+    const onProgress = (percent: number) => setProgress(prev => Math.max(prev, Math.min(percent, 99)));
     try {
-      const text = await summarizeAudio(file);
+      const text = await summarizeAudio(file, { signal, regenerate, onCacheHit: setCachedAt, onProgress });
       setResultText(text);
       setEditableText(text);
       setProgress(100);
     } catch (err: any) {
+      if (isAbortError(err)) return;
       console.error("Summarize Error:", err);
-      let msg = "Failed to summarize audio.";
-      if (err instanceof Error) msg = err.message;
-      setError(msg);
+      setError(err instanceof Error ? err : "Failed to summarize audio.");
     } finally {
       clearInterval(interval);
       setIsProcessing(false);
     }
   };
 
+  // Back to the progress view and ask the provider again, replacing the cached result
+  const handleRegenerate = () => {
+    setResultText('');
+    handleSummarize(true);
+  };
+
   const handleCopy = () => navigator.clipboard.writeText(editableText);
 
   const handleDownload = () => {
@@ -171,6 +191,16 @@ export const AudioSummarizerTool: React.FC = () => {
     URL.revokeObjectURL(url);
   };
 
+  const handleDownloadDocx = () => {
+    const blob = textToDocx('Audio Summary', editableText);
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `summary_${Date.now()}.docx`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
   const handleReset = () => {
     stopRecording();
     setFile(null);
@@ -185,6 +215,7 @@ export const AudioSummarizerTool: React.FC = () => {
   if (resultText) {
     return (
       <div className="max-w-4xl mx-auto px-4 py-12">
+        <CachedResultNotice storedAt={cachedAt} onRegenerate={handleRegenerate} className="mb-6" />
         <div className="flex justify-between items-center mb-8">
           <div className="flex items-center gap-3">
             <h1 className="text-3xl font-bold text-gray-900">Audio Summary</h1>
@@ -196,6 +227,7 @@ export const AudioSummarizerTool: React.FC = () => {
           <div className="flex gap-2">
             <button onClick={handleCopy} className="p-2 text-gray-500 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-colors border border-gray-200" title="Copy text"><Copy className="w-5 h-5" /></button>
             <button onClick={handleDownload} className="p-2 text-gray-500 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-colors border border-gray-200" title="Download text"><Download className="w-5 h-5" /></button>
+            <button onClick={handleDownloadDocx} className="p-2 text-gray-500 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-colors border border-gray-200" title="Download Word document"><FileDown className="w-5 h-5" /></button>
             <button onClick={handleReset} className="p-2 text-gray-500 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-colors border border-gray-200" title="Start Over"><RefreshCw className="w-5 h-5" /></button>
           </div>
         </div>
@@ -244,7 +276,7 @@ export const AudioSummarizerTool: React.FC = () => {
             ) : (
                 <>
                     <h3 className="text-xl font-bold text-gray-900 mb-2">Click to upload or drag and drop</h3>
-                    <p className="text-gray-500 mb-8">MP3, WAV, M4A (Max 25MB)</p>
+                    <p className="text-gray-500 mb-8">MP3, WAV, M4A (Max {MAX_LONG_MEDIA_MB}MB)</p>
                     <button onClick={() => fileInputRef.current?.click()} className="px-6 py-2 border border-gray-300 rounded-lg text-gray-700 bg-white hover:bg-gray-50 font-medium transition-colors">Browse Files</button>
                 </>
             )}
@@ -287,7 +319,7 @@ export const AudioSummarizerTool: React.FC = () => {
       {error && (
         <div className="mb-6 p-4 bg-red-50 text-red-700 rounded-lg text-sm border border-red-100 flex items-start">
             <AlertTriangle className="w-5 h-5 mr-2 flex-shrink-0 mt-0.5" />
-            <span>{error}</span>
+            <span><ErrorMessage error={error} /></span>
         </div>
       )}
 
@@ -297,11 +329,12 @@ export const AudioSummarizerTool: React.FC = () => {
                 <div className="bg-emerald-600 h-2.5 rounded-full transition-all duration-300 ease-out" style={{ width: `${progress}%` }}></div>
             </div>
             <p className="text-sm text-center text-gray-500 animate-pulse">Generating summary...</p>
+            <CancelButton onCancel={job.cancel} />
          </div>
       )}
 
       <button
-        onClick={handleSummarize}
+        onClick={() => handleSummarize()}
         disabled={!file || isProcessing}
         className={`w-full py-4 rounded-xl text-lg font-bold transition-all transform active:scale-[0.99] shadow-lg flex items-center justify-center ${!file || isProcessing ? 'bg-gray-200 text-gray-400 cursor-not-allowed shadow-none' : 'bg-emerald-600 text-white hover:bg-emerald-700 hover:shadow-emerald-200'}`}
       >
@@ -1,17 +1,33 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { UploadCloud, FileText, Mic, Download, Copy, RefreshCw, PenLine, AlertTriangle, Square, Trash2 } from 'lucide-react';
-import { transcribeAudio } from '../services/geminiService';
+import { UploadCloud, FileText, Mic, Download, Copy, RefreshCw, PenLine, AlertTriangle, Square, Trash2, FileDown, FileCode, Captions } from 'lucide-react';
+import { transcribeAudio } from '../services/aiProvider';
+import { MAX_LONG_MEDIA_MB } from '../services/mediaChunker';
+import { Transcript, TranscriptMode, TranscriptSegment } from '../types';
+import { textToDocx } from '../utils/docxHelpers';
+import { CancelButton } from './CancelButton';
+import { ErrorMessage, ToolError } from './ErrorMessage';
+import { CachedResultNotice } from './CachedResultNotice';
+import { SpeakerPanel } from './SpeakerPanel';
+import { LanguageBadge } from './LanguageBadge';
+import { TimestampedTranscript, TranscriptModeToggle } from './TimestampedTranscript';
+import { isAbortError, useAbortController } from '../utils/abortHelpers';
+import { listSpeakers, namesSpeakers, renameSpeaker, renameSpeakerInDialogue, formatDialogue } from '../utils/speakerHelpers';
+import { isTimestamped, formatTimestampedText, formatTimestampedMarkdown, formatTimestampedSrt } from '../utils/transcriptHelpers';
 
 export const AudioToTextTool: React.FC = () => {
   const [activeTab, setActiveTab] = useState<'upload' | 'record'>('upload');
   const [file, setFile] = useState<File | null>(null);
+  const [mode, setMode] = useState<TranscriptMode>('plain');
   
   // Processing States
   const [isProcessing, setIsProcessing] = useState(false);
+  const job = useAbortController();
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
   const [progress, setProgress] = useState(0);
-  const [result, setResult] = useState<{ language: string; text: string } | null>(null);
+  const [result, setResult] = useState<Transcript | null>(null);
   const [editableText, setEditableText] = useState('');
-  const [error, setError] = useState<string | null>(null);
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+  const [error, setError] = useState<ToolError | null>(null);
   
   // Recording States
   const [isRecording, setIsRecording] = useState(false);
@@ -41,6 +57,9 @@ export const AudioToTextTool: React.FC = () => {
   useEffect(() => {
     return () => {
       if (mediaRecorderRef.current) {
+         // Leaving mid-recording discards it instead of loading it into a tool that is gone
+         mediaRecorderRef.current.onstop = null;
+         if (mediaRecorderRef.current.state !== 'inactive') mediaRecorderRef.current.stop();
          if (mediaRecorderRef.current.stream) {
             mediaRecorderRef.current.stream.getTracks().forEach(track => track.stop());
          }
@@ -56,8 +75,8 @@ export const AudioToTextTool: React.FC = () => {
 
   const validateAndSetFile = (selectedFile: File) => {
     // Browser string limit safety & Network Upload Reliability
-    // 25MB is the recommended safe limit for inline API calls to prevent Timeouts (500)
-    const LIMIT_MB = 25;
+    // Files above the inline limit are transcribed in chunks, so only decoding memory caps the size
+    const LIMIT_MB = MAX_LONG_MEDIA_MB;
     if (selectedFile.size > LIMIT_MB * 1024 * 1024) {
       setError(`File is too large (${(selectedFile.size / 1024 / 1024).toFixed(1)}MB). Please use a file under ${LIMIT_MB}MB for stable transcription.`);
       return;
@@ -165,12 +184,13 @@ export const AudioToTextTool: React.FC = () => {
 
   // --- Transcription Logic ---
 
-  const handleTranscribe = async () => {
+  const handleTranscribe = async (regenerate = false) => {
     if (!file) return;
 
     setIsProcessing(true);
     setProgress(0);
     setError(null);
+    setCachedAt(null);
 
     // Simulate progress
     const progressInterval = file.size > 5 * 1024 * 1024 ? 1500 : 500;
@@ -182,49 +202,79 @@ export const AudioToTextTool: React.FC = () => {
       });
     }, progressInterval);
 
+    const signal = job.start();
+    // Long media reports its finished chunks, which moves the bar on past the estimate
+    const onProgress = (percent: number) => setProgress(prev => Math.max(prev, Math.min(percent, 99)));
     try {
-      const data = await transcribeAudio(file);
+      const data = await transcribeAudio(file, { signal, regenerate, onCacheHit: setCachedAt, onProgress }, mode);
+      const turns = data.segments ?? [];
       setResult(data);
-      setEditableText(data.text);
+      setSegments(turns);
+      // A single voice reads better without "Speaker 1:" in front of every paragraph
+      setEditableText(namesSpeakers(turns) ? formatDialogue(turns) : data.text);
       setProgress(100);
     } catch (err: any) {
+      if (isAbortError(err)) return;
       console.error("Transcription UI Error:", err);
-      let msg = "Failed to transcribe audio. Please try again.";
-      
-      if (err instanceof Error) {
-          msg = err.message;
-      } else if (typeof err === 'string') {
-          msg = err;
-      } else if (err && typeof err === 'object' && err.message) {
-          msg = err.message;
-      }
-      
-      setError(msg);
+      setError(err instanceof Error ? err : "Failed to transcribe audio. Please try again.");
     } finally {
       clearInterval(interval);
       setIsProcessing(false);
     }
   };
 
+  // Back to the progress view and ask the provider again, replacing the cached result
+  const handleRegenerate = () => {
+    setResult(null);
+    handleTranscribe(true);
+  };
+
+  const speakers = listSpeakers(segments);
+  const timestamped = isTimestamped(segments);
+  // Timestamped paragraphs are edited in place, so exports are rebuilt from them
+  const exportText = timestamped ? formatTimestampedText(segments) : editableText;
+
+  // Renames both the turns and the "Name:" prefixes in the text, keeping the user's other edits
+  const handleRenameSpeaker = (from: string, to: string) => {
+    setSegments(prev => renameSpeaker(prev, from, to));
+    setEditableText(prev => renameSpeakerInDialogue(prev, from, to));
+  };
+
   const handleCopy = () => {
-    navigator.clipboard.writeText(editableText);
+    navigator.clipboard.writeText(exportText);
   };
 
-  const handleDownload = () => {
-    const blob = new Blob([editableText], { type: 'text/plain' });
+  const saveBlob = (blob: Blob, extension: string) => {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `transcription_${Date.now()}.txt`;
+    a.download = `transcription_${Date.now()}.${extension}`;
     a.click();
     URL.revokeObjectURL(url);
   };
 
+  const handleDownload = () => {
+    saveBlob(new Blob([exportText], { type: 'text/plain' }), 'txt');
+  };
+
+  const handleDownloadDocx = () => {
+    saveBlob(textToDocx('Transcription', exportText), 'docx');
+  };
+
+  const handleDownloadMarkdown = () => {
+    saveBlob(new Blob([formatTimestampedMarkdown(segments, 'Transcription')], { type: 'text/markdown' }), 'md');
+  };
+
+  const handleDownloadSrt = () => {
+    saveBlob(new Blob([formatTimestampedSrt(segments)], { type: 'text/plain' }), 'srt');
+  };
+
   const handleReset = () => {
     stopRecording(); // Safety stop
     setFile(null);
     setResult(null);
     setEditableText('');
+    setSegments([]);
     setProgress(0);
     setError(null);
     setRecordingDuration(0);
@@ -236,6 +286,7 @@ export const AudioToTextTool: React.FC = () => {
     // Result View
     return (
       <div className="max-w-4xl mx-auto px-4 py-12">
+        <CachedResultNotice storedAt={cachedAt} onRegenerate={handleRegenerate} className="mb-6" />
         <div className="flex justify-between items-center mb-8">
           <div className="flex items-center gap-3">
             <h1 className="text-3xl font-bold text-gray-900">Transcription</h1>
@@ -243,6 +294,7 @@ export const AudioToTextTool: React.FC = () => {
               <PenLine className="w-3 h-3 mr-1" />
               Editable
             </span>
+            <LanguageBadge detection={result.detectedLanguage} segments={segments} />
           </div>
           <div className="flex gap-2">
             <button 
@@ -259,6 +311,31 @@ export const AudioToTextTool: React.FC = () => {
             >
               <Download className="w-5 h-5" />
             </button>
+            {timestamped && (
+              <>
+                <button
+                  onClick={handleDownloadMarkdown}
+                  className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors border border-gray-200"
+                  title="Download Markdown"
+                >
+                  <FileCode className="w-5 h-5" />
+                </button>
+                <button
+                  onClick={handleDownloadSrt}
+                  className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors border border-gray-200"
+                  title="Download SRT"
+                >
+                  <Captions className="w-5 h-5" />
+                </button>
+              </>
+            )}
+            <button 
+              onClick={handleDownloadDocx}
+              className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors border border-gray-200"
+              title="Download Word document"
+            >
+              <FileDown className="w-5 h-5" />
+            </button>
             <button 
               onClick={handleReset}
               className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors border border-gray-200"
@@ -270,11 +347,26 @@ export const AudioToTextTool: React.FC = () => {
         </div>
 
         <div className="bg-white rounded-xl border border-blue-200 shadow-sm overflow-hidden">
-          <textarea
-            value={editableText}
-            onChange={(e) => setEditableText(e.target.value)}
-            className="w-full h-96 p-6 focus:outline-none focus:ring-2 focus:ring-blue-500/20 text-gray-700 text-lg leading-relaxed resize-none"
+          <SpeakerPanel
+            speakers={speakers.length > 1 ? speakers : []}
+            onRename={handleRenameSpeaker}
+            className="border-b border-gray-100"
           />
+          {timestamped && file ? (
+            <TimestampedTranscript
+              file={file}
+              kind={file.type.startsWith('video/') ? 'video' : 'audio'}
+              segments={segments}
+              mainLanguage={result.detectedLanguage?.code}
+              onChange={setSegments}
+            />
+          ) : (
+            <textarea
+              value={editableText}
+              onChange={(e) => setEditableText(e.target.value)}
+              className="w-full h-96 p-6 focus:outline-none focus:ring-2 focus:ring-blue-500/20 text-gray-700 text-lg leading-relaxed resize-none"
+            />
+          )}
         </div>
       </div>
     );
@@ -347,7 +439,7 @@ export const AudioToTextTool: React.FC = () => {
             ) : (
                 <>
                     <h3 className="text-xl font-bold text-gray-900 mb-2">Click to upload or drag and drop</h3>
-                    <p className="text-gray-500 mb-8">MP3, WAV, MP4, MOV (Max 25MB)</p>
+                    <p className="text-gray-500 mb-8">MP3, WAV, MP4, MOV (Max {MAX_LONG_MEDIA_MB}MB)</p>
                     <button 
                       onClick={() => fileInputRef.current?.click()}
                       className="px-6 py-2 border border-gray-300 rounded-lg text-gray-700 bg-white hover:bg-gray-50 font-medium transition-colors"
@@ -438,7 +530,7 @@ export const AudioToTextTool: React.FC = () => {
       {/* Error Message */}
       {error && (
         <div className="mt-4 p-4 bg-red-50 text-red-700 rounded-lg text-center text-sm border border-red-100 animate-in fade-in slide-in-from-top-2">
-            <strong>Error: </strong>{error}
+            <strong>Error: </strong><ErrorMessage error={error} />
         </div>
       )}
 
@@ -454,13 +546,17 @@ export const AudioToTextTool: React.FC = () => {
             <p className="text-sm text-center text-gray-500 animate-pulse">
                 {progress < 100 ? 'Processing your audio... (This may take a minute)' : 'Finalizing...'}
             </p>
+            <CancelButton onCancel={job.cancel} />
          </div>
       )}
 
       {/* Action Button */}
       <div className="mt-8">
+        <TranscriptModeToggle mode={mode} onChange={setMode} disabled={isProcessing} />
+      </div>
+      <div className="mt-4">
         <button
-          onClick={handleTranscribe}
+          onClick={() => handleTranscribe()}
           disabled={!file || isProcessing}
           className={`w-full py-4 rounded-xl text-lg font-bold transition-all transform active:scale-[0.99] shadow-lg ${
             !file || isProcessing
@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { Database, Trash2, Loader2 } from 'lucide-react';
+import {
+  CacheEntryInfo,
+  CACHE_OPERATION_LABELS,
+  listCacheEntries,
+  deleteCacheEntry,
+  clearResultCache,
+} from '../services/resultCache';
+
+interface CachePanelProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+// Settings card listing stored AI results, with their total size and ways to drop them
+export const CachePanel: React.FC<CachePanelProps> = ({ enabled, onEnabledChange }) => {
+  const [entries, setEntries] = useState<CacheEntryInfo[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setEntries(await listCacheEntries());
+      setLoadError(null);
+    } catch (e) {
+      console.error(e);
+      setEntries([]);
+      setLoadError('The cache is not available in this browser (private browsing can disable it).');
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleDelete = async (key: string) => {
+    await deleteCacheEntry(key);
+    refresh();
+  };
+
+  const handleClear = async () => {
+    await clearResultCache();
+    refresh();
+  };
+
+  const totalSize = (entries ?? []).reduce((sum, entry) => sum + entry.size, 0);
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6 mt-6">
+      <h2 className="flex items-center font-semibold text-gray-900 mb-1">
+        <Database className="w-4 h-4 mr-2 text-gray-400" />
+        Result cache
+      </h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Results are stored in this browser and reused when the same file is processed again with the same model and language, so repeat runs cost nothing. Each tool offers Regenerate to ask again.
+      </p>
+
+      <label className="flex items-center text-sm text-gray-700 mb-4">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          className="mr-2 rounded border-gray-300"
+        />
+        Reuse stored results for identical requests
+      </label>
+
+      {entries === null ? (
+        <p className="flex items-center text-sm text-gray-400">
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" /> Reading cache...
+        </p>
+      ) : (
+        <>
+          <div className="flex items-center justify-between text-sm mb-3">
+            <span className="text-gray-600">
+              {entries.length} stored result{entries.length === 1 ? '' : 's'} · {formatBytes(totalSize)}
+            </span>
+            <button
+              onClick={handleClear}
+              disabled={entries.length === 0}
+              className="px-3 py-1.5 rounded-lg text-sm font-medium text-red-600 hover:bg-red-50 disabled:opacity-50"
+            >
+              Clear cache
+            </button>
+          </div>
+
+          {entries.length > 0 && (
+            <ul className="divide-y divide-gray-100 border border-gray-100 rounded-lg max-h-72 overflow-y-auto">
+              {entries.map(entry => (
+                <li key={entry.key} className="flex items-center justify-between px-3 py-2 text-sm">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-800 truncate">{entry.sourceName}</p>
+                    <p className="text-xs text-gray-500">
+                      {CACHE_OPERATION_LABELS[entry.operation]}
+                      {entry.language ? ` · ${entry.language}` : ''} · {entry.model} · {new Date(entry.createdAt).toLocaleDateString()} · {formatBytes(entry.size)}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleDelete(entry.key)}
+                    className="ml-3 p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded"
+                    title="Remove from cache"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+
+      {loadError && <p className="text-xs text-red-600 mt-2">{loadError}</p>}
+    </div>
+  );
+};
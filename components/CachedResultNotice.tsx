@@ -0,0 +1,30 @@
+import React from 'react';
+import { Database, RefreshCw } from 'lucide-react';
+
+interface CachedResultNoticeProps {
+  storedAt: number | null; // when the reused result was stored; null hides the notice
+  onRegenerate: () => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Tells the user a result came from the cache instead of a new request, with a way to ask again
+export const CachedResultNotice: React.FC<CachedResultNoticeProps> = ({ storedAt, onRegenerate, disabled, className = '' }) => {
+  if (storedAt === null) return null;
+  return (
+    <div className={`flex items-center justify-between gap-3 px-3 py-2 text-xs text-gray-600 bg-gray-50 border border-gray-200 rounded-lg ${className}`}>
+      <span className="flex items-center">
+        <Database className="w-3.5 h-3.5 mr-1.5 text-gray-400" />
+        Loaded from cache, stored {new Date(storedAt).toLocaleString()}
+      </span>
+      <button
+        onClick={onRegenerate}
+        disabled={disabled}
+        className="flex items-center font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50"
+      >
+        <RefreshCw className="w-3.5 h-3.5 mr-1" />
+        Regenerate
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,19 @@
+import React from 'react';
+import { X } from 'lucide-react';
+
+interface CancelButtonProps {
+  onCancel: () => void;
+  label?: string;
+  className?: string;
+}
+
+// Shown under a running job's progress bar
+export const CancelButton: React.FC<CancelButtonProps> = ({ onCancel, label = 'Cancel', className = '' }) => (
+  <button
+    onClick={onCancel}
+    className={`mx-auto flex items-center px-4 py-1.5 text-sm font-medium text-gray-600 border border-gray-300 rounded-lg bg-white hover:bg-red-50 hover:text-red-600 hover:border-red-200 transition-colors ${className}`}
+  >
+    <X className="w-4 h-4 mr-1.5" />
+    {label}
+  </button>
+);
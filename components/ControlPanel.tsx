@@ -1,12 +1,14 @@
 import React from 'react';
 import { SubtitleStyle } from '../types';
+import { DEFAULT_HIGHLIGHT_COLOR } from '../utils/wordTiming';
 
 interface ControlPanelProps {
   config: SubtitleStyle;
   onChange: (newConfig: SubtitleStyle) => void;
+  title?: string;
 }
 
-export const ControlPanel: React.FC<ControlPanelProps> = ({ config, onChange }) => {
+export const ControlPanel: React.FC<ControlPanelProps> = ({ config, onChange, title = 'Customization' }) => {
   
   const handleChange = (key: keyof SubtitleStyle, value: any) => {
     onChange({ ...config, [key]: value });
@@ -14,7 +16,7 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({ config, onChange })
 
   return (
     <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
-      <h3 className="text-lg font-semibold mb-4 text-gray-900">Customization</h3>
+      <h3 className="text-lg font-semibold mb-4 text-gray-900">{title}</h3>
       
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         {/* Font Size */}
@@ -70,6 +72,27 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({ config, onChange })
         </div>
 
 
+        {/* Word Highlight (karaoke) */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Word Highlight</label>
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={!!config.highlightColor}
+              onChange={(e) => handleChange('highlightColor', e.target.checked ? DEFAULT_HIGHLIGHT_COLOR : undefined)}
+              className="rounded border-gray-300"
+              title="Colour each word as it is spoken"
+            />
+            <input 
+              type="color" 
+              value={config.highlightColor ?? DEFAULT_HIGHLIGHT_COLOR}
+              disabled={!config.highlightColor}
+              onChange={(e) => handleChange('highlightColor', e.target.value)}
+              className="h-9 w-full rounded border border-gray-300 cursor-pointer p-1 disabled:opacity-40 disabled:cursor-not-allowed"
+            />
+          </div>
+        </div>
+
         {/* Position */}
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">Position</label>
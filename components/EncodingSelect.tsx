@@ -0,0 +1,63 @@
+import React from 'react';
+import {
+  TEXT_ENCODINGS,
+  EXPORT_ENCODINGS,
+  TextEncodingId,
+  ExportEncodingId,
+  EncodingDetection,
+  getEncodingLabel,
+} from '../utils/encodingHelpers';
+
+type SourceEncoding = TextEncodingId | 'auto';
+
+interface SourceEncodingSelectProps {
+  value: SourceEncoding;
+  detected: EncodingDetection | null;
+  onChange: (encoding: SourceEncoding) => void;
+  className?: string;
+}
+
+// Shows what the sniffer picked for an uploaded file and lets the user override it
+export const SourceEncodingSelect: React.FC<SourceEncodingSelectProps> = ({ value, detected, onChange, className = '' }) => {
+  const autoLabel = detected
+    ? `Auto-detect: ${getEncodingLabel(detected.encoding)}${detected.confident ? '' : ' (best guess)'}`
+    : 'Auto-detect';
+
+  return (
+    <label className={`block text-sm ${className}`}>
+      <span className="block font-medium text-gray-700 mb-1">File Encoding</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as SourceEncoding)}
+        className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 py-2 pl-3 pr-8 text-sm"
+      >
+        <option value="auto">{autoLabel}</option>
+        {TEXT_ENCODINGS.map(encoding => (
+          <option key={encoding.id} value={encoding.id}>{encoding.label}</option>
+        ))}
+      </select>
+      {detected && !detected.confident && value === 'auto' && (
+        <span className="block text-xs text-gray-500 mt-1">If accents or symbols look wrong, pick the encoding manually.</span>
+      )}
+    </label>
+  );
+};
+
+interface ExportEncodingSelectProps {
+  value: ExportEncodingId;
+  onChange: (encoding: ExportEncodingId) => void;
+  className?: string;
+}
+
+export const ExportEncodingSelect: React.FC<ExportEncodingSelectProps> = ({ value, onChange, className = '' }) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(e.target.value as ExportEncodingId)}
+    title="Text encoding of the exported file"
+    className={`rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 py-2 pl-3 pr-8 text-sm ${className}`}
+  >
+    {EXPORT_ENCODINGS.map(encoding => (
+      <option key={encoding.id} value={encoding.id}>{encoding.label}</option>
+    ))}
+  </select>
+);
@@ -0,0 +1,22 @@
+import React from 'react';
+import { AiRequestError } from '../services/requestRunner';
+
+export type ToolError = string | Error;
+
+interface ErrorMessageProps {
+  error: ToolError;
+}
+
+// Message text for an error state, plus the remediation hint when the error came from an AI request.
+// Rendered inside each tool's own error box so the surrounding styling stays tool-specific.
+export const ErrorMessage: React.FC<ErrorMessageProps> = ({ error }) => {
+  if (typeof error === 'string') return <>{error}</>;
+  return (
+    <>
+      {error.message}
+      {error instanceof AiRequestError && error.hint && (
+        <span className="block mt-1 text-xs opacity-80">{error.hint}</span>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,65 @@
+import React from 'react';
+import { BookOpen, AlertTriangle, CheckCircle } from 'lucide-react';
+import { GlossaryViolation, TranslationGlossary } from '../types';
+import { isGlossaryEmpty } from '../utils/glossaryHelpers';
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+interface GlossaryNoticeProps {
+  glossary: TranslationGlossary;
+  className?: string;
+}
+
+// Which glossary entries the next translation will be asked to follow
+export const GlossaryNotice: React.FC<GlossaryNoticeProps> = ({ glossary, className = '' }) => (
+  <p className={`text-xs text-gray-500 flex items-center ${className}`}>
+    <BookOpen className="w-3 h-3 mr-1.5 flex-shrink-0" />
+    {isGlossaryEmpty(glossary)
+      ? 'No glossary terms for this language pair. Add them under Settings → Translation glossary.'
+      : `Glossary: ${plural(glossary.terms.length, 'term')} and ${plural(glossary.doNotTranslate.length, 'do-not-translate name')} will be enforced.`}
+  </p>
+);
+
+interface GlossaryViolationsProps {
+  glossary: TranslationGlossary;
+  violations: GlossaryViolation[];
+  unit: 'Cue' | 'Paragraph';
+  className?: string;
+}
+
+export const describeViolation = (violation: GlossaryViolation) =>
+  violation.kind === 'doNotTranslate'
+    ? `"${violation.term}" should stay untranslated`
+    : `"${violation.term}" should be translated as "${violation.expected}"`;
+
+// Result of checking a translation against the glossary it was given
+export const GlossaryViolations: React.FC<GlossaryViolationsProps> = ({ glossary, violations, unit, className = '' }) => {
+  if (isGlossaryEmpty(glossary)) return null;
+
+  if (violations.length === 0) {
+    return (
+      <p className={`text-sm text-green-700 flex items-center ${className}`}>
+        <CheckCircle className="w-4 h-4 mr-2" />
+        All glossary terms were followed.
+      </p>
+    );
+  }
+
+  const units = new Set(violations.map(v => v.cueId)).size;
+  return (
+    <div className={`p-4 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-900 ${className}`}>
+      <p className="font-medium flex items-center mb-2">
+        <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0" />
+        {plural(units, unit.toLowerCase())} did not follow the glossary
+      </p>
+      <ul className="space-y-1 max-h-40 overflow-y-auto">
+        {violations.map((violation, index) => (
+          <li key={index}>
+            <span className="font-mono text-xs text-amber-700 mr-2">{unit} {violation.cueId}</span>
+            {describeViolation(violation)}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,255 @@
+import React, { useRef, useState } from 'react';
+import { BookOpen, Plus, Trash2, Upload, Download, X } from 'lucide-react';
+import { Glossary, GlossaryTerm } from '../types';
+import { loadGlossary, saveGlossary } from '../services/glossaryStore';
+import {
+  LanguagePair,
+  formatGlossaryCsv,
+  formatGlossaryTbx,
+  mergeGlossaries,
+  newTermId,
+  parseGlossaryCsv,
+  parseGlossaryTbx,
+} from '../utils/glossaryHelpers';
+import { readTextFile } from '../utils/encodingHelpers';
+import { KNOWN_LANGUAGES, languageName } from '../utils/languageHelpers';
+
+const inputClass = 'w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const samePair = (term: GlossaryTerm, pair: LanguagePair) =>
+  term.sourceLanguage === pair.sourceLanguage && term.targetLanguage === pair.targetLanguage;
+
+const downloadText = (text: string, type: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// Settings card for approved translations of product and brand terms, per language pair, and
+// names that stay untranslated. Every translation tool sends the matching entries with its requests.
+export const GlossaryPanel: React.FC = () => {
+  const [glossary, setGlossary] = useState<Glossary>(loadGlossary);
+  const [pair, setPair] = useState<LanguagePair>({ sourceLanguage: 'en', targetLanguage: 'es' });
+  const [draft, setDraft] = useState({ source: '', target: '' });
+  const [dntDraft, setDntDraft] = useState('');
+  const [importMessage, setImportMessage] = useState<{ error: boolean; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (next: Glossary) => {
+    setGlossary(next);
+    saveGlossary(next);
+  };
+
+  const pairTerms = glossary.terms.filter(t => samePair(t, pair));
+  const isEmpty = glossary.terms.length === 0 && glossary.doNotTranslate.length === 0;
+
+  // Pairs that already have terms, so switching between them is one click
+  const pairCounts = new Map<string, number>();
+  glossary.terms.forEach(t => {
+    const key = `${t.sourceLanguage}|${t.targetLanguage}`;
+    pairCounts.set(key, (pairCounts.get(key) ?? 0) + 1);
+  });
+
+  const addTerm = () => {
+    const source = draft.source.trim();
+    const target = draft.target.trim();
+    if (!source || !target) return;
+    // A term already in the pair gets the new translation instead of a second entry
+    const others = glossary.terms.filter(t => !(samePair(t, pair) && t.source.toLowerCase() === source.toLowerCase()));
+    update({ ...glossary, terms: [...others, { id: newTermId(), ...pair, source, target }] });
+    setDraft({ source: '', target: '' });
+  };
+
+  const updateTerm = (id: string, field: 'source' | 'target', value: string) =>
+    update({ ...glossary, terms: glossary.terms.map(t => (t.id === id ? { ...t, [field]: value } : t)) });
+
+  const removeTerm = (id: string) => update({ ...glossary, terms: glossary.terms.filter(t => t.id !== id) });
+
+  const addDoNotTranslate = () => {
+    const term = dntDraft.trim();
+    if (!term) return;
+    if (!glossary.doNotTranslate.some(t => t.toLowerCase() === term.toLowerCase())) {
+      update({ ...glossary, doNotTranslate: [...glossary.doNotTranslate, term] });
+    }
+    setDntDraft('');
+  };
+
+  const removeDoNotTranslate = (term: string) =>
+    update({ ...glossary, doNotTranslate: glossary.doNotTranslate.filter(t => t !== term) });
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { text } = await readTextFile(file);
+      const isTbx = /\.(tbx|xml)$/i.test(file.name) || text.trimStart().startsWith('<');
+      // CSV rows without language columns belong to the pair being edited
+      const imported = isTbx ? parseGlossaryTbx(text) : parseGlossaryCsv(text, pair);
+      update(mergeGlossaries(glossary, imported));
+      setImportMessage({
+        error: false,
+        text: `Imported ${imported.terms.length} term${imported.terms.length === 1 ? '' : 's'} and ${imported.doNotTranslate.length} do-not-translate name${imported.doNotTranslate.length === 1 ? '' : 's'} from ${file.name}.`,
+      });
+    } catch (err) {
+      console.error(err);
+      setImportMessage({ error: true, text: err instanceof Error ? err.message : 'The glossary could not be imported.' });
+    }
+  };
+
+  const languageSelect = (value: string, onChange: (code: string) => void, label: string) => (
+    <label className="block">
+      <span className="block text-xs font-medium text-gray-500 mb-1">{label}</span>
+      <select value={value} onChange={(e) => onChange(e.target.value)} className={inputClass}>
+        {KNOWN_LANGUAGES.map(lang => (
+          <option key={lang.code} value={lang.code}>{lang.name}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6 mt-6">
+      <h2 className="flex items-center font-semibold text-gray-900 mb-1">
+        <BookOpen className="w-4 h-4 mr-2 text-gray-400" />
+        Translation glossary
+      </h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Approved translations of product and brand terms are sent with every subtitle, audio and video translation, and
+        the result is checked against them. Do-not-translate names are kept exactly as written in every language.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-3 py-1.5 rounded-lg text-sm font-medium border border-gray-300 text-gray-700 hover:bg-gray-50 flex items-center"
+        >
+          <Upload className="w-4 h-4 mr-2" /> Import CSV/TBX
+        </button>
+        <input ref={fileInputRef} type="file" accept=".csv,.tsv,.txt,.tbx,.xml" onChange={handleImport} className="hidden" />
+        <button
+          onClick={() => downloadText('\uFEFF' + formatGlossaryCsv(glossary), 'text/csv', 'glossary.csv')}
+          disabled={isEmpty}
+          className="px-3 py-1.5 rounded-lg text-sm font-medium border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50 flex items-center"
+        >
+          <Download className="w-4 h-4 mr-2" /> CSV
+        </button>
+        <button
+          onClick={() => downloadText(formatGlossaryTbx(glossary), 'application/x-tbx+xml', 'glossary.tbx')}
+          disabled={isEmpty}
+          className="px-3 py-1.5 rounded-lg text-sm font-medium border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50 flex items-center"
+        >
+          <Download className="w-4 h-4 mr-2" /> TBX
+        </button>
+      </div>
+      {importMessage && (
+        <p className={`text-xs mb-4 ${importMessage.error ? 'text-red-600' : 'text-green-700'}`}>{importMessage.text}</p>
+      )}
+
+      <div className="grid grid-cols-2 gap-3 mb-3">
+        {languageSelect(pair.sourceLanguage, (sourceLanguage) => setPair({ ...pair, sourceLanguage }), 'Source language')}
+        {languageSelect(pair.targetLanguage, (targetLanguage) => setPair({ ...pair, targetLanguage }), 'Target language')}
+      </div>
+
+      {pairCounts.size > 0 && (
+        <div className="flex flex-wrap gap-1.5 mb-3">
+          {[...pairCounts.entries()].map(([key, count]) => {
+            const [sourceLanguage, targetLanguage] = key.split('|');
+            const active = sourceLanguage === pair.sourceLanguage && targetLanguage === pair.targetLanguage;
+            return (
+              <button
+                key={key}
+                onClick={() => setPair({ sourceLanguage, targetLanguage })}
+                className={`px-2 py-0.5 rounded-full text-xs font-medium ${active ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+              >
+                {languageName(sourceLanguage)} → {languageName(targetLanguage)} ({count})
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="border border-gray-100 rounded-lg mb-6">
+        {pairTerms.length > 0 && (
+          <ul className="divide-y divide-gray-100 max-h-72 overflow-y-auto">
+            {pairTerms.map(term => (
+              <li key={term.id} className="flex items-center gap-2 px-3 py-2">
+                <input value={term.source} onChange={(e) => updateTerm(term.id, 'source', e.target.value)} className={inputClass} />
+                <span className="text-gray-400">→</span>
+                <input value={term.target} onChange={(e) => updateTerm(term.id, 'target', e.target.value)} className={inputClass} />
+                <button
+                  onClick={() => removeTerm(term.id)}
+                  className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded"
+                  title="Remove term"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            addTerm();
+          }}
+          className={`flex items-center gap-2 px-3 py-2 ${pairTerms.length > 0 ? 'border-t border-gray-100 bg-gray-50' : ''}`}
+        >
+          <input
+            value={draft.source}
+            onChange={(e) => setDraft({ ...draft, source: e.target.value })}
+            placeholder={`${languageName(pair.sourceLanguage)} term`}
+            className={inputClass}
+          />
+          <span className="text-gray-400">→</span>
+          <input
+            value={draft.target}
+            onChange={(e) => setDraft({ ...draft, target: e.target.value })}
+            placeholder={`${languageName(pair.targetLanguage)} translation`}
+            className={inputClass}
+          />
+          <button
+            type="submit"
+            disabled={!draft.source.trim() || !draft.target.trim()}
+            className="p-1.5 text-blue-600 hover:bg-blue-50 rounded disabled:opacity-40"
+            title="Add term"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </form>
+      </div>
+
+      <h3 className="text-sm font-medium text-gray-700 mb-2">Do not translate</h3>
+      <div className="flex flex-wrap gap-1.5 mb-2">
+        {glossary.doNotTranslate.map(term => (
+          <span key={term} className="inline-flex items-center pl-2.5 pr-1 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+            {term}
+            <button onClick={() => removeDoNotTranslate(term)} className="ml-1 p-0.5 rounded-full hover:bg-gray-200" title="Remove">
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        {glossary.doNotTranslate.length === 0 && <span className="text-xs text-gray-400">No names yet.</span>}
+      </div>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          addDoNotTranslate();
+        }}
+        className="flex gap-2"
+      >
+        <input value={dntDraft} onChange={(e) => setDntDraft(e.target.value)} placeholder="e.g. QuickScribe" className={inputClass} />
+        <button
+          type="submit"
+          disabled={!dntDraft.trim()}
+          className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          Add
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -3,20 +3,30 @@ import { FileUploader } from './FileUploader';
 import { VideoPlayer } from './VideoPlayer';
 import { ControlPanel } from './ControlPanel';
 import { Subtitle, SubtitleStyle } from '../types';
-import { generateSubtitlesFromVideo } from '../services/geminiService';
-import { parseSRT, generateSRT } from '../utils/srtHelpers';
+import { generateSubtitlesFromVideo } from '../services/aiProvider';
+import { parseSRT, generateSRT, parseSubtitleFile, SUBTITLE_FILE_ACCEPT } from '../utils/srtHelpers';
+import { readTextFile } from '../utils/encodingHelpers';
 import { burnSubtitles } from '../services/videoProcessor';
-import { Download, PlayCircle, Sparkles } from 'lucide-react';
+import { isAbortError, useAbortController } from '../utils/abortHelpers';
+import { CancelButton } from './CancelButton';
+import { ErrorMessage, ToolError } from './ErrorMessage';
+import { CachedResultNotice } from './CachedResultNotice';
+import { Download, PlayCircle, Sparkles, Layers, X } from 'lucide-react';
 
 export const HardcodeSubtitlesTool: React.FC = () => {
   const [videoFile, setVideoFile] = useState<File | null>(null);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
   const [subtitles, setSubtitles] = useState<Subtitle[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [generateProgress, setGenerateProgress] = useState(0);
+  const [error, setError] = useState<ToolError | null>(null);
   
   const [isExporting, setIsExporting] = useState(false);
   const [exportProgress, setExportProgress] = useState(0);
+  // Generating and exporting are separate jobs so each can be cancelled on its own
+  const generateJob = useAbortController();
+  const exportJob = useAbortController();
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
 
   const [styleConfig, setStyleConfig] = useState<SubtitleStyle>({
     fontSize: 24,
@@ -27,6 +37,20 @@ export const HardcodeSubtitlesTool: React.FC = () => {
     fontFamily: 'Inter, sans-serif',
   });
 
+  // Optional second track (e.g. a translation), burned in with its own style
+  const [secondarySubtitles, setSecondarySubtitles] = useState<Subtitle[]>([]);
+  const [secondaryStyleConfig, setSecondaryStyleConfig] = useState<SubtitleStyle>({
+    fontSize: 20,
+    color: '#ffd54f',
+    backgroundColor: '#000000',
+    backgroundOpacity: 0.5,
+    position: 'top',
+    fontFamily: 'Inter, sans-serif',
+  });
+  const secondaryTrack = secondarySubtitles.length > 0
+    ? { subtitles: secondarySubtitles, config: secondaryStyleConfig }
+    : undefined;
+
   // Cleanup object URL
   useEffect(() => {
     return () => {
@@ -39,35 +63,56 @@ export const HardcodeSubtitlesTool: React.FC = () => {
     const url = URL.createObjectURL(file);
     setVideoUrl(url);
     setSubtitles([]); // Reset subtitles on new video
+    setSecondarySubtitles([]);
     setError(null);
   };
 
   const handleSubtitleSelect = async (file: File) => {
-    const text = await file.text();
+    const { text } = await readTextFile(file);
     try {
       const parsed = parseSRT(text);
       setSubtitles(parsed);
+      setCachedAt(null);
       setError(null);
     } catch (e) {
       setError("Invalid SRT file format.");
     }
   };
 
-  const handleAutoGenerate = async () => {
+  const handleSecondarySelect = async (file: File) => {
+    try {
+      const { text } = await readTextFile(file);
+      setSecondarySubtitles(parseSubtitleFile(text, file.name).subtitles);
+      setError(null);
+    } catch (e: any) {
+      setError(e.message || "Invalid subtitle file format.");
+    }
+  };
+
+  const handleAutoGenerate = async (regenerate = false) => {
     if (!videoFile) return;
     setIsGenerating(true);
+    setGenerateProgress(0);
     setError(null);
+    setCachedAt(null);
     
+    const signal = generateJob.start();
     try {
-      const generatedSubtitles = await generateSubtitlesFromVideo(videoFile);
+      const generatedSubtitles = await generateSubtitlesFromVideo(videoFile, undefined, {
+        signal,
+        regenerate,
+        onCacheHit: setCachedAt,
+        onProgress: setGenerateProgress,
+      });
       if (generatedSubtitles.length === 0) {
         setError("No speech detected or could not generate subtitles.");
       } else {
         setSubtitles(generatedSubtitles);
       }
     } catch (err: any) {
+      if (isAbortError(err)) return;
       console.error(err);
-      setError("Failed to generate subtitles. Please check your API Key or try a smaller video.");
+      setError(err instanceof Error ? err : "Failed to generate subtitles. Please check your API Key or try a smaller video.");
     } finally {
       setIsGenerating(false);
     }
@@ -89,12 +134,15 @@ export const HardcodeSubtitlesTool: React.FC = () => {
       setIsExporting(true);
       setExportProgress(0);
       
+      const signal = exportJob.start();
       try {
         const processedBlob = await burnSubtitles(
             videoFile, 
             subtitles, 
             styleConfig, 
-            (progress) => setExportProgress(progress)
+            (progress) => setExportProgress(progress),
+            secondaryTrack,
+            signal
         );
 
         const url = URL.createObjectURL(processedBlob);
@@ -121,6 +169,7 @@ export const HardcodeSubtitlesTool: React.FC = () => {
         document.body.removeChild(a);
         URL.revokeObjectURL(url);
       } catch (err) {
+        if (isAbortError(err)) return;
         console.error(err);
         setError("Failed to process video. Please ensure your browser supports video recording.");
       } finally {
@@ -192,7 +241,7 @@ export const HardcodeSubtitlesTool: React.FC = () => {
                         <p className="text-gray-600 text-sm mb-4">Use Gemini 2.5 Flash to automatically transcribe audio.</p>
                      </div>
                      <button
-                        onClick={handleAutoGenerate}
+                        onClick={() => handleAutoGenerate()}
                         disabled={isGenerating}
                         className={`w-full flex items-center justify-center px-4 py-3 border border-transparent text-base font-medium rounded-md text-white ${isGenerating ? 'bg-purple-400 cursor-not-allowed' : 'bg-purple-600 hover:bg-purple-700'} transition-colors shadow-md`}
                      >
@@ -202,17 +251,18 @@ export const HardcodeSubtitlesTool: React.FC = () => {
                                 <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                                 <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                              </svg>
-                             Generating...
+                             {generateProgress > 0 ? `Generating (${generateProgress}%)...` : 'Generating...'}
                            </>
                         ) : "Auto-Generate Subtitles"}
                      </button>
+                     {isGenerating && <CancelButton onCancel={generateJob.cancel} className="mt-3" />}
                 </div>
              </div>
 
              {error && (
                  <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded relative" role="alert">
                     <strong className="font-bold">Error: </strong>
-                    <span className="block sm:inline">{error}</span>
+                    <span className="block sm:inline"><ErrorMessage error={error} /></span>
                 </div>
              )}
 
@@ -222,6 +272,38 @@ export const HardcodeSubtitlesTool: React.FC = () => {
                     {subtitles.length} subtitle lines loaded.
                 </div>
              )}
+
+             {subtitles.length > 0 && (
+                <CachedResultNotice storedAt={cachedAt} onRegenerate={() => handleAutoGenerate(true)} disabled={isGenerating} />
+             )}
+
+             {subtitles.length > 0 && (
+                <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm">
+                    <div className="flex items-center mb-2">
+                        <Layers className="w-5 h-5 text-blue-600 mr-2" />
+                        <h3 className="font-semibold text-lg">Second Track (Optional)</h3>
+                    </div>
+                    <p className="text-gray-500 text-sm mb-4">Add a translation to burn dual subtitles, each with its own style.</p>
+                    {secondarySubtitles.length > 0 ? (
+                        <div className="flex items-center justify-between bg-blue-50 border border-blue-200 rounded-md p-3 text-blue-700 text-sm">
+                            <span>{secondarySubtitles.length} lines in the second track.</span>
+                            <button
+                                onClick={() => setSecondarySubtitles([])}
+                                className="flex items-center text-blue-700 hover:text-blue-900 font-medium"
+                            >
+                                <X className="w-4 h-4 mr-1" /> Remove
+                            </button>
+                        </div>
+                    ) : (
+                        <FileUploader
+                            accept={SUBTITLE_FILE_ACCEPT}
+                            onFileSelect={handleSecondarySelect}
+                            label=""
+                            buttonText="Upload Second Track"
+                        />
+                    )}
+                </div>
+             )}
           </div>
         )}
 
@@ -237,11 +319,19 @@ export const HardcodeSubtitlesTool: React.FC = () => {
                     videoUrl={videoUrl}
                     subtitles={subtitles}
                     styleConfig={styleConfig}
+                    secondaryTrack={secondaryTrack}
                 />
              </div>
 
              {/* Controls */}
-             <ControlPanel config={styleConfig} onChange={setStyleConfig} />
+             <ControlPanel
+                config={styleConfig}
+                onChange={setStyleConfig}
+                title={secondaryTrack ? 'First Track Style' : 'Customization'}
+             />
+             {secondaryTrack && (
+                <ControlPanel config={secondaryStyleConfig} onChange={setSecondaryStyleConfig} title="Second Track Style" />
+             )}
           </div>
         )}
 
@@ -298,6 +388,7 @@ export const HardcodeSubtitlesTool: React.FC = () => {
                             Rendering video ({Math.round(exportProgress)}%)... <br/>
                             <span className="text-red-500">Please keep this tab active to prevent video freezing.</span>
                         </p>
+                        <CancelButton onCancel={exportJob.cancel} />
                      </div>
                  )}
             </div>
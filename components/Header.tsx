@@ -1,11 +1,12 @@
 import React from 'react';
-import { Sparkles } from 'lucide-react';
+import { Sparkles, Settings } from 'lucide-react';
 
 interface HeaderProps {
   onLogoClick?: () => void;
+  onSettingsClick?: () => void;
 }
 
-export const Header: React.FC<HeaderProps> = ({ onLogoClick }) => {
+export const Header: React.FC<HeaderProps> = ({ onLogoClick, onSettingsClick }) => {
   return (
     <header className="bg-white border-b border-gray-200 sticky top-0 z-50">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -16,6 +17,15 @@ export const Header: React.FC<HeaderProps> = ({ onLogoClick }) => {
               <span className="font-bold text-2xl tracking-tight text-gray-900">QuickScribe AI</span>
             </div>
           </div>
+          {onSettingsClick && (
+            <button
+              onClick={onSettingsClick}
+              className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+              title="Settings"
+            >
+              <Settings className="w-5 h-5" />
+            </button>
+          )}
         </div>
       </div>
     </header>
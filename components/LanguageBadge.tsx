@@ -0,0 +1,32 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { LanguageDetection, TranscriptSegment } from '../types';
+import { formatDetection, languageMix, LOW_CONFIDENCE } from '../utils/languageHelpers';
+
+interface LanguageBadgeProps {
+  detection?: LanguageDetection;
+  segments?: TranscriptSegment[]; // per-segment languages reveal mixed recordings
+}
+
+// "English (97%)", plus the share of each language when the speakers switch between them
+export const LanguageBadge: React.FC<LanguageBadgeProps> = ({ detection, segments = [] }) => {
+  const mix = languageMix(segments);
+  if (!detection && mix.length === 0) return null;
+  const label = detection ? formatDetection(detection) : mix[0].name;
+  const lowConfidence = detection?.confidence !== undefined && detection.confidence < LOW_CONFIDENCE;
+
+  return (
+    <span
+      className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${lowConfidence ? 'bg-amber-100 text-amber-800' : 'bg-gray-100 text-gray-700'}`}
+      title={detection ? `ISO 639: ${detection.code}` : undefined}
+    >
+      <Languages className="w-3 h-3 mr-1" />
+      {label}
+      {mix.length > 1 && (
+        <span className="ml-1 text-gray-500">
+          · mixed: {mix.map(part => `${part.name} ${Math.round(part.share * 100)}%`).join(', ')}
+        </span>
+      )}
+    </span>
+  );
+};
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { QcIssue, QcRules, QC_PRESETS, findQcPreset, getQcPreset, QcPresetId } from '../utils/qcHelpers';
+import { ShieldCheck, AlertTriangle, AlertCircle, Wand2, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface QcPanelProps {
+  issues: QcIssue[];
+  rules: QcRules;
+  onRulesChange: (rules: QcRules) => void;
+  onFix: (issue: QcIssue) => void;
+  onFixAll: () => void;
+  onSelect?: (subtitleId: number) => void;
+}
+
+const RULE_FIELDS: { key: keyof QcRules; label: string; step: number }[] = [
+  { key: 'maxCps', label: 'Max CPS', step: 1 },
+  { key: 'maxLineLength', label: 'Max chars/line', step: 1 },
+  { key: 'maxLines', label: 'Max lines', step: 1 },
+  { key: 'minDuration', label: 'Min duration (s)', step: 0.1 },
+  { key: 'maxDuration', label: 'Max duration (s)', step: 0.5 },
+  { key: 'minGap', label: 'Min gap (s)', step: 0.01 },
+];
+
+// Summary bar with the rule preset, counts and a collapsible list of every violation
+export const QcPanel: React.FC<QcPanelProps> = ({ issues, rules, onRulesChange, onFix, onFixAll, onSelect }) => {
+  const [expanded, setExpanded] = useState(false);
+  const preset = findQcPreset(rules);
+  const errors = issues.filter(i => i.severity === 'error').length;
+  const warnings = issues.length - errors;
+  const fixable = issues.filter(i => i.fixable).length;
+
+  return (
+    <div className="border-b border-gray-100 bg-white">
+      <div className="p-3 flex flex-wrap items-center gap-3 text-sm">
+        <span className="flex items-center font-medium text-gray-700">
+          <ShieldCheck className={`w-4 h-4 mr-1.5 ${issues.length === 0 ? 'text-green-600' : 'text-amber-500'}`} />
+          QC
+        </span>
+        <select
+          value={preset ?? 'custom'}
+          onChange={(e) => e.target.value !== 'custom' && onRulesChange(getQcPreset(e.target.value as QcPresetId))}
+          className="rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 py-1 pl-2 pr-8 text-sm"
+        >
+          {QC_PRESETS.map(p => (
+            <option key={p.id} value={p.id}>{p.label}</option>
+          ))}
+          {!preset && <option value="custom">Custom</option>}
+        </select>
+
+        {issues.length === 0 ? (
+          <span className="text-green-600 font-medium">No issues</span>
+        ) : (
+          <>
+            {errors > 0 && <span className="text-red-600 font-medium">{errors} error{errors === 1 ? '' : 's'}</span>}
+            {warnings > 0 && <span className="text-amber-600 font-medium">{warnings} warning{warnings === 1 ? '' : 's'}</span>}
+          </>
+        )}
+
+        <div className="ml-auto flex items-center gap-2">
+          {fixable > 0 && (
+            <button
+              onClick={onFixAll}
+              className="flex items-center gap-1.5 px-3 py-1 bg-purple-50 hover:bg-purple-100 text-purple-700 rounded-lg border border-purple-200 text-xs font-medium transition-colors"
+              title="Apply every automatic fix"
+            >
+              <Wand2 className="w-3.5 h-3.5" /> Fix all ({fixable})
+            </button>
+          )}
+          <button
+            onClick={() => setExpanded(!expanded)}
+            className="p-1 text-gray-400 hover:text-gray-700 rounded transition-colors"
+            title={expanded ? 'Hide details' : 'Show rules and issues'}
+          >
+            {expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+          </button>
+        </div>
+      </div>
+
+      {expanded && (
+        <div className="px-3 pb-3 space-y-3">
+          <div className="grid grid-cols-3 gap-2">
+            {RULE_FIELDS.map(field => (
+              <label key={field.key} className="text-xs text-gray-500">
+                {field.label}
+                <input
+                  type="number"
+                  min={0}
+                  step={field.step}
+                  value={rules[field.key]}
+                  onChange={(e) => onRulesChange({ ...rules, [field.key]: Math.max(0, Number(e.target.value)) })}
+                  className="mt-0.5 w-full p-1 border border-gray-300 rounded text-sm font-mono"
+                />
+              </label>
+            ))}
+          </div>
+
+          {issues.length > 0 && (
+            <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100 border border-gray-100 rounded-lg scrollbar-thin">
+              {issues.map(issue => (
+                <li key={issue.id} className="flex items-center gap-2 px-2 py-1.5 text-xs">
+                  {issue.severity === 'error'
+                    ? <AlertCircle className="w-3.5 h-3.5 text-red-500 flex-shrink-0" />
+                    : <AlertTriangle className="w-3.5 h-3.5 text-amber-500 flex-shrink-0" />}
+                  <button
+                    onClick={() => onSelect?.(issue.subtitleId)}
+                    className="font-bold text-gray-500 hover:text-blue-600"
+                  >
+                    #{issue.subtitleId}
+                  </button>
+                  <span className="text-gray-700 truncate">{issue.message}</span>
+                  {issue.fixable && (
+                    <button
+                      onClick={() => onFix(issue)}
+                      className="ml-auto text-purple-600 hover:text-purple-800 font-medium"
+                    >
+                      Fix
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface QcBadgesProps {
+  issues: QcIssue[];
+  onFix: (issue: QcIssue) => void;
+}
+
+// Inline badges for one cue; fixable ones apply their fix on click
+export const QcBadges: React.FC<QcBadgesProps> = ({ issues, onFix }) => {
+  if (issues.length === 0) return null;
+  return (
+    <div className="flex flex-wrap gap-1.5 mt-2">
+      {issues.map(issue => {
+        const color = issue.severity === 'error'
+          ? 'bg-red-50 text-red-700 border-red-200'
+          : 'bg-amber-50 text-amber-700 border-amber-200';
+        return (
+          <span key={issue.id} className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full border text-xs ${color}`}>
+            {issue.message}
+            {issue.fixable && (
+              <button
+                onClick={(e) => { e.stopPropagation(); onFix(issue); }}
+                className="ml-1 inline-flex items-center font-medium underline hover:no-underline"
+                title="Fix automatically"
+              >
+                <Wand2 className="w-3 h-3 mr-0.5" /> Fix
+              </button>
+            )}
+          </span>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,425 @@
+import React, { useState } from 'react';
+import { Server, Cpu, FlaskConical, CheckCircle2, Eye, EyeOff, Lock, Unlock, ShieldCheck, Loader2, XCircle } from 'lucide-react';
+import { ProviderId } from '../types';
+import { PROVIDERS, CAPABILITY_LABELS, getProvider } from '../services/aiProvider';
+import { validateGeminiKey } from '../services/geminiService';
+import { CachePanel } from './CachePanel';
+import { GlossaryPanel } from './GlossaryPanel';
+import {
+  ProviderSettings,
+  HttpProviderSettings,
+  GeminiSettings,
+  SafetyCategory,
+  SafetyThreshold,
+  SAFETY_CATEGORIES,
+  SAFETY_THRESHOLDS,
+  loadProviderSettings,
+  saveProviderSettings,
+  isEncryptionEnabled,
+  isSettingsLocked,
+  unlockSettings,
+  lockSettings,
+  enableEncryption,
+  disableEncryption,
+} from '../services/providerSettings';
+
+const PROVIDER_ICONS: Record<ProviderId, React.ElementType> = {
+  gemini: Cpu,
+  http: Server,
+  mock: FlaskConical,
+};
+
+const CUSTOM_MODEL = '__custom__';
+
+const THINKING_PRESETS: { value: number; label: string }[] = [
+  { value: 0, label: 'Off (fastest)' },
+  { value: -1, label: 'Dynamic (model decides)' },
+];
+const CUSTOM_BUDGET = 'custom';
+
+const inputClass = 'w-full border border-gray-300 rounded-lg px-3 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100';
+
+// Provider and model used by every AI tool; changes are saved immediately and apply to the next request
+export const SettingsScreen: React.FC = () => {
+  const [settings, setSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const provider = getProvider(settings.provider);
+  const model = settings.models[provider.id] || provider.defaultModel;
+  const isListedModel = provider.models.some(m => m.id === model);
+  const [customModel, setCustomModel] = useState(!isListedModel);
+  const [showKey, setShowKey] = useState(false);
+  const [validation, setValidation] = useState<{ valid: boolean; message: string } | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
+  const [encrypted, setEncrypted] = useState(isEncryptionEnabled);
+  const [locked, setLocked] = useState(isSettingsLocked);
+  const [passphrase, setPassphrase] = useState('');
+  const [passphraseConfirm, setPassphraseConfirm] = useState('');
+  const [vaultError, setVaultError] = useState<string | null>(null);
+  const [customBudget, setCustomBudget] = useState(!THINKING_PRESETS.some(p => p.value === settings.gemini.thinkingBudget));
+
+  const update = (next: ProviderSettings) => {
+    setSettings(next);
+    saveProviderSettings(next);
+  };
+
+  const selectProvider = (id: ProviderId) => {
+    const next = getProvider(id);
+    setCustomModel(!next.models.some(m => m.id === (settings.models[id] || next.defaultModel)));
+    update({ ...settings, provider: id });
+  };
+
+  const setModel = (id: string) => update({ ...settings, models: { ...settings.models, [provider.id]: id } });
+
+  const setHttp = (field: keyof HttpProviderSettings, value: string) =>
+    update({ ...settings, http: { ...settings.http, [field]: value } });
+
+  const setGemini = (changes: Partial<GeminiSettings>) => update({ ...settings, gemini: { ...settings.gemini, ...changes } });
+
+  const setSafety = (category: SafetyCategory, threshold: SafetyThreshold) =>
+    setGemini({ safety: { ...settings.gemini.safety, [category]: threshold } });
+
+  const handleValidate = async () => {
+    setIsValidating(true);
+    setValidation(null);
+    setValidation(await validateGeminiKey(settings.gemini.apiKey, model));
+    setIsValidating(false);
+  };
+
+  const refreshVault = () => {
+    setEncrypted(isEncryptionEnabled());
+    setLocked(isSettingsLocked());
+    setSettings(loadProviderSettings());
+    setPassphrase('');
+    setPassphraseConfirm('');
+  };
+
+  const handleUnlock = async () => {
+    if (await unlockSettings(passphrase)) {
+      setVaultError(null);
+      refreshVault();
+    } else {
+      setVaultError('Wrong passphrase.');
+    }
+  };
+
+  const handleEnableEncryption = async () => {
+    if (passphrase.length < 8) {
+      setVaultError('Use a passphrase of at least 8 characters.');
+      return;
+    }
+    if (passphrase !== passphraseConfirm) {
+      setVaultError('The passphrases do not match.');
+      return;
+    }
+    await enableEncryption(passphrase);
+    setVaultError(null);
+    refreshVault();
+  };
+
+  const handleDisableEncryption = async () => {
+    await disableEncryption();
+    refreshVault();
+  };
+
+  const handleLock = () => {
+    lockSettings();
+    refreshVault();
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-12">
+      <h1 className="text-3xl font-bold text-center text-gray-900 mb-2">Settings</h1>
+      <p className="text-center text-gray-500 mb-8">Choose which AI backend the transcription, subtitle, translation and summary tools use.</p>
+
+      <div className="space-y-3 mb-8">
+        {PROVIDERS.map(p => {
+          const Icon = PROVIDER_ICONS[p.id];
+          const active = p.id === provider.id;
+          return (
+            <button
+              key={p.id}
+              onClick={() => selectProvider(p.id)}
+              className={`w-full text-left p-4 rounded-xl border-2 transition-colors flex items-start ${active ? 'border-blue-500 bg-blue-50' : 'border-gray-200 bg-white hover:border-gray-300'}`}
+            >
+              <Icon className={`w-6 h-6 mr-3 mt-0.5 flex-shrink-0 ${active ? 'text-blue-600' : 'text-gray-400'}`} />
+              <div className="flex-1">
+                <div className="flex items-center font-semibold text-gray-900">
+                  {p.name}
+                  {active && <CheckCircle2 className="w-4 h-4 ml-2 text-blue-600" />}
+                </div>
+                <p className="text-sm text-gray-500 mt-0.5">{p.description}</p>
+                <div className="flex flex-wrap gap-1.5 mt-2">
+                  {p.capabilities.map(c => (
+                    <span key={c} className="text-xs px-2 py-0.5 rounded-full bg-white border border-gray-200 text-gray-600">
+                      {CAPABILITY_LABELS[c]}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="bg-white rounded-xl border border-gray-200 p-6 space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Model</label>
+          <select
+            value={customModel ? CUSTOM_MODEL : model}
+            onChange={(e) => {
+              if (e.target.value === CUSTOM_MODEL) {
+                setCustomModel(true);
+              } else {
+                setCustomModel(false);
+                setModel(e.target.value);
+              }
+            }}
+            className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {provider.models.map(m => (
+              <option key={m.id} value={m.id}>{m.label}</option>
+            ))}
+            <option value={CUSTOM_MODEL}>Custom model…</option>
+          </select>
+          {customModel && (
+            <input
+              type="text"
+              value={settings.models[provider.id] ?? ''}
+              onChange={(e) => setModel(e.target.value.trim())}
+              placeholder={provider.defaultModel}
+              className="mt-2 w-full border border-gray-300 rounded-lg px-3 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          )}
+        </div>
+
+        {provider.id === 'http' && (
+          <>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Server URL</label>
+              <input
+                type="url"
+                value={settings.http.baseUrl}
+                onChange={(e) => setHttp('baseUrl', e.target.value)}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <p className="text-xs text-gray-400 mt-1">The API root, ending before /audio/transcriptions and /chat/completions. The server must allow this site via CORS.</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Transcription model</label>
+              <input
+                type="text"
+                value={settings.http.transcriptionModel}
+                onChange={(e) => setHttp('transcriptionModel', e.target.value.trim())}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">API key (optional)</label>
+              <input
+                type="password"
+                value={settings.http.apiKey}
+                onChange={(e) => setHttp('apiKey', e.target.value.trim())}
+                disabled={locked}
+                placeholder={locked ? 'Locked - unlock below' : ''}
+                autoComplete="off"
+                className={inputClass}
+              />
+            </div>
+          </>
+        )}
+
+        {provider.id === 'gemini' && (
+          <>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Gemini API key</label>
+              <div className="flex gap-2">
+                <div className="relative flex-1">
+                  <input
+                    type={showKey ? 'text' : 'password'}
+                    value={settings.gemini.apiKey}
+                    onChange={(e) => {
+                      setValidation(null);
+                      setGemini({ apiKey: e.target.value.trim() });
+                    }}
+                    disabled={locked}
+                    placeholder={locked ? 'Locked - unlock below' : 'AIza...'}
+                    autoComplete="off"
+                    className={`${inputClass} pr-10`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowKey(!showKey)}
+                    className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-gray-400 hover:text-gray-600"
+                    title={showKey ? 'Hide key' : 'Show key'}
+                  >
+                    {showKey ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                  </button>
+                </div>
+                <button
+                  onClick={handleValidate}
+                  disabled={!settings.gemini.apiKey || isValidating}
+                  className="px-4 py-2 rounded-lg text-sm font-medium border border-gray-300 text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 flex items-center"
+                >
+                  {isValidating ? <Loader2 className="w-4 h-4 mr-1.5 animate-spin" /> : <ShieldCheck className="w-4 h-4 mr-1.5" />}
+                  Validate
+                </button>
+              </div>
+              {validation && (
+                <p className={`text-xs mt-1 flex items-center ${validation.valid ? 'text-green-600' : 'text-red-600'}`}>
+                  {validation.valid ? <CheckCircle2 className="w-3.5 h-3.5 mr-1" /> : <XCircle className="w-3.5 h-3.5 mr-1" />}
+                  {validation.message}
+                </p>
+              )}
+              <p className="text-xs text-gray-400 mt-1">Stored in this browser only and sent directly to Google.</p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Thinking budget</label>
+              <div className="flex gap-2">
+                <select
+                  value={customBudget ? CUSTOM_BUDGET : settings.gemini.thinkingBudget}
+                  onChange={(e) => {
+                    if (e.target.value === CUSTOM_BUDGET) {
+                      setCustomBudget(true);
+                      setGemini({ thinkingBudget: 1024 });
+                    } else {
+                      setCustomBudget(false);
+                      setGemini({ thinkingBudget: Number(e.target.value) });
+                    }
+                  }}
+                  className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {THINKING_PRESETS.map(p => (
+                    <option key={p.value} value={p.value}>{p.label}</option>
+                  ))}
+                  <option value={CUSTOM_BUDGET}>Fixed number of tokens…</option>
+                </select>
+                {customBudget && (
+                  <input
+                    type="number"
+                    min={1}
+                    max={32768}
+                    step={256}
+                    value={settings.gemini.thinkingBudget}
+                    onChange={(e) => setGemini({ thinkingBudget: Math.max(1, Math.round(Number(e.target.value) || 1)) })}
+                    className="w-32 border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                )}
+              </div>
+              <p className="text-xs text-gray-400 mt-1">Thinking can improve summaries and translations but makes every request slower. Pro models always think.</p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Safety filters</label>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {SAFETY_CATEGORIES.map(c => (
+                  <div key={c.id}>
+                    <span className="block text-xs text-gray-500 mb-1">{c.label}</span>
+                    <select
+                      value={settings.gemini.safety[c.id]}
+                      onChange={(e) => setSafety(c.id, e.target.value as SafetyThreshold)}
+                      className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {SAFETY_THRESHOLDS.map(t => (
+                        <option key={t.id} value={t.id}>{t.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+
+        {provider.id === 'mock' && (
+          <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-3">
+            Results are placeholder text derived from the file name and size. Use this to try the tools offline, not for real work.
+          </p>
+        )}
+      </div>
+
+      {provider.id !== 'mock' && (
+        <div className="bg-white rounded-xl border border-gray-200 p-6 mt-6">
+          <h2 className="flex items-center font-semibold text-gray-900 mb-1">
+            {locked ? <Lock className="w-4 h-4 mr-2 text-amber-500" /> : <Unlock className="w-4 h-4 mr-2 text-gray-400" />}
+            Key encryption
+          </h2>
+          <p className="text-sm text-gray-500 mb-4">
+            {!encrypted
+              ? 'API keys are stored unencrypted in this browser. Set a passphrase to encrypt them; you will enter it once per session.'
+              : locked
+                ? 'Your API keys are encrypted. Enter your passphrase to use them in this session.'
+                : 'Your API keys are encrypted and unlocked for this session.'}
+          </p>
+
+          {encrypted && locked && (
+            <div className="flex gap-2">
+              <input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+                placeholder="Passphrase"
+                className={inputClass}
+              />
+              <button
+                onClick={handleUnlock}
+                disabled={!passphrase}
+                className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+              >
+                Unlock
+              </button>
+            </div>
+          )}
+
+          {encrypted && !locked && (
+            <div className="flex gap-2">
+              <button
+                onClick={handleLock}
+                className="px-4 py-2 rounded-lg text-sm font-medium border border-gray-300 text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Lock now
+              </button>
+              <button
+                onClick={handleDisableEncryption}
+                className="px-4 py-2 rounded-lg text-sm font-medium text-red-600 hover:bg-red-50"
+              >
+                Turn off encryption
+              </button>
+            </div>
+          )}
+
+          {!encrypted && (
+            <div className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto] gap-2">
+              <input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder="New passphrase"
+                className={inputClass}
+              />
+              <input
+                type="password"
+                value={passphraseConfirm}
+                onChange={(e) => setPassphraseConfirm(e.target.value)}
+                placeholder="Repeat passphrase"
+                className={inputClass}
+              />
+              <button
+                onClick={handleEnableEncryption}
+                disabled={!passphrase}
+                className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+              >
+                Encrypt keys
+              </button>
+            </div>
+          )}
+
+          {vaultError && <p className="text-xs text-red-600 mt-2">{vaultError}</p>}
+        </div>
+      )}
+
+      <CachePanel enabled={settings.cacheResults} onEnabledChange={(cacheResults) => update({ ...settings, cacheResults })} />
+      <GlossaryPanel />
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { detectMediaLanguage, detectSubtitleLanguage } from '../services/aiProvider';
+import { LanguageDetection, Subtitle } from '../types';
+import { isAbortError, useAbortController } from '../utils/abortHelpers';
+import { formatDetection, sameLanguage, LOW_CONFIDENCE } from '../utils/languageHelpers';
+
+export interface LanguageOption {
+  code: string; // whatever the tool passes to the provider: a name ("Spanish") or a code ("es")
+  name: string;
+}
+
+export const AUTO_DETECT = 'auto';
+
+// The option matching a detected language, or its plain name when the tool does not list it
+const optionFor = (languages: LanguageOption[], detection: LanguageDetection) =>
+  languages.find(l => sameLanguage(l.code, detection.code) || sameLanguage(l.name, detection.code))?.code ?? detection.name;
+
+// Identifies the language of a newly loaded file and pre-fills the source language with it.
+// A failed detection is not an error for the tool: the source simply stays on auto-detect.
+export function useSourceLanguage(languages: LanguageOption[], source: File | Subtitle[] | null) {
+  const [sourceLanguage, setSourceLanguage] = useState(AUTO_DETECT);
+  const [detection, setDetection] = useState<LanguageDetection | null>(null);
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [detectionFailed, setDetectionFailed] = useState(false);
+  const job = useAbortController();
+
+  useEffect(() => {
+    setSourceLanguage(AUTO_DETECT);
+    setDetection(null);
+    setDetectionFailed(false);
+    if (!source || (Array.isArray(source) && source.length === 0)) {
+      job.cancel();
+      setIsDetecting(false);
+      return;
+    }
+
+    const signal = job.start();
+    setIsDetecting(true);
+    const request = source instanceof File ? detectMediaLanguage(source, { signal }) : detectSubtitleLanguage(source, { signal });
+    request
+      .then(result => {
+        setDetection(result);
+        if (result) setSourceLanguage(optionFor(languages, result));
+        else setDetectionFailed(true);
+      })
+      .catch(err => {
+        if (isAbortError(err)) return;
+        console.warn('Language detection failed:', err);
+        setDetectionFailed(true);
+      })
+      .finally(() => {
+        if (!signal.aborted) setIsDetecting(false);
+      });
+  }, [source]);
+
+  return { sourceLanguage, setSourceLanguage, detection, isDetecting, detectionFailed };
+}
+
+interface SourceLanguageSelectProps {
+  languages: LanguageOption[];
+  value: string;
+  onChange: (value: string) => void;
+  detection: LanguageDetection | null;
+  isDetecting: boolean;
+  detectionFailed?: boolean;
+  disabled?: boolean;
+  className?: string;
+}
+
+export const SourceLanguageSelect: React.FC<SourceLanguageSelectProps> = ({
+  languages,
+  value,
+  onChange,
+  detection,
+  isDetecting,
+  detectionFailed,
+  disabled,
+  className = '',
+}) => {
+  // A detected language the tool does not list still has to be selectable
+  const options = value !== AUTO_DETECT && !languages.some(l => l.code === value)
+    ? [...languages, { code: value, name: value }]
+    : languages;
+
+  return (
+    <div className={className}>
+      <label className="block text-sm font-medium text-gray-700 mb-2">Source Language</label>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500 py-3 px-4 text-base"
+        disabled={disabled}
+      >
+        <option value={AUTO_DETECT}>Auto-detect</option>
+        {options.map(lang => (
+          <option key={lang.code} value={lang.code}>{lang.name}</option>
+        ))}
+      </select>
+      <p className="mt-1.5 text-xs text-gray-500 flex items-center min-h-[1rem]">
+        {isDetecting && (
+          <>
+            <Loader2 className="w-3 h-3 mr-1.5 animate-spin" />
+            Detecting language...
+          </>
+        )}
+        {!isDetecting && detection && (
+          <span className={detection.confidence !== undefined && detection.confidence < LOW_CONFIDENCE ? 'text-amber-600' : ''}>
+            Detected: {formatDetection(detection)}
+            {detection.confidence !== undefined && detection.confidence < LOW_CONFIDENCE && ' – low confidence, please check'}
+          </span>
+        )}
+        {!isDetecting && !detection && detectionFailed && 'Could not detect the language; it will be identified during translation.'}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import React, { useEffect, useState } from 'react';
+import { Users } from 'lucide-react';
+
+interface SpeakerPanelProps {
+  speakers: string[];
+  onRename: (from: string, to: string) => void;
+  labels?: boolean; // "Name: " prefixes in exports; the checkbox is hidden without onLabelsChange
+  onLabelsChange?: (labels: boolean) => void;
+  className?: string;
+}
+
+// Applied on blur or Enter, so typing a name does not rename on every keystroke
+const SpeakerNameInput: React.FC<{ name: string; onRename: (from: string, to: string) => void }> = ({ name, onRename }) => {
+  const [draft, setDraft] = useState(name);
+
+  useEffect(() => {
+    setDraft(name);
+  }, [name]);
+
+  const commit = () => {
+    const next = draft.trim();
+    if (next && next !== name) onRename(name, next);
+    else setDraft(name);
+  };
+
+  return (
+    <input
+      type="text"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+      className="w-32 px-2 py-1 text-sm border border-gray-300 rounded-lg focus:border-blue-500 focus:ring-blue-500"
+      title={`Rename ${name} everywhere`}
+    />
+  );
+};
+
+// Lists the detected speakers with an editable name each. Renaming to an existing name merges the two.
+export const SpeakerPanel: React.FC<SpeakerPanelProps> = ({ speakers, onRename, labels, onLabelsChange, className = '' }) => {
+  if (speakers.length === 0) return null;
+  return (
+    <div className={`p-3 flex flex-wrap items-center gap-2 text-sm ${className}`}>
+      <span className="flex items-center font-medium text-gray-700 mr-1">
+        <Users className="w-4 h-4 mr-1.5 text-gray-400" />
+        Speakers
+      </span>
+      {speakers.map((name, index) => (
+        <SpeakerNameInput key={index} name={name} onRename={onRename} />
+      ))}
+      {onLabelsChange && (
+        <label className="ml-auto flex items-center text-xs text-gray-600">
+          <input
+            type="checkbox"
+            checked={!!labels}
+            onChange={(e) => onLabelsChange(e.target.checked)}
+            className="mr-1.5 rounded border-gray-300"
+          />
+          Speaker names in SRT export
+        </label>
+      )}
+    </div>
+  );
+};
@@ -1,58 +1,188 @@
 
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { FileUploader } from './FileUploader';
-import { parseSRT, generateSRT, generateVTT } from '../utils/srtHelpers';
-import { Subtitle } from '../types';
-import { Clock, Download, ArrowRight, RefreshCw, AlertCircle, CheckCircle } from 'lucide-react';
+import { parseSubtitleFile, convertSubtitles, timeToSeconds, SUBTITLE_FILE_ACCEPT, FRAME_RATES, FrameRateId } from '../utils/srtHelpers';
+import {
+  TimeMapping,
+  SyncPoint,
+  applyMapping,
+  twoPointMapping,
+  frameRateMapping,
+  piecewiseTime,
+  normalizeSyncPoints,
+  retimeSubtitles,
+  FRAME_RATE_CONVERSIONS,
+} from '../utils/resyncHelpers';
+import { readTextFile, TextEncodingId, ExportEncodingId, EncodingDetection } from '../utils/encodingHelpers';
+import { SourceEncodingSelect, ExportEncodingSelect } from './EncodingSelect';
+import { Subtitle, AssDocument, VttDocument } from '../types';
+import { Clock, Download, ArrowRight, RefreshCw, AlertCircle, CheckCircle, Plus, X } from 'lucide-react';
+
+type SyncMode = 'offset' | 'two-point' | 'framerate' | 'anchors';
+
+const SYNC_MODES: { id: SyncMode; label: string }[] = [
+  { id: 'offset', label: 'Offset' },
+  { id: 'two-point', label: 'Two-Point' },
+  { id: 'framerate', label: 'Frame Rate' },
+  { id: 'anchors', label: 'Anchors' },
+];
+
+// A cue chosen as a sync reference and the time it should start at
+interface CueAnchor {
+  id: number;
+  time: string;
+}
+
+const formatTime = (seconds: number) => {
+  const pad = (num: number, size: number) => ('000' + num).slice(size * -1);
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.floor(seconds % 60);
+  const ms = Math.round((seconds % 1) * 1000);
+  return `${pad(h, 2)}:${pad(m, 2)}:${pad(s, 2)},${pad(ms, 3)}`;
+};
+
+const CueSelect: React.FC<{ subtitles: Subtitle[]; value: number; onChange: (id: number) => void }> = ({ subtitles, value, onChange }) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(Number(e.target.value))}
+    className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500 py-1.5 pl-2 pr-8 text-xs"
+  >
+    {subtitles.map(sub => (
+      <option key={sub.id} value={sub.id}>
+        #{sub.id} {formatTime(sub.startTime)} {sub.text.replace(/\n/g, ' ').slice(0, 30)}
+      </option>
+    ))}
+  </select>
+);
+
+const AnchorRow: React.FC<{ subtitles: Subtitle[]; anchor: CueAnchor; onChange: (anchor: CueAnchor) => void }> = ({ subtitles, anchor, onChange }) => (
+  <div className="grid grid-cols-5 gap-2 items-center">
+    <div className="col-span-3">
+      <CueSelect
+        subtitles={subtitles}
+        value={anchor.id}
+        onChange={(id) => onChange({ id, time: formatTime(subtitles.find(s => s.id === id)?.startTime ?? 0) })}
+      />
+    </div>
+    <input
+      type="text"
+      value={anchor.time}
+      onChange={(e) => onChange({ ...anchor, time: e.target.value })}
+      className="col-span-2 rounded-lg border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500 py-1.5 px-2 text-xs font-mono"
+      title="Correct start time (HH:MM:SS,mmm)"
+    />
+  </div>
+);
 
 export const SrtTimeShiftTool: React.FC = () => {
   const [file, setFile] = useState<File | null>(null);
   const [subtitles, setSubtitles] = useState<Subtitle[]>([]);
+  const [assDocument, setAssDocument] = useState<AssDocument | null>(null);
+  const [vttDocument, setVttDocument] = useState<VttDocument | null>(null);
+  const [sourceEncoding, setSourceEncoding] = useState<TextEncodingId | 'auto'>('auto');
+  const [detectedEncoding, setDetectedEncoding] = useState<EncodingDetection | null>(null);
+  const [exportEncoding, setExportEncoding] = useState<ExportEncodingId>('utf-8');
   const [offsetSeconds, setOffsetSeconds] = useState<number>(0);
   const [error, setError] = useState<string | null>(null);
   const [previewSubtitles, setPreviewSubtitles] = useState<Subtitle[]>([]);
+  const [mode, setMode] = useState<SyncMode>('offset');
+  const [twoPoints, setTwoPoints] = useState<[CueAnchor, CueAnchor]>([{ id: 0, time: '' }, { id: 0, time: '' }]);
+  const [conversion, setConversion] = useState<string>(FRAME_RATE_CONVERSIONS[0].id);
+  const [customFrom, setCustomFrom] = useState<FrameRateId>('23.976');
+  const [customTo, setCustomTo] = useState<FrameRateId>('25');
+  const [anchors, setAnchors] = useState<CueAnchor[]>([]);
+  const [rangeEnabled, setRangeEnabled] = useState(false);
+  const [rangeFrom, setRangeFrom] = useState(0);
+  const [rangeTo, setRangeTo] = useState(0);
 
-  const handleFileSelect = async (selectedFile: File) => {
+  const loadFile = async (selectedFile: File, encoding: TextEncodingId | 'auto') => {
     setFile(selectedFile);
+    setSourceEncoding(encoding);
     setError(null);
     setSubtitles([]);
     setPreviewSubtitles([]);
+    setAssDocument(null);
+    setVttDocument(null);
 
     try {
-      const text = await selectedFile.text();
-      let cleanText = text;
-      if (text.startsWith('WEBVTT')) {
-        cleanText = text.replace(/^WEBVTT\s+/, '').trim();
+      const { text, detected } = await readTextFile(selectedFile, encoding);
+      setDetectedEncoding(detected);
+      const parsed = parseSubtitleFile(text, selectedFile.name);
+      setSubtitles(parsed.subtitles);
+      setAssDocument(parsed.ass ?? null);
+      setVttDocument(parsed.vtt ?? null);
+
+      // Start the reference pickers on the first and last cue at their current times
+      const first = parsed.subtitles[0];
+      const last = parsed.subtitles[parsed.subtitles.length - 1];
+      if (first && last) {
+        setTwoPoints([
+          { id: first.id, time: formatTime(first.startTime) },
+          { id: last.id, time: formatTime(last.startTime) },
+        ]);
+        setAnchors([{ id: first.id, time: formatTime(first.startTime) }]);
+        setRangeFrom(first.id);
+        setRangeTo(last.id);
       }
-      const parsed = parseSRT(cleanText);
-      if (parsed.length === 0) throw new Error("No subtitles found in file.");
-      setSubtitles(parsed);
     } catch (e: any) {
       setError(e.message || "Failed to parse subtitle file.");
     }
   };
 
-  const getShiftedSubtitles = () => {
-    return subtitles.map(sub => ({
-      ...sub,
-      startTime: Math.max(0, sub.startTime + offsetSeconds),
-      endTime: Math.max(0, sub.endTime + offsetSeconds)
-    }));
+  const handleFileSelect = (selectedFile: File) => loadFile(selectedFile, 'auto');
+
+  const toSyncPoint = (anchor: CueAnchor): SyncPoint | null => {
+    const sub = subtitles.find(s => s.id === anchor.id);
+    return sub && anchor.time.trim() ? { from: sub.startTime, to: timeToSeconds(anchor.time) } : null;
+  };
+
+  // Linear mapping for the offset, two-point and frame-rate modes; null in anchor mode
+  const mapping: TimeMapping | null = useMemo(() => {
+    if (mode === 'offset') return { scale: 1, offset: offsetSeconds };
+    if (mode === 'framerate') {
+      const preset = FRAME_RATE_CONVERSIONS.find(c => c.id === conversion);
+      return preset ? frameRateMapping(preset.from, preset.to) : frameRateMapping(customFrom, customTo);
+    }
+    if (mode === 'two-point') {
+      const [a, b] = twoPoints.map(toSyncPoint);
+      return a && b ? twoPointMapping(a, b) : { scale: 1, offset: 0 };
+    }
+    return null;
+  }, [mode, offsetSeconds, conversion, customFrom, customTo, twoPoints, subtitles]);
+
+  const syncPoints = useMemo(
+    () => normalizeSyncPoints(anchors.map(toSyncPoint).filter((p): p is SyncPoint => p !== null)),
+    [anchors, subtitles]
+  );
+
+  const shiftedSubtitles = useMemo(() => {
+    const map = mapping ? (time: number) => applyMapping(time, mapping) : (time: number) => piecewiseTime(time, syncPoints);
+    const range = rangeEnabled ? { from: Math.min(rangeFrom, rangeTo), to: Math.max(rangeFrom, rangeTo) } : null;
+    return retimeSubtitles(subtitles, map, range);
+  }, [subtitles, mapping, syncPoints, rangeEnabled, rangeFrom, rangeTo]);
+
+  const updateAnchor = (index: number, anchor: CueAnchor) => {
+    setAnchors(prev => prev.map((a, i) => (i === index ? anchor : a)));
+  };
+
+  const handleAddAnchor = () => {
+    // Suggest the next cue after the last anchor
+    const lastId = anchors.length > 0 ? anchors[anchors.length - 1].id : 0;
+    const sub = subtitles.find(s => s.id > lastId) ?? subtitles[subtitles.length - 1];
+    if (sub) setAnchors(prev => [...prev, { id: sub.id, time: formatTime(sub.startTime) }]);
   };
 
-  const formatTime = (seconds: number) => {
-    const pad = (num: number, size: number) => ('000' + num).slice(size * -1);
-    const h = Math.floor(seconds / 3600);
-    const m = Math.floor((seconds % 3600) / 60);
-    const s = Math.floor(seconds % 60);
-    const ms = Math.round((seconds % 1) * 1000);
-    return `${pad(h, 2)}:${pad(m, 2)}:${pad(s, 2)},${pad(ms, 3)}`;
+  const describeMapping = (): string | null => {
+    if (!mapping) return syncPoints.length > 0 ? `${syncPoints.length} anchor${syncPoints.length === 1 ? '' : 's'}` : null;
+    if (mapping.scale === 1 && mapping.offset === 0) return null;
+    const offset = `${mapping.offset >= 0 ? '+' : ''}${mapping.offset.toFixed(3)}s`;
+    return mapping.scale === 1 ? offset : `×${mapping.scale.toFixed(6)} ${offset}`;
   };
+  const mappingSummary = describeMapping();
 
-  const handleDownload = (format: 'srt' | 'vtt') => {
-    const shifted = getShiftedSubtitles();
-    const content = format === 'srt' ? generateSRT(shifted) : generateVTT(shifted);
-    const blob = new Blob([content], { type: 'text/plain' });
+  const handleDownload = async (format: 'srt' | 'vtt') => {
+    const blob = await convertSubtitles(shiftedSubtitles, format, { ass: assDocument, vtt: vttDocument, encoding: exportEncoding });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -64,7 +194,7 @@ export const SrtTimeShiftTool: React.FC = () => {
   return (
     <div className="max-w-4xl mx-auto px-4 py-12">
       <h1 className="text-3xl font-bold text-center text-gray-900 mb-2">SRT Time Shift</h1>
-      <p className="text-center text-gray-500 mb-12">Fix out-of-sync subtitles by shifting timestamps forward or backward.</p>
+      <p className="text-center text-gray-500 mb-12">Fix out-of-sync subtitles by shifting, stretching or re-anchoring timestamps.</p>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         {/* Left: Controls */}
@@ -72,7 +202,7 @@ export const SrtTimeShiftTool: React.FC = () => {
            <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
               <h2 className="font-bold text-gray-900 mb-4">1. Upload File</h2>
               <FileUploader
-                accept=".srt,.vtt"
+                accept={SUBTITLE_FILE_ACCEPT}
                 onFileSelect={handleFileSelect}
                 label=""
                 buttonText={file ? "Change File" : "Select Subtitles"}
@@ -83,6 +213,14 @@ export const SrtTimeShiftTool: React.FC = () => {
                    <CheckCircle className="w-4 h-4 mr-2" /> {subtitles.length} lines loaded
                 </div>
               )}
+              {file && (
+                <SourceEncodingSelect
+                  value={sourceEncoding}
+                  detected={detectedEncoding}
+                  onChange={(encoding) => loadFile(file, encoding)}
+                  className="mt-4"
+                />
+              )}
               {error && (
                 <div className="mt-4 p-3 bg-red-50 text-red-700 rounded-lg text-sm flex items-center">
                    <AlertCircle className="w-4 h-4 mr-2" /> {error}
@@ -91,34 +229,147 @@ export const SrtTimeShiftTool: React.FC = () => {
            </div>
 
            <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
-              <h2 className="font-bold text-gray-900 mb-4">2. Set Offset</h2>
+              <h2 className="font-bold text-gray-900 mb-4">2. Choose Sync Method</h2>
+              <div className="grid grid-cols-4 gap-1 p-1 bg-gray-100 rounded-lg mb-4">
+                  {SYNC_MODES.map(m => (
+                      <button
+                        key={m.id}
+                        onClick={() => setMode(m.id)}
+                        className={`py-1.5 rounded-md text-xs font-medium transition-colors ${mode === m.id ? 'bg-white text-purple-700 shadow-sm' : 'text-gray-600 hover:text-gray-900'}`}
+                      >
+                          {m.label}
+                      </button>
+                  ))}
+              </div>
+
               <div className="mb-6">
-                 <label className="block text-sm font-medium text-gray-700 mb-2">Time Shift (Seconds)</label>
-                 <div className="flex items-center gap-2">
-                    <button 
-                        onClick={() => setOffsetSeconds(prev => Number((prev - 0.5).toFixed(2)))}
-                        className="p-3 bg-gray-100 rounded-lg hover:bg-gray-200 font-mono"
-                    >-</button>
-                    <input 
-                        type="number"
-                        step="0.1"
-                        value={offsetSeconds}
-                        onChange={(e) => setOffsetSeconds(Number(e.target.value))}
-                        className="block w-full text-center rounded-lg border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500 py-3 text-lg font-mono font-bold"
-                        placeholder="0.0"
-                    />
-                    <button 
-                        onClick={() => setOffsetSeconds(prev => Number((prev + 0.5).toFixed(2)))}
-                        className="p-3 bg-gray-100 rounded-lg hover:bg-gray-200 font-mono"
-                    >+</button>
-                 </div>
-                 <p className="text-xs text-gray-500 mt-2">
-                    Positive (+) makes subtitles appear later.<br/>
-                    Negative (-) makes subtitles appear earlier.
-                 </p>
+                {mode === 'offset' && (
+                  <div>
+                     <label className="block text-sm font-medium text-gray-700 mb-2">Time Shift (Seconds)</label>
+                     <div className="flex items-center gap-2">
+                        <button 
+                            onClick={() => setOffsetSeconds(prev => Number((prev - 0.5).toFixed(2)))}
+                            className="p-3 bg-gray-100 rounded-lg hover:bg-gray-200 font-mono"
+                        >-</button>
+                        <input 
+                            type="number"
+                            step="0.1"
+                            value={offsetSeconds}
+                            onChange={(e) => setOffsetSeconds(Number(e.target.value))}
+                            className="block w-full text-center rounded-lg border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500 py-3 text-lg font-mono font-bold"
+                            placeholder="0.0"
+                        />
+                        <button 
+                            onClick={() => setOffsetSeconds(prev => Number((prev + 0.5).toFixed(2)))}
+                            className="p-3 bg-gray-100 rounded-lg hover:bg-gray-200 font-mono"
+                        >+</button>
+                     </div>
+                     <p className="text-xs text-gray-500 mt-2">
+                        Positive (+) makes subtitles appear later.<br/>
+                        Negative (-) makes subtitles appear earlier.
+                     </p>
+                  </div>
+                )}
+
+                {mode === 'two-point' && subtitles.length > 0 && (
+                  <div className="space-y-3">
+                      <p className="text-xs text-gray-500">Pick two cues far apart and enter when each should really start. Scale and offset are worked out from them.</p>
+                      {twoPoints.map((point, index) => (
+                          <div key={index}>
+                              <span className="block text-xs font-medium text-gray-700 mb-1">Point {index + 1}</span>
+                              <AnchorRow
+                                subtitles={subtitles}
+                                anchor={point}
+                                onChange={(anchor) => setTwoPoints(prev => (index === 0 ? [anchor, prev[1]] : [prev[0], anchor]))}
+                              />
+                          </div>
+                      ))}
+                  </div>
+                )}
+
+                {mode === 'framerate' && (
+                  <div className="space-y-3">
+                      <select
+                        value={conversion}
+                        onChange={(e) => setConversion(e.target.value)}
+                        className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500 py-2 pl-3 pr-8 text-sm"
+                      >
+                          {FRAME_RATE_CONVERSIONS.map(c => (
+                              <option key={c.id} value={c.id}>{c.label}</option>
+                          ))}
+                          <option value="custom">Custom...</option>
+                      </select>
+                      {conversion === 'custom' && (
+                          <div className="grid grid-cols-2 gap-2">
+                              {([['Subtitles timed for', customFrom, setCustomFrom], ['Target video', customTo, setCustomTo]] as const).map(([label, value, setValue]) => (
+                                  <label key={label} className="text-xs text-gray-500">
+                                      {label}
+                                      <select
+                                        value={value}
+                                        onChange={(e) => setValue(e.target.value as FrameRateId)}
+                                        className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm py-1.5 pl-2 pr-8 text-xs"
+                                      >
+                                          {FRAME_RATES.map(rate => (
+                                              <option key={rate.id} value={rate.id}>{rate.label}</option>
+                                          ))}
+                                      </select>
+                                  </label>
+                              ))}
+                          </div>
+                      )}
+                      <p className="text-xs text-gray-500">Fixes subtitles that drift further out of sync as the video plays, after a frame-rate change.</p>
+                  </div>
+                )}
+
+                {mode === 'anchors' && subtitles.length > 0 && (
+                  <div className="space-y-2">
+                      <p className="text-xs text-gray-500">Add a cue after each cut and enter its correct start time. Cues between anchors are stretched to fit.</p>
+                      {anchors.map((anchor, index) => (
+                          <div key={index} className="flex items-center gap-1">
+                              <div className="flex-grow">
+                                  <AnchorRow subtitles={subtitles} anchor={anchor} onChange={(a) => updateAnchor(index, a)} />
+                              </div>
+                              <button
+                                onClick={() => setAnchors(prev => prev.filter((_, i) => i !== index))}
+                                className="p-1 text-gray-400 hover:text-red-600"
+                                title="Remove anchor"
+                              >
+                                  <X className="w-4 h-4" />
+                              </button>
+                          </div>
+                      ))}
+                      <button
+                        onClick={handleAddAnchor}
+                        className="w-full py-1.5 border border-dashed border-gray-300 rounded-lg text-xs text-gray-500 hover:text-purple-700 hover:border-purple-300 flex items-center justify-center gap-1"
+                      >
+                          <Plus className="w-3.5 h-3.5" /> Add Anchor
+                      </button>
+                  </div>
+                )}
               </div>
 
+              {subtitles.length > 0 && (
+                <div className="mb-6 pt-4 border-t border-gray-100">
+                    <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={rangeEnabled}
+                          onChange={(e) => setRangeEnabled(e.target.checked)}
+                          className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                        />
+                        Only shift a range of cues
+                    </label>
+                    {rangeEnabled && (
+                        <div className="mt-2 space-y-2">
+                            <CueSelect subtitles={subtitles} value={rangeFrom} onChange={setRangeFrom} />
+                            <CueSelect subtitles={subtitles} value={rangeTo} onChange={setRangeTo} />
+                        </div>
+                    )}
+                </div>
+              )}
+
               <div className="space-y-2">
+                  <ExportEncodingSelect value={exportEncoding} onChange={setExportEncoding} className="w-full" />
                   <button 
                     onClick={() => handleDownload('srt')}
                     disabled={!file}
@@ -145,22 +396,31 @@ export const SrtTimeShiftTool: React.FC = () => {
                         <Clock className="w-5 h-5 mr-2 text-gray-500" />
                         Preview Changes
                     </h3>
-                    {offsetSeconds !== 0 && (
-                        <span className={`text-sm font-bold px-3 py-1 rounded-full ${offsetSeconds > 0 ? 'bg-blue-100 text-blue-700' : 'bg-orange-100 text-orange-700'}`}>
-                            {offsetSeconds > 0 ? `Delayed by ${offsetSeconds}s` : `Hastened by ${Math.abs(offsetSeconds)}s`}
-                        </span>
+                    {mode === 'offset' ? (
+                        offsetSeconds !== 0 && (
+                            <span className={`text-sm font-bold px-3 py-1 rounded-full ${offsetSeconds > 0 ? 'bg-blue-100 text-blue-700' : 'bg-orange-100 text-orange-700'}`}>
+                                {offsetSeconds > 0 ? `Delayed by ${offsetSeconds}s` : `Hastened by ${Math.abs(offsetSeconds)}s`}
+                            </span>
+                        )
+                    ) : (
+                        mappingSummary && (
+                            <span className="text-sm font-bold font-mono px-3 py-1 rounded-full bg-purple-100 text-purple-700">
+                                {mappingSummary}
+                            </span>
+                        )
                     )}
                 </div>
                 
                 <div className="flex-grow overflow-y-auto p-0">
                     {subtitles.length > 0 ? (
                         <div className="divide-y divide-gray-100">
-                            {subtitles.slice(0, 50).map((sub) => {
-                                const newStart = Math.max(0, sub.startTime + offsetSeconds);
-                                const newEnd = Math.max(0, sub.endTime + offsetSeconds);
+                            {subtitles.slice(0, 50).map((sub, index) => {
+                                const newStart = shiftedSubtitles[index].startTime;
+                                const newEnd = shiftedSubtitles[index].endTime;
+                                const unchanged = shiftedSubtitles[index] === sub;
                                 
                                 return (
-                                    <div key={sub.id} className="p-4 hover:bg-gray-50 transition-colors grid grid-cols-12 gap-4 text-sm">
+                                    <div key={sub.id} className={`p-4 hover:bg-gray-50 transition-colors grid grid-cols-12 gap-4 text-sm ${unchanged ? 'opacity-50' : ''}`}>
                                         <div className="col-span-1 text-gray-400 font-mono text-xs pt-1">#{sub.id}</div>
                                         <div className="col-span-4 font-mono text-gray-500">
                                             <div className="line-through opacity-50 text-xs">{formatTime(sub.startTime)}</div>
@@ -1,55 +1,121 @@
 import React, { useState } from 'react';
 import { FileUploader } from './FileUploader';
-import { parseSRT, convertSubtitles } from '../utils/srtHelpers';
-import { Subtitle } from '../types';
+import {
+  parseSubtitleFile,
+  convertSubtitles,
+  SubtitleExportFormat,
+  SubtitleFileFormat,
+  SUBTITLE_FILE_ACCEPT,
+  FRAME_BASED_FILE_ACCEPT,
+  DEFAULT_TTML_STYLE,
+  FRAME_RATES,
+  FrameRateId,
+} from '../utils/srtHelpers';
+import { readTextFile, TextEncodingId, ExportEncodingId, EncodingDetection } from '../utils/encodingHelpers';
+import { SourceEncodingSelect, ExportEncodingSelect } from './EncodingSelect';
+import { listSpeakers } from '../utils/speakerHelpers';
+import { Subtitle, SubtitleStyle, AssDocument, VttDocument } from '../types';
 import { FileCode, ArrowRight, Download, CheckCircle, AlertCircle } from 'lucide-react';
 
-type Format = 'srt' | 'vtt' | 'docx' | 'txt' | 'pdf';
+type Format = SubtitleExportFormat;
 
 export const SubtitleConverterTool: React.FC = () => {
   const [file, setFile] = useState<File | null>(null);
   const [subtitles, setSubtitles] = useState<Subtitle[]>([]);
+  const [assDocument, setAssDocument] = useState<AssDocument | null>(null);
+  const [vttDocument, setVttDocument] = useState<VttDocument | null>(null);
+  const [fileStyle, setFileStyle] = useState<Partial<SubtitleStyle>>({});
+  const [sourceText, setSourceText] = useState<string>('');
+  const [sourceFormat, setSourceFormat] = useState<SubtitleFileFormat | null>(null);
+  const [frameRate, setFrameRate] = useState<FrameRateId>('23.976');
+  const [sourceEncoding, setSourceEncoding] = useState<TextEncodingId | 'auto'>('auto');
+  const [detectedEncoding, setDetectedEncoding] = useState<EncodingDetection | null>(null);
+  const [exportEncoding, setExportEncoding] = useState<ExportEncodingId>('utf-8');
+  const [pdfTimecodes, setPdfTimecodes] = useState(true);
+  const [pdfHeaderFooter, setPdfHeaderFooter] = useState(true);
+  const [speakerLabels, setSpeakerLabels] = useState(false);
   const [selectedFormat, setSelectedFormat] = useState<Format>('vtt');
   const [error, setError] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
 
+  const loadSubtitles = (text: string, fileName: string, rate: FrameRateId) => {
+    try {
+      const parsed = parseSubtitleFile(text, fileName, { frameRate: rate });
+      setSubtitles(parsed.subtitles);
+      setAssDocument(parsed.ass ?? null);
+      setVttDocument(parsed.vtt ?? null);
+      setFileStyle(parsed.style ?? {});
+      setSourceFormat(parsed.format);
+      // MicroDVD files may declare their own rate in the first line
+      if (parsed.frameRate && parsed.frameRate.id !== rate) setFrameRate(parsed.frameRate.id);
+    } catch (e: any) {
+      setError(e.message || "Failed to parse file.");
+      setSubtitles([]);
+      setAssDocument(null);
+      setVttDocument(null);
+      setSourceFormat(null);
+    }
+  };
+
   const handleFileSelect = async (selectedFile: File) => {
     setFile(selectedFile);
     setError(null);
     setDownloadUrl(null);
     setIsProcessing(true);
+    setSourceEncoding('auto');
 
     try {
-      const text = await selectedFile.text();
-      // Basic check if it looks like VTT or SRT
-      if (!text.includes('-->')) {
-          throw new Error("Invalid subtitle file. Missing timestamp arrows (-->).");
-      }
-
-      // If VTT, strip header before parsing
-      const cleanText = text.replace(/^WEBVTT\s+/, '').trim();
-      const parsed = parseSRT(cleanText);
-      
-      if (parsed.length === 0) {
-          throw new Error("Could not parse any subtitles from this file.");
-      }
-      
-      setSubtitles(parsed);
+      const { text, detected } = await readTextFile(selectedFile);
+      setDetectedEncoding(detected);
+      setSourceText(text);
+      loadSubtitles(text, selectedFile.name, frameRate);
     } catch (e: any) {
-      setError(e.message || "Failed to parse file.");
-      setSubtitles([]);
+      setError(e.message || "Failed to read file.");
     } finally {
       setIsProcessing(false);
     }
   };
 
+  const handleSourceEncodingChange = async (encoding: TextEncodingId | 'auto') => {
+    setSourceEncoding(encoding);
+    setDownloadUrl(null);
+    if (!file) return;
+    setError(null);
+    const { text } = await readTextFile(file, encoding);
+    setSourceText(text);
+    loadSubtitles(text, file.name, frameRate);
+  };
+
+  const handleFrameRateChange = (rate: FrameRateId) => {
+    setFrameRate(rate);
+    setDownloadUrl(null);
+    // Frame-numbered input has to be re-read for the new rate
+    if (file && (sourceFormat === 'sub' || sourceFormat === 'scc')) {
+      loadSubtitles(sourceText, file.name, rate);
+    }
+  };
+
+  const isTextFormat = ['srt', 'vtt', 'ass', 'ssa', 'sub', 'txt'].includes(selectedFormat);
+  // VTT voices and ASS actor names; formats with their own speaker field keep them regardless
+  const hasSpeakers = listSpeakers(subtitles).length > 0;
+  const offersSpeakerLabels = hasSpeakers && !['vtt', 'ass', 'ssa'].includes(selectedFormat);
+  const needsFrameRate = sourceFormat === 'sub' || sourceFormat === 'scc' || selectedFormat === 'sub' || selectedFormat === 'scc';
+
   const handleConvert = async () => {
     if (subtitles.length === 0) return;
     setIsProcessing(true);
     
     try {
-        const blob = await convertSubtitles(subtitles, selectedFormat);
+        const blob = await convertSubtitles(subtitles, selectedFormat, {
+            ass: assDocument,
+            vtt: vttDocument,
+            style: { ...DEFAULT_TTML_STYLE, ...fileStyle },
+            frameRate,
+            encoding: exportEncoding,
+            speakerLabels: offersSpeakerLabels && speakerLabels,
+            pdf: { showTimecodes: pdfTimecodes, showHeaderFooter: pdfHeaderFooter, fileName: file?.name },
+        });
         const url = URL.createObjectURL(blob);
         setDownloadUrl(url);
     } catch (e) {
@@ -60,27 +126,20 @@ export const SubtitleConverterTool: React.FC = () => {
     }
   };
 
-  const getExtension = (fmt: Format) => {
-      switch (fmt) {
-          case 'docx': return 'doc'; // Use .doc for simple HTML-Word compat
-          default: return fmt;
-      }
-  }
-
   return (
     <div className="max-w-3xl mx-auto px-4 py-12">
         <h1 className="text-3xl font-bold text-center text-gray-900 mb-2">Subtitle Converter</h1>
-        <p className="text-center text-gray-500 mb-12">Convert SRT/VTT subtitles to PDF, DOCX, TXT and other formats.</p>
+        <p className="text-center text-gray-500 mb-12">Convert SRT/VTT/ASS/TTML subtitles to PDF, DOCX, TXT and other formats.</p>
 
         <div className="bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden">
             <div className="p-8">
                  <div className="mb-8">
                     <span className="block text-sm font-bold text-indigo-600 uppercase tracking-wider mb-4">Step 1: Upload</span>
                     <FileUploader
-                        accept=".srt,.vtt"
+                        accept={`${SUBTITLE_FILE_ACCEPT},${FRAME_BASED_FILE_ACCEPT}`}
                         onFileSelect={handleFileSelect}
                         label="Upload Subtitle File"
-                        subLabel=".srt or .vtt"
+                        subLabel=".srt, .vtt, .ass, .ssa, .ttml, .dfxp, .sub or .scc"
                         buttonText={file ? "Change File" : "Select File"}
                         className={file ? "opacity-100" : ""}
                     />
@@ -93,6 +152,13 @@ export const SubtitleConverterTool: React.FC = () => {
                              <span className="font-medium">Loaded {subtitles.length} lines from {file.name}</span>
                          </div>
 
+                         <SourceEncodingSelect
+                             value={sourceEncoding}
+                             detected={detectedEncoding}
+                             onChange={handleSourceEncodingChange}
+                             className="p-4 bg-gray-50 rounded-xl"
+                         />
+
                          <div className="border-t border-gray-100 pt-8">
                             <span className="block text-sm font-bold text-indigo-600 uppercase tracking-wider mb-4">Step 2: Choose Format</span>
                             
@@ -115,24 +181,102 @@ export const SubtitleConverterTool: React.FC = () => {
                                         >
                                             <option value="srt">SubRip (.srt)</option>
                                             <option value="vtt">WebVTT (.vtt)</option>
-                                            <option value="docx">Microsoft Word (.doc)</option>
+                                            <option value="ass">Advanced SubStation Alpha (.ass)</option>
+                                            <option value="ssa">SubStation Alpha (.ssa)</option>
+                                            <option value="ttml">TTML / IMSC1 Text (.ttml)</option>
+                                            <option value="dfxp">DFXP (.dfxp)</option>
+                                            <option value="sub">MicroDVD (.sub)</option>
+                                            <option value="scc">Scenarist Closed Captions (.scc)</option>
+                                            <option value="docx">Microsoft Word (.docx)</option>
                                             <option value="txt">Text (.txt)</option>
                                             <option value="pdf">PDF (.pdf)</option>
                                         </select>
                                     </div>
                                 </div>
                             </div>
+
+                            {needsFrameRate && (
+                                <div className="mt-4 p-4 bg-gray-50 rounded-xl">
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Frame Rate</label>
+                                    <select
+                                        value={frameRate}
+                                        onChange={(e) => handleFrameRateChange(e.target.value as FrameRateId)}
+                                        className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 py-3 pl-4 pr-10 text-base"
+                                    >
+                                        {FRAME_RATES.map(rate => (
+                                            <option key={rate.id} value={rate.id}>{rate.label}</option>
+                                        ))}
+                                    </select>
+                                    <p className="text-xs text-gray-500 mt-2">
+                                        MicroDVD and SCC store frame numbers, so the rate must match the video. SCC is normally 29.97 Drop-Frame.
+                                    </p>
+                                </div>
+                            )}
+
+                            {isTextFormat && (
+                                <div className="mt-4 p-4 bg-gray-50 rounded-xl">
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Output Encoding</label>
+                                    <ExportEncodingSelect
+                                        value={exportEncoding}
+                                        onChange={(encoding) => { setExportEncoding(encoding); setDownloadUrl(null); }}
+                                        className="block w-full"
+                                    />
+                                    <p className="text-xs text-gray-500 mt-2">
+                                        Legacy encodings are for older hardware players. WebVTT is always UTF-8; only the BOM option applies.
+                                    </p>
+                                </div>
+                            )}
+
+                            {offersSpeakerLabels && (
+                                <div className="mt-4 p-4 bg-gray-50 rounded-xl">
+                                    <label className="flex items-center text-sm text-gray-700">
+                                        <input
+                                            type="checkbox"
+                                            checked={speakerLabels}
+                                            onChange={(e) => { setSpeakerLabels(e.target.checked); setDownloadUrl(null); }}
+                                            className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500 mr-2"
+                                        />
+                                        {selectedFormat === 'txt' ? 'Write as a dialogue script ("Name: ...")' : 'Prefix each line with the speaker name'}
+                                    </label>
+                                </div>
+                            )}
+
+                            {selectedFormat === 'pdf' && (
+                                <div className="mt-4 p-4 bg-gray-50 rounded-xl space-y-2">
+                                    <label className="flex items-center text-sm text-gray-700">
+                                        <input
+                                            type="checkbox"
+                                            checked={pdfTimecodes}
+                                            onChange={(e) => { setPdfTimecodes(e.target.checked); setDownloadUrl(null); }}
+                                            className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500 mr-2"
+                                        />
+                                        Include timecodes
+                                    </label>
+                                    <label className="flex items-center text-sm text-gray-700">
+                                        <input
+                                            type="checkbox"
+                                            checked={pdfHeaderFooter}
+                                            onChange={(e) => { setPdfHeaderFooter(e.target.checked); setDownloadUrl(null); }}
+                                            className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500 mr-2"
+                                        />
+                                        File name header and page numbers
+                                    </label>
+                                    <p className="text-xs text-gray-500">
+                                        Fonts for Arabic, Hindi, Bengali, Thai, Chinese, Japanese and Korean are embedded automatically.
+                                    </p>
+                                </div>
+                            )}
                          </div>
 
                          <div className="pt-4">
                              {downloadUrl ? (
                                  <a
                                     href={downloadUrl}
-                                    download={`converted_subtitles.${getExtension(selectedFormat)}`}
+                                    download={`converted_subtitles.${selectedFormat}`}
                                     className="w-full flex items-center justify-center px-6 py-4 border border-transparent text-lg font-bold rounded-xl text-white bg-green-600 hover:bg-green-700 shadow-lg transition-transform hover:-translate-y-0.5"
                                  >
                                      <Download className="w-6 h-6 mr-2" />
-                                     Download .{getExtension(selectedFormat).toUpperCase()}
+                                     Download .{selectedFormat.toUpperCase()}
                                  </a>
                              ) : (
                                 <button
@@ -1,22 +1,55 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { Subtitle, SubtitleStyle } from '../types';
-import { parseSRT, generateSRT, generateVTT } from '../utils/srtHelpers';
+import { Subtitle, SubtitleStyle, AssDocument, VttDocument } from '../types';
+import { parseSubtitleFile, convertSubtitles, SUBTITLE_FILE_ACCEPT } from '../utils/srtHelpers';
+import { readTextFile, TextEncodingId, ExportEncodingId, EncodingDetection } from '../utils/encodingHelpers';
+import { useSubtitleHistory } from '../utils/subtitleHistory';
+import { detectSpeechInFile, snapSubtitlesToSpeech, SpeechSegment } from '../utils/vadHelpers';
+import { renumberSubtitles, splitSubtitle, mergeSubtitles, insertSubtitle, reflowSubtitles, defaultSplitPosition } from '../utils/cueEditing';
+import { checkSubtitles, fixQcIssue, fixAllQcIssues, getQcPreset, QcIssue, QcRules } from '../utils/qcHelpers';
+import { listSpeakers, renameSpeaker } from '../utils/speakerHelpers';
+import { alignWordsInFile, DEFAULT_HIGHLIGHT_COLOR } from '../utils/wordTiming';
 import { FileUploader } from './FileUploader';
+import { SourceEncodingSelect, ExportEncodingSelect } from './EncodingSelect';
 import { VideoPlayer } from './VideoPlayer';
-import { Download, Upload, Plus, Trash2, Video, FileText, Search, AlertCircle, Play } from 'lucide-react';
+import { WaveformTimeline } from './WaveformTimeline';
+import { QcPanel, QcBadges } from './QcPanel';
+import { SpeakerPanel } from './SpeakerPanel';
+import { WordChips } from './WordChips';
+import { Download, Upload, Plus, Trash2, Video, FileText, Search, AlertCircle, Play, Undo2, Redo2, Scissors, Timer, ArrowUpToLine, ArrowDownToLine, BetweenHorizontalStart, BetweenHorizontalEnd, WrapText, Wand2, AudioLines } from 'lucide-react';
 
 export const SubtitleEditorTool: React.FC = () => {
   const [subtitleFile, setSubtitleFile] = useState<File | null>(null);
   const [videoFile, setVideoFile] = useState<File | null>(null);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
-  const [subtitles, setSubtitles] = useState<Subtitle[]>([]);
+  const { subtitles, setSubtitles, resetSubtitles, undo, redo, canUndo, canRedo, editorRef } = useSubtitleHistory();
+  const [assDocument, setAssDocument] = useState<AssDocument | null>(null);
+  const [vttDocument, setVttDocument] = useState<VttDocument | null>(null);
+  const [sourceEncoding, setSourceEncoding] = useState<TextEncodingId | 'auto'>('auto');
+  const [detectedEncoding, setDetectedEncoding] = useState<EncodingDetection | null>(null);
+  const [exportEncoding, setExportEncoding] = useState<ExportEncodingId>('utf-8');
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
+  const [qcRules, setQcRules] = useState<QcRules>(getQcPreset('netflix'));
+  const [speakerLabels, setSpeakerLabels] = useState(false);
   
   // Playback state
   const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const videoRef = useRef<HTMLVideoElement>(null);
 
-  // Style for preview
+  // Speech segments of the preview video, detected on the first snap and reused after that
+  const speechRef = useRef<{ file: File; segments: SpeechSegment[] } | null>(null);
+  const [isSnapping, setIsSnapping] = useState(false);
+  const [snapMessage, setSnapMessage] = useState<string | null>(null);
+  const [isAligningWords, setIsAligningWords] = useState(false);
+  const [wordMessage, setWordMessage] = useState<string | null>(null);
+
+  // Last caret position in a cue's text box, used as the split point
+  const caretRef = useRef<{ id: number; position: number } | null>(null);
+
+  const hasWordTiming = useMemo(() => subtitles.some(sub => sub.words), [subtitles]);
+
+  // Style for preview; words light up karaoke-style once they are timed
   const previewStyle: SubtitleStyle = useMemo(() => ({
     fontSize: 24,
     color: '#ffffff',
@@ -24,7 +57,8 @@ export const SubtitleEditorTool: React.FC = () => {
     backgroundOpacity: 0.6,
     position: 'bottom',
     fontFamily: 'Inter, sans-serif',
-  }), []);
+    highlightColor: hasWordTiming ? DEFAULT_HIGHLIGHT_COLOR : undefined,
+  }), [hasWordTiming]);
 
   useEffect(() => {
     return () => {
@@ -32,22 +66,27 @@ export const SubtitleEditorTool: React.FC = () => {
     };
   }, [videoUrl]);
 
-  const handleSubtitleSelect = async (file: File) => {
+  const loadSubtitleFile = async (file: File, encoding: TextEncodingId | 'auto') => {
     setSubtitleFile(file);
+    setSourceEncoding(encoding);
     setError(null);
     try {
-      const text = await file.text();
-      // Basic VTT cleanup
-      const cleanText = text.replace(/^WEBVTT\s+/, '').trim();
-      const parsed = parseSRT(cleanText);
-      if (parsed.length === 0) throw new Error("No subtitles found.");
-      setSubtitles(parsed);
+      const { text, detected } = await readTextFile(file, encoding);
+      setDetectedEncoding(detected);
+      const parsed = parseSubtitleFile(text, file.name);
+      resetSubtitles(parsed.subtitles);
+      setAssDocument(parsed.ass ?? null);
+      setVttDocument(parsed.vtt ?? null);
     } catch (e: any) {
       setError(e.message || "Failed to parse subtitle file.");
-      setSubtitles([]);
+      resetSubtitles([]);
+      setAssDocument(null);
+      setVttDocument(null);
     }
   };
 
+  const handleSubtitleSelect = (file: File) => loadSubtitleFile(file, 'auto');
+
   const handleVideoSelect = (file: File) => {
     if (file.size > 100 * 1024 * 1024) {
         // Just a warning for large files in local preview, though browser can handle local playback fine usually
@@ -60,13 +99,14 @@ export const SubtitleEditorTool: React.FC = () => {
   // --- CRUD Operations ---
 
   const handleUpdate = (id: number, field: keyof Subtitle, value: any) => {
+    // Keystrokes in the same field collapse into a single undo step
     setSubtitles(prev => prev.map(sub => 
       sub.id === id ? { ...sub, [field]: value } : sub
-    ));
+    ), `${id}:${field}`);
   };
 
   const handleDelete = (id: number) => {
-    setSubtitles(prev => prev.filter(sub => sub.id !== id));
+    setSubtitles(prev => renumberSubtitles(prev.filter(sub => sub.id !== id)));
   };
 
   const handleAdd = () => {
@@ -76,23 +116,135 @@ export const SubtitleEditorTool: React.FC = () => {
     const startTime = lastSub ? lastSub.endTime + 0.1 : 0;
     const endTime = startTime + 2;
     
+    // New lines inherit the ASS style of the previous line so exports stay consistent
     setSubtitles(prev => [
       ...prev,
-      { id: newId, startTime, endTime, text: "New Subtitle" }
+      { id: newId, startTime, endTime, text: "New Subtitle", ...(lastSub?.ass ? { ass: { ...lastSub.ass } } : {}) }
     ]);
   };
 
-  const handleDownload = (format: 'srt' | 'vtt') => {
-    const content = format === 'srt' ? generateSRT(subtitles) : generateVTT(subtitles);
-    const blob = new Blob([content], { type: 'text/plain' });
+  const handleSeek = (time: number) => {
+    if (videoRef.current) videoRef.current.currentTime = time;
+  };
+
+  // Clear the snap and word timing results after 3 seconds
+  useEffect(() => {
+    if (snapMessage || wordMessage) {
+      const timer = setTimeout(() => {
+        setSnapMessage(null);
+        setWordMessage(null);
+      }, 3000);
+      return () => clearTimeout(timer);
+    }
+  }, [snapMessage, wordMessage]);
+
+  const handleSnapToSpeech = async () => {
+    if (!videoFile || subtitles.length === 0) return;
+    setIsSnapping(true);
+    setSnapMessage(null);
+    try {
+      if (speechRef.current?.file !== videoFile) {
+        speechRef.current = { file: videoFile, segments: await detectSpeechInFile(videoFile) };
+      }
+      const { subtitles: snapped, adjusted } = snapSubtitlesToSpeech(subtitles, speechRef.current.segments);
+      if (adjusted > 0) setSubtitles(snapped);
+      setSnapMessage(adjusted > 0 ? `Snapped ${adjusted} cue${adjusted === 1 ? '' : 's'}` : 'Already aligned');
+    } catch (e) {
+      console.error(e);
+      setSnapMessage('Speech detection failed');
+    } finally {
+      setIsSnapping(false);
+    }
+  };
+
+  const handleAlignWords = async () => {
+    if (!videoFile || subtitles.length === 0) return;
+    setIsAligningWords(true);
+    setWordMessage(null);
+    try {
+      const aligned = await alignWordsInFile(videoFile, subtitles);
+      const count = aligned.reduce((sum, sub) => sum + (sub.words?.length ?? 0), 0);
+      setSubtitles(aligned);
+      setWordMessage(`Timed ${count} word${count === 1 ? '' : 's'}`);
+    } catch (e) {
+      console.error(e);
+      setWordMessage('Word timing failed');
+    } finally {
+      setIsAligningWords(false);
+    }
+  };
+
+  // --- Split / Merge / Insert / Re-flow ---
+
+  const handleSplit = (sub: Subtitle, atPlayhead: boolean) => {
+    const caret = caretRef.current;
+    const position = caret && caret.id === sub.id && caret.position > 0 && caret.position < sub.text.length
+      ? caret.position
+      : defaultSplitPosition(sub.text);
+    caretRef.current = null;
+    setSubtitles(prev => splitSubtitle(prev, sub.id, position, atPlayhead ? currentTime : undefined));
+  };
+
+  const handleMerge = (id: number, direction: 'previous' | 'next') => {
+    setSubtitles(prev => mergeSubtitles(prev, id, direction));
+  };
+
+  const handleInsert = (id: number, position: 'before' | 'after') => {
+    setSubtitles(prev => insertSubtitle(prev, id, position));
+  };
+
+  // Re-flow uses the QC line length so the result passes the line-length check
+  const handleReflow = (id?: number) => {
+    setSubtitles(prev => reflowSubtitles(prev, qcRules.maxLineLength, id));
+  };
+
+  const handleDownload = async (format: 'srt' | 'vtt' | 'ass') => {
+    // Keep SSA files as SSA instead of upgrading them to ASS
+    const exportFormat = format === 'ass' ? (assDocument?.variant ?? 'ass') : format;
+    const blob = await convertSubtitles(subtitles, exportFormat, { ass: assDocument, vtt: vttDocument, encoding: exportEncoding, speakerLabels });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `edited_subtitles.${format}`;
+    a.download = `edited_subtitles.${exportFormat}`;
     a.click();
     URL.revokeObjectURL(url);
   };
 
+  // --- Speakers ---
+
+  const speakers = useMemo(() => listSpeakers(subtitles), [subtitles]);
+
+  const handleRenameSpeaker = (from: string, to: string) => {
+    setSubtitles(prev => renameSpeaker(prev, from, to));
+  };
+
+  // --- Quality control ---
+
+  const qcIssues = useMemo(() => checkSubtitles(subtitles, qcRules), [subtitles, qcRules]);
+
+  const issuesBySubtitle = useMemo(() => {
+    const map = new Map<number, QcIssue[]>();
+    qcIssues.forEach(issue => map.set(issue.subtitleId, [...(map.get(issue.subtitleId) ?? []), issue]));
+    return map;
+  }, [qcIssues]);
+
+  const handleFixIssue = (issue: QcIssue) => {
+    setSubtitles(prev => fixQcIssue(prev, issue, qcRules));
+  };
+
+  const handleFixAll = () => {
+    setSubtitles(prev => fixAllQcIssues(prev, qcRules));
+  };
+
+  const handleSelectIssue = (id: number) => {
+    setSearchTerm('');
+    const sub = subtitles.find(s => s.id === id);
+    const video = document.querySelector('video');
+    if (sub && video) video.currentTime = sub.startTime;
+    // Wait for the cleared search to render the row before scrolling to it
+    setTimeout(() => document.getElementById(`subtitle-row-${id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' }), 0);
+  };
+
   // --- Helpers for UI Time format (HH:MM:SS,mmm) ---
   const formatTimeUI = (seconds: number): string => {
     const pad = (num: number, size: number) => ('000' + num).slice(size * -1);
@@ -137,10 +289,10 @@ export const SubtitleEditorTool: React.FC = () => {
             <div className="bg-white p-8 rounded-2xl shadow-sm border border-gray-200 text-center">
                  <div className="max-w-md mx-auto">
                     <FileUploader
-                        accept=".srt,.vtt"
+                        accept={SUBTITLE_FILE_ACCEPT}
                         onFileSelect={handleSubtitleSelect}
                         label="Upload Subtitle File"
-                        subLabel=".srt or .vtt"
+                        subLabel=".srt, .vtt, .ass, .ssa, .ttml or .dfxp"
                         buttonText="Start Editing"
                     />
                  </div>
@@ -155,7 +307,7 @@ export const SubtitleEditorTool: React.FC = () => {
   }
 
   return (
-    <div className="max-w-[1600px] mx-auto px-4 py-6 h-[calc(100vh-80px)] flex flex-col">
+    <div ref={editorRef} className="max-w-[1600px] mx-auto px-4 py-6 h-[calc(100vh-80px)] flex flex-col">
        {/* Toolbar */}
        <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-200 mb-6 flex flex-col md:flex-row justify-between items-center gap-4 flex-shrink-0">
           <div className="flex items-center gap-4 w-full md:w-auto">
@@ -165,6 +317,13 @@ export const SubtitleEditorTool: React.FC = () => {
               </h1>
               <div className="h-6 w-px bg-gray-200 mx-2"></div>
               <span className="text-sm text-gray-500 truncate max-w-[150px]">{subtitleFile.name}</span>
+              {/* Re-reading with another encoding reloads the file and discards edits */}
+              <SourceEncodingSelect
+                  value={sourceEncoding}
+                  detected={detectedEncoding}
+                  onChange={(encoding) => loadSubtitleFile(subtitleFile, encoding)}
+                  className="w-56"
+              />
           </div>
 
           <div className="flex items-center gap-3 w-full md:w-auto overflow-x-auto">
@@ -176,6 +335,57 @@ export const SubtitleEditorTool: React.FC = () => {
                    </label>
                )}
                
+               {videoFile && (
+                   <button
+                      onClick={handleSnapToSpeech}
+                      disabled={isSnapping}
+                      className="flex items-center gap-2 px-4 py-2 bg-white hover:bg-purple-50 text-gray-700 hover:text-purple-700 rounded-lg border border-gray-200 hover:border-purple-200 text-sm font-medium transition-colors whitespace-nowrap"
+                      title="Snap every cue's start and end to the nearest speech boundary in the video's audio"
+                   >
+                       {isSnapping ? (
+                           <div className="animate-spin w-4 h-4 border-2 border-purple-600 border-t-transparent rounded-full" />
+                       ) : (
+                           <Wand2 className="w-4 h-4" />
+                       )}
+                       {snapMessage ?? 'Snap to Speech'}
+                   </button>
+               )}
+
+               {videoFile && (
+                   <button
+                      onClick={handleAlignWords}
+                      disabled={isAligningWords}
+                      className="flex items-center gap-2 px-4 py-2 bg-white hover:bg-purple-50 text-gray-700 hover:text-purple-700 rounded-lg border border-gray-200 hover:border-purple-200 text-sm font-medium transition-colors whitespace-nowrap"
+                      title="Time every word inside its cue from the video's audio, for karaoke preview and click-to-seek"
+                   >
+                       {isAligningWords ? (
+                           <div className="animate-spin w-4 h-4 border-2 border-purple-600 border-t-transparent rounded-full" />
+                       ) : (
+                           <AudioLines className="w-4 h-4" />
+                       )}
+                       {wordMessage ?? 'Word Timing'}
+                   </button>
+               )}
+
+               <div className="flex items-center">
+                   <button
+                      onClick={undo}
+                      disabled={!canUndo}
+                      className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-l-lg border border-gray-200 transition-colors disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-gray-500"
+                      title="Undo (Ctrl+Z)"
+                   >
+                       <Undo2 className="w-4 h-4" />
+                   </button>
+                   <button
+                      onClick={redo}
+                      disabled={!canRedo}
+                      className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-r-lg border border-l-0 border-gray-200 transition-colors disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-gray-500"
+                      title="Redo (Ctrl+Shift+Z)"
+                   >
+                       <Redo2 className="w-4 h-4" />
+                   </button>
+               </div>
+
                <button 
                   onClick={handleAdd}
                   className="flex items-center gap-2 px-4 py-2 bg-blue-50 hover:bg-blue-100 text-blue-700 rounded-lg border border-blue-200 text-sm font-medium transition-colors whitespace-nowrap"
@@ -183,8 +393,17 @@ export const SubtitleEditorTool: React.FC = () => {
                    <Plus className="w-4 h-4" /> Add Line
                </button>
 
+               <button 
+                  onClick={() => handleReflow()}
+                  className="flex items-center gap-2 px-4 py-2 bg-white hover:bg-gray-50 text-gray-700 rounded-lg border border-gray-200 text-sm font-medium transition-colors whitespace-nowrap"
+                  title={`Re-wrap every cue to ${qcRules.maxLineLength} characters per line (set in QC rules)`}
+               >
+                   <WrapText className="w-4 h-4" /> Re-flow All
+               </button>
+
                <div className="h-6 w-px bg-gray-200 mx-2"></div>
 
+               <ExportEncodingSelect value={exportEncoding} onChange={setExportEncoding} className="w-44" />
                <button 
                   onClick={() => handleDownload('srt')}
                   className="flex items-center gap-2 px-4 py-2 bg-gray-900 hover:bg-gray-800 text-white rounded-lg text-sm font-medium transition-colors whitespace-nowrap shadow-sm"
@@ -197,6 +416,12 @@ export const SubtitleEditorTool: React.FC = () => {
                >
                    <Download className="w-4 h-4" /> Export VTT
                </button>
+               <button 
+                  onClick={() => handleDownload('ass')}
+                  className="flex items-center gap-2 px-4 py-2 bg-white hover:bg-gray-50 text-gray-700 border border-gray-300 rounded-lg text-sm font-medium transition-colors whitespace-nowrap"
+               >
+                   <Download className="w-4 h-4" /> Export {assDocument?.variant === 'ssa' ? 'SSA' : 'ASS'}
+               </button>
           </div>
        </div>
 
@@ -205,13 +430,27 @@ export const SubtitleEditorTool: React.FC = () => {
            
            {/* Left: Video Player (Visible only if video uploaded) */}
            {videoUrl && (
-               <div className="lg:w-1/2 flex flex-col h-full bg-black rounded-xl overflow-hidden shadow-lg relative">
-                    <VideoPlayer
-                        videoUrl={videoUrl}
+               <div className="lg:w-1/2 flex flex-col gap-4 h-full">
+                    <div className="bg-black rounded-xl overflow-hidden shadow-lg relative flex-grow">
+                        <VideoPlayer
+                            ref={videoRef}
+                            videoUrl={videoUrl}
+                            subtitles={subtitles}
+                            styleConfig={previewStyle}
+                            fitContainer={true}
+                            onTimeUpdate={setCurrentTime}
+                            onDurationChange={setDuration}
+                        />
+                    </div>
+
+                    {/* Drag cues on the waveform to retime them */}
+                    <WaveformTimeline
+                        file={videoFile}
                         subtitles={subtitles}
-                        styleConfig={previewStyle}
-                        fitContainer={true}
-                        onTimeUpdate={setCurrentTime}
+                        currentTime={currentTime}
+                        duration={duration}
+                        onSeek={handleSeek}
+                        onSubtitlesChange={setSubtitles}
                     />
                </div>
            )}
@@ -233,13 +472,31 @@ export const SubtitleEditorTool: React.FC = () => {
                    </span>
                </div>
 
+               <SpeakerPanel
+                   speakers={speakers}
+                   onRename={handleRenameSpeaker}
+                   labels={speakerLabels}
+                   onLabelsChange={setSpeakerLabels}
+                   className="border-b border-gray-100"
+               />
+               <QcPanel
+                   issues={qcIssues}
+                   rules={qcRules}
+                   onRulesChange={setQcRules}
+                   onFix={handleFixIssue}
+                   onFixAll={handleFixAll}
+                   onSelect={handleSelectIssue}
+               />
+
                {/* List */}
                <div className="flex-grow overflow-y-auto p-4 space-y-3 scrollbar-thin">
                    {filteredSubtitles.map((sub) => {
                        const isActive = currentTime >= sub.startTime && currentTime <= sub.endTime;
+                       const index = subtitles.indexOf(sub);
                        return (
                            <div 
                                key={sub.id} 
+                               id={`subtitle-row-${sub.id}`}
                                className={`group relative p-4 rounded-lg border transition-all duration-200 ${isActive ? 'bg-blue-50 border-blue-200 ring-1 ring-blue-200' : 'bg-white border-gray-100 hover:border-gray-300'}`}
                            >
                                <div className="flex items-center gap-3 mb-3">
@@ -259,6 +516,15 @@ export const SubtitleEditorTool: React.FC = () => {
                                        />
                                    </div>
 
+                                   {speakers.length > 0 && (
+                                       <input
+                                           className="w-28 text-sm bg-transparent border-b border-dashed border-gray-300 focus:border-blue-500 focus:outline-none text-gray-600"
+                                           value={sub.speaker ?? ''}
+                                           placeholder="Speaker"
+                                           onChange={(e) => handleUpdate(sub.id, 'speaker', e.target.value || undefined)}
+                                       />
+                                   )}
+
                                    {videoUrl && (
                                        <button 
                                           onClick={() => {
@@ -272,23 +538,55 @@ export const SubtitleEditorTool: React.FC = () => {
                                        </button>
                                    )}
 
-                                   <button 
-                                      onClick={() => handleDelete(sub.id)}
-                                      className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-full transition-colors ml-auto opacity-0 group-hover:opacity-100 focus:opacity-100"
-                                      title="Delete line"
-                                   >
-                                       <Trash2 className="w-4 h-4" />
-                                   </button>
+                                   <div className="flex items-center gap-0.5 ml-auto opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                                       <button onClick={() => handleSplit(sub, false)} className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-full transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-400" title="Split at the caret, dividing time by text length">
+                                           <Scissors className="w-4 h-4" />
+                                       </button>
+                                       {videoUrl && (
+                                           <button onClick={() => handleSplit(sub, true)} disabled={!isActive} className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-full transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-400" title="Split at the caret, cutting the time at the playhead">
+                                               <Timer className="w-4 h-4" />
+                                           </button>
+                                       )}
+                                       <button onClick={() => handleMerge(sub.id, 'previous')} disabled={index === 0} className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-full transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-400" title="Merge with previous">
+                                           <ArrowUpToLine className="w-4 h-4" />
+                                       </button>
+                                       <button onClick={() => handleMerge(sub.id, 'next')} disabled={index === subtitles.length - 1} className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-full transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-400" title="Merge with next">
+                                           <ArrowDownToLine className="w-4 h-4" />
+                                       </button>
+                                       <button onClick={() => handleInsert(sub.id, 'before')} className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-full transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-400" title="Insert line before">
+                                           <BetweenHorizontalStart className="w-4 h-4" />
+                                       </button>
+                                       <button onClick={() => handleInsert(sub.id, 'after')} className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-full transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-400" title="Insert line after">
+                                           <BetweenHorizontalEnd className="w-4 h-4" />
+                                       </button>
+                                       <button onClick={() => handleReflow(sub.id)} className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-full transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-400" title={`Re-flow to ${qcRules.maxLineLength} characters per line`}>
+                                           <WrapText className="w-4 h-4" />
+                                       </button>
+                                       <button 
+                                          onClick={() => handleDelete(sub.id)}
+                                          className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-full transition-colors"
+                                          title="Delete line"
+                                       >
+                                           <Trash2 className="w-4 h-4" />
+                                       </button>
+                                   </div>
                                </div>
 
                                <textarea 
                                    value={sub.text}
                                    onChange={(e) => handleUpdate(sub.id, 'text', e.target.value)}
+                                   onSelect={(e) => { caretRef.current = { id: sub.id, position: e.currentTarget.selectionStart }; }}
                                    className="w-full bg-transparent resize-none outline-none text-gray-800 text-base leading-relaxed p-0 border-none focus:ring-0"
                                    rows={Math.max(1, sub.text.split('\n').length)}
                                    style={{ minHeight: '1.5rem' }}
                                    placeholder="Subtitle text..."
                                />
+
+                               {sub.words && (
+                                   <WordChips subtitle={sub} onSeek={handleSeek} currentTime={isActive ? currentTime : undefined} />
+                               )}
+
+                               <QcBadges issues={issuesBySubtitle.get(sub.id) ?? []} onFix={handleFixIssue} />
                            </div>
                        );
                    })}
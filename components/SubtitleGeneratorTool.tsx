@@ -3,9 +3,22 @@ import { FileUploader } from './FileUploader';
 import { VideoPlayer } from './VideoPlayer';
 import { WaveformTimeline } from './WaveformTimeline';
 import { Subtitle, SubtitleStyle } from '../types';
-import { generateSubtitlesFromVideo, calculateAutoSyncOffset } from '../services/geminiService';
+import { generateSubtitlesFromVideo } from '../services/aiProvider';
+import { MAX_LONG_MEDIA_MB } from '../services/mediaChunker';
 import { generateSRT, generateVTT } from '../utils/srtHelpers';
-import { Download, Sparkles, AlertCircle, PenLine, Copy, RefreshCw, ChevronLeft, Clock, ArrowRightLeft, Check, Wand2 } from 'lucide-react';
+import { useSubtitleHistory } from '../utils/subtitleHistory';
+import { listSpeakers, renameSpeaker, labelSpeakers } from '../utils/speakerHelpers';
+import { alignWordsInFile, DEFAULT_HIGHLIGHT_COLOR } from '../utils/wordTiming';
+import { detectSpeechInFile, snapSubtitlesToSpeech, SpeechSegment } from '../utils/vadHelpers';
+import { checkSubtitles, fixQcIssue, fixAllQcIssues, getQcPreset, QcIssue, QcRules } from '../utils/qcHelpers';
+import { QcPanel, QcBadges } from './QcPanel';
+import { CancelButton } from './CancelButton';
+import { ErrorMessage, ToolError } from './ErrorMessage';
+import { CachedResultNotice } from './CachedResultNotice';
+import { SpeakerPanel } from './SpeakerPanel';
+import { WordChips } from './WordChips';
+import { isAbortError, useAbortController } from '../utils/abortHelpers';
+import { Download, Sparkles, AlertCircle, PenLine, Copy, RefreshCw, ChevronLeft, Clock, ArrowRightLeft, Check, Wand2, Undo2, Redo2, FileText, AudioLines } from 'lucide-react';
 
 type Step = 'upload' | 'configure' | 'processing' | 'editor';
 
@@ -13,13 +26,23 @@ type Step = 'upload' | 'configure' | 'processing' | 'editor';
 const SubtitleEditorItem = React.memo(({ 
     sub, 
     isActive, 
+    issues,
+    showSpeaker,
+    currentTime,
     onUpdate, 
-    onActivate 
+    onActivate,
+    onFix,
+    onSeek
 }: { 
     sub: Subtitle, 
     isActive: boolean, 
+    issues: QcIssue[],
+    showSpeaker: boolean,
+    currentTime?: number,
     onUpdate: (id: number, field: keyof Subtitle, value: any) => void,
-    onActivate: (id: number) => void
+    onActivate: (id: number) => void,
+    onFix: (issue: QcIssue) => void,
+    onSeek: (time: number) => void
 }) => {
     const rowRef = useRef<HTMLDivElement>(null);
 
@@ -55,7 +78,18 @@ const SubtitleEditorItem = React.memo(({
             className={`group p-3 rounded-lg transition-colors border border-transparent ${isActive ? 'bg-blue-50 border-blue-200 shadow-sm' : 'hover:bg-gray-50'}`}
             onClick={() => onActivate(sub.id)}
         >
-            <div className="text-gray-400 font-medium text-xs mb-1">#{sub.id}</div>
+            <div className="flex items-center gap-3 text-gray-400 font-medium text-xs mb-1">
+                <span>#{sub.id}</span>
+                {showSpeaker && (
+                    <input
+                        type="text"
+                        value={sub.speaker ?? ''}
+                        placeholder="Speaker"
+                        className="bg-transparent border-b border-dashed border-gray-300 focus:border-blue-500 focus:outline-none w-28 text-gray-600 transition-colors"
+                        onChange={(e) => onUpdate(sub.id, 'speaker', e.target.value || undefined)}
+                    />
+                )}
+            </div>
             
             <div className="flex items-center gap-2 text-sm font-mono text-gray-500 mb-2">
                 <input 
@@ -80,9 +114,16 @@ const SubtitleEditorItem = React.memo(({
                 rows={Math.max(1, sub.text.split('\n').length)}
                 style={{ minHeight: '1.5rem' }}
             />
+
+            {sub.words && <WordChips subtitle={sub} onSeek={onSeek} currentTime={currentTime} />}
+
+            <QcBadges issues={issues} onFix={onFix} />
         </div>
     );
 });
+
+// Shared empty list so cues without issues keep a stable prop and skip re-rendering
+const NO_ISSUES: QcIssue[] = [];
 SubtitleEditorItem.displayName = 'SubtitleEditorItem';
 
 
@@ -91,10 +132,12 @@ export const SubtitleGeneratorTool: React.FC = () => {
   const [videoFile, setVideoFile] = useState<File | null>(null);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
   
-  const [subtitles, setSubtitles] = useState<Subtitle[]>([]);
-  const [error, setError] = useState<string | null>(null);
+  const { subtitles, setSubtitles, resetSubtitles, undo, redo, canUndo, canRedo, editorRef } = useSubtitleHistory();
+  const [error, setError] = useState<ToolError | null>(null);
   const [activeSubtitleId, setActiveSubtitleId] = useState<number | null>(null);
   const [progress, setProgress] = useState(0);
+  const job = useAbortController();
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
 
   // Playback state lifted from VideoPlayer
   const [currentTime, setCurrentTime] = useState(0);
@@ -104,9 +147,16 @@ export const SubtitleGeneratorTool: React.FC = () => {
   const [showSyncTools, setShowSyncTools] = useState(false);
   const [syncOffset, setSyncOffset] = useState<number>(0);
   const [isAutoSyncing, setIsAutoSyncing] = useState(false);
+  const [isAligningWords, setIsAligningWords] = useState(false);
   const [autoSyncMsg, setAutoSyncMsg] = useState<string | null>(null);
+  // Speech segments of the current video, detected once and reused by every Auto Sync
+  const speechRef = useRef<{ file: File; segments: SpeechSegment[] } | null>(null);
+  const [qcRules, setQcRules] = useState<QcRules>(getQcPreset('generator'));
+  const [speakerLabels, setSpeakerLabels] = useState(false);
+
+  const hasWordTiming = useMemo(() => subtitles.some(sub => sub.words), [subtitles]);
 
-  // Memoize style to prevent re-renders in VideoPlayer
+  // Memoize style to prevent re-renders in VideoPlayer; karaoke preview once words are timed
   const previewStyle: SubtitleStyle = useMemo(() => ({
     fontSize: 24,
     color: '#ffffff',
@@ -114,7 +164,8 @@ export const SubtitleGeneratorTool: React.FC = () => {
     backgroundOpacity: 0.6,
     position: 'bottom',
     fontFamily: 'Inter, sans-serif',
-  }), []);
+    highlightColor: hasWordTiming ? DEFAULT_HIGHLIGHT_COLOR : undefined,
+  }), [hasWordTiming]);
 
   useEffect(() => {
     return () => {
@@ -139,8 +190,9 @@ export const SubtitleGeneratorTool: React.FC = () => {
   }, [autoSyncMsg]);
 
   const handleVideoSelect = (file: File) => {
-    if (file.size > 25 * 1024 * 1024) {
-        setError("File too large. Please use a video under 25MB for this AI tool.");
+    // Large files are split into audio chunks before upload, but still have to be decoded in the browser
+    if (file.size > MAX_LONG_MEDIA_MB * 1024 * 1024) {
+        setError(`File too large. Please use a video under ${MAX_LONG_MEDIA_MB}MB for this AI tool.`);
         return;
     }
     setVideoFile(file);
@@ -150,18 +202,22 @@ export const SubtitleGeneratorTool: React.FC = () => {
     setStep('configure');
   };
 
-  const handleGenerate = async () => {
+  const handleGenerate = async (regenerate = false) => {
     if (!videoFile) return;
     setStep('processing');
     setError(null);
+    setCachedAt(null);
     setProgress(0);
 
     const interval = setInterval(() => {
         setProgress(p => (p < 90 ? p + 5 : p));
     }, 500);
 
+    const signal = job.start();
+    // Long media reports its finished chunks, which moves the bar on past the estimate
+    const onProgress = (percent: number) => setProgress(prev => Math.max(prev, Math.min(percent, 99)));
     try {
-      const generated = await generateSubtitlesFromVideo(videoFile);
+      const generated = await generateSubtitlesFromVideo(videoFile, undefined, { signal, regenerate, onCacheHit: setCachedAt, onProgress });
       clearInterval(interval);
       setProgress(100);
 
@@ -169,13 +225,17 @@ export const SubtitleGeneratorTool: React.FC = () => {
         setError("No speech detected.");
         setStep('configure');
       } else {
-        setSubtitles(generated);
+        resetSubtitles(generated);
         setStep('editor');
       }
     } catch (err: any) {
       clearInterval(interval);
+      if (isAbortError(err)) {
+        setStep('configure');
+        return;
+      }
       console.error(err);
-      setError(err.message || "Failed to generate subtitles.");
+      setError(err instanceof Error ? err : "Failed to generate subtitles.");
       setStep('configure');
     }
   };
@@ -186,18 +246,16 @@ export const SubtitleGeneratorTool: React.FC = () => {
     setIsAutoSyncing(true);
     setAutoSyncMsg(null);
     try {
-        const offset = await calculateAutoSyncOffset(videoFile, subtitles);
+        if (speechRef.current?.file !== videoFile) {
+            speechRef.current = { file: videoFile, segments: await detectSpeechInFile(videoFile) };
+        }
+        const { subtitles: snapped, adjusted } = snapSubtitlesToSpeech(subtitles, speechRef.current.segments);
         
-        if (Math.abs(offset) < 0.05) {
-            setAutoSyncMsg("Synced (Difference < 0.05s)");
+        if (adjusted === 0) {
+            setAutoSyncMsg("Already aligned with speech");
         } else {
-            setSubtitles(prev => prev.map(sub => ({
-                ...sub,
-                startTime: Math.max(0, sub.startTime + offset),
-                endTime: Math.max(0, sub.endTime + offset)
-            })));
-            const sign = offset > 0 ? '+' : '';
-            setAutoSyncMsg(`Shifted ${sign}${offset.toFixed(2)}s to match audio start`);
+            setSubtitles(snapped);
+            setAutoSyncMsg(`Snapped ${adjusted} cue${adjusted === 1 ? '' : 's'} to speech boundaries`);
         }
     } catch (e) {
         console.error(e);
@@ -207,16 +265,64 @@ export const SubtitleGeneratorTool: React.FC = () => {
     }
   };
 
+  const handleAlignWords = async () => {
+    if (!videoFile || subtitles.length === 0) return;
+
+    setIsAligningWords(true);
+    setAutoSyncMsg(null);
+    try {
+        const aligned = await alignWordsInFile(videoFile, subtitles);
+        const count = aligned.reduce((sum, sub) => sum + (sub.words?.length ?? 0), 0);
+        setSubtitles(aligned);
+        setAutoSyncMsg(`Timed ${count} word${count === 1 ? '' : 's'} from the audio`);
+    } catch (e) {
+        console.error(e);
+        setAutoSyncMsg("Word timing failed.");
+    } finally {
+        setIsAligningWords(false);
+    }
+  };
+
   const handleSubtitleUpdate = useCallback((id: number, field: keyof Subtitle, value: any) => {
+    // Keystrokes in the same field collapse into a single undo step
     setSubtitles(prev => prev.map(sub => 
         sub.id === id ? { ...sub, [field]: value } : sub
-    ));
-  }, []);
+    ), `${id}:${field}`);
+  }, [setSubtitles]);
 
   const handleActivateSubtitle = useCallback((id: number) => {
       setActiveSubtitleId(id);
   }, []); 
 
+  const qcIssues = useMemo(() => checkSubtitles(subtitles, qcRules), [subtitles, qcRules]);
+
+  const issuesBySubtitle = useMemo(() => {
+    const map = new Map<number, QcIssue[]>();
+    qcIssues.forEach(issue => map.set(issue.subtitleId, [...(map.get(issue.subtitleId) ?? []), issue]));
+    return map;
+  }, [qcIssues]);
+
+  const handleFixIssue = useCallback((issue: QcIssue) => {
+    setSubtitles(prev => fixQcIssue(prev, issue, qcRules));
+  }, [qcRules]);
+
+  const handleFixAll = () => {
+    setSubtitles(prev => fixAllQcIssues(prev, qcRules));
+  };
+
+  const speakers = useMemo(() => listSpeakers(subtitles), [subtitles]);
+
+  const handleRenameSpeaker = (from: string, to: string) => {
+    setSubtitles(prev => renameSpeaker(prev, from, to));
+  };
+
+  const handleSelectIssue = (id: number) => {
+    const sub = subtitles.find(s => s.id === id);
+    if (!sub) return;
+    setActiveSubtitleId(id);
+    handleSeek(sub.startTime);
+  };
+
   const handleApplySync = () => {
     if (syncOffset === 0) return;
     
@@ -231,7 +337,10 @@ export const SubtitleGeneratorTool: React.FC = () => {
   };
 
   const handleDownload = (format: 'srt' | 'vtt') => {
-    const content = format === 'srt' ? generateSRT(subtitles) : generateVTT(subtitles);
+    // WebVTT always keeps speakers as <v> voices; SRT only gets "Name: " when asked for
+    const content = format === 'srt'
+      ? generateSRT(speakerLabels ? labelSpeakers(subtitles) : subtitles)
+      : generateVTT(subtitles);
     const blob = new Blob([content], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -242,15 +351,15 @@ export const SubtitleGeneratorTool: React.FC = () => {
   };
 
   const handleCopyAll = () => {
-      const text = generateSRT(subtitles);
+      const text = generateSRT(speakerLabels ? labelSpeakers(subtitles) : subtitles);
       navigator.clipboard.writeText(text);
   }
 
-  const handleSeek = (time: number) => {
+  const handleSeek = useCallback((time: number) => {
       if (videoRef.current) {
           videoRef.current.currentTime = time;
       }
-  };
+  }, []);
 
   if (step === 'upload') {
     return (
@@ -262,13 +371,13 @@ export const SubtitleGeneratorTool: React.FC = () => {
                     accept="video/*"
                     onFileSelect={handleVideoSelect}
                     label="Upload Video"
-                    subLabel="MP4, MOV, WEBM (Max 25MB)"
+                    subLabel={`MP4, MOV, WEBM (Max ${MAX_LONG_MEDIA_MB}MB)`}
                     buttonText="Select Video"
                 />
                  {error && (
                     <div className="mt-4 p-4 bg-red-50 text-red-700 rounded-lg text-sm flex items-center justify-center">
                         <AlertCircle className="w-5 h-5 mr-2" />
-                        {error}
+                        <ErrorMessage error={error} />
                     </div>
                  )}
             </div>
@@ -298,12 +407,12 @@ export const SubtitleGeneratorTool: React.FC = () => {
 
                   {error && (
                     <div className="mb-6 p-4 bg-red-50 text-red-700 rounded-lg text-sm text-left">
-                        <span className="font-bold">Error:</span> {error}
+                        <span className="font-bold">Error:</span> <ErrorMessage error={error} />
                     </div>
                   )}
 
                   <button
-                    onClick={handleGenerate}
+                    onClick={() => handleGenerate()}
                     className="w-full py-4 bg-blue-600 hover:bg-blue-700 text-white rounded-xl font-bold text-lg shadow-lg hover:shadow-blue-200 transition-all flex items-center justify-center"
                   >
                       <Sparkles className="w-5 h-5 mr-2" />
@@ -330,12 +439,13 @@ export const SubtitleGeneratorTool: React.FC = () => {
                     style={{ width: `${progress}%` }}
                 ></div>
               </div>
+              <CancelButton onCancel={job.cancel} className="mt-6" />
           </div>
       )
   }
 
   return (
-    <div className="max-w-[1600px] mx-auto px-4 py-6 h-[calc(100vh-80px)] flex flex-col">
+    <div ref={editorRef} className="max-w-[1600px] mx-auto px-4 py-6 h-[calc(100vh-80px)] flex flex-col">
       <div className="flex flex-col bg-white rounded-xl shadow-sm border border-gray-200 mb-6 flex-shrink-0">
           <div className="flex justify-between items-center p-4">
             <div className="flex items-center gap-3">
@@ -356,7 +466,7 @@ export const SubtitleGeneratorTool: React.FC = () => {
                     onClick={handleAutoSync}
                     disabled={isAutoSyncing}
                     className="p-2 rounded-lg transition-colors border border-gray-200 flex items-center gap-2 text-sm font-medium text-gray-600 hover:bg-purple-50 hover:text-purple-600 hover:border-purple-200"
-                    title="Automatically align the first subtitle with the start of speech in the audio track."
+                    title="Snap every cue's start and end to the nearest speech boundary detected in the audio track."
                 >
                     {isAutoSyncing ? (
                          <div className="animate-spin w-5 h-5 border-2 border-purple-600 border-t-transparent rounded-full" />
@@ -366,6 +476,20 @@ export const SubtitleGeneratorTool: React.FC = () => {
                     <span className="hidden sm:inline">Auto Sync</span>
                 </button>
 
+                <button 
+                    onClick={handleAlignWords}
+                    disabled={isAligningWords}
+                    className="p-2 rounded-lg transition-colors border border-gray-200 flex items-center gap-2 text-sm font-medium text-gray-600 hover:bg-purple-50 hover:text-purple-600 hover:border-purple-200"
+                    title="Time every word inside its cue from the audio, for karaoke highlighting and click-to-seek."
+                >
+                    {isAligningWords ? (
+                         <div className="animate-spin w-5 h-5 border-2 border-purple-600 border-t-transparent rounded-full" />
+                    ) : (
+                         <AudioLines className="w-5 h-5" />
+                    )}
+                    <span className="hidden sm:inline">Word Timing</span>
+                </button>
+
                 <button 
                     onClick={() => setShowSyncTools(!showSyncTools)}
                     className={`p-2 rounded-lg transition-colors border border-gray-200 flex items-center gap-2 text-sm font-medium ${showSyncTools ? 'bg-blue-50 text-blue-600 border-blue-200' : 'text-gray-600 hover:bg-gray-50'}`}
@@ -377,6 +501,25 @@ export const SubtitleGeneratorTool: React.FC = () => {
 
                 <div className="w-px h-8 bg-gray-200 mx-2"></div>
 
+                <button 
+                    onClick={undo}
+                    disabled={!canUndo}
+                    className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors border border-gray-200 disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-gray-500"
+                    title="Undo (Ctrl+Z)"
+                >
+                    <Undo2 className="w-5 h-5" />
+                </button>
+                <button 
+                    onClick={redo}
+                    disabled={!canRedo}
+                    className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors border border-gray-200 disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-gray-500"
+                    title="Redo (Ctrl+Shift+Z)"
+                >
+                    <Redo2 className="w-5 h-5" />
+                </button>
+
+                <div className="w-px h-8 bg-gray-200 mx-2"></div>
+
                 <button 
                     onClick={handleCopyAll}
                     className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors border border-gray-200"
@@ -392,7 +535,14 @@ export const SubtitleGeneratorTool: React.FC = () => {
                     <Download className="w-5 h-5" />
                 </button>
                 <button 
-                    onClick={() => { setStep('upload'); setSubtitles([]); }}
+                    onClick={() => handleDownload('vtt')}
+                    className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors border border-gray-200"
+                    title="Download WebVTT"
+                >
+                    <FileText className="w-5 h-5" />
+                </button>
+                <button 
+                    onClick={() => { setStep('upload'); resetSubtitles([]); }}
                     className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors border border-gray-200"
                     title="Start Over"
                 >
@@ -401,6 +551,8 @@ export const SubtitleGeneratorTool: React.FC = () => {
             </div>
           </div>
 
+          <CachedResultNotice storedAt={cachedAt} onRegenerate={() => handleGenerate(true)} className="mx-4 mb-4" />
+
           {showSyncTools && (
              <div className="border-t border-gray-100 p-4 bg-gray-50 flex items-center gap-4 animate-in slide-in-from-top-2">
                 <div className="flex items-center gap-2 text-sm text-gray-600">
@@ -470,10 +622,26 @@ export const SubtitleGeneratorTool: React.FC = () => {
                   currentTime={currentTime}
                   duration={duration}
                   onSeek={handleSeek}
+                  onSubtitlesChange={setSubtitles}
                />
           </div>
 
           <div className="lg:w-1/2 flex flex-col bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden h-full">
+              <SpeakerPanel
+                  speakers={speakers}
+                  onRename={handleRenameSpeaker}
+                  labels={speakerLabels}
+                  onLabelsChange={setSpeakerLabels}
+                  className="border-b border-gray-100"
+              />
+              <QcPanel
+                  issues={qcIssues}
+                  rules={qcRules}
+                  onRulesChange={setQcRules}
+                  onFix={handleFixIssue}
+                  onFixAll={handleFixAll}
+                  onSelect={handleSelectIssue}
+              />
               <div className="flex-grow overflow-y-auto p-6 space-y-4 scrollbar-thin">
                   {subtitles.length > 0 ? (
                       subtitles.map((sub) => (
@@ -481,8 +649,13 @@ export const SubtitleGeneratorTool: React.FC = () => {
                             key={sub.id} 
                             sub={sub} 
                             isActive={activeSubtitleId === sub.id} 
+                            issues={issuesBySubtitle.get(sub.id) ?? NO_ISSUES}
+                            showSpeaker={speakers.length > 0}
+                            currentTime={activeSubtitleId === sub.id ? currentTime : undefined}
                             onUpdate={handleSubtitleUpdate}
                             onActivate={handleActivateSubtitle}
+                            onFix={handleFixIssue}
+                            onSeek={handleSeek}
                         />
                       ))
                   ) : (
@@ -1,23 +1,31 @@
 import React, { useState, useRef } from 'react';
-import { UploadCloud, Video, Download, Copy, RefreshCw, PenLine, AlertTriangle, Film } from 'lucide-react';
-import { summarizeVideo } from '../services/geminiService';
+import { UploadCloud, Video, Download, Copy, RefreshCw, PenLine, AlertTriangle, Film, FileDown } from 'lucide-react';
+import { summarizeVideo } from '../services/aiProvider';
+import { MAX_LONG_MEDIA_MB } from '../services/mediaChunker';
+import { textToDocx } from '../utils/docxHelpers';
+import { CancelButton } from './CancelButton';
+import { ErrorMessage, ToolError } from './ErrorMessage';
+import { CachedResultNotice } from './CachedResultNotice';
+import { isAbortError, useAbortController } from '../utils/abortHelpers';
 
 export const SummarizeVideoTool: React.FC = () => {
   const [file, setFile] = useState<File | null>(null);
   
   // Processing States
   const [isProcessing, setIsProcessing] = useState(false);
+  const job = useAbortController();
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
   const [progress, setProgress] = useState(0);
   const [resultText, setResultText] = useState('');
   const [editableText, setEditableText] = useState('');
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ToolError | null>(null);
   
   // Refs
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const validateAndSetFile = (selectedFile: File) => {
-    // 25MB recommended limit for inline uploads
-    const LIMIT_MB = 25;
+    // Files above the inline limit are processed in chunks, so only decoding memory caps the size
+    const LIMIT_MB = MAX_LONG_MEDIA_MB;
     if (selectedFile.size > LIMIT_MB * 1024 * 1024) {
       setError(`File is too large (${(selectedFile.size / 1024 / 1024).toFixed(1)}MB). Please use a file under ${LIMIT_MB}MB to prevent API timeouts.`);
       return;
@@ -45,12 +53,13 @@ export const SummarizeVideoTool: React.FC = () => {
     }
   };
 
-  const handleSummarize = async () => {
+  const handleSummarize = async (regenerate = false) => {
     if (!file) return;
 
     setIsProcessing(true);
     setProgress(0);
     setError(null);
+    setCachedAt(null);
 
     // Simulate progress
     const progressInterval = file.size > 10 * 1024 * 1024 ? 2000 : 1000;
@@ -62,22 +71,30 @@ export const SummarizeVideoTool: React.FC = () => {
       });
     }, progressInterval);
 
+    const signal = job.start();
+    // Long media reports its finished chunks, which moves the bar on past the estimate
+    const onProgress = (percent: number) => setProgress(prev => Math.max(prev, Math.min(percent, 99)));
     try {
-      const text = await summarizeVideo(file);
+      const text = await summarizeVideo(file, { signal, regenerate, onCacheHit: setCachedAt, onProgress });
       setResultText(text);
       setEditableText(text);
       setProgress(100);
     } catch (err: any) {
+      if (isAbortError(err)) return;
       console.error("Summarize Video UI Error:", err);
-      let msg = "Failed to summarize video. Please try again.";
-      if (err instanceof Error) msg = err.message;
-      setError(msg);
+      setError(err instanceof Error ? err : "Failed to summarize video. Please try again.");
     } finally {
       clearInterval(interval);
       setIsProcessing(false);
     }
   };
 
+  // Back to the progress view and ask the provider again, replacing the cached result
+  const handleRegenerate = () => {
+    setResultText('');
+    handleSummarize(true);
+  };
+
   const handleCopy = () => {
     navigator.clipboard.writeText(editableText);
   };
@@ -92,6 +109,16 @@ export const SummarizeVideoTool: React.FC = () => {
     URL.revokeObjectURL(url);
   };
 
+  const handleDownloadDocx = () => {
+    const blob = textToDocx('Video Summary', editableText);
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `video_summary_${Date.now()}.docx`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
   const handleReset = () => {
     setFile(null);
     setResultText('');
@@ -105,6 +132,7 @@ export const SummarizeVideoTool: React.FC = () => {
   if (resultText) {
     return (
       <div className="max-w-4xl mx-auto px-4 py-12">
+        <CachedResultNotice storedAt={cachedAt} onRegenerate={handleRegenerate} className="mb-6" />
         <div className="flex justify-between items-center mb-8">
           <div className="flex items-center gap-3">
             <h1 className="text-3xl font-bold text-gray-900">Video Summary</h1>
@@ -116,6 +144,7 @@ export const SummarizeVideoTool: React.FC = () => {
           <div className="flex gap-2">
             <button onClick={handleCopy} className="p-2 text-gray-500 hover:text-rose-600 hover:bg-rose-50 rounded-lg transition-colors border border-gray-200" title="Copy text"><Copy className="w-5 h-5" /></button>
             <button onClick={handleDownload} className="p-2 text-gray-500 hover:text-rose-600 hover:bg-rose-50 rounded-lg transition-colors border border-gray-200" title="Download text"><Download className="w-5 h-5" /></button>
+            <button onClick={handleDownloadDocx} className="p-2 text-gray-500 hover:text-rose-600 hover:bg-rose-50 rounded-lg transition-colors border border-gray-200" title="Download Word document"><FileDown className="w-5 h-5" /></button>
             <button onClick={handleReset} className="p-2 text-gray-500 hover:text-rose-600 hover:bg-rose-50 rounded-lg transition-colors border border-gray-200" title="Start Over"><RefreshCw className="w-5 h-5" /></button>
           </div>
         </div>
@@ -202,7 +231,7 @@ export const SummarizeVideoTool: React.FC = () => {
           ) : (
               <>
                   <h3 className="text-xl font-bold text-gray-900 mb-2">Click to upload video or drag and drop</h3>
-                  <p className="text-gray-500 mb-8">MP4, MOV, AVI, WEBM (Max 25MB)</p>
+                  <p className="text-gray-500 mb-8">MP4, MOV, AVI, WEBM (Max {MAX_LONG_MEDIA_MB}MB)</p>
                   <button 
                     onClick={() => fileInputRef.current?.click()}
                     className="px-6 py-2 border border-gray-300 rounded-lg text-gray-700 bg-white hover:bg-gray-50 font-medium transition-colors"
@@ -213,11 +242,11 @@ export const SummarizeVideoTool: React.FC = () => {
           )}
       </div>
 
-      {file && file.size > 25 * 1024 * 1024 && (
+      {file && file.size > MAX_LONG_MEDIA_MB * 1024 * 1024 && (
         <div className="mb-6 p-3 bg-red-50 text-red-800 rounded-lg text-sm border border-red-100 flex items-start">
         <AlertTriangle className="w-5 h-5 mr-2 flex-shrink-0" />
         <span>
-            <strong>File too large!</strong> Video files must be under 25MB for this online tool. 
+            <strong>File too large!</strong> Video files must be under {MAX_LONG_MEDIA_MB}MB for this online tool. 
         </span>
         </div>
       )}
@@ -225,7 +254,7 @@ export const SummarizeVideoTool: React.FC = () => {
       {error && (
         <div className="mb-6 p-4 bg-red-50 text-red-700 rounded-lg text-sm border border-red-100 flex items-start">
             <AlertTriangle className="w-5 h-5 mr-2 flex-shrink-0 mt-0.5" />
-            <span>{error}</span>
+            <span><ErrorMessage error={error} /></span>
         </div>
       )}
 
@@ -240,14 +269,15 @@ export const SummarizeVideoTool: React.FC = () => {
             <p className="text-sm text-center text-gray-500 animate-pulse">
                 Analyzing video content...
             </p>
+            <CancelButton onCancel={job.cancel} />
          </div>
       )}
 
       <button
-        onClick={handleSummarize}
-        disabled={!file || isProcessing || (file ? file.size > 25 * 1024 * 1024 : false)}
+        onClick={() => handleSummarize()}
+        disabled={!file || isProcessing || (file ? file.size > MAX_LONG_MEDIA_MB * 1024 * 1024 : false)}
         className={`w-full py-4 rounded-xl text-lg font-bold transition-all transform active:scale-[0.99] shadow-lg flex items-center justify-center ${
-            !file || isProcessing || (file ? file.size > 25 * 1024 * 1024 : false)
+            !file || isProcessing || (file ? file.size > MAX_LONG_MEDIA_MB * 1024 * 1024 : false)
             ? 'bg-gray-200 text-gray-400 cursor-not-allowed shadow-none'
             : 'bg-rose-600 text-white hover:bg-rose-700 hover:shadow-rose-200'
         }`}
@@ -0,0 +1,134 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AlignLeft, Clock } from 'lucide-react';
+import { MediaKind, TranscriptMode, TranscriptSegment } from '../types';
+import { activeSegmentIndex, formatClock } from '../utils/transcriptHelpers';
+import { listSpeakers } from '../utils/speakerHelpers';
+import { languageName } from '../utils/languageHelpers';
+
+interface TranscriptModeToggleProps {
+  mode: TranscriptMode;
+  onChange: (mode: TranscriptMode) => void;
+  disabled?: boolean;
+}
+
+// Plain text, or paragraphs with start times that follow the player
+export const TranscriptModeToggle: React.FC<TranscriptModeToggleProps> = ({ mode, onChange, disabled }) => {
+  const option = (value: TranscriptMode, label: string, Icon: typeof Clock) => (
+    <button
+      type="button"
+      onClick={() => onChange(value)}
+      disabled={disabled}
+      className={`px-4 py-1.5 rounded-md text-sm font-medium flex items-center transition-all ${mode === value ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+    >
+      <Icon className="w-4 h-4 mr-2" />
+      {label}
+    </button>
+  );
+  return (
+    <div className="flex justify-center">
+      <div className="bg-gray-100 p-1 rounded-lg inline-flex">
+        {option('plain', 'Plain text', AlignLeft)}
+        {option('timestamped', 'Timestamped', Clock)}
+      </div>
+    </div>
+  );
+};
+
+interface TimestampedTranscriptProps {
+  file: File;
+  kind: MediaKind;
+  segments: TranscriptSegment[];
+  mainLanguage?: string; // ISO code; paragraphs in another language are tagged with theirs
+  onChange: (segments: TranscriptSegment[]) => void;
+}
+
+// The recording next to its paragraphs. The paragraph being played is highlighted and kept in view;
+// clicking a timestamp jumps the player there. Paragraph text stays editable.
+export const TimestampedTranscript: React.FC<TimestampedTranscriptProps> = ({ file, kind, segments, mainLanguage, onChange }) => {
+  const mediaRef = useRef<HTMLMediaElement | null>(null);
+  const rowRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const mediaUrl = useMemo(() => URL.createObjectURL(file), [file]);
+  useEffect(() => () => URL.revokeObjectURL(mediaUrl), [mediaUrl]);
+
+  const active = activeSegmentIndex(segments, currentTime);
+  const showSpeakers = listSpeakers(segments).length > 1;
+  const otherLanguage = (segment: TranscriptSegment) =>
+    mainLanguage && segment.language !== mainLanguage ? segment.language : undefined;
+
+  // Follow playback, but leave the scroll position alone while the user reads or edits
+  useEffect(() => {
+    if (isPlaying && active >= 0) rowRefs.current[active]?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [active, isPlaying]);
+
+  const seek = (time: number) => {
+    const media = mediaRef.current;
+    if (!media) return;
+    media.currentTime = time;
+    setCurrentTime(time);
+    media.play().catch(() => {});
+  };
+
+  const updateText = (index: number, text: string) => {
+    onChange(segments.map((segment, i) => (i === index ? { ...segment, text } : segment)));
+  };
+
+  const mediaProps = {
+    ref: mediaRef,
+    src: mediaUrl,
+    controls: true,
+    onTimeUpdate: (e: React.SyntheticEvent<HTMLMediaElement>) => setCurrentTime(e.currentTarget.currentTime),
+    onPlay: () => setIsPlaying(true),
+    onPause: () => setIsPlaying(false),
+  };
+
+  return (
+    <div>
+      <div className={kind === 'video' ? 'bg-black' : 'p-4 bg-gray-50 border-b border-gray-100'}>
+        {kind === 'video'
+          ? <video {...mediaProps} className="w-full max-h-80" />
+          : <audio {...mediaProps} className="w-full" />}
+      </div>
+      <div className="max-h-[28rem] overflow-y-auto divide-y divide-gray-100">
+        {segments.map((segment, index) => (
+          <div
+            key={index}
+            ref={el => { rowRefs.current[index] = el; }}
+            className={`flex gap-4 px-6 py-4 transition-colors ${index === active ? 'bg-blue-50' : ''}`}
+          >
+            <button
+              type="button"
+              onClick={() => seek(segment.startTime ?? 0)}
+              className={`shrink-0 h-fit px-2 py-1 rounded font-mono text-sm transition-colors ${index === active ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-blue-100 hover:text-blue-700'}`}
+              title="Play from here"
+            >
+              {formatClock(segment.startTime ?? 0)}
+            </button>
+            <div className="flex-1 min-w-0">
+              {((showSpeakers && segment.speaker) || otherLanguage(segment)) && (
+                <div className="flex items-center gap-2 mb-1">
+                  {showSpeakers && segment.speaker && (
+                    <span className="text-xs font-semibold text-gray-500 uppercase tracking-wide">{segment.speaker}</span>
+                  )}
+                  {otherLanguage(segment) && (
+                    <span className="px-1.5 rounded bg-amber-100 text-amber-800 text-xs font-medium" title={languageName(segment.language!)}>
+                      {segment.language!.toUpperCase()}
+                    </span>
+                  )}
+                </div>
+              )}
+              <textarea
+                value={segment.text}
+                onChange={(e) => updateText(index, e.target.value)}
+                rows={Math.max(2, Math.ceil(segment.text.length / 80))}
+                className="w-full bg-transparent text-gray-700 leading-relaxed resize-none focus:outline-none focus:ring-2 focus:ring-blue-500/20 rounded"
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
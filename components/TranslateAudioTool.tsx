@@ -1,6 +1,16 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { UploadCloud, Mic, Download, Copy, RefreshCw, PenLine, AlertTriangle, Square, Trash2, Languages } from 'lucide-react';
-import { translateAudio } from '../services/geminiService';
+import { translateAudio, transcribeAudio } from '../services/aiProvider';
+import { CancelButton } from './CancelButton';
+import { ErrorMessage, ToolError } from './ErrorMessage';
+import { CachedResultNotice } from './CachedResultNotice';
+import { SourceLanguageSelect, useSourceLanguage } from './SourceLanguageSelect';
+import { GlossaryNotice, GlossaryViolations } from './GlossaryCheck';
+import { glossaryFor } from '../services/glossaryStore';
+import { isAbortError, useAbortController } from '../utils/abortHelpers';
+import { sameLanguage } from '../utils/languageHelpers';
+import { checkGlossaryText, NO_GLOSSARY } from '../utils/glossaryHelpers';
+import { TranslationGlossary } from '../types';
 
 const LANGUAGES = [
     { code: 'English', name: 'English' },
@@ -32,10 +42,18 @@ export const TranslateAudioTool: React.FC = () => {
   
   // Processing States
   const [isProcessing, setIsProcessing] = useState(false);
+  const job = useAbortController();
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
   const [progress, setProgress] = useState(0);
   const [resultText, setResultText] = useState('');
   const [editableText, setEditableText] = useState('');
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ToolError | null>(null);
+  const [translationSkipped, setTranslationSkipped] = useState(false);
+  const source = useSourceLanguage(LANGUAGES, file);
+  const glossary = useMemo(() => glossaryFor(source.sourceLanguage, targetLanguage), [source.sourceLanguage, targetLanguage]);
+  // Checked against the edited text, so fixing a term clears its warning
+  const [appliedGlossary, setAppliedGlossary] = useState<TranslationGlossary>(NO_GLOSSARY);
+  const violations = useMemo(() => checkGlossaryText(editableText, appliedGlossary), [editableText, appliedGlossary]);
   
   // Recording States
   const [isRecording, setIsRecording] = useState(false);
@@ -65,6 +83,9 @@ export const TranslateAudioTool: React.FC = () => {
   useEffect(() => {
     return () => {
       if (mediaRecorderRef.current) {
+        // Leaving mid-recording discards it instead of loading it into a tool that is gone
+        mediaRecorderRef.current.onstop = null;
+        if (mediaRecorderRef.current.state !== 'inactive') mediaRecorderRef.current.stop();
         if (mediaRecorderRef.current.stream) {
            mediaRecorderRef.current.stream.getTracks().forEach(track => track.stop());
         }
@@ -179,12 +200,13 @@ export const TranslateAudioTool: React.FC = () => {
 
   // --- Translation Logic ---
 
-  const handleTranslate = async () => {
+  const handleTranslate = async (regenerate = false) => {
     if (!file) return;
 
     setIsProcessing(true);
     setProgress(0);
     setError(null);
+    setCachedAt(null);
 
     // Simulate progress
     const progressInterval = file.size > 5 * 1024 * 1024 ? 1500 : 500;
@@ -195,22 +217,36 @@ export const TranslateAudioTool: React.FC = () => {
       });
     }, progressInterval);
 
+    const signal = job.start();
+    // Long media reports its finished chunks, which moves the bar on past the estimate
+    const onProgress = (percent: number) => setProgress(prev => Math.max(prev, Math.min(percent, 99)));
     try {
-      const text = await translateAudio(file, targetLanguage);
+      // Already in the target language: a transcript is all there is to deliver
+      const skip = sameLanguage(source.sourceLanguage, targetLanguage);
+      const text = skip
+        ? (await transcribeAudio(file, { signal, regenerate, onCacheHit: setCachedAt, onProgress })).text
+        : await translateAudio(file, targetLanguage, { signal, regenerate, onCacheHit: setCachedAt, onProgress }, glossary);
+      setTranslationSkipped(skip);
+      setAppliedGlossary(skip ? NO_GLOSSARY : glossary);
       setResultText(text);
       setEditableText(text);
       setProgress(100);
     } catch (err: any) {
+      if (isAbortError(err)) return;
       console.error("Translate Audio Error:", err);
-      let msg = "Failed to translate audio. Please try again.";
-      if (err instanceof Error) msg = err.message;
-      setError(msg);
+      setError(err instanceof Error ? err : "Failed to translate audio. Please try again.");
     } finally {
       clearInterval(interval);
       setIsProcessing(false);
     }
   };
 
+  // Back to the progress view and ask the provider again, replacing the cached result
+  const handleRegenerate = () => {
+    setResultText('');
+    handleTranslate(true);
+  };
+
   const handleCopy = () => {
     navigator.clipboard.writeText(editableText);
   };
@@ -240,9 +276,10 @@ export const TranslateAudioTool: React.FC = () => {
   if (resultText) {
     return (
       <div className="max-w-4xl mx-auto px-4 py-12">
+        <CachedResultNotice storedAt={cachedAt} onRegenerate={handleRegenerate} className="mb-6" />
         <div className="flex justify-between items-center mb-8">
           <div className="flex items-center gap-3">
-            <h1 className="text-3xl font-bold text-gray-900">Translation ({targetLanguage})</h1>
+            <h1 className="text-3xl font-bold text-gray-900">{translationSkipped ? 'Transcript' : 'Translation'} ({targetLanguage})</h1>
             <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
               <PenLine className="w-3 h-3 mr-1" />
               Editable
@@ -273,6 +310,14 @@ export const TranslateAudioTool: React.FC = () => {
           </div>
         </div>
 
+        {translationSkipped && (
+          <p className="-mt-4 mb-6 text-sm text-gray-500">
+            The recording is already in {targetLanguage}, so it was transcribed instead of translated.
+          </p>
+        )}
+
+        <GlossaryViolations glossary={appliedGlossary} violations={violations} unit="Paragraph" className="mb-6" />
+
         <div className="bg-white rounded-xl border border-purple-200 shadow-sm overflow-hidden">
           <textarea
             value={editableText}
@@ -428,7 +473,17 @@ export const TranslateAudioTool: React.FC = () => {
 
       {/* Language Selector & Action */}
       <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-200">
-          <div className="mb-6">
+          <div className="mb-6 grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <SourceLanguageSelect
+              languages={LANGUAGES}
+              value={source.sourceLanguage}
+              onChange={source.setSourceLanguage}
+              detection={source.detection}
+              isDetecting={source.isDetecting}
+              detectionFailed={source.detectionFailed}
+              disabled={isProcessing}
+            />
+            <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">Target Language</label>
               <select
                 value={targetLanguage}
@@ -440,12 +495,14 @@ export const TranslateAudioTool: React.FC = () => {
                       <option key={lang.code} value={lang.code}>{lang.name}</option>
                   ))}
               </select>
+            </div>
           </div>
+          <GlossaryNotice glossary={glossary} className="-mt-3 mb-6" />
 
           {error && (
             <div className="mb-6 p-4 bg-red-50 text-red-700 rounded-lg text-sm border border-red-100 flex items-start">
                 <AlertTriangle className="w-5 h-5 mr-2 flex-shrink-0 mt-0.5" />
-                <span>{error}</span>
+                <span><ErrorMessage error={error} /></span>
             </div>
           )}
 
@@ -460,11 +517,12 @@ export const TranslateAudioTool: React.FC = () => {
                 <p className="text-sm text-center text-gray-500 animate-pulse">
                     Translating audio content...
                 </p>
+                <CancelButton onCancel={job.cancel} />
              </div>
           )}
 
           <button
-            onClick={handleTranslate}
+            onClick={() => handleTranslate()}
             disabled={!file || isProcessing}
             className={`w-full py-4 rounded-xl text-lg font-bold transition-all transform active:scale-[0.99] shadow-lg flex items-center justify-center ${
                 !file || isProcessing
@@ -1,9 +1,26 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { FileUploader } from './FileUploader';
-import { parseSRT, generateSRT, generateVTT } from '../utils/srtHelpers';
-import { translateSubtitles } from '../services/geminiService';
-import { Subtitle } from '../types';
-import { Languages, Download, ArrowRight, CheckCircle, AlertCircle, RefreshCw, Copy } from 'lucide-react';
+import {
+    parseSubtitleFile,
+    convertSubtitles,
+    convertBilingualSubtitles,
+    BilingualExportFormat,
+    SUBTITLE_FILE_ACCEPT,
+} from '../utils/srtHelpers';
+import { readTextFile, TextEncodingId, ExportEncodingId, EncodingDetection } from '../utils/encodingHelpers';
+import { translateSubtitles } from '../services/aiProvider';
+import { SourceEncodingSelect, ExportEncodingSelect } from './EncodingSelect';
+import { CancelButton } from './CancelButton';
+import { ErrorMessage, ToolError } from './ErrorMessage';
+import { CachedResultNotice } from './CachedResultNotice';
+import { SourceLanguageSelect, useSourceLanguage } from './SourceLanguageSelect';
+import { GlossaryNotice, GlossaryViolations, describeViolation } from './GlossaryCheck';
+import { glossaryFor } from '../services/glossaryStore';
+import { isAbortError, useAbortController } from '../utils/abortHelpers';
+import { sameLanguage } from '../utils/languageHelpers';
+import { checkGlossaryCues, NO_GLOSSARY } from '../utils/glossaryHelpers';
+import { Subtitle, AssDocument, VttDocument, TranslationGlossary } from '../types';
+import { Languages, Download, ArrowRight, CheckCircle, AlertCircle, AlertTriangle, RefreshCw, Copy, Layers } from 'lucide-react';
 
 const LANGUAGES = [
     { code: 'es', name: 'Spanish' },
@@ -27,78 +44,136 @@ const LANGUAGES = [
     { code: 'bn', name: 'Bengali' },
 ];
 
+// English is a common source even though the tool does not offer it as a target
+const SOURCE_LANGUAGES = [{ code: 'en', name: 'English' }, ...LANGUAGES];
+
 export const TranslateSubtitlesTool: React.FC = () => {
     const [file, setFile] = useState<File | null>(null);
     const [originalSubtitles, setOriginalSubtitles] = useState<Subtitle[]>([]);
     const [translatedSubtitles, setTranslatedSubtitles] = useState<Subtitle[]>([]);
+    const [assDocument, setAssDocument] = useState<AssDocument | null>(null);
+    const [vttDocument, setVttDocument] = useState<VttDocument | null>(null);
     const [targetLanguage, setTargetLanguage] = useState('es');
+    const [sourceEncoding, setSourceEncoding] = useState<TextEncodingId | 'auto'>('auto');
+    const [detectedEncoding, setDetectedEncoding] = useState<EncodingDetection | null>(null);
+    const [exportEncoding, setExportEncoding] = useState<ExportEncodingId>('utf-8');
     const [isProcessing, setIsProcessing] = useState(false);
+    const job = useAbortController();
+    const [cachedAt, setCachedAt] = useState<number | null>(null);
     const [progress, setProgress] = useState(0);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<ToolError | null>(null);
+    const [translationSkipped, setTranslationSkipped] = useState(false);
+    const source = useSourceLanguage(SOURCE_LANGUAGES, originalSubtitles);
+    const glossary = useMemo(() => glossaryFor(source.sourceLanguage, targetLanguage), [source.sourceLanguage, targetLanguage]);
+    // The glossary the shown translation was made with, which the check compares it against
+    const [appliedGlossary, setAppliedGlossary] = useState<TranslationGlossary>(NO_GLOSSARY);
+    const violations = useMemo(
+        () => checkGlossaryCues(originalSubtitles, translatedSubtitles, appliedGlossary),
+        [originalSubtitles, translatedSubtitles, appliedGlossary]
+    );
 
-    const handleFileSelect = async (selectedFile: File) => {
+    const loadFile = async (selectedFile: File, encoding: TextEncodingId | 'auto') => {
         setFile(selectedFile);
+        setSourceEncoding(encoding);
         setError(null);
         setTranslatedSubtitles([]);
+        setTranslationSkipped(false);
         setOriginalSubtitles([]);
+        setAssDocument(null);
+        setVttDocument(null);
 
         try {
-            const text = await selectedFile.text();
-            let cleanText = text;
-            // Basic VTT cleanup if needed
-            if (text.startsWith('WEBVTT')) {
-                cleanText = text.replace(/^WEBVTT\s+/, '').trim();
-            }
-            const parsed = parseSRT(cleanText);
-            if (parsed.length === 0) {
-                throw new Error("Could not parse subtitles. Ensure file is a valid SRT or VTT.");
-            }
-            setOriginalSubtitles(parsed);
+            const { text, detected } = await readTextFile(selectedFile, encoding);
+            setDetectedEncoding(detected);
+            const parsed = parseSubtitleFile(text, selectedFile.name);
+            setOriginalSubtitles(parsed.subtitles);
+            setAssDocument(parsed.ass ?? null);
+            setVttDocument(parsed.vtt ?? null);
         } catch (e: any) {
             setError(e.message || "Invalid file format.");
         }
     };
 
-    const handleTranslate = async () => {
+    const handleFileSelect = (selectedFile: File) => loadFile(selectedFile, 'auto');
+
+    const handleTranslate = async (regenerate = false) => {
         if (originalSubtitles.length === 0) return;
         setIsProcessing(true);
         setProgress(0);
         setError(null);
+        setCachedAt(null);
+        setTranslationSkipped(false);
+        setAppliedGlossary(NO_GLOSSARY);
 
+        // Already in the target language: keep the cues as they are instead of paying for a translation
+        if (sameLanguage(source.sourceLanguage, targetLanguage)) {
+            setTranslatedSubtitles(originalSubtitles.map(({ words, ...sub }) => sub));
+            setTranslationSkipped(true);
+            setProgress(100);
+            setIsProcessing(false);
+            return;
+        }
+
+        const signal = job.start();
         try {
             const langName = LANGUAGES.find(l => l.code === targetLanguage)?.name || targetLanguage;
             
             const result = await translateSubtitles(
                 originalSubtitles, 
                 langName, 
-                (pct) => setProgress(pct)
+                (pct) => setProgress(pct),
+                { signal, regenerate, onCacheHit: setCachedAt },
+                glossary
             );
             
             setTranslatedSubtitles(result);
+            setAppliedGlossary(glossary);
             setProgress(100);
         } catch (e: any) {
+            if (isAbortError(e)) return;
             console.error(e);
-            setError("Translation failed. Please try again later.");
+            setError(e instanceof Error ? e : "Translation failed. Please try again later.");
         } finally {
             setIsProcessing(false);
         }
     };
 
-    const handleDownload = (format: 'srt' | 'vtt') => {
-        const content = format === 'srt' ? generateSRT(translatedSubtitles) : generateVTT(translatedSubtitles);
-        const blob = new Blob([content], { type: 'text/plain' });
+    const downloadBlob = (blob: Blob, fileName: string) => {
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
-        a.download = `translated_${targetLanguage}.${format}`;
+        a.download = fileName;
         a.click();
         URL.revokeObjectURL(url);
     };
 
+    const handleDownload = async (format: 'srt' | 'vtt' | 'ass' | 'pdf') => {
+        const exportFormat = format === 'ass' ? (assDocument?.variant ?? 'ass') : format;
+        const blob = await convertSubtitles(translatedSubtitles, exportFormat, {
+            ass: assDocument,
+            vtt: vttDocument,
+            encoding: exportEncoding,
+            pdf: { showHeaderFooter: true, fileName: file?.name },
+        });
+        downloadBlob(blob, `translated_${targetLanguage}.${exportFormat}`);
+    };
+
+    // Both languages in one file, for learners following along with the original
+    const handleDownloadDual = async (format: BilingualExportFormat) => {
+        const langName = LANGUAGES.find(l => l.code === targetLanguage)?.name || targetLanguage;
+        const blob = await convertBilingualSubtitles(originalSubtitles, translatedSubtitles, format, {
+            vtt: vttDocument,
+            encoding: exportEncoding,
+            titles: ['Original', langName],
+            pdf: { fileName: file?.name },
+        });
+        downloadBlob(blob, `dual_${targetLanguage}.${format}`);
+    };
+
     return (
         <div className="max-w-5xl mx-auto px-4 py-12">
             <h1 className="text-3xl font-bold text-center text-gray-900 mb-2">Translate Subtitles</h1>
-            <p className="text-center text-gray-500 mb-12">Instantly translate SRT/VTT files to any language while preserving timestamps.</p>
+            <p className="text-center text-gray-500 mb-12">Instantly translate SRT/VTT/ASS/TTML files to any language while preserving timestamps.</p>
 
             {/* Step 1: Upload */}
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 mb-12">
@@ -109,10 +184,10 @@ export const TranslateSubtitlesTool: React.FC = () => {
                             Upload File
                          </h2>
                          <FileUploader
-                            accept=".srt,.vtt"
+                            accept={SUBTITLE_FILE_ACCEPT}
                             onFileSelect={handleFileSelect}
                             label=""
-                            buttonText={file ? "Change File" : "Select .SRT / .VTT"}
+                            buttonText={file ? "Change File" : "Select Subtitle File"}
                             className="mb-0"
                          />
                          {file && originalSubtitles.length > 0 && (
@@ -121,6 +196,14 @@ export const TranslateSubtitlesTool: React.FC = () => {
                                  {originalSubtitles.length} lines loaded
                              </div>
                          )}
+                         {file && (
+                             <SourceEncodingSelect
+                                 value={sourceEncoding}
+                                 detected={detectedEncoding}
+                                 onChange={(encoding) => loadFile(file, encoding)}
+                                 className="mt-4"
+                             />
+                         )}
                     </div>
                 </div>
 
@@ -133,8 +216,18 @@ export const TranslateSubtitlesTool: React.FC = () => {
                         </h2>
                         
                         <div className="flex flex-col sm:flex-row gap-4 mb-6">
+                            <SourceLanguageSelect
+                                languages={SOURCE_LANGUAGES}
+                                value={source.sourceLanguage}
+                                onChange={source.setSourceLanguage}
+                                detection={source.detection}
+                                isDetecting={source.isDetecting}
+                                detectionFailed={source.detectionFailed}
+                                disabled={isProcessing}
+                                className="flex-grow"
+                            />
                             <div className="flex-grow">
-                                <label className="block text-sm font-medium text-gray-700 mb-1">Target Language</label>
+                                <label className="block text-sm font-medium text-gray-700 mb-2">Target Language</label>
                                 <select
                                     value={targetLanguage}
                                     onChange={(e) => setTargetLanguage(e.target.value)}
@@ -145,9 +238,9 @@ export const TranslateSubtitlesTool: React.FC = () => {
                                     ))}
                                 </select>
                             </div>
-                            <div className="flex items-end">
+                            <div className="flex items-end sm:pb-[1.375rem]">
                                 <button
-                                    onClick={handleTranslate}
+                                    onClick={() => handleTranslate()}
                                     disabled={!file || isProcessing || originalSubtitles.length === 0}
                                     className={`px-8 py-3 rounded-lg font-bold text-white shadow-md transition-all flex items-center justify-center h-[46px] w-full sm:w-auto
                                         ${!file || isProcessing 
@@ -170,19 +263,24 @@ export const TranslateSubtitlesTool: React.FC = () => {
                             </div>
                         </div>
 
+                        <GlossaryNotice glossary={glossary} className="-mt-3 mb-6" />
+
                         {isProcessing && (
-                            <div className="w-full bg-gray-100 rounded-full h-2 mb-2">
-                                <div 
-                                    className="bg-purple-600 h-2 rounded-full transition-all duration-300"
-                                    style={{ width: `${progress}%` }}
-                                ></div>
+                            <div className="mb-2 space-y-3">
+                                <div className="w-full bg-gray-100 rounded-full h-2">
+                                    <div 
+                                        className="bg-purple-600 h-2 rounded-full transition-all duration-300"
+                                        style={{ width: `${progress}%` }}
+                                    ></div>
+                                </div>
+                                <CancelButton onCancel={job.cancel} />
                             </div>
                         )}
 
                         {error && (
                             <div className="mt-auto p-4 bg-red-50 text-red-700 rounded-lg text-sm flex items-start">
                                 <AlertCircle className="w-5 h-5 mr-2 flex-shrink-0 mt-0.5" />
-                                {error}
+                                <ErrorMessage error={error} />
                             </div>
                         )}
                      </div>
@@ -195,9 +293,21 @@ export const TranslateSubtitlesTool: React.FC = () => {
                     <div className="p-6 border-b border-gray-200 flex justify-between items-center bg-gray-50">
                         <h3 className="font-bold text-gray-900 flex items-center">
                             <CheckCircle className="w-5 h-5 text-green-600 mr-2" />
-                            Translation Complete
+                            {translationSkipped ? 'Nothing to Translate' : 'Translation Complete'}
                         </h3>
+                        {translationSkipped && (
+                            <p className="ml-4 mr-auto text-sm text-gray-500">
+                                The subtitles are already in {LANGUAGES.find(l => l.code === targetLanguage)?.name}, so they were kept as they are.
+                            </p>
+                        )}
+                        <CachedResultNotice
+                            storedAt={cachedAt}
+                            onRegenerate={() => handleTranslate(true)}
+                            disabled={isProcessing}
+                            className="ml-4 mr-auto"
+                        />
                         <div className="flex gap-2">
+                            <ExportEncodingSelect value={exportEncoding} onChange={setExportEncoding} />
                             <button
                                 onClick={() => handleDownload('srt')}
                                 className="px-4 py-2 bg-white border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 flex items-center"
@@ -210,31 +320,85 @@ export const TranslateSubtitlesTool: React.FC = () => {
                             >
                                 <Download className="w-4 h-4 mr-2" /> VTT
                             </button>
+                            <button
+                                onClick={() => handleDownload('ass')}
+                                className="px-4 py-2 bg-white border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 flex items-center"
+                            >
+                                <Download className="w-4 h-4 mr-2" /> {assDocument?.variant === 'ssa' ? 'SSA' : 'ASS'}
+                            </button>
+                            <button
+                                onClick={() => handleDownload('pdf')}
+                                className="px-4 py-2 bg-white border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 flex items-center"
+                            >
+                                <Download className="w-4 h-4 mr-2" /> PDF
+                            </button>
+                        </div>
+                    </div>
+
+                    <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap justify-between items-center gap-3">
+                        <div>
+                            <h4 className="font-bold text-gray-900 text-sm flex items-center">
+                                <Layers className="w-4 h-4 text-blue-600 mr-2" />
+                                Dual Subtitles
+                            </h4>
+                            <p className="text-xs text-gray-500">Original and translation together, for language learners.</p>
+                        </div>
+                        <div className="flex flex-wrap gap-2">
+                            {([
+                                ['srt', 'Stacked SRT'],
+                                ['vtt', 'Stacked VTT'],
+                                ['ass', 'Top/Bottom ASS'],
+                                ['pdf', 'Study Sheet PDF'],
+                                ['docx', 'Study Sheet DOCX'],
+                            ] as [BilingualExportFormat, string][]).map(([format, label]) => (
+                                <button
+                                    key={format}
+                                    onClick={() => handleDownloadDual(format)}
+                                    className="px-3 py-2 bg-blue-50 border border-blue-200 rounded-lg text-sm font-medium text-blue-700 hover:bg-blue-100 flex items-center"
+                                >
+                                    <Download className="w-4 h-4 mr-2" /> {label}
+                                </button>
+                            ))}
                         </div>
                     </div>
 
+                    <GlossaryViolations
+                        glossary={appliedGlossary}
+                        violations={violations}
+                        unit="Cue"
+                        className="mx-6 my-4"
+                    />
+
                     <div className="grid grid-cols-2 bg-gray-100 border-b border-gray-200 text-xs font-bold text-gray-500 uppercase tracking-wider">
                         <div className="p-3 border-r border-gray-200">Original</div>
                         <div className="p-3">Translated ({LANGUAGES.find(l => l.code === targetLanguage)?.name})</div>
                     </div>
                     
                     <div className="max-h-[500px] overflow-y-auto scrollbar-thin">
-                        {translatedSubtitles.map((sub, idx) => (
-                            <div key={sub.id} className="grid grid-cols-2 border-b border-gray-100 hover:bg-blue-50 transition-colors group text-sm">
-                                <div className="p-4 border-r border-gray-100 text-gray-600">
-                                    <div className="text-xs text-gray-400 font-mono mb-1">
-                                        {Math.floor(sub.startTime/60)}:{Math.floor(sub.startTime%60).toString().padStart(2,'0')}
+                        {translatedSubtitles.map((sub, idx) => {
+                            const cueViolations = violations.filter(v => v.cueId === sub.id);
+                            return (
+                                <div key={sub.id} className={`grid grid-cols-2 border-b border-gray-100 hover:bg-blue-50 transition-colors group text-sm ${cueViolations.length > 0 ? 'bg-amber-50' : ''}`}>
+                                    <div className="p-4 border-r border-gray-100 text-gray-600">
+                                        <div className="text-xs text-gray-400 font-mono mb-1">
+                                            {Math.floor(sub.startTime/60)}:{Math.floor(sub.startTime%60).toString().padStart(2,'0')}
+                                        </div>
+                                        {originalSubtitles[idx]?.text}
                                     </div>
-                                    {originalSubtitles[idx]?.text}
-                                </div>
-                                <div className="p-4 text-gray-900 font-medium">
-                                    <div className="text-xs text-transparent group-hover:text-gray-400 font-mono mb-1 transition-colors">
-                                        {Math.floor(sub.startTime/60)}:{Math.floor(sub.startTime%60).toString().padStart(2,'0')}
+                                    <div className="p-4 text-gray-900 font-medium">
+                                        <div className="text-xs text-transparent group-hover:text-gray-400 font-mono mb-1 transition-colors flex items-center">
+                                            {Math.floor(sub.startTime/60)}:{Math.floor(sub.startTime%60).toString().padStart(2,'0')}
+                                            {cueViolations.length > 0 && (
+                                                <span title={cueViolations.map(describeViolation).join('\n')} className="ml-2 text-amber-600">
+                                                    <AlertTriangle className="w-3.5 h-3.5" />
+                                                </span>
+                                            )}
+                                        </div>
+                                        {sub.text}
                                     </div>
-                                    {sub.text}
                                 </div>
-                            </div>
-                        ))}
+                            );
+                        })}
                     </div>
                 </div>
             )}
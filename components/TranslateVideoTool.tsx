@@ -1,6 +1,16 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useMemo } from 'react';
 import { UploadCloud, Video, Download, Copy, RefreshCw, PenLine, AlertTriangle, Languages } from 'lucide-react';
-import { translateVideo } from '../services/geminiService';
+import { translateVideo, transcribeVideo } from '../services/aiProvider';
+import { CancelButton } from './CancelButton';
+import { ErrorMessage, ToolError } from './ErrorMessage';
+import { CachedResultNotice } from './CachedResultNotice';
+import { SourceLanguageSelect, useSourceLanguage } from './SourceLanguageSelect';
+import { GlossaryNotice, GlossaryViolations } from './GlossaryCheck';
+import { glossaryFor } from '../services/glossaryStore';
+import { isAbortError, useAbortController } from '../utils/abortHelpers';
+import { sameLanguage } from '../utils/languageHelpers';
+import { checkGlossaryText, NO_GLOSSARY } from '../utils/glossaryHelpers';
+import { TranslationGlossary } from '../types';
 
 const LANGUAGES = [
     { code: 'English', name: 'English' },
@@ -31,10 +41,18 @@ export const TranslateVideoTool: React.FC = () => {
   
   // Processing States
   const [isProcessing, setIsProcessing] = useState(false);
+  const job = useAbortController();
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
   const [progress, setProgress] = useState(0);
   const [resultText, setResultText] = useState('');
   const [editableText, setEditableText] = useState('');
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ToolError | null>(null);
+  const [translationSkipped, setTranslationSkipped] = useState(false);
+  const source = useSourceLanguage(LANGUAGES, file);
+  const glossary = useMemo(() => glossaryFor(source.sourceLanguage, targetLanguage), [source.sourceLanguage, targetLanguage]);
+  // Checked against the edited text, so fixing a term clears its warning
+  const [appliedGlossary, setAppliedGlossary] = useState<TranslationGlossary>(NO_GLOSSARY);
+  const violations = useMemo(() => checkGlossaryText(editableText, appliedGlossary), [editableText, appliedGlossary]);
   
   // Refs
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -69,12 +87,13 @@ export const TranslateVideoTool: React.FC = () => {
     }
   };
 
-  const handleTranslate = async () => {
+  const handleTranslate = async (regenerate = false) => {
     if (!file) return;
 
     setIsProcessing(true);
     setProgress(0);
     setError(null);
+    setCachedAt(null);
 
     // Simulate progress
     const progressInterval = file.size > 10 * 1024 * 1024 ? 2000 : 1000;
@@ -86,22 +105,36 @@ export const TranslateVideoTool: React.FC = () => {
       });
     }, progressInterval);
 
+    const signal = job.start();
+    // Long media reports its finished chunks, which moves the bar on past the estimate
+    const onProgress = (percent: number) => setProgress(prev => Math.max(prev, Math.min(percent, 99)));
     try {
-      const text = await translateVideo(file, targetLanguage);
+      // Already in the target language: a transcript is all there is to deliver
+      const skip = sameLanguage(source.sourceLanguage, targetLanguage);
+      const text = skip
+        ? (await transcribeVideo(file, { signal, regenerate, onCacheHit: setCachedAt, onProgress })).text
+        : await translateVideo(file, targetLanguage, { signal, regenerate, onCacheHit: setCachedAt, onProgress }, glossary);
+      setTranslationSkipped(skip);
+      setAppliedGlossary(skip ? NO_GLOSSARY : glossary);
       setResultText(text);
       setEditableText(text);
       setProgress(100);
     } catch (err: any) {
+      if (isAbortError(err)) return;
       console.error("Translate Video UI Error:", err);
-      let msg = "Failed to translate video. Please try again.";
-      if (err instanceof Error) msg = err.message;
-      setError(msg);
+      setError(err instanceof Error ? err : "Failed to translate video. Please try again.");
     } finally {
       clearInterval(interval);
       setIsProcessing(false);
     }
   };
 
+  // Back to the progress view and ask the provider again, replacing the cached result
+  const handleRegenerate = () => {
+    setResultText('');
+    handleTranslate(true);
+  };
+
   const handleCopy = () => {
     navigator.clipboard.writeText(editableText);
   };
@@ -130,9 +163,10 @@ export const TranslateVideoTool: React.FC = () => {
     // Result View
     return (
       <div className="max-w-4xl mx-auto px-4 py-12">
+        <CachedResultNotice storedAt={cachedAt} onRegenerate={handleRegenerate} className="mb-6" />
         <div className="flex justify-between items-center mb-8">
           <div className="flex items-center gap-3">
-            <h1 className="text-3xl font-bold text-gray-900">Translation ({targetLanguage})</h1>
+            <h1 className="text-3xl font-bold text-gray-900">{translationSkipped ? 'Transcript' : 'Translation'} ({targetLanguage})</h1>
             <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
               <PenLine className="w-3 h-3 mr-1" />
               Editable
@@ -163,6 +197,14 @@ export const TranslateVideoTool: React.FC = () => {
           </div>
         </div>
 
+        {translationSkipped && (
+          <p className="-mt-4 mb-6 text-sm text-gray-500">
+            The video is already in {targetLanguage}, so it was transcribed instead of translated.
+          </p>
+        )}
+
+        <GlossaryViolations glossary={appliedGlossary} violations={violations} unit="Paragraph" className="mb-6" />
+
         <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
             <div className="md:col-span-2">
                 <div className="bg-white rounded-xl border border-blue-200 shadow-sm overflow-hidden h-full">
@@ -259,7 +301,17 @@ export const TranslateVideoTool: React.FC = () => {
 
       {/* Language Selector & Action */}
       <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-200">
-          <div className="mb-6">
+          <div className="mb-6 grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <SourceLanguageSelect
+              languages={LANGUAGES}
+              value={source.sourceLanguage}
+              onChange={source.setSourceLanguage}
+              detection={source.detection}
+              isDetecting={source.isDetecting}
+              detectionFailed={source.detectionFailed}
+              disabled={isProcessing}
+            />
+            <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">Target Language</label>
               <select
                 value={targetLanguage}
@@ -271,7 +323,9 @@ export const TranslateVideoTool: React.FC = () => {
                       <option key={lang.code} value={lang.code}>{lang.name}</option>
                   ))}
               </select>
+            </div>
           </div>
+          <GlossaryNotice glossary={glossary} className="-mt-3 mb-6" />
 
           {file && file.size > 25 * 1024 * 1024 && (
             <div className="mb-6 p-3 bg-red-50 text-red-800 rounded-lg text-sm border border-red-100 flex items-start">
@@ -285,7 +339,7 @@ export const TranslateVideoTool: React.FC = () => {
           {error && (
             <div className="mb-6 p-4 bg-red-50 text-red-700 rounded-lg text-sm border border-red-100 flex items-start">
                 <AlertTriangle className="w-5 h-5 mr-2 flex-shrink-0 mt-0.5" />
-                <span>{error}</span>
+                <span><ErrorMessage error={error} /></span>
             </div>
           )}
 
@@ -300,11 +354,12 @@ export const TranslateVideoTool: React.FC = () => {
                 <p className="text-sm text-center text-gray-500 animate-pulse">
                     Translating video content...
                 </p>
+                <CancelButton onCancel={job.cancel} />
              </div>
           )}
 
           <button
-            onClick={handleTranslate}
+            onClick={() => handleTranslate()}
             disabled={!file || isProcessing || (file ? file.size > 25 * 1024 * 1024 : false)}
             className={`w-full py-4 rounded-xl text-lg font-bold transition-all transform active:scale-[0.99] shadow-lg flex items-center justify-center ${
                 !file || isProcessing || (file ? file.size > 25 * 1024 * 1024 : false)
@@ -2,11 +2,14 @@
 import React, { useState, useRef } from 'react';
 import { UploadCloud, RefreshCw, Download, Video, AlertTriangle, CheckCircle } from 'lucide-react';
 import { convertVideo } from '../services/videoProcessor';
+import { isAbortError, useAbortController } from '../utils/abortHelpers';
+import { CancelButton } from './CancelButton';
 
 export const VideoConverterTool: React.FC = () => {
   const [file, setFile] = useState<File | null>(null);
   const [targetFormat, setTargetFormat] = useState<string>('mp4');
   const [isConverting, setIsConverting] = useState(false);
+  const job = useAbortController();
   const [progress, setProgress] = useState(0);
   const [convertedBlob, setConvertedBlob] = useState<Blob | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -50,10 +53,12 @@ export const VideoConverterTool: React.FC = () => {
     setProgress(0);
     setError(null);
 
+    const signal = job.start();
     try {
-        const blob = await convertVideo(file, targetFormat, (pct) => setProgress(pct));
+        const blob = await convertVideo(file, targetFormat, (pct) => setProgress(pct), signal);
         setConvertedBlob(blob);
     } catch (e: any) {
+        if (isAbortError(e)) return;
         console.error(e);
         setError(e.message || "Conversion failed. Ensure your browser supports this operation.");
     } finally {
@@ -165,6 +170,7 @@ export const VideoConverterTool: React.FC = () => {
                                   ></div>
                               </div>
                               <p className="text-xs text-gray-400 text-center">Please keep this tab open during conversion.</p>
+                              <CancelButton onCancel={job.cancel} />
                           </div>
                       ) : (
                           <button 
@@ -1,5 +1,6 @@
 import React, { useEffect, useRef, useState, forwardRef, useImperativeHandle } from 'react';
-import { Subtitle, SubtitleStyle } from '../types';
+import { Subtitle, SubtitleStyle, SubtitleTrack, SubtitleWord } from '../types';
+import { resolveWordTimings, spokenWordCount } from '../utils/wordTiming';
 
 interface VideoPlayerProps {
   videoUrl: string | null;
@@ -8,6 +9,7 @@ interface VideoPlayerProps {
   fitContainer?: boolean;
   onTimeUpdate?: (time: number) => void;
   onDurationChange?: (duration: number) => void;
+  secondaryTrack?: SubtitleTrack; // e.g. a translation shown with its own style
 }
 
 export const VideoPlayer = React.memo(forwardRef<HTMLVideoElement, VideoPlayerProps>(({ 
@@ -16,7 +18,8 @@ export const VideoPlayer = React.memo(forwardRef<HTMLVideoElement, VideoPlayerPr
   styleConfig,
   fitContainer = false,
   onTimeUpdate,
-  onDurationChange
+  onDurationChange,
+  secondaryTrack
 }, ref) => {
   const internalRef = useRef<HTMLVideoElement>(null);
   const [localCurrentTime, setLocalCurrentTime] = useState(0);
@@ -62,12 +65,30 @@ export const VideoPlayer = React.memo(forwardRef<HTMLVideoElement, VideoPlayerPr
   }, [videoUrl, onTimeUpdate, onDurationChange]);
 
   // Find the active subtitle based on local time (for high perf)
-  const activeSubtitle = subtitles.find(
-    (sub) => localCurrentTime >= sub.startTime && localCurrentTime <= sub.endTime
-  );
+  const isActive = (sub: Subtitle) => localCurrentTime >= sub.startTime && localCurrentTime <= sub.endTime;
+  const activeSubtitle = subtitles.find(isActive);
+  const activeSecondary = secondaryTrack?.subtitles.find(isActive);
+
+  // Cues that share a position are stacked in one box, primary track first
+  const overlays: { text: string; style: SubtitleStyle; words?: SubtitleWord[] }[] = [];
+  const overlayFor = (sub: Subtitle, style: SubtitleStyle) =>
+    ({ text: sub.text, style, words: style.highlightColor ? resolveWordTimings(sub) : undefined });
+  if (activeSubtitle) overlays.push(overlayFor(activeSubtitle, styleConfig));
+  if (activeSecondary) overlays.push(overlayFor(activeSecondary, secondaryTrack!.config));
+  const positions = Array.from(new Set(overlays.map(o => o.style.position)));
+
+  // Karaoke: every word that has started takes the highlight colour; whitespace and line breaks stay as typed
+  const renderKaraoke = (text: string, words: SubtitleWord[], color: string) => {
+    const spoken = spokenWordCount(words, localCurrentTime);
+    let index = 0;
+    return text.split(/(\s+)/).map((part, i) => {
+      if (!part.trim()) return part;
+      return <span key={i} style={index++ < spoken ? { color } : undefined}>{part}</span>;
+    });
+  };
 
-  const getPositionClass = () => {
-    switch (styleConfig.position) {
+  const getPositionClass = (position: SubtitleStyle['position']) => {
+    switch (position) {
       case 'top': return 'top-10';
       case 'middle': return 'top-1/2 -translate-y-1/2';
       case 'bottom': return 'bottom-10';
@@ -97,29 +118,32 @@ export const VideoPlayer = React.memo(forwardRef<HTMLVideoElement, VideoPlayerPr
       
       {/* Subtitle Overlay */}
       <div className="absolute inset-0 pointer-events-none flex justify-center w-full z-50">
-         <div className={`absolute w-full px-8 text-center ${getPositionClass()}`}>
-            {activeSubtitle && (
-              <span
-                className="pointer-events-auto"
-                style={{
-                  fontSize: `${styleConfig.fontSize}px`,
-                  color: styleConfig.color,
-                  backgroundColor: styleConfig.backgroundColor === 'transparent' 
-                    ? 'transparent' 
-                    : `rgba(${parseInt(styleConfig.backgroundColor.slice(1, 3), 16)}, ${parseInt(styleConfig.backgroundColor.slice(3, 5), 16)}, ${parseInt(styleConfig.backgroundColor.slice(5, 7), 16)}, ${styleConfig.backgroundOpacity})`,
-                  fontFamily: styleConfig.fontFamily,
-                  textShadow: '1px 1px 2px rgba(0,0,0,0.8)',
-                  padding: '4px 8px',
-                  borderRadius: '4px',
-                  display: 'inline-block',
-                  maxWidth: '90%',
-                  whiteSpace: 'pre-wrap'
-                }}
-              >
-                {activeSubtitle.text}
-              </span>
-            )}
-         </div>
+         {positions.map(position => (
+           <div key={position} className={`absolute w-full px-8 text-center flex flex-col items-center gap-1 ${getPositionClass(position)}`}>
+              {overlays.filter(o => o.style.position === position).map(({ text, style, words }, index) => (
+                <span
+                  key={index}
+                  className="pointer-events-auto"
+                  style={{
+                    fontSize: `${style.fontSize}px`,
+                    color: style.color,
+                    backgroundColor: style.backgroundColor === 'transparent' 
+                      ? 'transparent' 
+                      : `rgba(${parseInt(style.backgroundColor.slice(1, 3), 16)}, ${parseInt(style.backgroundColor.slice(3, 5), 16)}, ${parseInt(style.backgroundColor.slice(5, 7), 16)}, ${style.backgroundOpacity})`,
+                    fontFamily: style.fontFamily,
+                    textShadow: '1px 1px 2px rgba(0,0,0,0.8)',
+                    padding: '4px 8px',
+                    borderRadius: '4px',
+                    display: 'inline-block',
+                    maxWidth: '90%',
+                    whiteSpace: 'pre-wrap'
+                  }}
+                >
+                  {words ? renderKaraoke(text, words, style.highlightColor!) : text}
+                </span>
+              ))}
+           </div>
+         ))}
       </div>
     </div>
   );
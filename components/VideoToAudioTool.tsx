@@ -2,6 +2,8 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { UploadCloud, RefreshCw, Download, Video, AlertTriangle, CheckCircle, Clock, Zap, Music } from 'lucide-react';
 import { audioBufferToWav, audioBufferToMp3 } from '../utils/audioHelpers';
+import { abortError, isAbortError, onAbort, throwIfAborted, useAbortController } from '../utils/abortHelpers';
+import { CancelButton } from './CancelButton';
 
 type TargetFormat = 'wav' | 'mp3' | 'webm' | 'ogg' | 'm4a' | 'aac' | 'flac' | 'opus' | 'aiff' | 'wma';
 
@@ -17,6 +19,7 @@ export const VideoToAudioTool: React.FC = () => {
   const [file, setFile] = useState<File | null>(null);
   const [targetFormat, setTargetFormat] = useState<TargetFormat>('mp3');
   const [isConverting, setIsConverting] = useState(false);
+  const job = useAbortController();
   const [progress, setProgress] = useState(0);
   const [convertedBlob, setConvertedBlob] = useState<Blob | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -113,13 +116,14 @@ export const VideoToAudioTool: React.FC = () => {
   };
 
   // Fast offline conversion (MP3 via LameJS, WAV via Buffer)
-  const convertFast = async (file: File, format: 'wav' | 'mp3') => {
+  const convertFast = async (file: File, format: 'wav' | 'mp3', signal?: AbortSignal) => {
     const arrayBuffer = await file.arrayBuffer();
     const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
     audioContextRef.current = ctx;
     
     setProgress(10);
     const audioBuffer = await ctx.decodeAudioData(arrayBuffer);
+    throwIfAborted(signal);
     setProgress(40);
     
     let blob: Blob;
@@ -134,13 +138,14 @@ export const VideoToAudioTool: React.FC = () => {
   };
 
   // Real-time conversion using MediaRecorder
-  const convertRealTime = async (file: File, targetMimeType: string) => {
+  const convertRealTime = async (file: File, targetMimeType: string, signal?: AbortSignal) => {
     return new Promise<Blob>(async (resolve, reject) => {
         try {
             const arrayBuffer = await file.arrayBuffer();
             const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
             audioContextRef.current = ctx;
             const audioBuffer = await ctx.decodeAudioData(arrayBuffer);
+            throwIfAborted(signal);
             
             const dest = ctx.createMediaStreamDestination();
             const source = ctx.createBufferSource();
@@ -160,6 +165,7 @@ export const VideoToAudioTool: React.FC = () => {
             recorder.ondataavailable = (e) => chunks.push(e.data);
             
             recorder.onstop = () => {
+                detach();
                 const blob = new Blob(chunks, { type: mimeType });
                 resolve(blob);
             };
@@ -186,6 +192,16 @@ export const VideoToAudioTool: React.FC = () => {
                 setProgress(100);
             };
 
+            // Cancelling stops playback and recording without producing a file
+            const detach = onAbort(signal, () => {
+                recorder.onstop = null;
+                source.onended = null;
+                source.stop();
+                if (recorder.state !== 'inactive') recorder.stop();
+                ctx.close();
+                reject(abortError());
+            });
+
         } catch (e) {
             reject(e);
         }
@@ -198,6 +214,7 @@ export const VideoToAudioTool: React.FC = () => {
     setError(null);
     setProgress(0);
 
+    const signal = job.start();
     try {
         let blob: Blob;
         const formatConfig = formats.find(f => f.id === targetFormat);
@@ -205,18 +222,19 @@ export const VideoToAudioTool: React.FC = () => {
         if (!formatConfig) throw new Error("Unknown format");
 
         if (formatConfig.method === 'fast') {
-            blob = await convertFast(file, targetFormat as 'mp3' | 'wav');
+            blob = await convertFast(file, targetFormat as 'mp3' | 'wav', signal);
         } else if (formatConfig.method === 'realtime') {
             if (getFormatStatus(formatConfig) === 'unsupported') {
                 throw new Error(`Your browser does not support encoding to ${formatConfig.label} natively.`);
             }
-            blob = await convertRealTime(file, formatConfig.mimeType || '');
+            blob = await convertRealTime(file, formatConfig.mimeType || '', signal);
         } else {
             throw new Error(`The format ${formatConfig.label} is not supported by standard web browsers for client-side encoding.`);
         }
         
         setConvertedBlob(blob);
     } catch (e: any) {
+        if (isAbortError(e)) return;
         console.error(e);
         setError(e.message || "Conversion failed.");
     } finally {
@@ -354,6 +372,7 @@ export const VideoToAudioTool: React.FC = () => {
                                       style={{ width: `${progress}%` }}
                                   ></div>
                               </div>
+                              <CancelButton onCancel={job.cancel} />
                           </div>
                       ) : (
                           <button 
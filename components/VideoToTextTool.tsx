@@ -1,23 +1,39 @@
 import React, { useState, useRef } from 'react';
-import { UploadCloud, FileText, Download, Copy, RefreshCw, PenLine, AlertTriangle, Video } from 'lucide-react';
-import { transcribeVideo } from '../services/geminiService';
+import { UploadCloud, FileText, Download, Copy, RefreshCw, PenLine, AlertTriangle, Video, FileDown, FileCode, Captions } from 'lucide-react';
+import { transcribeVideo } from '../services/aiProvider';
+import { MAX_LONG_MEDIA_MB } from '../services/mediaChunker';
+import { Transcript, TranscriptMode, TranscriptSegment } from '../types';
+import { textToDocx } from '../utils/docxHelpers';
+import { CancelButton } from './CancelButton';
+import { ErrorMessage, ToolError } from './ErrorMessage';
+import { CachedResultNotice } from './CachedResultNotice';
+import { SpeakerPanel } from './SpeakerPanel';
+import { LanguageBadge } from './LanguageBadge';
+import { TimestampedTranscript, TranscriptModeToggle } from './TimestampedTranscript';
+import { isAbortError, useAbortController } from '../utils/abortHelpers';
+import { listSpeakers, namesSpeakers, renameSpeaker, renameSpeakerInDialogue, formatDialogue } from '../utils/speakerHelpers';
+import { isTimestamped, formatTimestampedText, formatTimestampedMarkdown, formatTimestampedSrt } from '../utils/transcriptHelpers';
 
 export const VideoToTextTool: React.FC = () => {
   const [file, setFile] = useState<File | null>(null);
+  const [mode, setMode] = useState<TranscriptMode>('plain');
   
   // Processing States
   const [isProcessing, setIsProcessing] = useState(false);
+  const job = useAbortController();
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
   const [progress, setProgress] = useState(0);
-  const [result, setResult] = useState<{ language: string; text: string } | null>(null);
+  const [result, setResult] = useState<Transcript | null>(null);
   const [editableText, setEditableText] = useState('');
-  const [error, setError] = useState<string | null>(null);
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+  const [error, setError] = useState<ToolError | null>(null);
   
   // Refs
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const validateAndSetFile = (selectedFile: File) => {
-    // 25MB safety limit for inline upload to Gemini
-    const LIMIT_MB = 25;
+    // Files above the inline limit are processed in chunks, so only decoding memory caps the size
+    const LIMIT_MB = MAX_LONG_MEDIA_MB;
     if (selectedFile.size > LIMIT_MB * 1024 * 1024) {
       setError(`File is too large (${(selectedFile.size / 1024 / 1024).toFixed(1)}MB). Please use a file under ${LIMIT_MB}MB to prevent API timeouts.`);
       return;
@@ -45,12 +61,13 @@ export const VideoToTextTool: React.FC = () => {
     }
   };
 
-  const handleTranscribe = async () => {
+  const handleTranscribe = async (regenerate = false) => {
     if (!file) return;
 
     setIsProcessing(true);
     setProgress(0);
     setError(null);
+    setCachedAt(null);
 
     // Simulate progress
     const progressInterval = file.size > 10 * 1024 * 1024 ? 2000 : 1000;
@@ -62,44 +79,78 @@ export const VideoToTextTool: React.FC = () => {
       });
     }, progressInterval);
 
+    const signal = job.start();
+    // Long media reports its finished chunks, which moves the bar on past the estimate
+    const onProgress = (percent: number) => setProgress(prev => Math.max(prev, Math.min(percent, 99)));
     try {
-      const data = await transcribeVideo(file);
+      const data = await transcribeVideo(file, { signal, regenerate, onCacheHit: setCachedAt, onProgress }, mode);
+      const turns = data.segments ?? [];
       setResult(data);
-      setEditableText(data.text);
+      setSegments(turns);
+      // A single voice reads better without "Speaker 1:" in front of every paragraph
+      setEditableText(namesSpeakers(turns) ? formatDialogue(turns) : data.text);
       setProgress(100);
     } catch (err: any) {
+      if (isAbortError(err)) return;
       console.error("Transcription UI Error:", err);
-      let msg = "Failed to transcribe video. Please try again.";
-      
-      if (err instanceof Error) {
-          msg = err.message;
-      }
-      
-      setError(msg);
+      setError(err instanceof Error ? err : "Failed to transcribe video. Please try again.");
     } finally {
       clearInterval(interval);
       setIsProcessing(false);
     }
   };
 
+  // Back to the progress view and ask the provider again, replacing the cached result
+  const handleRegenerate = () => {
+    setResult(null);
+    handleTranscribe(true);
+  };
+
+  const speakers = listSpeakers(segments);
+  const timestamped = isTimestamped(segments);
+  // Timestamped paragraphs are edited in place, so exports are rebuilt from them
+  const exportText = timestamped ? formatTimestampedText(segments) : editableText;
+
+  // Renames both the turns and the "Name:" prefixes in the text, keeping the user's other edits
+  const handleRenameSpeaker = (from: string, to: string) => {
+    setSegments(prev => renameSpeaker(prev, from, to));
+    setEditableText(prev => renameSpeakerInDialogue(prev, from, to));
+  };
+
   const handleCopy = () => {
-    navigator.clipboard.writeText(editableText);
+    navigator.clipboard.writeText(exportText);
   };
 
-  const handleDownload = () => {
-    const blob = new Blob([editableText], { type: 'text/plain' });
+  const saveBlob = (blob: Blob, extension: string) => {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `video_transcription_${Date.now()}.txt`;
+    a.download = `video_transcription_${Date.now()}.${extension}`;
     a.click();
     URL.revokeObjectURL(url);
   };
 
+  const handleDownload = () => {
+    saveBlob(new Blob([exportText], { type: 'text/plain' }), 'txt');
+  };
+
+  const handleDownloadDocx = () => {
+    saveBlob(textToDocx('Video Transcription', exportText), 'docx');
+  };
+
+  const handleDownloadMarkdown = () => {
+    saveBlob(new Blob([formatTimestampedMarkdown(segments, 'Video Transcription')], { type: 'text/markdown' }), 'md');
+  };
+
+  const handleDownloadSrt = () => {
+    saveBlob(new Blob([formatTimestampedSrt(segments)], { type: 'text/plain' }), 'srt');
+  };
+
   const handleReset = () => {
     setFile(null);
     setResult(null);
     setEditableText('');
+    setSegments([]);
     setProgress(0);
     setError(null);
   };
@@ -110,6 +161,7 @@ export const VideoToTextTool: React.FC = () => {
     // Result View
     return (
       <div className="max-w-4xl mx-auto px-4 py-12">
+        <CachedResultNotice storedAt={cachedAt} onRegenerate={handleRegenerate} className="mb-6" />
         <div className="flex justify-between items-center mb-8">
           <div className="flex items-center gap-3">
             <h1 className="text-3xl font-bold text-gray-900">Transcription</h1>
@@ -117,6 +169,7 @@ export const VideoToTextTool: React.FC = () => {
               <PenLine className="w-3 h-3 mr-1" />
               Editable
             </span>
+            <LanguageBadge detection={result.detectedLanguage} segments={segments} />
           </div>
           <div className="flex gap-2">
             <button 
@@ -133,6 +186,31 @@ export const VideoToTextTool: React.FC = () => {
             >
               <Download className="w-5 h-5" />
             </button>
+            {timestamped && (
+              <>
+                <button
+                  onClick={handleDownloadMarkdown}
+                  className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors border border-gray-200"
+                  title="Download Markdown"
+                >
+                  <FileCode className="w-5 h-5" />
+                </button>
+                <button
+                  onClick={handleDownloadSrt}
+                  className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors border border-gray-200"
+                  title="Download SRT"
+                >
+                  <Captions className="w-5 h-5" />
+                </button>
+              </>
+            )}
+            <button 
+              onClick={handleDownloadDocx}
+              className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors border border-gray-200"
+              title="Download Word document"
+            >
+              <FileDown className="w-5 h-5" />
+            </button>
             <button 
               onClick={handleReset}
               className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors border border-gray-200"
@@ -143,9 +221,31 @@ export const VideoToTextTool: React.FC = () => {
           </div>
         </div>
 
+        {timestamped && file ? (
+          // The transcript brings its own player, so it takes the full width
+          <div className="bg-white rounded-xl border border-blue-200 shadow-sm overflow-hidden">
+            <SpeakerPanel
+              speakers={speakers.length > 1 ? speakers : []}
+              onRename={handleRenameSpeaker}
+              className="border-b border-gray-100"
+            />
+            <TimestampedTranscript
+              file={file}
+              kind="video"
+              segments={segments}
+              mainLanguage={result.detectedLanguage?.code}
+              onChange={setSegments}
+            />
+          </div>
+        ) : (
         <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
             <div className="md:col-span-2">
                 <div className="bg-white rounded-xl border border-blue-200 shadow-sm overflow-hidden h-full">
+                <SpeakerPanel
+                  speakers={speakers.length > 1 ? speakers : []}
+                  onRename={handleRenameSpeaker}
+                  className="border-b border-gray-100"
+                />
                 <textarea
                     value={editableText}
                     onChange={(e) => setEditableText(e.target.value)}
@@ -170,6 +270,7 @@ export const VideoToTextTool: React.FC = () => {
                 </div>
             </div>
         </div>
+        )}
       </div>
     );
   }
@@ -226,7 +327,7 @@ export const VideoToTextTool: React.FC = () => {
           ) : (
               <>
                   <h3 className="text-xl font-bold text-gray-900 mb-2">Click to upload video or drag and drop</h3>
-                  <p className="text-gray-500 mb-8">MP4, MOV, AVI, WEBM (Max 25MB)</p>
+                  <p className="text-gray-500 mb-8">MP4, MOV, AVI, WEBM (Max {MAX_LONG_MEDIA_MB}MB)</p>
                   <button 
                     onClick={() => fileInputRef.current?.click()}
                     className="px-6 py-2 border border-gray-300 rounded-lg text-gray-700 bg-white hover:bg-gray-50 font-medium transition-colors"
@@ -238,11 +339,11 @@ export const VideoToTextTool: React.FC = () => {
       </div>
 
       {/* Warning for large files */}
-      {file && file.size > 25 * 1024 * 1024 && (
+      {file && file.size > MAX_LONG_MEDIA_MB * 1024 * 1024 && (
         <div className="mt-4 p-3 bg-red-50 text-red-800 rounded-lg text-sm border border-red-100 flex items-start">
           <AlertTriangle className="w-5 h-5 mr-2 flex-shrink-0" />
           <span>
-            <strong>File too large!</strong> Video files must be under 25MB for this online tool. 
+            <strong>File too large!</strong> Video files must be under {MAX_LONG_MEDIA_MB}MB for this online tool. 
             Please compress your video or trim it before uploading.
           </span>
         </div>
@@ -251,7 +352,7 @@ export const VideoToTextTool: React.FC = () => {
       {/* Error Message */}
       {error && (
         <div className="mt-4 p-4 bg-red-50 text-red-700 rounded-lg text-center text-sm border border-red-100 animate-in fade-in slide-in-from-top-2">
-            <strong>Error: </strong>{error}
+            <strong>Error: </strong><ErrorMessage error={error} />
         </div>
       )}
 
@@ -267,16 +368,20 @@ export const VideoToTextTool: React.FC = () => {
             <p className="text-sm text-center text-gray-500 animate-pulse">
                 {progress < 100 ? 'Analyzing video stream... (This may take a minute)' : 'Finalizing transcription...'}
             </p>
+            <CancelButton onCancel={job.cancel} />
          </div>
       )}
 
       {/* Action Button */}
       <div className="mt-8">
+        <TranscriptModeToggle mode={mode} onChange={setMode} disabled={isProcessing} />
+      </div>
+      <div className="mt-4">
         <button
-          onClick={handleTranscribe}
-          disabled={!file || isProcessing || (file ? file.size > 25 * 1024 * 1024 : false)}
+          onClick={() => handleTranscribe()}
+          disabled={!file || isProcessing || (file ? file.size > MAX_LONG_MEDIA_MB * 1024 * 1024 : false)}
           className={`w-full py-4 rounded-xl text-lg font-bold transition-all transform active:scale-[0.99] shadow-lg ${
-            !file || isProcessing || (file ? file.size > 25 * 1024 * 1024 : false)
+            !file || isProcessing || (file ? file.size > MAX_LONG_MEDIA_MB * 1024 * 1024 : false)
               ? 'bg-gray-200 text-gray-400 cursor-not-allowed shadow-none'
               : 'bg-blue-600 text-white hover:bg-blue-700 hover:shadow-blue-200'
           }`}
@@ -1,6 +1,8 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { UploadCloud, Scissors, Download, Play, Pause, RefreshCw, Film, AlertTriangle } from 'lucide-react';
 import { trimVideo } from '../services/videoProcessor';
+import { isAbortError, useAbortController } from '../utils/abortHelpers';
+import { CancelButton } from './CancelButton';
 
 export const VideoTrimmerTool: React.FC = () => {
   const [file, setFile] = useState<File | null>(null);
@@ -14,6 +16,7 @@ export const VideoTrimmerTool: React.FC = () => {
   
   const [trimmedBlob, setTrimmedBlob] = useState<Blob | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const job = useAbortController();
   const [progress, setProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
 
@@ -83,10 +86,12 @@ export const VideoTrimmerTool: React.FC = () => {
     setProgress(0);
     setError(null);
 
+    const signal = job.start();
     try {
-        const blob = await trimVideo(file, startTime, endTime, (pct) => setProgress(pct));
+        const blob = await trimVideo(file, startTime, endTime, (pct) => setProgress(pct), signal);
         setTrimmedBlob(blob);
     } catch (e: any) {
+        if (isAbortError(e)) return;
         console.error(e);
         setError("Failed to trim video. Please try a different file.");
     } finally {
@@ -268,9 +273,12 @@ export const VideoTrimmerTool: React.FC = () => {
                  </div>
                  
                  {isProcessing && (
-                     <p className="mt-4 text-center text-sm text-gray-500 animate-pulse">
-                         Recording selected segment... Please keep tab active.
-                     </p>
+                     <div className="mt-4 space-y-3">
+                         <p className="text-center text-sm text-gray-500 animate-pulse">
+                             Recording selected segment... Please keep tab active.
+                         </p>
+                         <CancelButton onCancel={job.cancel} />
+                     </div>
                  )}
 
                  {error && (
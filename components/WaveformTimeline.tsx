@@ -1,6 +1,6 @@
-
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import { Subtitle } from '../types';
+import { ZoomIn, ZoomOut } from 'lucide-react';
 
 interface WaveformTimelineProps {
   file: File | null;
@@ -8,25 +8,91 @@ interface WaveformTimelineProps {
   currentTime: number;
   duration: number;
   onSeek: (time: number) => void;
+  // When set, cue blocks can be dragged and trimmed; the edited list is reported on release
+  onSubtitlesChange?: (subtitles: Subtitle[]) => void;
+}
+
+interface Waveform {
+  peaks: Float32Array; // min/max pairs
+  bucketDuration: number; // seconds covered by one min/max pair
+}
+
+type DragMode = 'move' | 'start' | 'end';
+
+interface DragState {
+  mode: DragMode;
+  pointerX: number;
+  original: Subtitle;
+  moved: boolean;
+}
+
+const HEIGHT = 80;
+const PEAKS_PER_SECOND = 100;
+const MIN_BUCKETS = 2000;
+const MAX_BUCKETS = 200000;
+const EDGE_HANDLE_PX = 6;
+const SNAP_PX = 8;
+const DRAG_THRESHOLD_PX = 3;
+const MIN_CUE_DURATION = 0.1;
+const MIN_SILENCE = 0.2; // seconds of quiet before a stretch counts as silence
+const MIN_VISIBLE_SECONDS = 5;
+
+// Start and end times of quiet stretches, used as snap points. The threshold adapts to the
+// recording: a little above the noise floor relative to the loud parts.
+function findSilenceEdges({ peaks, bucketDuration }: Waveform): number[] {
+  const buckets = peaks.length / 2;
+  const amplitude = new Float32Array(buckets);
+  for (let i = 0; i < buckets; i++) amplitude[i] = Math.max(-peaks[i * 2], peaks[i * 2 + 1]);
+
+  const sorted = amplitude.slice().sort();
+  const noise = sorted[Math.floor(buckets * 0.1)];
+  const loud = sorted[Math.floor(buckets * 0.9)];
+  const threshold = noise + (loud - noise) * 0.15;
+  const minRun = Math.ceil(MIN_SILENCE / bucketDuration);
+
+  const edges: number[] = [];
+  let runStart = -1;
+  for (let i = 0; i <= buckets; i++) {
+    const quiet = i < buckets && amplitude[i] < threshold;
+    if (quiet && runStart === -1) runStart = i;
+    if (!quiet && runStart !== -1) {
+      if (i - runStart >= minRun) edges.push(runStart * bucketDuration, i * bucketDuration);
+      runStart = -1;
+    }
+  }
+  return edges;
 }
 
-export const WaveformTimeline: React.FC<WaveformTimelineProps> = ({ 
-  file, 
-  subtitles, 
-  currentTime, 
+export const WaveformTimeline: React.FC<WaveformTimelineProps> = ({
+  file,
+  subtitles,
+  currentTime,
   duration,
-  onSeek 
+  onSeek,
+  onSubtitlesChange
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const [waveformPeaks, setWaveformPeaks] = useState<Float32Array | null>(null);
+  const [waveform, setWaveform] = useState<Waveform | null>(null);
   const [isDecoding, setIsDecoding] = useState(false);
   const [hoverTime, setHoverTime] = useState<number | null>(null);
+  const [cursor, setCursor] = useState('crosshair');
+
+  // Visible window: `zoom` times magnified, starting at `start` seconds
+  const [view, setView] = useState({ zoom: 1, start: 0 });
+  const viewDuration = duration > 0 ? duration / view.zoom : 0;
+  const maxZoom = Math.max(1, duration / MIN_VISIBLE_SECONDS);
+
+  // The cue being dragged, drawn in place of the original until release
+  const dragRef = useRef<DragState | null>(null);
+  const [draft, setDraft] = useState<Subtitle | null>(null);
+
+  const editable = !!onSubtitlesChange;
 
   // Decode Audio & Pre-calculate Peaks
   useEffect(() => {
     if (!file) {
-        setWaveformPeaks(null);
+        setWaveform(null);
         return;
     }
 
@@ -36,10 +102,10 @@ export const WaveformTimeline: React.FC<WaveformTimelineProps> = ({
         const arrayBuffer = await file.arrayBuffer();
         const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
         const decodedBuffer = await audioContext.decodeAudioData(arrayBuffer);
-        
-        // Calculate Peaks
+
+        // Calculate Peaks, finer for longer media so zooming in still shows detail
         const channels = decodedBuffer.getChannelData(0);
-        const buckets = 2000; // Resolution
+        const buckets = Math.min(MAX_BUCKETS, Math.max(MIN_BUCKETS, Math.ceil(decodedBuffer.duration * PEAKS_PER_SECOND)));
         const peaks = new Float32Array(buckets * 2);
         const step = Math.ceil(channels.length / buckets);
 
@@ -57,7 +123,7 @@ export const WaveformTimeline: React.FC<WaveformTimelineProps> = ({
             peaks[i * 2] = min;
             peaks[i * 2 + 1] = max;
         }
-        setWaveformPeaks(peaks);
+        setWaveform({ peaks, bucketDuration: step / decodedBuffer.sampleRate });
 
       } catch (error) {
         console.error("Error decoding audio data for waveform:", error);
@@ -69,6 +135,40 @@ export const WaveformTimeline: React.FC<WaveformTimelineProps> = ({
     decodeAudio();
   }, [file]);
 
+  const silenceEdges = useMemo(() => (waveform ? findSilenceEdges(waveform) : []), [waveform]);
+
+  // Reset the view when new media is loaded
+  useEffect(() => {
+    setView({ zoom: 1, start: 0 });
+  }, [duration]);
+
+  const clampStart = useCallback((start: number, zoom: number) => {
+    return Math.max(0, Math.min(start, duration - duration / zoom));
+  }, [duration]);
+
+  // Zoom around a point in time, keeping it under the same pixel
+  const zoomAt = useCallback((factor: number, anchor?: number) => {
+    setView(prev => {
+      const zoom = Math.max(1, Math.min(maxZoom, prev.zoom * factor));
+      const focus = anchor ?? prev.start + duration / prev.zoom / 2;
+      const start = focus - (focus - prev.start) * (prev.zoom / zoom);
+      return { zoom, start: clampStart(start, zoom) };
+    });
+  }, [maxZoom, duration, clampStart]);
+
+  // Keep the playhead in view while playing
+  useEffect(() => {
+    if (view.zoom === 1 || dragRef.current) return;
+    if (currentTime < view.start || currentTime > view.start + viewDuration) {
+      setView(prev => ({ ...prev, start: clampStart(currentTime - viewDuration * 0.1, prev.zoom) }));
+    }
+  }, [currentTime]);
+
+  const displayed = useMemo(
+    () => (draft ? subtitles.map(s => (s.id === draft.id ? draft : s)) : subtitles),
+    [subtitles, draft]
+  );
+
   // Optimized Draw
   const draw = useCallback(() => {
     const canvas = canvasRef.current;
@@ -79,50 +179,75 @@ export const WaveformTimeline: React.FC<WaveformTimelineProps> = ({
     if (!ctx) return;
 
     canvas.width = container.clientWidth;
-    canvas.height = 80;
+    canvas.height = HEIGHT;
 
     const width = canvas.width;
     const height = canvas.height;
+    const toX = (time: number) => ((time - view.start) / viewDuration) * width;
 
     // Clear
     ctx.clearRect(0, 0, width, height);
     ctx.fillStyle = '#f9fafb';
     ctx.fillRect(0, 0, width, height);
 
-    // 1. Draw Waveform from Cache
-    if (waveformPeaks) {
-        const buckets = waveformPeaks.length / 2;
-        const barWidth = width / buckets;
+    // 1. Draw Waveform from Cache, one bar per pixel column of the visible window
+    if (waveform && viewDuration > 0) {
+        const { peaks, bucketDuration } = waveform;
+        const buckets = peaks.length / 2;
         const amp = height / 2;
-        
+
         ctx.fillStyle = '#cbd5e1'; // Slate-300
         ctx.beginPath();
-        for (let i = 0; i < buckets; i++) {
-            const min = waveformPeaks[i * 2];
-            const max = waveformPeaks[i * 2 + 1];
-            ctx.rect(i * barWidth, (1 + min) * amp, Math.max(1, barWidth), Math.max(1, (max - min) * amp));
+        for (let x = 0; x < width; x++) {
+            const from = Math.floor((view.start + (x / width) * viewDuration) / bucketDuration);
+            const to = Math.max(from + 1, Math.floor((view.start + ((x + 1) / width) * viewDuration) / bucketDuration));
+            let min = 1.0;
+            let max = -1.0;
+            for (let i = from; i < to && i < buckets; i++) {
+                if (peaks[i * 2] < min) min = peaks[i * 2];
+                if (peaks[i * 2 + 1] > max) max = peaks[i * 2 + 1];
+            }
+            if (max >= min) ctx.rect(x, (1 + min) * amp, 1, Math.max(1, (max - min) * amp));
         }
         ctx.fill();
     }
 
     // 2. Draw Subtitle Blocks
-    if (duration > 0) {
-        ctx.fillStyle = 'rgba(59, 130, 246, 0.3)'; 
-        ctx.strokeStyle = 'rgba(37, 99, 235, 0.5)';
-        
-        subtitles.forEach(sub => {
-            const startX = (sub.startTime / duration) * width;
-            const endX = (sub.endTime / duration) * width;
-            const w = Math.max(1, endX - startX);
-            
+    if (viewDuration > 0) {
+        displayed.forEach(sub => {
+            if (sub.endTime < view.start || sub.startTime > view.start + viewDuration) return;
+            const startX = toX(sub.startTime);
+            const w = Math.max(1, toX(sub.endTime) - startX);
+            const isDragged = draft?.id === sub.id;
+
+            ctx.fillStyle = isDragged ? 'rgba(59, 130, 246, 0.45)' : 'rgba(59, 130, 246, 0.3)';
+            ctx.strokeStyle = isDragged ? 'rgba(37, 99, 235, 0.9)' : 'rgba(37, 99, 235, 0.5)';
+            ctx.lineWidth = 1;
             ctx.fillRect(startX, 10, w, height - 20);
             ctx.strokeRect(startX, 10, w, height - 20);
+
+            if (editable && w > 24) {
+                // Edge grips
+                ctx.fillStyle = 'rgba(37, 99, 235, 0.7)';
+                ctx.fillRect(startX, 10, 2, height - 20);
+                ctx.fillRect(startX + w - 2, 10, 2, height - 20);
+            }
+            if (w > 40) {
+                ctx.save();
+                ctx.beginPath();
+                ctx.rect(startX + 4, 10, w - 8, height - 20);
+                ctx.clip();
+                ctx.fillStyle = '#1e3a8a';
+                ctx.font = '11px sans-serif';
+                ctx.fillText(sub.text.replace(/\n/g, ' '), startX + 5, height - 16);
+                ctx.restore();
+            }
         });
     }
 
     // 3. Draw Playhead
-    if (duration > 0) {
-        const x = (currentTime / duration) * width;
+    if (viewDuration > 0) {
+        const x = toX(currentTime);
         ctx.beginPath();
         ctx.strokeStyle = '#ef4444';
         ctx.lineWidth = 2;
@@ -134,10 +259,10 @@ export const WaveformTimeline: React.FC<WaveformTimelineProps> = ({
         ctx.font = '10px monospace';
         ctx.fillText(formatTime(currentTime), x + 4, 12);
     }
-    
+
     // 4. Draw Hover Line
-    if (hoverTime !== null && duration > 0) {
-        const x = (hoverTime / duration) * width;
+    if (hoverTime !== null && viewDuration > 0) {
+        const x = toX(hoverTime);
         ctx.beginPath();
         ctx.strokeStyle = 'rgba(0,0,0,0.2)';
         ctx.lineWidth = 1;
@@ -147,7 +272,7 @@ export const WaveformTimeline: React.FC<WaveformTimelineProps> = ({
         ctx.stroke();
         ctx.setLineDash([]);
     }
-  }, [waveformPeaks, subtitles, currentTime, duration, hoverTime]);
+  }, [waveform, displayed, draft, editable, currentTime, viewDuration, view.start, hoverTime]);
 
   useEffect(() => {
     draw();
@@ -159,34 +284,152 @@ export const WaveformTimeline: React.FC<WaveformTimelineProps> = ({
       return () => window.removeEventListener('resize', handleResize);
   }, [draw]);
 
-  const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
-    if (!containerRef.current || duration === 0) return;
-    const rect = containerRef.current.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const time = (x / rect.width) * duration;
-    setHoverTime(Math.max(0, Math.min(time, duration)));
+  // Ctrl+wheel zooms around the pointer; other wheel movement scrolls once zoomed in.
+  // Registered natively because React's wheel listener is passive and cannot prevent page scrolling.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      if (duration === 0) return;
+      const rect = container.getBoundingClientRect();
+      if (e.ctrlKey || e.metaKey) {
+        e.preventDefault();
+        zoomAt(e.deltaY < 0 ? 1.25 : 0.8, view.start + ((e.clientX - rect.left) / rect.width) * viewDuration);
+      } else if (view.zoom > 1) {
+        e.preventDefault();
+        const delta = Math.abs(e.deltaX) > Math.abs(e.deltaY) ? e.deltaX : e.deltaY;
+        setView(prev => ({ ...prev, start: clampStart(prev.start + (delta / rect.width) * viewDuration, prev.zoom) }));
+      }
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, [duration, view, viewDuration, zoomAt, clampStart]);
+
+  const timeAt = (clientX: number): number => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    const time = view.start + ((clientX - rect.left) / rect.width) * viewDuration;
+    return Math.max(0, Math.min(time, duration));
+  };
+
+  // Which cue (and which part of it) is under the pointer
+  const hitTest = (clientX: number): { sub: Subtitle; mode: DragMode } | null => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    const x = clientX - rect.left;
+    const toX = (time: number) => ((time - view.start) / viewDuration) * rect.width;
+    for (let i = subtitles.length - 1; i >= 0; i--) {
+      const sub = subtitles[i];
+      const startX = toX(sub.startTime);
+      const endX = toX(sub.endTime);
+      if (Math.abs(x - startX) <= EDGE_HANDLE_PX) return { sub, mode: 'start' };
+      if (Math.abs(x - endX) <= EDGE_HANDLE_PX) return { sub, mode: 'end' };
+      if (x > startX && x < endX) return { sub, mode: 'move' };
+    }
+    return null;
+  };
+
+  // Apply a drag of `delta` seconds, snapping to neighbouring cues and silence unless Alt is held
+  const applyDrag = (drag: DragState, delta: number, snap: boolean): Subtitle => {
+    const { original, mode } = drag;
+    const index = subtitles.findIndex(s => s.id === original.id);
+    const prev = subtitles[index - 1];
+    const next = subtitles[index + 1];
+    // Never drag across a neighbour, but leave existing overlaps alone
+    const lower = prev ? Math.min(prev.endTime, original.startTime) : 0;
+    const upper = next ? Math.max(next.startTime, original.endTime) : Math.max(duration, original.endTime);
+
+    const snapPoints = [...(prev ? [prev.endTime] : []), ...(next ? [next.startTime] : []), ...silenceEdges];
+    const tolerance = (SNAP_PX / (containerRef.current?.clientWidth || 1)) * viewDuration;
+    const snapOffset = (time: number): number | null => {
+      let best: number | null = null;
+      for (const point of snapPoints) {
+        const offset = point - time;
+        if (Math.abs(offset) <= tolerance && (best === null || Math.abs(offset) < Math.abs(best))) best = offset;
+      }
+      return best;
+    };
+
+    let startTime = original.startTime;
+    let endTime = original.endTime;
+    if (mode === 'move') {
+      const length = endTime - startTime;
+      startTime = Math.max(lower, Math.min(startTime + delta, upper - length));
+      if (snap) {
+        const offsets = [snapOffset(startTime), snapOffset(startTime + length)].filter((o): o is number => o !== null);
+        const offset = offsets.sort((a, b) => Math.abs(a) - Math.abs(b))[0] ?? 0;
+        startTime = Math.max(lower, Math.min(startTime + offset, upper - length));
+      }
+      endTime = startTime + length;
+    } else if (mode === 'start') {
+      startTime = startTime + delta;
+      if (snap) startTime += snapOffset(startTime) ?? 0;
+      startTime = Math.max(lower, Math.min(startTime, endTime - MIN_CUE_DURATION));
+    } else {
+      endTime = endTime + delta;
+      if (snap) endTime += snapOffset(endTime) ?? 0;
+      endTime = Math.min(upper, Math.max(endTime, startTime + MIN_CUE_DURATION));
+    }
+
+    const round = (seconds: number) => Math.round(seconds * 1000) / 1000;
+    return { ...original, startTime: round(startTime), endTime: round(endTime) };
   };
 
-  const handleMouseLeave = () => {
-    setHoverTime(null);
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!containerRef.current || duration === 0 || e.button !== 0) return;
+    const hit = editable ? hitTest(e.clientX) : null;
+    if (hit) {
+      dragRef.current = { mode: hit.mode, pointerX: e.clientX, original: hit.sub, moved: false };
+      containerRef.current.setPointerCapture(e.pointerId);
+      if (hit.mode === 'move') setCursor('grabbing');
+    } else {
+      onSeek(timeAt(e.clientX));
+    }
   };
 
-  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
     if (!containerRef.current || duration === 0) return;
-    const rect = containerRef.current.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const time = (x / rect.width) * duration;
-    onSeek(Math.max(0, Math.min(time, duration)));
+    setHoverTime(timeAt(e.clientX));
+
+    const drag = dragRef.current;
+    if (drag) {
+      if (!drag.moved && Math.abs(e.clientX - drag.pointerX) < DRAG_THRESHOLD_PX) return;
+      drag.moved = true;
+      const delta = ((e.clientX - drag.pointerX) / containerRef.current.clientWidth) * viewDuration;
+      setDraft(applyDrag(drag, delta, !e.altKey));
+      return;
+    }
+
+    if (editable) {
+      const hit = hitTest(e.clientX);
+      setCursor(!hit ? 'crosshair' : hit.mode === 'move' ? 'grab' : 'ew-resize');
+    }
   };
 
-  const handleTouch = (e: React.TouchEvent<HTMLDivElement>) => {
-      if (!containerRef.current || duration === 0 || e.touches.length === 0) return;
-      const rect = containerRef.current.getBoundingClientRect();
-      const x = e.touches[0].clientX - rect.left;
-      const time = (x / rect.width) * duration;
-      const seekTime = Math.max(0, Math.min(time, duration));
-      setHoverTime(seekTime);
-      onSeek(seekTime);
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    dragRef.current = null;
+    containerRef.current?.releasePointerCapture(e.pointerId);
+    setCursor('crosshair');
+
+    if (drag.moved && draft && onSubtitlesChange) {
+      if (draft.startTime !== drag.original.startTime || draft.endTime !== drag.original.endTime) {
+        onSubtitlesChange(subtitles.map(s => (s.id === draft.id ? draft : s)));
+      }
+    } else {
+      // A click on a cue without dragging seeks, like clicking empty space
+      onSeek(timeAt(e.clientX));
+    }
+    setDraft(null);
+  };
+
+  const handlePointerCancel = () => {
+    dragRef.current = null;
+    setDraft(null);
+    setCursor('crosshair');
+  };
+
+  const handlePointerLeave = () => {
+    if (!dragRef.current) setHoverTime(null);
   };
 
   const formatTime = (seconds: number) => {
@@ -197,24 +440,61 @@ export const WaveformTimeline: React.FC<WaveformTimelineProps> = ({
 
   return (
     <div className="w-full select-none">
-       {isDecoding && (
-           <div className="text-xs text-gray-400 mb-1 flex items-center gap-2">
-               <span className="w-2 h-2 bg-blue-500 rounded-full animate-pulse"></span>
-               Generating Audio Waveform...
+       <div className="flex items-center justify-between mb-1 min-h-[20px]">
+           {isDecoding ? (
+               <div className="text-xs text-gray-400 flex items-center gap-2">
+                   <span className="w-2 h-2 bg-blue-500 rounded-full animate-pulse"></span>
+                   Generating Audio Waveform...
+               </div>
+           ) : (
+               <div className="text-xs text-gray-400">
+                   {editable ? 'Drag cues to move, edges to retime. Alt disables snapping. Ctrl+scroll to zoom.' : 'Ctrl+scroll to zoom.'}
+               </div>
+           )}
+           <div className="flex items-center gap-1">
+               <button
+                  onClick={() => zoomAt(0.5)}
+                  disabled={view.zoom <= 1}
+                  className="p-1 text-gray-500 hover:text-blue-600 rounded disabled:opacity-30"
+                  title="Zoom out"
+               >
+                   <ZoomOut className="w-4 h-4" />
+               </button>
+               <span className="text-xs font-mono text-gray-400 w-10 text-center">{view.zoom.toFixed(view.zoom < 10 ? 1 : 0)}x</span>
+               <button
+                  onClick={() => zoomAt(2)}
+                  disabled={view.zoom >= maxZoom}
+                  className="p-1 text-gray-500 hover:text-blue-600 rounded disabled:opacity-30"
+                  title="Zoom in"
+               >
+                   <ZoomIn className="w-4 h-4" />
+               </button>
            </div>
-       )}
-       <div 
+       </div>
+       <div
          ref={containerRef}
-         className="relative h-20 bg-gray-50 rounded-lg overflow-hidden border border-gray-200 cursor-crosshair shadow-inner touch-none"
-         onMouseMove={handleMouseMove}
-         onMouseLeave={handleMouseLeave}
-         onClick={handleClick}
-         onTouchStart={handleTouch}
-         onTouchMove={handleTouch}
-         onTouchEnd={handleMouseLeave}
+         className="relative h-20 bg-gray-50 rounded-lg overflow-hidden border border-gray-200 shadow-inner touch-none"
+         style={{ cursor }}
+         onPointerDown={handlePointerDown}
+         onPointerMove={handlePointerMove}
+         onPointerUp={handlePointerUp}
+         onPointerCancel={handlePointerCancel}
+         onPointerLeave={handlePointerLeave}
        >
          <canvas ref={canvasRef} className="block w-full h-full" />
        </div>
+       {view.zoom > 1 && (
+           <input
+              type="range"
+              min={0}
+              max={Math.max(0, duration - viewDuration)}
+              step={0.01}
+              value={view.start}
+              onChange={(e) => setView(prev => ({ ...prev, start: clampStart(Number(e.target.value), prev.zoom) }))}
+              className="w-full mt-1 h-1.5 accent-blue-600"
+              aria-label="Scroll timeline"
+           />
+       )}
     </div>
   );
 };
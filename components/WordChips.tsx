@@ -0,0 +1,32 @@
+import React from 'react';
+import { Subtitle } from '../types';
+import { resolveWordTimings, spokenWordCount } from '../utils/wordTiming';
+
+interface WordChipsProps {
+  subtitle: Subtitle;
+  onSeek: (time: number) => void;
+  currentTime?: number; // highlights the spoken words; leave unset for cues that are not playing
+}
+
+// The cue's timed words; clicking one seeks the video to where it is spoken
+export const WordChips: React.FC<WordChipsProps> = ({ subtitle, onSeek, currentTime }) => {
+  const words = resolveWordTimings(subtitle);
+  const spoken = currentTime === undefined ? 0 : spokenWordCount(words, currentTime);
+  return (
+    <div className="flex flex-wrap gap-0.5 mt-1">
+      {words.map((word, index) => (
+        <button
+          key={index}
+          onClick={(e) => {
+            e.stopPropagation();
+            onSeek(word.startTime);
+          }}
+          className={`px-1 rounded text-xs transition-colors ${index < spoken ? 'text-blue-700 bg-blue-100' : 'text-gray-500 hover:bg-blue-50 hover:text-blue-600'}`}
+          title={`${word.startTime.toFixed(2)}s – ${word.endTime.toFixed(2)}s`}
+        >
+          {word.text}
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,179 @@
+import {
+  AiProvider,
+  LanguageDetection,
+  ProviderCapability,
+  ProviderId,
+  ProviderRequestOptions,
+  Subtitle,
+  Transcript,
+  TranscriptMode,
+  TranslationGlossary,
+} from '../types';
+import { geminiProvider } from './geminiService';
+import { httpProvider } from './httpProvider';
+import { mockProvider } from './mockProvider';
+import { loadProviderSettings } from './providerSettings';
+import { CacheOperation, cacheKey, readCachedResult, writeCachedResult } from './resultCache';
+import { throwIfAborted } from '../utils/abortHelpers';
+import { NO_GLOSSARY } from '../utils/glossaryHelpers';
+
+// Entry point for every AI feature. Tools call these functions; the provider and model are looked up
+// from the saved settings on each call. Results are cached by content, so repeating a request is free
+// unless the caller asks to regenerate.
+
+export const PROVIDERS: AiProvider[] = [geminiProvider, httpProvider, mockProvider];
+
+export const CAPABILITY_LABELS: Record<ProviderCapability, string> = {
+  transcribe: 'Transcription',
+  timedTranscribe: 'Timed transcription',
+  translate: 'Translation',
+  summarize: 'Summaries',
+};
+
+export function getProvider(id: ProviderId): AiProvider {
+  return PROVIDERS.find(p => p.id === id) ?? geminiProvider;
+}
+
+export function getActiveProvider(): { provider: AiProvider; options: ProviderRequestOptions } {
+  const settings = loadProviderSettings();
+  const provider = getProvider(settings.provider);
+  return { provider, options: { model: settings.models[provider.id] || provider.defaultModel } };
+}
+
+export interface AiCallOptions {
+  signal?: AbortSignal;
+  regenerate?: boolean; // skip the cache and replace whatever it holds for this request
+  onCacheHit?: (storedAt: number) => void; // called instead of a request when a stored result is used
+  onProgress?: (percent: number) => void; // chunks of long media finished so far
+}
+
+const resolve = (capability: ProviderCapability, { signal, onProgress }: AiCallOptions) => {
+  const { provider, options } = getActiveProvider();
+  if (!provider.capabilities.includes(capability)) {
+    throw new Error(`${provider.name} does not support ${CAPABILITY_LABELS[capability].toLowerCase()}. Choose another provider in Settings.`);
+  }
+  return { provider, options: { ...options, signal, onProgress } };
+};
+
+// Settings besides the model that change what a provider returns. API keys never go into the cache key.
+const providerConfig = (id: ProviderId): object | undefined => {
+  const { gemini, http } = loadProviderSettings();
+  if (id === 'gemini') return { thinkingBudget: gemini.thinkingBudget, safety: gemini.safety };
+  if (id === 'http') return { baseUrl: http.baseUrl, transcriptionModel: http.transcriptionModel };
+  return undefined;
+};
+
+// Resolve the provider, then answer from the cache or run `task` and store what it returns.
+// Translations also pass the glossary they were given, since it changes the result.
+const run = async <T>(
+  capability: ProviderCapability,
+  operation: CacheOperation,
+  source: File | Subtitle[],
+  language: string | undefined,
+  call: AiCallOptions,
+  task: (provider: AiProvider, options: ProviderRequestOptions) => Promise<T>,
+  glossary?: TranslationGlossary
+): Promise<T> => {
+  const { provider, options: resolved } = resolve(capability, call);
+  if (!loadProviderSettings().cacheResults) return task(provider, resolved);
+
+  let incomplete = false;
+  const options = { ...resolved, onIncomplete: () => { incomplete = true; } };
+
+  const request = { operation, provider: provider.id, model: options.model, language, glossary, config: providerConfig(provider.id), source };
+  const key = await cacheKey(request);
+  throwIfAborted(call.signal);
+  if (!call.regenerate) {
+    const hit = await readCachedResult<T>(key);
+    if (hit) {
+      call.onCacheHit?.(hit.createdAt);
+      return hit.value;
+    }
+  }
+  const value = await task(provider, options);
+  // A placeholder, a partly failed result or a failed detection would otherwise be served again
+  if (!incomplete && value !== null) await writeCachedResult(key, request, value);
+  return value;
+};
+
+export const generateSubtitlesFromVideo = async (videoFile: File, language?: string, call: AiCallOptions = {}): Promise<Subtitle[]> =>
+  run('timedTranscribe', 'subtitles', videoFile, language, call, (provider, options) =>
+    provider.transcribeTimed(videoFile, language, options)
+  );
+
+// `glossary` is the user's approved terms for the language pair, see services/glossaryStore
+export const translateSubtitles = async (
+  subtitles: Subtitle[],
+  targetLanguage: string,
+  onProgress?: (percent: number) => void,
+  call: AiCallOptions = {},
+  glossary: TranslationGlossary = NO_GLOSSARY
+): Promise<Subtitle[]> =>
+  run('translate', 'translateSubtitles', subtitles, targetLanguage, call, async (provider, options) => {
+    const translated = await provider.translateSubtitles(subtitles, targetLanguage, glossary, options, onProgress);
+    // Word timing belongs to the source wording and means nothing for the translation
+    return translated.map(({ words, ...sub }) => sub);
+  }, glossary);
+
+export const translateAudio = async (
+  audioFile: File,
+  targetLanguage: string,
+  call: AiCallOptions = {},
+  glossary: TranslationGlossary = NO_GLOSSARY
+): Promise<string> =>
+  run('translate', 'translateAudio', audioFile, targetLanguage, call, (provider, options) =>
+    provider.translateMedia(audioFile, 'audio', targetLanguage, glossary, options),
+    glossary
+  );
+
+export const translateVideo = async (
+  videoFile: File,
+  targetLanguage: string,
+  call: AiCallOptions = {},
+  glossary: TranslationGlossary = NO_GLOSSARY
+): Promise<string> =>
+  run('translate', 'translateVideo', videoFile, targetLanguage, call, (provider, options) =>
+    provider.translateMedia(videoFile, 'video', targetLanguage, glossary, options),
+    glossary
+  );
+
+export const transcribeAudio = async (audioFile: File, call: AiCallOptions = {}, mode: TranscriptMode = 'plain'): Promise<Transcript> =>
+  run('transcribe', mode === 'timestamped' ? 'timestampedAudio' : 'transcribeAudio', audioFile, undefined, call, (provider, options) =>
+    provider.transcribe(audioFile, 'audio', mode, options)
+  );
+
+export const transcribeVideo = async (videoFile: File, call: AiCallOptions = {}, mode: TranscriptMode = 'plain'): Promise<Transcript> =>
+  run('transcribe', mode === 'timestamped' ? 'timestampedVideo' : 'transcribeVideo', videoFile, undefined, call, (provider, options) =>
+    provider.transcribe(videoFile, 'video', mode, options)
+  );
+
+export const detectMediaLanguage = async (file: File, call: AiCallOptions = {}): Promise<LanguageDetection | null> =>
+  run('transcribe', 'detectLanguage', file, undefined, call, (provider, options) => provider.detectLanguage(file, options));
+
+const LANGUAGE_SAMPLE_CUES = 40;
+
+// Cues spread over the whole file, without markup, so a foreign-language intro does not decide alone
+const subtitleSample = (subtitles: Subtitle[]): string => {
+  const step = Math.max(1, Math.floor(subtitles.length / LANGUAGE_SAMPLE_CUES));
+  return subtitles
+    .filter((_, index) => index % step === 0)
+    .slice(0, LANGUAGE_SAMPLE_CUES)
+    .map(sub => sub.text.replace(/<[^>]*>|\{[^}]*\}/g, '').replace(/\\N/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+};
+
+export const detectSubtitleLanguage = async (subtitles: Subtitle[], call: AiCallOptions = {}): Promise<LanguageDetection | null> =>
+  run('translate', 'detectLanguage', subtitles, undefined, call, (provider, options) =>
+    provider.detectLanguage(subtitleSample(subtitles), options)
+  );
+
+export const summarizeAudio = async (audioFile: File, call: AiCallOptions = {}): Promise<string> =>
+  run('summarize', 'summarizeAudio', audioFile, undefined, call, (provider, options) =>
+    provider.summarize(audioFile, 'audio', options)
+  );
+
+export const summarizeVideo = async (videoFile: File, call: AiCallOptions = {}): Promise<string> =>
+  run('summarize', 'summarizeVideo', videoFile, undefined, call, (provider, options) =>
+    provider.summarize(videoFile, 'video', options)
+  );
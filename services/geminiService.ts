@@ -1,8 +1,39 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { Subtitle } from '../types';
+import { GoogleGenAI, Type, HarmCategory, HarmBlockThreshold, FinishReason, GenerateContentConfig, GenerateContentResponse, Part } from "@google/genai";
+import { AiProvider, LanguageDetection, ProviderRequestOptions, Subtitle, Transcript, TranscriptMode, TranscriptSegment, TranslationGlossary } from '../types';
 import { parseSRT, timeToSeconds } from '../utils/srtHelpers';
+import { shouldChunkMedia, processInChunks, stitchChunkSubtitles, stitchChunkTexts, stitchChunkSegments, stitchChunkTimedSegments, extractSpeechSample, MediaChunk } from './mediaChunker';
+import { formatDialogue } from '../utils/speakerHelpers';
+import { mergeDetections, normalizeLanguageCode, toLanguageDetection, UNDETERMINED_LANGUAGE } from '../utils/languageHelpers';
+import { glossaryForText, glossaryInstructions, NO_GLOSSARY } from '../utils/glossaryHelpers';
+import { loadProviderSettings, isSettingsLocked, SAFETY_CATEGORIES } from './providerSettings';
+import { abortError, isAbortError, onAbort, throwIfAborted } from '../utils/abortHelpers';
+import { runWithRetry, classifyAiError, markIncomplete, PayloadTooLargeError, SafetyBlockedError } from './requestRunner';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+const DEFAULT_OPTIONS: ProviderRequestOptions = { model: DEFAULT_GEMINI_MODEL };
+
+// Key, thinking budget and safety thresholds come from Settings and are read again on every call
+const getGeminiConfig = () => {
+  if (isSettingsLocked()) {
+    throw new Error("Your API key is encrypted. Unlock it with your passphrase in Settings.");
+  }
+  const { gemini } = loadProviderSettings();
+  if (!gemini.apiKey) {
+    throw new Error("API Key is missing. Add your Gemini API key in Settings.");
+  }
+  return {
+    apiKey: gemini.apiKey,
+    thinkingBudget: gemini.thinkingBudget,
+    safetySettings: SAFETY_CATEGORIES.map(({ id }) => ({
+      category: HarmCategory[id],
+      threshold: HarmBlockThreshold[gemini.safety[id]],
+    })),
+  };
+};
 
-const API_KEY = process.env.API_KEY || '';
+// Pro models always think and reject a zero budget, so "off" falls back to the model's own choice there
+const thinkingConfigFor = (model: string, budget: number) =>
+  budget === 0 && model.includes('-pro') ? undefined : { thinkingBudget: budget };
 
 // Robust MIME type mapper
 const getMimeType = (file: File): string => {
@@ -42,10 +73,16 @@ const getMimeType = (file: File): string => {
   return 'audio/mpeg';
 };
 
-const fileToGenerativePart = async (file: File): Promise<{ inlineData: { data: string; mimeType: string } }> => {
+const fileToGenerativePart = async (file: File, signal?: AbortSignal): Promise<{ inlineData: { data: string; mimeType: string } }> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
+    const detach = onAbort(signal, () => {
+      reader.abort();
+      reject(abortError());
+    });
     reader.onloadend = () => {
+      detach();
+      if (signal?.aborted) return;
       let result = reader.result as string;
       if (!result || !result.includes(',')) {
           reject(new Error("Failed to read file data."));
@@ -67,12 +104,12 @@ const fileToGenerativePart = async (file: File): Promise<{ inlineData: { data: s
     };
     reader.onerror = (error) => {
         console.error("FileReader Error:", error);
-        reject(new Error("Failed to read file. The file might be too large for this browser to handle."));
+        reject(new PayloadTooLargeError("Failed to read file. The file might be too large for this browser to handle."));
     };
     try {
         reader.readAsDataURL(file);
     } catch (e) {
-        reject(new Error("File is too large to process in memory."));
+        reject(new PayloadTooLargeError("File is too large to process in memory."));
     }
   });
 };
@@ -83,225 +120,283 @@ const cleanJsonResponse = (text: string): string => {
     return cleaned.trim();
 };
 
-const isNetworkOrPayloadError = (error: any): boolean => {
-    const msg = (error.message || '').toLowerCase();
-    const status = error.status || 0;
-    
-    return msg.includes('xhr error') || 
-           msg.includes('rpc failed') || 
-           msg.includes('fetch') || 
-           msg.includes('networkerror') ||
-           msg.includes('413') ||
-           status === 413 || // Payload Too Large
-           (msg.includes('error code: 6') && msg.includes('rpc')); // gRPC-web XHR error
-};
+const BLOCKED_FINISH_REASONS: string[] = [FinishReason.SAFETY, FinishReason.BLOCKLIST, FinishReason.PROHIBITED_CONTENT, FinishReason.SPII];
 
-/**
- * CLIENT-SIDE AUDIO ANALYSIS (VAD)
- * Scans the audio file to find the exact millisecond where speech begins.
- * Uses Web Audio API to decode and check RMS amplitude.
- */
-export const detectAudioOnset = async (videoFile: File): Promise<number> => {
-    try {
-        const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-        const arrayBuffer = await videoFile.arrayBuffer();
-        const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-        
-        const rawData = audioBuffer.getChannelData(0); // Check first channel
-        const sampleRate = audioBuffer.sampleRate;
-        
-        // Settings for VAD
-        const frameSize = Math.floor(sampleRate * 0.05); // 50ms windows
-        const threshold = 0.02; // RMS Threshold (adjust based on sensitivity needs)
-        
-        let consecutiveFrames = 0;
-        const requiredConsecutive = 3; // Require ~150ms of sound to trigger to avoid clicks/pops
-        
-        for (let i = 0; i < rawData.length; i += frameSize) {
-            let sumSquares = 0;
-            // Calculate RMS for this frame
-            const end = Math.min(i + frameSize, rawData.length);
-            for (let j = i; j < end; j++) {
-                sumSquares += rawData[j] * rawData[j];
-            }
-            const rms = Math.sqrt(sumSquares / (end - i));
-            
-            if (rms > threshold) {
-                consecutiveFrames++;
-                if (consecutiveFrames >= requiredConsecutive) {
-                     // Return the start of the detected segment
-                     // Backtrack to the start of the sequence
-                     const onsetIndex = i - ((requiredConsecutive - 1) * frameSize);
-                     return Math.max(0, onsetIndex / sampleRate);
-                }
-            } else {
-                consecutiveFrames = 0;
-            }
-        }
-        
-        return 0; // Fallback if silence
-    } catch (e) {
-        console.warn("VAD Analysis failed, falling back to 0", e);
-        return 0;
-    }
+// Trimmed text of a response. A filtered prompt or answer comes back as an empty text, so that is
+// turned into a SafetyBlockedError instead of looking like silence.
+const responseText = (response: GenerateContentResponse): string => {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (response.promptFeedback?.blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+    throw new SafetyBlockedError();
+  }
+  return (response.text || '').trim();
 };
 
-/**
- * Calculates the offset needed to sync the first subtitle with the actual audio onset.
- */
-export const calculateAutoSyncOffset = async (videoFile: File, subtitles: Subtitle[]): Promise<number> => {
-    if (!subtitles || subtitles.length === 0) return 0;
+// One generateContent call through the shared retry runner, with the key, thinking budget and
+// safety settings from Settings
+const generateText = async (
+  parts: Part[],
+  options: ProviderRequestOptions,
+  label: string,
+  extraConfig: GenerateContentConfig = {},
+  maxAttempts?: number
+): Promise<string> => {
+  const config = getGeminiConfig();
+  const ai = new GoogleGenAI({ apiKey: config.apiKey });
+  return runWithRetry(
+    async () =>
+      responseText(
+        await ai.models.generateContent({
+          model: options.model,
+          contents: { parts },
+          config: {
+            abortSignal: options.signal,
+            thinkingConfig: thinkingConfigFor(options.model, config.thinkingBudget),
+            safetySettings: config.safetySettings,
+            ...extraConfig,
+          },
+        })
+      ),
+    { signal: options.signal, label, maxAttempts }
+  );
+};
 
-    const actualAudioStart = await detectAudioOnset(videoFile);
-    const firstSubtitleStart = subtitles[0].startTime;
+// Options for one chunk's request: a silent chunk is no placeholder, and progress counts whole chunks
+const chunkOptions = (options: ProviderRequestOptions): ProviderRequestOptions => ({ ...options, onIncomplete: undefined, onProgress: undefined });
+
+// Join per-chunk transcripts, skipping the placeholders returned for chunks without speech.
+// Timestamped paragraphs are placed on the source timeline by time instead of by matching words.
+// Each chunk identifies its language on its own; the one spoken most wins.
+// A silent stretch is normal in a long recording, so only a silent whole counts as a placeholder
+const joinChunkTranscripts = (results: Transcript[], timedChunks?: MediaChunk[]): Transcript => {
+  const spoken = results.filter(r => r.language !== 'Unknown');
+  if (spoken.length === 0) return results[0] ?? { language: 'Unknown', text: '' };
+  const detectedLanguage = mergeDetections(spoken.map(r => ({ detection: r.detectedLanguage, weight: r.text.length })));
+  const language = detectedLanguage?.name ?? spoken[0].language;
+  if (timedChunks) {
+    const segments = stitchChunkTimedSegments(timedChunks, results.map(r => r.segments ?? []));
+    return { language, text: segments.map(s => s.text).join('\n\n'), segments, detectedLanguage };
+  }
+  const segments = spoken.every(r => r.segments) ? stitchChunkSegments(spoken.map(r => r.segments!)) : undefined;
+  return { language, text: stitchChunkTexts(spoken.map(r => r.text)), segments, detectedLanguage };
+};
 
-    // We want the subtitle to start exactly when the audio starts (or slightly before).
-    // Offset = Target - Current
-    const offset = actualAudioStart - firstSubtitleStart;
-    
-    // Safety clamp: Don't shift more than 5 seconds either way automatically
-    if (Math.abs(offset) > 5) return 0;
+const SPEAKER_INSTRUCTIONS = `
+    Identify the distinct speakers by voice and label them "Speaker 1", "Speaker 2" and so on, in order of first appearance.
+    Use these generic labels even when a speaker says their name.
+    Start a new segment every time the speaker changes.
+`;
+
+// Replaces "Do not add timestamps." in timestamped mode
+const TIMESTAMP_INSTRUCTIONS = `
+    Keep each segment to a paragraph of a few sentences; split a long turn where the topic shifts.
+    Give every segment's startTime and endTime as HH:MM:SS,mmm measured from the start of the file,
+    where startTime is when its first word begins.
+`;
+
+const LANGUAGE_INSTRUCTIONS = `
+    Identify the spoken language: its ISO 639-1 code (ISO 639-3 when there is none), its English name,
+    and your confidence from 0 to 1.
+    If the speakers switch language, give every segment the code of its own language and report the
+    language spoken most as the main one.
+`;
+
+const LANGUAGE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    code: { type: Type.STRING, description: 'ISO 639 code, e.g. "en"' },
+    name: { type: Type.STRING, description: 'English name, e.g. "English"' },
+    confidence: { type: Type.NUMBER, description: "0 to 1" },
+  },
+  required: ["code", "name", "confidence"],
+};
 
-    return offset;
+const transcriptSchema = (mode: TranscriptMode) => ({
+  type: Type.OBJECT,
+  properties: {
+    language: LANGUAGE_SCHEMA,
+    segments: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          speaker: { type: Type.STRING, description: 'Speaker label, e.g. "Speaker 1"' },
+          text: { type: Type.STRING, description: "Everything this speaker says in this turn" },
+          language: { type: Type.STRING, description: "ISO 639 code of this segment's language" },
+          ...(mode === 'timestamped' ? {
+            startTime: { type: Type.STRING, description: "Start (HH:MM:SS,mmm)" },
+            endTime: { type: Type.STRING, description: "End (HH:MM:SS,mmm)" },
+          } : {}),
+        },
+        required: mode === 'timestamped'
+          ? ["speaker", "text", "language", "startTime", "endTime"]
+          : ["speaker", "text", "language"],
+      },
+    },
+  },
+  required: ["language", "segments"],
+});
+
+// Speaker turns and the detected language from a transcript response; a transcript without any
+// usable turn counts as silence
+const parseTranscriptResponse = (
+  jsonText: string,
+  mode: TranscriptMode
+): { segments: TranscriptSegment[]; detection: LanguageDetection | null } => {
+  const json = JSON.parse(cleanJsonResponse(jsonText));
+  if (!json || !Array.isArray(json.segments)) throw new Error("Invalid JSON format from AI");
+  const segments = json.segments
+    .filter((item: any) => typeof item?.text === 'string' && item.text.trim())
+    .map((item: any): TranscriptSegment => {
+      const segment: TranscriptSegment = {
+        speaker: typeof item.speaker === 'string' && item.speaker.trim() ? item.speaker.trim() : 'Speaker 1',
+        text: item.text.trim(),
+      };
+      const language = normalizeLanguageCode(item.language);
+      if (language !== UNDETERMINED_LANGUAGE) segment.language = language;
+      if (mode === 'timestamped') {
+        segment.startTime = timeToSeconds(item.startTime);
+        segment.endTime = Math.max(segment.startTime, timeToSeconds(item.endTime));
+      }
+      return segment;
+    });
+  return {
+    segments: mode === 'timestamped' ? segments.sort((a: TranscriptSegment, b: TranscriptSegment) => a.startTime! - b.startTime!) : segments,
+    detection: toLanguageDetection(json.language),
+  };
 };
 
-export const generateSubtitlesFromVideo = async (videoFile: File, language?: string): Promise<Subtitle[]> => {
-  if (!API_KEY) {
-    throw new Error("API Key is missing. Please configure it.");
+const transcriptFromSegments = (segments: TranscriptSegment[], detection: LanguageDetection | null): Transcript => ({
+  language: detection?.name ?? "Detected",
+  text: segments.map(s => s.text).join('\n\n'),
+  segments,
+  ...(detection ? { detectedLanguage: detection } : {}),
+});
+
+// Long recordings are transcribed chunk by chunk, then the joined transcript is summarized as text
+const summarizeLongMedia = async (file: File, kind: 'audio' | 'video', options: ProviderRequestOptions): Promise<string> => {
+  const { results } = await processInChunks(file, chunk => transcribeAudio(chunk.file, chunkOptions(options)), options.onProgress, options.signal);
+  const { language, text, segments } = joinChunkTranscripts(results);
+  if (language === 'Unknown') {
+    return markIncomplete(options, `[Could not generate summary - ${kind === 'audio' ? 'Audio' : 'Video content'} unclear]`);
   }
 
-  const ai = new GoogleGenAI({ apiKey: API_KEY });
-  const model = "gemini-2.5-flash"; 
+  const prompt = `
+    You are a professional assistant.
+    Below is the full transcript of a long ${kind} recording. Provide a structured summary.
 
-  try {
-    const videoPart = await fileToGenerativePart(videoFile);
+    Format your response with the following sections:
+    1. Executive Summary (2-3 sentences)
+    2. Key Takeaways (Bullet points)
+    3. Action Items (if any detected)
 
-    // Optimized prompt for AUDIO-FOCUSED synchronization
-    const prompt = `
-      Task: Generate subtitles for the audio track of this video.
-      Language: ${language ? `Translate or transcribe into ${language}` : 'Detect the ORIGINAL SPOKEN LANGUAGE and transcribe verbatim'}.
-      
-      CRITICAL TIMING INSTRUCTION:
-      1. IGNORE VISUALS: Do not describe what is happening on screen. Listen ONLY to the speech.
-      2. PHONETIC ATTACK: Set 'startTime' exactly when the sound of the FIRST syllable begins.
-      3. ABSOLUTE ZERO TIMING: The video starts at 00:00:00,000. 
-      4. NO BUFFER: Do not add "buffer" silence at the start. If speech starts at 0s, timestamp 0s.
-      5. SEGMENTATION: 
-         - Split long sentences into shorter chunks (max 10-12 words).
-         - Max 2 lines per subtitle.
-         - Max 42 characters per line.
-      
-      Return a JSON array of objects.
-    `;
-
-    let lastError: any;
-    const maxAttempts = 3;
-
-    for (let attempt = 0; attempt < maxAttempts; attempt++) {
-        try {
-            const response = await ai.models.generateContent({
-              model: model,
-              contents: {
-                parts: [videoPart, { text: prompt }],
-              },
-              config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                  type: Type.ARRAY,
-                  items: {
-                    type: Type.OBJECT,
-                    properties: {
-                      startTime: { type: Type.STRING, description: "Start (HH:MM:SS,mmm)" },
-                      endTime: { type: Type.STRING, description: "End (HH:MM:SS,mmm)" },
-                      text: { type: Type.STRING, description: "The spoken text" }
-                    },
-                    required: ["startTime", "endTime", "text"]
-                  }
-                },
-                thinkingConfig: { thinkingBudget: 0 },
-                // System instruction tailored for precision
-                systemInstruction: "You are an Audio Synchronization Engine. Your highest priority is matching the 'startTime' to the exact millisecond the audio waveform begins for that sentence. You ignore visual context and focus purely on speech timing.",
-                safetySettings: [
-                  { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_NONE' },
-                  { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_NONE' },
-                  { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_NONE' },
-                  { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_NONE' },
-                ]
-              }
-            });
-
-            const jsonText = response.text;
-            if (!jsonText) return [];
-
-            const cleanedJson = cleanJsonResponse(jsonText);
-            const json = JSON.parse(cleanedJson);
-            
-            if (!Array.isArray(json)) throw new Error("Invalid JSON format from AI");
-
-            const parsedSubtitles: Subtitle[] = json.map((item: any, index: number) => {
-                if (!item.text || typeof item.startTime === 'undefined') return null;
-
-                let start = timeToSeconds(item.startTime);
-                let end = timeToSeconds(item.endTime);
-
-                // Apply simple 0.01s adjustment as requested
-                const SHIFT_AMOUNT = 0.01;
-                
-                start = Math.max(0, start + SHIFT_AMOUNT);
-                end = Math.max(start + 0.5, end + SHIFT_AMOUNT);
-
-                return {
-                    id: index + 1,
-                    startTime: start,
-                    endTime: end,
-                    text: item.text
-                };
-            }).filter((s): s is Subtitle => s !== null);
-
-            return parsedSubtitles;
-
-        } catch (e: any) {
-            console.warn(`Subtitle Generation Attempt ${attempt + 1} failed:`, e);
-            lastError = e;
-            
-            // Check for Network/Payload error specifically
-            if (isNetworkOrPayloadError(e)) {
-                 throw new Error("Network Error: The video upload failed. The file might be too large or the connection was interrupted. Please try a smaller file (<20MB).");
-            }
-
-            const isServerErr = e.message?.includes('500') || e.status === 500 || e.status === 503;
-            if (isServerErr && attempt < maxAttempts - 1) {
-                const delay = attempt === 0 ? 2000 : attempt === 1 ? 5000 : 10000;
-                await new Promise(r => setTimeout(r, delay));
-                continue;
-            }
-            break;
-        }
-    }
-    
-    throw lastError || new Error("Failed to generate subtitles.");
+    Keep the tone professional and concise.
+    Do not add timestamps.${kind === 'video' ? '\n    Only the audio track was analyzed, so do not describe visuals.' : ''}
 
-  } catch (error: any) {
-    console.error("Error generating subtitles:", error);
-     if (error.message && (error.message.includes("413") || error.message.includes("too large"))) {
-        throw new Error("File is too large for the API.");
-    }
-    throw error;
-  }
+    Transcript:
+    ${segments ? formatDialogue(segments) : text}
+  `;
+
+  const summary = await generateText([{ text: prompt }], options, 'Summarizing transcript');
+  return summary || markIncomplete(options, "[Could not generate summary]");
 };
 
-export const translateSubtitles = async (subtitles: Subtitle[], targetLanguage: string, onProgress?: (percent: number) => void): Promise<Subtitle[]> => {
-  if (!API_KEY) {
-    throw new Error("API Key is missing.");
+export const generateSubtitlesFromVideo = async (
+  videoFile: File,
+  language?: string,
+  options: ProviderRequestOptions = DEFAULT_OPTIONS
+): Promise<Subtitle[]> => {
+  getGeminiConfig();
+
+  // Too large to inline: subtitle each audio chunk and shift the cues back onto the full timeline
+  if (shouldChunkMedia(videoFile)) {
+    const { chunks, results } = await processInChunks(videoFile, chunk => generateSubtitlesFromVideo(chunk.file, language, options), options.onProgress, options.signal);
+    return stitchChunkSubtitles(chunks, results);
   }
 
-  const ai = new GoogleGenAI({ apiKey: API_KEY });
-  const model = "gemini-2.5-flash";
+  const videoPart = await fileToGenerativePart(videoFile, options.signal);
+
+  // Optimized prompt for AUDIO-FOCUSED synchronization
+  const prompt = `
+    Task: Generate subtitles for the audio track of this video.
+    Language: ${language ? `Translate or transcribe into ${language}` : 'Detect the ORIGINAL SPOKEN LANGUAGE and transcribe verbatim'}.
+
+    CRITICAL TIMING INSTRUCTION:
+    1. IGNORE VISUALS: Do not describe what is happening on screen. Listen ONLY to the speech.
+    2. PHONETIC ATTACK: Set 'startTime' exactly when the sound of the FIRST syllable begins.
+    3. ABSOLUTE ZERO TIMING: The video starts at 00:00:00,000.
+    4. NO BUFFER: Do not add "buffer" silence at the start. If speech starts at 0s, timestamp 0s.
+    5. SEGMENTATION:
+       - Split long sentences into shorter chunks (max 10-12 words).
+       - Max 2 lines per subtitle.
+       - Max 42 characters per line.
+       - Never put two speakers in one subtitle.
+    6. SPEAKERS: Label each subtitle's speaker "Speaker 1", "Speaker 2" and so on, in order of first appearance.
+
+    Return a JSON array of objects.
+  `;
+
+  const jsonText = await generateText([videoPart, { text: prompt }], options, 'Generating subtitles', {
+    responseMimeType: "application/json",
+    responseSchema: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          startTime: { type: Type.STRING, description: "Start (HH:MM:SS,mmm)" },
+          endTime: { type: Type.STRING, description: "End (HH:MM:SS,mmm)" },
+          text: { type: Type.STRING, description: "The spoken text" },
+          speaker: { type: Type.STRING, description: 'Speaker label, e.g. "Speaker 1"' }
+        },
+        required: ["startTime", "endTime", "text"]
+      }
+    },
+    // System instruction tailored for precision
+    systemInstruction: "You are an Audio Synchronization Engine. Your highest priority is matching the 'startTime' to the exact millisecond the audio waveform begins for that sentence. You ignore visual context and focus purely on speech timing.",
+  });
+  // No reply at all (silence gives an empty array), so there is nothing worth caching
+  if (!jsonText) return markIncomplete(options, []);
+
+  const json = JSON.parse(cleanJsonResponse(jsonText));
+  if (!Array.isArray(json)) throw new Error("Invalid JSON format from AI");
+
+  return json.map((item: any, index: number) => {
+      if (!item.text || typeof item.startTime === 'undefined') return null;
+
+      let start = timeToSeconds(item.startTime);
+      let end = timeToSeconds(item.endTime);
+
+      // Apply simple 0.01s adjustment as requested
+      const SHIFT_AMOUNT = 0.01;
+
+      start = Math.max(0, start + SHIFT_AMOUNT);
+      end = Math.max(start + 0.5, end + SHIFT_AMOUNT);
+
+      const speaker = typeof item.speaker === 'string' ? item.speaker.trim() : '';
+
+      return {
+          id: index + 1,
+          startTime: start,
+          endTime: end,
+          text: item.text,
+          ...(speaker ? { speaker } : {})
+      };
+  }).filter((s): s is Subtitle => s !== null);
+};
+
+export const translateSubtitles = async (
+  subtitles: Subtitle[],
+  targetLanguage: string,
+  onProgress?: (percent: number) => void,
+  options: ProviderRequestOptions = DEFAULT_OPTIONS,
+  glossary: TranslationGlossary = NO_GLOSSARY
+): Promise<Subtitle[]> => {
+  getGeminiConfig();
 
   // Chunking to handle large files and output limits
   const CHUNK_SIZE = 60; // 60 subtitles per batch is safe for output tokens
   const chunks = [];
-  
+
   for (let i = 0; i < subtitles.length; i += CHUNK_SIZE) {
     chunks.push(subtitles.slice(i, i + CHUNK_SIZE));
   }
@@ -310,61 +405,54 @@ export const translateSubtitles = async (subtitles: Subtitle[], targetLanguage:
   let processedChunks = 0;
 
   // Process chunks in small batches to respect rate limits but maintain speed
-  const CONCURRENCY = 3; 
+  const CONCURRENCY = 3;
 
   for (let i = 0; i < chunks.length; i += CONCURRENCY) {
+      throwIfAborted(options.signal);
       const batch = chunks.slice(i, i + CONCURRENCY);
-      
+
       const batchPromises = batch.map(async (chunk) => {
           // Simplified payload: just ID and Text to save tokens
           const simplePayload = chunk.map(s => ({ id: s.id, text: s.text }));
-          
+          // Only the glossary entries this batch uses, so every batch renders them the same way
+          const terms = glossaryInstructions(glossaryForText(glossary, chunk.map(s => s.text).join('\n')));
+
           const prompt = `
             Task: Translate the 'text' field of these subtitle objects into ${targetLanguage}.
             Requirements:
             1. Keep 'id' exactly as provided.
             2. Maintain the context and tone of the conversation.
-            3. Do not translate proper names if inappropriate in target language.
+            3. Keep proper names as they are unless the target language has an established form.
             4. Return ONLY a valid JSON array of objects with 'id' and 'text'.
-            
+            ${terms}
+
             Input:
             ${JSON.stringify(simplePayload)}
           `;
 
           try {
-              const response = await ai.models.generateContent({
-                  model: model,
-                  contents: { parts: [{ text: prompt }] },
-                  config: {
-                      responseMimeType: "application/json",
-                      safetySettings: [
-                        { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_NONE' },
-                        { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_NONE' },
-                        { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_NONE' },
-                        { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_NONE' },
-                      ]
-                  }
+              const text = await generateText([{ text: prompt }], options, 'Translating subtitles', {
+                  responseMimeType: "application/json",
               });
-
-              const text = response.text;
               if (!text) throw new Error("Empty response");
-              
+
               const json = JSON.parse(cleanJsonResponse(text));
               return json;
           } catch (e) {
+              if (isAbortError(e)) throw e;
               console.error("Batch translation error", e);
-              // Fallback: Return original text marked as error or try to recover? 
-              // For now, return original to avoid crashing entire file
-              return chunk.map(s => ({ id: s.id, text: s.text })); 
+              // Keep the original text rather than failing the whole file, but never cache it
+              options.onIncomplete?.();
+              return chunk.map(s => ({ id: s.id, text: s.text }));
           }
       });
 
       const results = await Promise.all(batchPromises);
-      
+
       // Merge results back
       results.forEach((translatedChunk, chunkIndex) => {
           const originalChunk = batch[chunkIndex];
-          
+
           translatedChunk.forEach((tItem: any) => {
               const original = originalChunk.find(o => o.id === tItem.id);
               if (original) {
@@ -382,607 +470,250 @@ export const translateSubtitles = async (subtitles: Subtitle[], targetLanguage:
       }
   }
 
+  // Cues the model left out of its reply make the translation incomplete
+  if (translatedSubtitles.length < subtitles.length) options.onIncomplete?.();
+
   // Resort to ensure order (though usually preserved)
   return translatedSubtitles.sort((a, b) => a.id - b.id);
 };
 
-export const translateAudio = async (audioFile: File, targetLanguage: string): Promise<string> => {
-    if (!API_KEY) {
-      throw new Error("API Key is missing. Please configure it.");
-    }
-  
-    const ai = new GoogleGenAI({ apiKey: API_KEY });
-    const model = "gemini-2.5-flash";
-  
-    try {
-      const audioPart = await fileToGenerativePart(audioFile);
-  
-      const prompt = `
-        You are a professional interpreter.
-        Listen to the audio content.
-        Translate the spoken words directly into ${targetLanguage}.
-        Output ONLY the translated text.
-        Do not output the original transcript.
-        Do not add timestamps.
-        Do not add explanations.
-      `;
-  
-      let lastError: any;
-      const maxAttempts = 3;
-  
-      for (let attempt = 0; attempt < maxAttempts; attempt++) {
-          try {
-              console.log(`Translating Audio... Attempt ${attempt + 1}/${maxAttempts}`);
-              const response = await ai.models.generateContent({
-                model: model,
-                contents: {
-                  parts: [audioPart, { text: prompt }],
-                },
-                config: {
-                  thinkingConfig: { thinkingBudget: 0 },
-                  safetySettings: [
-                    { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_NONE' },
-                    { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_NONE' },
-                    { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_NONE' },
-                    { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_NONE' },
-                  ]
-                }
-              });
-  
-              const text = (response.text || "").trim();
-              
-              if (!text) {
-                  return "[Translation could not be generated - Audio might be silent]";
-              }
-  
-              return text;
-  
-          } catch (e: any) {
-              console.warn(`Attempt ${attempt + 1} failed:`, e);
-              lastError = e;
-              
-              if (isNetworkOrPayloadError(e)) {
-                   throw new Error("Network Error: Upload failed. The file is likely too large for this connection.");
-              }
-              if (e.status === 400 || (e.message && e.message.includes("400"))) {
-                  throw new Error("API Error (400): The file format might be unsupported or corrupted.");
-              }
-  
-              const isServerErr = e.message?.includes('500') || e.status === 500 || e.status === 503;
-              if (isServerErr && attempt < maxAttempts - 1) {
-                  const delay = attempt === 0 ? 2000 : attempt === 1 ? 5000 : 10000;
-                  await new Promise(r => setTimeout(r, delay));
-                  continue;
-              }
-              break; 
-          }
-      }
-      
-      let errorMessage = "Unknown API Error";
-      if (lastError) {
-          if (lastError instanceof Error) {
-              errorMessage = lastError.message;
-          } else if (typeof lastError === 'string') {
-              errorMessage = lastError;
-          } else if (lastError.message) {
-              errorMessage = lastError.message;
-          }
-      }
-  
-      if (errorMessage.includes('500') || (lastError && lastError.status === 500)) {
-          throw new Error("Server Error (500): The API timed out. Try a shorter audio clip or a lower quality file (under 25MB).");
-      }
-      
-      throw new Error(errorMessage);
-  
-    } catch (error: any) {
-      console.error("Error translating audio:", error);
-      if (error.message && (error.message.includes("413") || error.message.includes("too large"))) {
-          throw new Error("File is too large for the API. Please use a smaller file.");
-      }
-      if (error instanceof Error) {
-          throw new Error(`${error.message}`);
-      }
-      throw new Error("Failed to process audio file.");
-    }
-  };
-
-export const translateVideo = async (videoFile: File, targetLanguage: string): Promise<string> => {
-  if (!API_KEY) {
-    throw new Error("API Key is missing. Please configure it.");
-  }
-
-  const ai = new GoogleGenAI({ apiKey: API_KEY });
-  const model = "gemini-2.5-flash";
+export const translateAudio = async (
+  audioFile: File,
+  targetLanguage: string,
+  options: ProviderRequestOptions = DEFAULT_OPTIONS,
+  glossary: TranslationGlossary = NO_GLOSSARY
+): Promise<string> => {
+  getGeminiConfig();
+  const audioPart = await fileToGenerativePart(audioFile, options.signal);
+
+  const prompt = `
+    You are a professional interpreter.
+    Listen to the audio content.
+    Translate the spoken words directly into ${targetLanguage}.
+    Output ONLY the translated text.
+    Do not output the original transcript.
+    Do not add timestamps.
+    Do not add explanations.
+    ${glossaryInstructions(glossary)}
+  `;
+
+  const text = await generateText([audioPart, { text: prompt }], options, 'Translating audio');
+  return text || markIncomplete(options, "[Translation could not be generated - Audio might be silent]");
+};
 
-  try {
-    const videoPart = await fileToGenerativePart(videoFile);
-
-    const prompt = `
-      You are a professional interpreter.
-      Translate the spoken content of this video directly into ${targetLanguage}.
-      Output ONLY the translated text.
-      Do not output the original transcript.
-      Do not describe visual scenes unless necessary for understanding the speech.
-      Do not add timestamps.
-    `;
-
-    let lastError: any;
-    const maxAttempts = 3;
-
-    for (let attempt = 0; attempt < maxAttempts; attempt++) {
-        try {
-            console.log(`Translating Video... Attempt ${attempt + 1}/${maxAttempts}`);
-            const response = await ai.models.generateContent({
-              model: model,
-              contents: {
-                parts: [videoPart, { text: prompt }],
-              },
-              config: {
-                thinkingConfig: { thinkingBudget: 0 },
-                safetySettings: [
-                  { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_NONE' },
-                  { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_NONE' },
-                  { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_NONE' },
-                  { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_NONE' },
-                ]
-              }
-            });
-
-            const text = (response.text || "").trim();
-            if (!text) {
-                return "[No speech detected or translation failed]";
-            }
-            return text;
-
-        } catch (e: any) {
-            console.warn(`Attempt ${attempt + 1} failed:`, e);
-            lastError = e;
-            
-            if (isNetworkOrPayloadError(e)) {
-                 throw new Error("Network Error: Upload failed. The file is likely too large for this connection.");
-            }
-            if (e.status === 400 || (e.message && e.message.includes("400"))) {
-                throw new Error("API Error (400): The file format might be unsupported or corrupted.");
-            }
-
-            const isServerErr = e.message?.includes('500') || e.status === 500 || e.status === 503;
-            if (isServerErr && attempt < maxAttempts - 1) {
-                const delay = attempt === 0 ? 2000 : attempt === 1 ? 5000 : 10000;
-                await new Promise(r => setTimeout(r, delay));
-                continue;
-            }
-            break; 
-        }
-    }
-    
-    let errorMessage = "Unknown API Error";
-    if (lastError) {
-        if (lastError instanceof Error) {
-            errorMessage = lastError.message;
-        } else if (typeof lastError === 'string') {
-            errorMessage = lastError;
-        } else if (lastError.message) {
-            errorMessage = lastError.message;
-        }
-    }
+export const translateVideo = async (
+  videoFile: File,
+  targetLanguage: string,
+  options: ProviderRequestOptions = DEFAULT_OPTIONS,
+  glossary: TranslationGlossary = NO_GLOSSARY
+): Promise<string> => {
+  getGeminiConfig();
+  const videoPart = await fileToGenerativePart(videoFile, options.signal);
+
+  const prompt = `
+    You are a professional interpreter.
+    Translate the spoken content of this video directly into ${targetLanguage}.
+    Output ONLY the translated text.
+    Do not output the original transcript.
+    Do not describe visual scenes unless necessary for understanding the speech.
+    Do not add timestamps.
+    ${glossaryInstructions(glossary)}
+  `;
+
+  const text = await generateText([videoPart, { text: prompt }], options, 'Translating video');
+  return text || markIncomplete(options, "[No speech detected or translation failed]");
+};
 
-    if (errorMessage.includes('500') || (lastError && lastError.status === 500)) {
-        throw new Error("Server Error (500): The API timed out. Try a shorter video clip or a lower quality file (under 25MB).");
-    }
-    
-    throw new Error(errorMessage);
+export const transcribeAudio = async (
+  audioFile: File,
+  options: ProviderRequestOptions = DEFAULT_OPTIONS,
+  mode: TranscriptMode = 'plain'
+): Promise<Transcript> => {
+  getGeminiConfig();
+
+  if (shouldChunkMedia(audioFile)) {
+    const { chunks, results } = await processInChunks(audioFile, chunk => transcribeAudio(chunk.file, chunkOptions(options), mode), options.onProgress, options.signal);
+    const joined = joinChunkTranscripts(results, mode === 'timestamped' ? chunks : undefined);
+    return joined.language === 'Unknown' ? markIncomplete(options, joined) : joined;
+  }
 
-  } catch (error: any) {
-    console.error("Error translating video:", error);
-    if (error.message && (error.message.includes("413") || error.message.includes("too large"))) {
-        throw new Error("File is too large for the API. Please use a smaller file.");
-    }
-    if (error instanceof Error) {
-        throw new Error(`${error.message}`);
-    }
-    throw new Error("Failed to process video file.");
+  const audioPart = await fileToGenerativePart(audioFile, options.signal);
+
+  const prompt = `
+    You are a professional transcriber.
+    Transcribe the spoken words or lyrics in this audio file.
+    ${mode === 'timestamped' ? TIMESTAMP_INSTRUCTIONS : 'Do not add timestamps.'}
+    Do not add descriptions like [Music], [Applause], or [Silence].
+    If the audio contains a song, transcribe the lyrics.
+    ${SPEAKER_INSTRUCTIONS}
+    ${LANGUAGE_INSTRUCTIONS}
+    Return a JSON object with the language and the segments. Return no segments if nothing is said or sung.
+  `;
+
+  const jsonText = await generateText([audioPart, { text: prompt }], options, 'Transcribing audio', {
+    responseMimeType: "application/json",
+    responseSchema: transcriptSchema(mode),
+  }, 4);
+  const { segments, detection } = jsonText ? parseTranscriptResponse(jsonText, mode) : { segments: [], detection: null };
+  if (segments.length === 0) {
+      return markIncomplete(options, { language: "Unknown", text: "[No speech or lyrics detected]" });
   }
+  return transcriptFromSegments(segments, detection);
 };
 
-export const transcribeAudio = async (audioFile: File): Promise<{ language: string; text: string }> => {
-  if (!API_KEY) {
-    throw new Error("API Key is missing. Please configure it.");
+export const transcribeVideo = async (
+  videoFile: File,
+  options: ProviderRequestOptions = DEFAULT_OPTIONS,
+  mode: TranscriptMode = 'plain'
+): Promise<Transcript> => {
+  getGeminiConfig();
+
+  // Long videos are transcribed from their audio track only
+  if (shouldChunkMedia(videoFile)) {
+    const { chunks, results } = await processInChunks(videoFile, chunk => transcribeAudio(chunk.file, chunkOptions(options), mode), options.onProgress, options.signal);
+    const joined = joinChunkTranscripts(results, mode === 'timestamped' ? chunks : undefined);
+    return joined.language === 'Unknown' ? markIncomplete(options, joined) : joined;
   }
 
-  const ai = new GoogleGenAI({ apiKey: API_KEY });
-  const model = "gemini-2.5-flash";
+  const videoPart = await fileToGenerativePart(videoFile, options.signal);
+
+  const prompt = `
+    You are a professional transcriber.
+    Transcribe the spoken words in this video file.
+    Do not describe the visual scenes.
+    ${mode === 'timestamped' ? TIMESTAMP_INSTRUCTIONS : 'Do not add timestamps.'}
+    Do not add descriptions like [Music], [Applause], or [Silence].
+    ${SPEAKER_INSTRUCTIONS}
+    ${LANGUAGE_INSTRUCTIONS}
+    Return a JSON object with the language and the segments. Return no segments if nothing is said.
+  `;
+
+  const jsonText = await generateText([videoPart, { text: prompt }], options, 'Transcribing video', {
+    responseMimeType: "application/json",
+    responseSchema: transcriptSchema(mode),
+  }, 4);
+  const { segments, detection } = jsonText ? parseTranscriptResponse(jsonText, mode) : { segments: [], detection: null };
+  if (segments.length === 0) {
+      return markIncomplete(options, { language: "Unknown", text: "[No speech detected in video]" });
+  }
+  return transcriptFromSegments(segments, detection);
+};
 
-  try {
-    const audioPart = await fileToGenerativePart(audioFile);
-
-    const prompt = `
-      You are a professional transcriber.
-      Transcribe the spoken words or lyrics in this audio file.
-      Output ONLY the raw transcript text.
-      Do not add timestamps.
-      Do not add descriptions like [Music], [Applause], or [Silence].
-      If the audio contains a song, transcribe the lyrics.
-    `;
-
-    let lastError: any;
-    const maxAttempts = 4;
-
-    for (let attempt = 0; attempt < maxAttempts; attempt++) {
-        try {
-            console.log(`Transcribing... Attempt ${attempt + 1}/${maxAttempts}`);
-            const response = await ai.models.generateContent({
-              model: model,
-              contents: {
-                parts: [audioPart, { text: prompt }],
-              },
-              config: {
-                thinkingConfig: { thinkingBudget: 0 },
-                safetySettings: [
-                  { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_NONE' },
-                  { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_NONE' },
-                  { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_NONE' },
-                  { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_NONE' },
-                ]
-              }
-            });
-
-            const text = (response.text || "").trim();
-            
-            if (!text) {
-                return { language: "Unknown", text: "[No speech or lyrics detected]" };
-            }
-
-            return {
-              language: "Detected", 
-              text: text
-            };
-
-        } catch (e: any) {
-            console.warn(`Attempt ${attempt + 1} failed:`, e);
-            lastError = e;
-            
-            if (isNetworkOrPayloadError(e)) {
-                 throw new Error("Network Error: Upload failed. The file is likely too large for this connection.");
-            }
-            if (e.status === 400 || (e.message && e.message.includes("400"))) {
-                throw new Error("API Error (400): The file format might be unsupported or corrupted.");
-            }
-
-            const isServerErr = e.message?.includes('500') || e.status === 500 || e.status === 503;
-            if (isServerErr && attempt < maxAttempts - 1) {
-                const delay = attempt === 0 ? 2000 : attempt === 1 ? 5000 : attempt === 2 ? 10000 : 20000;
-                await new Promise(r => setTimeout(r, delay));
-                continue;
-            }
-            break; 
-        }
-    }
-    
-    let errorMessage = "Unknown API Error";
-    if (lastError) {
-        if (lastError instanceof Error) {
-            errorMessage = lastError.message;
-        } else if (typeof lastError === 'string') {
-            errorMessage = lastError;
-        } else if (lastError.message) {
-            errorMessage = lastError.message;
-        }
-    }
+export const summarizeAudio = async (audioFile: File, options: ProviderRequestOptions = DEFAULT_OPTIONS): Promise<string> => {
+  getGeminiConfig();
 
-    if (errorMessage.includes('500') || (lastError && lastError.status === 500)) {
-        throw new Error("Server Error (500): The API timed out. Try a shorter audio clip or a lower quality file (under 25MB).");
-    }
-    
-    throw new Error(errorMessage);
+  if (shouldChunkMedia(audioFile)) return summarizeLongMedia(audioFile, 'audio', options);
 
-  } catch (error: any) {
-    console.error("Error transcribing audio:", error);
-    if (error.message && (error.message.includes("413") || error.message.includes("too large"))) {
-        throw new Error("File is too large for the API. Please use a smaller file.");
-    }
-    if (error instanceof Error) {
-        throw new Error(`${error.message}`);
-    }
-    throw new Error("Failed to process audio file.");
-  }
-};
+  const audioPart = await fileToGenerativePart(audioFile, options.signal);
 
-export const transcribeVideo = async (videoFile: File): Promise<{ language: string; text: string }> => {
-  if (!API_KEY) {
-    throw new Error("API Key is missing. Please configure it.");
-  }
+  const prompt = `
+    You are a professional assistant.
+    Listen to this audio recording and provide a structured summary.
 
-  const ai = new GoogleGenAI({ apiKey: API_KEY });
-  const model = "gemini-2.5-flash";
+    Format your response with the following sections:
+    1. Executive Summary (2-3 sentences)
+    2. Key Takeaways (Bullet points)
+    3. Action Items (if any detected)
 
-  try {
-    const videoPart = await fileToGenerativePart(videoFile);
-
-    const prompt = `
-      You are a professional transcriber.
-      Transcribe the spoken words in this video file.
-      Output ONLY the raw transcript text.
-      Do not describe the visual scenes.
-      Do not add timestamps.
-      Do not add descriptions like [Music], [Applause], or [Silence].
-    `;
-
-    let lastError: any;
-    const maxAttempts = 4;
-
-    for (let attempt = 0; attempt < maxAttempts; attempt++) {
-        try {
-            console.log(`Transcribing Video... Attempt ${attempt + 1}/${maxAttempts}`);
-            const response = await ai.models.generateContent({
-              model: model,
-              contents: {
-                parts: [videoPart, { text: prompt }],
-              },
-              config: {
-                thinkingConfig: { thinkingBudget: 0 },
-                safetySettings: [
-                  { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_NONE' },
-                  { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_NONE' },
-                  { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_NONE' },
-                  { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_NONE' },
-                ]
-              }
-            });
-
-            const text = (response.text || "").trim();
-            if (!text) {
-                return { language: "Unknown", text: "[No speech detected in video]" };
-            }
-            return { language: "Detected", text: text };
-
-        } catch (e: any) {
-            console.warn(`Attempt ${attempt + 1} failed:`, e);
-            lastError = e;
-            
-            if (isNetworkOrPayloadError(e)) {
-                 throw new Error("Network Error: Upload failed. The file is likely too large.");
-            }
-            if (e.status === 400 || (e.message && e.message.includes("400"))) {
-                throw new Error("API Error (400): The file format might be unsupported or corrupted.");
-            }
-            const isServerErr = e.message?.includes('500') || e.status === 500 || e.status === 503;
-            if (isServerErr && attempt < maxAttempts - 1) {
-                const delay = attempt === 0 ? 2000 : attempt === 1 ? 5000 : attempt === 2 ? 10000 : 20000;
-                await new Promise(r => setTimeout(r, delay));
-                continue;
-            }
-            break; 
-        }
-    }
-    
-    let errorMessage = "Unknown API Error";
-    if (lastError) {
-        if (lastError instanceof Error) {
-            errorMessage = lastError.message;
-        } else if (typeof lastError === 'string') {
-            errorMessage = lastError;
-        } else if (lastError.message) {
-            errorMessage = lastError.message;
-        }
-    }
-    if (errorMessage.includes('500') || (lastError && lastError.status === 500)) {
-        throw new Error("Server Error (500): The API timed out. Try a shorter video clip or a lower quality file (under 25MB).");
-    }
-    throw new Error(errorMessage);
+    Keep the tone professional and concise.
+    Do not add timestamps.
+  `;
 
-  } catch (error: any) {
-    console.error("Error transcribing video:", error);
-    if (error.message && (error.message.includes("413") || error.message.includes("too large"))) {
-        throw new Error("File is too large for the API. Please use a smaller file.");
-    }
-    if (error instanceof Error) {
-        throw new Error(`${error.message}`);
-    }
-    throw new Error("Failed to process video file.");
-  }
+  const text = await generateText([audioPart, { text: prompt }], options, 'Summarizing audio');
+  return text || markIncomplete(options, "[Could not generate summary - Audio might be unclear]");
 };
 
-export const summarizeAudio = async (audioFile: File): Promise<string> => {
-  if (!API_KEY) {
-    throw new Error("API Key is missing. Please configure it.");
-  }
+export const summarizeVideo = async (videoFile: File, options: ProviderRequestOptions = DEFAULT_OPTIONS): Promise<string> => {
+  getGeminiConfig();
 
-  const ai = new GoogleGenAI({ apiKey: API_KEY });
-  const model = "gemini-2.5-flash";
+  if (shouldChunkMedia(videoFile)) return summarizeLongMedia(videoFile, 'video', options);
 
-  try {
-    const audioPart = await fileToGenerativePart(audioFile);
+  const videoPart = await fileToGenerativePart(videoFile, options.signal);
 
-    const prompt = `
-      You are a professional assistant. 
-      Listen to this audio recording and provide a structured summary.
-      
-      Format your response with the following sections:
-      1. Executive Summary (2-3 sentences)
-      2. Key Takeaways (Bullet points)
-      3. Action Items (if any detected)
-
-      Keep the tone professional and concise.
-      Do not add timestamps.
-    `;
-
-    let lastError: any;
-    const maxAttempts = 3;
-
-    for (let attempt = 0; attempt < maxAttempts; attempt++) {
-        try {
-            console.log(`Summarizing Audio... Attempt ${attempt + 1}/${maxAttempts}`);
-            const response = await ai.models.generateContent({
-              model: model,
-              contents: {
-                parts: [audioPart, { text: prompt }],
-              },
-              config: {
-                thinkingConfig: { thinkingBudget: 0 },
-                safetySettings: [
-                  { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_NONE' },
-                  { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_NONE' },
-                  { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_NONE' },
-                  { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_NONE' },
-                ]
-              }
-            });
-
-            const text = (response.text || "").trim();
-            if (!text) {
-                return "[Could not generate summary - Audio might be unclear]";
-            }
-            return text;
-
-        } catch (e: any) {
-            console.warn(`Attempt ${attempt + 1} failed:`, e);
-            lastError = e;
-            
-            if (isNetworkOrPayloadError(e)) {
-                 throw new Error("Network Error: Upload failed. The file is likely too large for this connection.");
-            }
-            if (e.status === 400 || (e.message && e.message.includes("400"))) {
-                throw new Error("API Error (400): The file format might be unsupported or corrupted.");
-            }
-
-            const isServerErr = e.message?.includes('500') || e.status === 500 || e.status === 503;
-            if (isServerErr && attempt < maxAttempts - 1) {
-                const delay = attempt === 0 ? 2000 : attempt === 1 ? 5000 : 10000;
-                await new Promise(r => setTimeout(r, delay));
-                continue;
-            }
-            break; 
-        }
-    }
-    
-    let errorMessage = "Unknown API Error";
-    if (lastError) {
-        if (lastError instanceof Error) {
-            errorMessage = lastError.message;
-        } else if (typeof lastError === 'string') {
-            errorMessage = lastError;
-        } else if (lastError.message) {
-            errorMessage = lastError.message;
-        }
-    }
+  const prompt = `
+    You are an expert video analyst.
+    Analyze the video content (visuals, actions, and speech) to provide a comprehensive summary.
 
-    if (errorMessage.includes('500') || (lastError && lastError.status === 500)) {
-        throw new Error("Server Error (500): The API timed out. Try a shorter audio clip.");
-    }
-    
-    throw new Error(errorMessage);
+    Structure your response:
+    1. Executive Summary (Overview of the entire video)
+    2. Key Topics & Spoken Content (Bullet points of main discussion points)
+    3. Visual Highlights (Important visual scenes or actions shown)
+    4. Conclusion/Action Items
 
-  } catch (error: any) {
-    console.error("Error summarizing audio:", error);
-    if (error.message && (error.message.includes("413") || error.message.includes("too large"))) {
-        throw new Error("File is too large for the API. Please use a smaller file.");
-    }
-    if (error instanceof Error) {
-        throw new Error(`${error.message}`);
-    }
-    throw new Error("Failed to process audio file.");
-  }
+    Do not add timestamps.
+  `;
+
+  const text = await generateText([videoPart, { text: prompt }], options, 'Summarizing video');
+  return text || markIncomplete(options, "[Could not generate summary - Video content unclear]");
 };
 
-export const summarizeVideo = async (videoFile: File): Promise<string> => {
-  if (!API_KEY) {
-    throw new Error("API Key is missing. Please configure it.");
+// Spoken language from a short clip of the recording, or written language from a text sample
+export const detectLanguage = async (
+  source: File | string,
+  options: ProviderRequestOptions = DEFAULT_OPTIONS
+): Promise<LanguageDetection | null> => {
+  getGeminiConfig();
+
+  const parts: Part[] = [];
+  if (typeof source === 'string') {
+    parts.push({ text: `Identify the language of this text:\n\n${source}` });
+  } else {
+    const sample = await extractSpeechSample(source, options.signal);
+    parts.push(await fileToGenerativePart(sample, options.signal), { text: "Identify the language spoken in this audio clip." });
   }
+  parts.push({ text: `
+    Give its ISO 639-1 code (ISO 639-3 when there is none), its English name and your confidence from 0 to 1.
+    If several languages are used, report the one used most.
+    If there is no speech or text, answer with the code "und".
+  ` });
+
+  const jsonText = await generateText(parts, options, 'Detecting language', {
+    responseMimeType: "application/json",
+    responseSchema: LANGUAGE_SCHEMA,
+  });
+  return jsonText ? toLanguageDetection(JSON.parse(cleanJsonResponse(jsonText))) : null;
+};
 
-  const ai = new GoogleGenAI({ apiKey: API_KEY });
-  const model = "gemini-2.5-flash";
-
+// Check a key before it is saved: a cheap metadata lookup that fails fast on a bad key or model name
+export const validateGeminiKey = async (apiKey: string, model: string): Promise<{ valid: boolean; message: string }> => {
   try {
-    const videoPart = await fileToGenerativePart(videoFile);
-
-    const prompt = `
-      You are an expert video analyst.
-      Analyze the video content (visuals, actions, and speech) to provide a comprehensive summary.
-      
-      Structure your response:
-      1. Executive Summary (Overview of the entire video)
-      2. Key Topics & Spoken Content (Bullet points of main discussion points)
-      3. Visual Highlights (Important visual scenes or actions shown)
-      4. Conclusion/Action Items
-      
-      Do not add timestamps.
-    `;
-
-    let lastError: any;
-    const maxAttempts = 3;
-
-    for (let attempt = 0; attempt < maxAttempts; attempt++) {
-        try {
-            console.log(`Summarizing Video... Attempt ${attempt + 1}/${maxAttempts}`);
-            const response = await ai.models.generateContent({
-              model: model,
-              contents: {
-                parts: [videoPart, { text: prompt }],
-              },
-              config: {
-                thinkingConfig: { thinkingBudget: 0 },
-                safetySettings: [
-                  { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_NONE' },
-                  { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_NONE' },
-                  { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_NONE' },
-                  { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_NONE' },
-                ]
-              }
-            });
-
-            const text = (response.text || "").trim();
-            if (!text) {
-                return "[Could not generate summary - Video content unclear]";
-            }
-            return text;
-
-        } catch (e: any) {
-            console.warn(`Attempt ${attempt + 1} failed:`, e);
-            lastError = e;
-            
-            if (isNetworkOrPayloadError(e)) {
-                 throw new Error("Network Error: Upload failed. The file is likely too large for this connection.");
-            }
-            if (e.status === 400 || (e.message && e.message.includes("400"))) {
-                throw new Error("API Error (400): The file format might be unsupported or corrupted.");
-            }
-
-            const isServerErr = e.message?.includes('500') || e.status === 500 || e.status === 503;
-            if (isServerErr && attempt < maxAttempts - 1) {
-                const delay = attempt === 0 ? 2000 : attempt === 1 ? 5000 : 10000;
-                await new Promise(r => setTimeout(r, delay));
-                continue;
-            }
-            break; 
-        }
-    }
-    
-    let errorMessage = "Unknown API Error";
-    if (lastError) {
-        if (lastError instanceof Error) {
-            errorMessage = lastError.message;
-        } else if (typeof lastError === 'string') {
-            errorMessage = lastError;
-        } else if (lastError.message) {
-            errorMessage = lastError.message;
-        }
-    }
-
-    if (errorMessage.includes('500') || (lastError && lastError.status === 500)) {
-        throw new Error("Server Error (500): The API timed out. Try a shorter video clip.");
+    const ai = new GoogleGenAI({ apiKey });
+    const info = await ai.models.get({ model });
+    return { valid: true, message: `Key works. ${info.displayName || model} is available.` };
+  } catch (e: any) {
+    const error = classifyAiError(e);
+    if (error.status === 404 || error.message.includes('NOT_FOUND')) {
+      return { valid: false, message: `The key works, but the model "${model}" was not found.` };
     }
-    
-    throw new Error(errorMessage);
-
-  } catch (error: any) {
-    console.error("Error summarizing video:", error);
-    if (error.message && (error.message.includes("413") || error.message.includes("too large"))) {
-        throw new Error("File is too large for the API. Please use a smaller file.");
+    // A malformed key comes back as a plain 400
+    if (error.kind === 'auth' || error.status === 400) {
+      return { valid: false, message: "This API key was rejected. Check that it was copied completely." };
     }
-    if (error instanceof Error) {
-        throw new Error(`${error.message}`);
+    if (error.kind === 'network') {
+      return { valid: false, message: "Could not reach the Gemini API. Check your connection." };
     }
-    throw new Error("Failed to process video file.");
+    return { valid: false, message: error.message || "Validation failed." };
   }
-};
\ No newline at end of file
+};
+
+export const geminiProvider: AiProvider = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  description: 'Multimodal model that listens to audio and watches video directly. Needs an API key.',
+  models: [
+    { id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash' },
+    { id: 'gemini-2.5-flash-lite', label: 'Gemini 2.5 Flash-Lite' },
+    { id: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro' },
+  ],
+  defaultModel: DEFAULT_GEMINI_MODEL,
+  capabilities: ['transcribe', 'timedTranscribe', 'translate', 'summarize'],
+  transcribe: (file, kind, mode, options) =>
+    kind === 'audio' ? transcribeAudio(file, options, mode) : transcribeVideo(file, options, mode),
+  transcribeTimed: (file, language, options) => generateSubtitlesFromVideo(file, language, options),
+  translateSubtitles: (subtitles, targetLanguage, glossary, options, onProgress) =>
+    translateSubtitles(subtitles, targetLanguage, onProgress, options, glossary),
+  translateMedia: (file, kind, targetLanguage, glossary, options) =>
+    kind === 'audio' ? translateAudio(file, targetLanguage, options, glossary) : translateVideo(file, targetLanguage, options, glossary),
+  summarize: (file, kind, options) => (kind === 'audio' ? summarizeAudio(file, options) : summarizeVideo(file, options)),
+  detectLanguage,
+};
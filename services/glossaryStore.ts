@@ -0,0 +1,30 @@
+import { Glossary, TranslationGlossary } from '../types';
+import { glossaryForPair } from '../utils/glossaryHelpers';
+
+// The user's translation glossary, kept in localStorage next to the provider settings so every
+// translation tool applies the same approved terms.
+
+const STORAGE_KEY = 'quickscribe.glossary';
+
+const EMPTY: Glossary = { terms: [], doNotTranslate: [] };
+
+export function loadGlossary(): Glossary {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (!stored) return EMPTY;
+    return {
+      terms: Array.isArray(stored.terms) ? stored.terms : [],
+      doNotTranslate: Array.isArray(stored.doNotTranslate) ? stored.doNotTranslate : [],
+    };
+  } catch {
+    return EMPTY;
+  }
+}
+
+export function saveGlossary(glossary: Glossary): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(glossary));
+}
+
+// What a translation from `sourceLanguage` (a code, a name or 'auto') into `targetLanguage` must follow
+export const glossaryFor = (sourceLanguage: string | undefined, targetLanguage: string): TranslationGlossary =>
+  glossaryForPair(loadGlossary(), sourceLanguage, targetLanguage);
@@ -0,0 +1,324 @@
+import { AiProvider, LanguageDetection, MediaKind, ProviderRequestOptions, Subtitle, Transcript, TranscriptMode, TranslationGlossary } from '../types';
+import { loadProviderSettings, isSettingsLocked } from './providerSettings';
+import { shouldChunkMedia, processInChunks, stitchChunkSubtitles, stitchChunkTexts, extractSpeechSample } from './mediaChunker';
+import { isAbortError, throwIfAborted } from '../utils/abortHelpers';
+import { groupTimedParagraphs } from '../utils/transcriptHelpers';
+import { normalizeLanguageCode, toLanguageDetection, UNDETERMINED_LANGUAGE } from '../utils/languageHelpers';
+import { glossaryForText, glossaryInstructions, NO_GLOSSARY } from '../utils/glossaryHelpers';
+import { runWithRetry, classifyAiError, markIncomplete, parseRetryAfter, NetworkError, SafetyBlockedError } from './requestRunner';
+
+// Any server speaking the OpenAI REST dialect: a self-hosted whisper/LLM stack, a local gateway or a
+// hosted API. Speech goes to /audio/transcriptions, everything text-only to /chat/completions.
+
+interface TranscriptionSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface TranscriptionWord {
+  start: number;
+  end: number;
+  word: string;
+}
+
+interface TranscriptionResult {
+  text: string;
+  language: string;
+  segments: TranscriptionSegment[];
+  words: TranscriptionWord[]; // empty when the server ignores timestamp_granularities
+}
+
+const TRANSLATE_BATCH_SIZE = 60;
+const IDENTIFY_MAX_TEXTS = 150; // segments sent for language identification; later ones keep no code
+const IDENTIFY_TEXT_CHARS = 300;
+
+const endpoint = (path: string) => `${loadProviderSettings().http.baseUrl.replace(/\/+$/, '')}${path}`;
+
+const authHeaders = (): Record<string, string> => {
+  const { apiKey } = loadProviderSettings().http;
+  return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+};
+
+const send = async (path: string, init: RequestInit): Promise<any> => {
+  let response: Response;
+  try {
+    response = await fetch(endpoint(path), { ...init, headers: { ...authHeaders(), ...init.headers } });
+  } catch (e) {
+    if (isAbortError(e)) throw e;
+    throw new NetworkError(`Could not reach ${endpoint(path)}. Check the server URL in Settings.`, { cause: e });
+  }
+  if (!response.ok) {
+    const detail = (await response.text().catch(() => '')).slice(0, 300);
+    throw classifyAiError(
+      Object.assign(new Error(`Server Error (${response.status}): ${detail || response.statusText}`), {
+        status: response.status,
+        retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+      })
+    );
+  }
+  return response.json();
+};
+
+const request = async (path: string, init: RequestInit): Promise<any> => {
+  // A locked vault reads as no key, which the server would reject as if the key were wrong
+  if (isSettingsLocked()) {
+    throw new Error("Your API key is encrypted. Unlock it with your passphrase in Settings.");
+  }
+  return runWithRetry(() => send(path, init), { signal: init.signal ?? undefined, label: `POST ${path}` });
+};
+
+// Whisper servers report the language in lower case ("english")
+const languageName = (language?: string) =>
+  language ? language.charAt(0).toUpperCase() + language.slice(1) : 'Detected';
+
+const transcribeFile = async (file: File, signal?: AbortSignal): Promise<TranscriptionResult> => {
+  const form = new FormData();
+  form.append('file', file);
+  form.append('model', loadProviderSettings().http.transcriptionModel);
+  form.append('response_format', 'verbose_json');
+  // Word timing for karaoke highlighting; servers that do not support it just leave `words` out
+  form.append('timestamp_granularities[]', 'segment');
+  form.append('timestamp_granularities[]', 'word');
+  const json = await request('/audio/transcriptions', { method: 'POST', body: form, signal });
+  return {
+    text: (json.text || '').trim(),
+    language: languageName(json.language),
+    segments: (json.segments || []).map((s: any) => ({ start: s.start, end: s.end, text: (s.text || '').trim() })),
+    words: (json.words || []).map((w: any) => ({ start: w.start, end: w.end, word: (w.word || '').trim() })),
+  };
+};
+
+// Each segment takes the words whose middle falls inside it
+const toSubtitles = ({ segments, words }: TranscriptionResult): Subtitle[] =>
+  segments
+    .filter(s => s.text)
+    .map((s, index) => {
+      const timed = words
+        .filter(w => w.word && (w.start + w.end) / 2 >= s.start && (w.start + w.end) / 2 <= s.end)
+        .map(w => ({ text: w.word, startTime: w.start, endTime: w.end }));
+      return {
+        id: index + 1,
+        startTime: s.start,
+        endTime: Math.max(s.end, s.start + 0.5),
+        text: s.text,
+        ...(timed.length > 0 ? { words: timed } : {}),
+      };
+    });
+
+const chat = async (system: string, user: string, options: ProviderRequestOptions): Promise<string> => {
+  const json = await request('/chat/completions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    signal: options.signal,
+    body: JSON.stringify({
+      model: options.model,
+      temperature: 0,
+      messages: [
+        { role: 'system', content: system },
+        { role: 'user', content: user },
+      ],
+    }),
+  });
+  const choice = json.choices?.[0];
+  if (choice?.finish_reason === 'content_filter') throw new SafetyBlockedError();
+  return (choice?.message?.content || '').trim();
+};
+
+// Timed cues for the whole file, with long media transcribed chunk by chunk
+const transcribeCues = async (
+  file: File,
+  signal?: AbortSignal,
+  onProgress?: (percent: number) => void
+): Promise<{ language: string; subtitles: Subtitle[] }> => {
+  if (shouldChunkMedia(file)) {
+    const { chunks, results } = await processInChunks(file, chunk => transcribeFile(chunk.file, signal), onProgress, signal);
+    return {
+      language: results.find(r => r.text)?.language ?? 'Unknown',
+      subtitles: stitchChunkSubtitles(chunks, results.map(toSubtitles)),
+    };
+  }
+  const result = await transcribeFile(file, signal);
+  return { language: result.language, subtitles: toSubtitles(result) };
+};
+
+const transcribe = async (
+  file: File,
+  signal?: AbortSignal,
+  mode: TranscriptMode = 'plain',
+  onProgress?: (percent: number) => void
+): Promise<Transcript> => {
+  // Whisper has no paragraphs of its own, so its timed segments are grouped into them
+  if (mode === 'timestamped') {
+    const { language, subtitles } = await transcribeCues(file, signal, onProgress);
+    const segments = groupTimedParagraphs(subtitles);
+    if (segments.length === 0) return { language: 'Unknown', text: '[No speech detected]' };
+    return { language, text: segments.map(s => s.text).join('\n\n'), segments };
+  }
+  if (shouldChunkMedia(file)) {
+    const { results } = await processInChunks(file, chunk => transcribeFile(chunk.file, signal), onProgress, signal);
+    const spoken = results.filter(r => r.text);
+    return {
+      language: spoken[0]?.language ?? 'Unknown',
+      text: stitchChunkTexts(spoken.map(r => r.text)) || '[No speech detected]',
+    };
+  }
+  const result = await transcribeFile(file, signal);
+  return result.text ? { language: result.language, text: result.text } : { language: 'Unknown', text: '[No speech detected]' };
+};
+
+const parseJsonReply = (reply: string): any => JSON.parse(reply.replace(/```json/g, '').replace(/```/g, '').trim());
+
+// The main language of some texts and the language of each one, identified by the chat model
+const identifyLanguages = async (
+  texts: string[],
+  options: ProviderRequestOptions
+): Promise<{ detection: LanguageDetection | null; codes: (string | undefined)[] }> => {
+  const reply = await chat(
+    `You identify languages. The user sends a JSON array of texts. Reply with ONLY a JSON object {"language": {"code", "name", "confidence"}, "segments": [code, ...]}: the language used most across all texts as its ISO 639-1 code (ISO 639-3 when there is none), English name and your confidence from 0 to 1, then the code of every text in order.`,
+    JSON.stringify(texts.slice(0, IDENTIFY_MAX_TEXTS).map(t => t.slice(0, IDENTIFY_TEXT_CHARS))),
+    options
+  );
+  const json = parseJsonReply(reply);
+  const codes = Array.isArray(json?.segments) ? json.segments : [];
+  return {
+    detection: toLanguageDetection(json?.language),
+    codes: texts.map((_, i) => {
+      const code = normalizeLanguageCode(typeof codes[i] === 'string' ? codes[i] : undefined);
+      return code === UNDETERMINED_LANGUAGE ? undefined : code;
+    }),
+  };
+};
+
+// Whisper names a single language per file and gives no confidence, so the transcript is identified
+// again from its text. Without a usable reply whisper's own answer is kept.
+const withDetectedLanguage = async (transcript: Transcript, options: ProviderRequestOptions): Promise<Transcript> => {
+  if (transcript.language === 'Unknown') return transcript;
+  const fallback = toLanguageDetection({ name: transcript.language });
+  try {
+    const { detection, codes } = await identifyLanguages(transcript.segments?.map(s => s.text) ?? [transcript.text], options);
+    const detectedLanguage = detection ?? fallback;
+    return {
+      ...transcript,
+      language: detectedLanguage?.name ?? transcript.language,
+      ...(detectedLanguage ? { detectedLanguage } : {}),
+      ...(transcript.segments ? {
+        segments: transcript.segments.map((segment, i) => (codes[i] ? { ...segment, language: codes[i] } : segment)),
+      } : {}),
+    };
+  } catch (e) {
+    if (isAbortError(e)) throw e;
+    console.error('Language identification failed', e);
+    options.onIncomplete?.();
+    return fallback ? { ...transcript, detectedLanguage: fallback } : transcript;
+  }
+};
+
+// The glossary goes into the system prompt, so it is easy to spot among the cues
+const withGlossary = (system: string, glossary: TranslationGlossary) => {
+  const terms = glossaryInstructions(glossary);
+  return terms ? `${system}\n\n${terms}` : system;
+};
+
+const translateSubtitles = async (
+  subtitles: Subtitle[],
+  targetLanguage: string,
+  glossary: TranslationGlossary,
+  options: ProviderRequestOptions,
+  onProgress?: (percent: number) => void
+): Promise<Subtitle[]> => {
+  const translated: Subtitle[] = [];
+  for (let i = 0; i < subtitles.length; i += TRANSLATE_BATCH_SIZE) {
+    throwIfAborted(options.signal);
+    const batch = subtitles.slice(i, i + TRANSLATE_BATCH_SIZE);
+    const reply = await chat(
+      withGlossary(
+        `You translate subtitles into ${targetLanguage}. Reply with ONLY a JSON array of objects with 'id' and 'text', keeping every id.`,
+        glossaryForText(glossary, batch.map(s => s.text).join('\n'))
+      ),
+      JSON.stringify(batch.map(s => ({ id: s.id, text: s.text }))),
+      options
+    );
+    let items: { id: number; text: string }[] = [];
+    try {
+      items = parseJsonReply(reply);
+    } catch (e) {
+      console.error('Batch translation returned invalid JSON', e);
+    }
+    // Cues the model skipped keep their original text rather than disappearing, and the
+    // translation is not cached
+    // Word timing belongs to the source wording, so translated cues drop it
+    batch.forEach(({ words, ...sub }) => {
+      const item = Array.isArray(items) ? items.find(t => t.id === sub.id) : undefined;
+      if (typeof item?.text !== 'string') options.onIncomplete?.();
+      translated.push({ ...sub, text: item?.text ?? sub.text });
+    });
+    onProgress?.(Math.round((Math.min(i + TRANSLATE_BATCH_SIZE, subtitles.length) / subtitles.length) * 100));
+  }
+  return translated;
+};
+
+const summaryPrompt = (kind: MediaKind) => `
+  You are a professional assistant.
+  You are given the transcript of a ${kind} recording. Provide a structured summary.
+
+  Format your response with the following sections:
+  1. Executive Summary (2-3 sentences)
+  2. Key Takeaways (Bullet points)
+  3. Action Items (if any detected)
+
+  Keep the tone professional and concise.
+  Do not add timestamps.
+`;
+
+export const httpProvider: AiProvider = {
+  id: 'http',
+  name: 'OpenAI-compatible server',
+  description: 'Self-hosted or local endpoint with /audio/transcriptions and /chat/completions, e.g. a whisper server behind an LLM gateway.',
+  models: [
+    { id: 'gpt-4o-mini', label: 'gpt-4o-mini' },
+    { id: 'llama3.1', label: 'llama3.1' },
+  ],
+  defaultModel: 'gpt-4o-mini',
+  capabilities: ['transcribe', 'timedTranscribe', 'translate', 'summarize'],
+
+  transcribe: async (file, _kind, mode, options) => {
+    const transcript = await transcribe(file, options.signal, mode, options.onProgress);
+    if (transcript.language === 'Unknown') return markIncomplete(options, transcript);
+    return withDetectedLanguage(transcript, options);
+  },
+
+  transcribeTimed: async (file, language, options) => {
+    const { subtitles } = await transcribeCues(file, options.signal, options.onProgress);
+    return language ? translateSubtitles(subtitles, language, NO_GLOSSARY, options) : subtitles;
+  },
+
+  translateSubtitles,
+
+  translateMedia: async (file, _kind, targetLanguage, glossary, options) => {
+    const { language, text } = await transcribe(file, options.signal, 'plain', options.onProgress);
+    if (language === 'Unknown') return markIncomplete(options, '[No speech detected or translation failed]');
+    const translation = await chat(
+      withGlossary(
+        `You are a professional interpreter. Translate the user's transcript into ${targetLanguage}. Output ONLY the translated text.`,
+        glossaryForText(glossary, text)
+      ),
+      text,
+      options
+    );
+    return translation || markIncomplete(options, '[Translation could not be generated]');
+  },
+
+  summarize: async (file, kind, options) => {
+    const { language, text } = await transcribe(file, options.signal, 'plain', options.onProgress);
+    if (language === 'Unknown') return markIncomplete(options, '[Could not generate summary - Audio might be unclear]');
+    return (await chat(summaryPrompt(kind), text, options)) || markIncomplete(options, '[Could not generate summary]');
+  },
+
+  detectLanguage: async (source, options) => {
+    if (typeof source === 'string') return (await identifyLanguages([source], options)).detection;
+    const result = await transcribeFile(await extractSpeechSample(source, options.signal), options.signal);
+    if (!result.text) return null;
+    return (await withDetectedLanguage({ language: result.language, text: result.text }, options)).detectedLanguage ?? null;
+  },
+};
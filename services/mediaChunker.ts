@@ -0,0 +1,264 @@
+import { Subtitle, TranscriptSegment } from '../types';
+import { audioBufferToWav } from '../utils/audioHelpers';
+import { detectSpeechSegments } from '../utils/vadHelpers';
+import { throwIfAborted } from '../utils/abortHelpers';
+
+// Long-media pipeline: decode locally, cut the audio at pauses into overlapping chunks small enough
+// to send inline, run them with bounded concurrency and stitch the results back together.
+
+// Files above this size are chunked instead of being base64-inlined whole
+export const INLINE_LIMIT_BYTES = 18 * 1024 * 1024;
+// Upper bound on what the upload screens accept; the whole file still has to be decoded in memory
+export const MAX_LONG_MEDIA_MB = 500;
+
+const CHUNK_SAMPLE_RATE = 16000; // mono 16-bit at 16 kHz is ~1.9 MB per minute
+const TARGET_CHUNK_SECONDS = 300;
+const MAX_CHUNK_SECONDS = 360;
+const CUT_SEARCH_SECONDS = 90; // how far before the target a pause may be used as the cut
+const OVERLAP_SECONDS = 2;
+const CHUNK_CONCURRENCY = 3;
+const SAMPLE_SECONDS = 30; // speech clip used for language identification
+
+export interface MediaChunk {
+  index: number;
+  file: File; // WAV audio covering [audioStart, audioEnd]
+  audioStart: number; // seconds in the source, including the overlap
+  audioEnd: number;
+  start: number; // the part of the source this chunk is responsible for, without overlap
+  end: number;
+}
+
+export function shouldChunkMedia(file: File): boolean {
+  return file.size > INLINE_LIMIT_BYTES;
+}
+
+// Decode straight to 16 kHz and mix down to mono in place, so no full-rate copy is ever held:
+// an hour of stereo takes ~460 MB while decoding instead of ~1.4 GB at the device rate
+async function decodeForChunking(file: File): Promise<{ samples: Float32Array; duration: number }> {
+  const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: CHUNK_SAMPLE_RATE });
+  let decoded: AudioBuffer;
+  try {
+    decoded = await audioContext.decodeAudioData(await file.arrayBuffer());
+  } finally {
+    audioContext.close();
+  }
+
+  const samples = decoded.getChannelData(0);
+  const channels = decoded.numberOfChannels;
+  if (channels > 1) {
+    for (let channel = 1; channel < channels; channel++) {
+      const other = decoded.getChannelData(channel);
+      for (let i = 0; i < samples.length; i++) samples[i] += other[i];
+    }
+    for (let i = 0; i < samples.length; i++) samples[i] /= channels;
+  }
+  return { samples, duration: decoded.duration };
+}
+
+// Cut points (seconds) near every TARGET_CHUNK_SECONDS, moved back into the middle of a pause when one is close
+function findCutPoints(samples: Float32Array, duration: number): number[] {
+  const speech = detectSpeechSegments(samples, CHUNK_SAMPLE_RATE);
+  const pauses = speech.slice(1).map((segment, i) => ({ start: speech[i].end, end: segment.start }));
+
+  const cuts: number[] = [];
+  let chunkStart = 0;
+  while (duration - chunkStart > MAX_CHUNK_SECONDS) {
+    const earliest = chunkStart + TARGET_CHUNK_SECONDS - CUT_SEARCH_SECONDS;
+    const latest = chunkStart + MAX_CHUNK_SECONDS;
+    // Prefer the longest pause in the window; fall back to a hard cut at the maximum length
+    const candidates = pauses.filter(p => (p.start + p.end) / 2 >= earliest && (p.start + p.end) / 2 <= latest);
+    const best = candidates.sort((a, b) => (b.end - b.start) - (a.end - a.start))[0];
+    const cut = best ? (best.start + best.end) / 2 : latest;
+    cuts.push(cut);
+    chunkStart = cut;
+  }
+  return cuts;
+}
+
+// Mono 16 kHz WAV of samples [from, to)
+const wavFile = (samples: Float32Array, from: number, to: number, name: string): File => {
+  const buffer = new AudioBuffer({ length: to - from, numberOfChannels: 1, sampleRate: CHUNK_SAMPLE_RATE });
+  buffer.copyToChannel(samples.subarray(from, to), 0);
+  return new File([audioBufferToWav(buffer)], name, { type: 'audio/wav' });
+};
+
+export async function splitMediaIntoChunks(file: File, signal?: AbortSignal): Promise<MediaChunk[]> {
+  const { samples, duration } = await decodeForChunking(file);
+  throwIfAborted(signal);
+  const bounds = [0, ...findCutPoints(samples, duration), duration];
+  const baseName = file.name.replace(/\.[^.]+$/, '');
+
+  return bounds.slice(0, -1).map((start, index) => {
+    const end = bounds[index + 1];
+    const audioStart = Math.max(0, start - OVERLAP_SECONDS);
+    const audioEnd = Math.min(duration, end + OVERLAP_SECONDS);
+    const from = Math.floor(audioStart * CHUNK_SAMPLE_RATE);
+    const to = Math.min(samples.length, Math.ceil(audioEnd * CHUNK_SAMPLE_RATE));
+    return {
+      index,
+      file: wavFile(samples, from, to, `${baseName}_part${index + 1}.wav`),
+      audioStart,
+      audioEnd,
+      start,
+      end,
+    };
+  });
+}
+
+// A short clip from where speech first starts, enough to tell the language without sending the whole file
+export async function extractSpeechSample(file: File, signal?: AbortSignal): Promise<File> {
+  const { samples } = await decodeForChunking(file);
+  throwIfAborted(signal);
+  const firstSpeech = detectSpeechSegments(samples, CHUNK_SAMPLE_RATE)[0]?.start ?? 0;
+  const from = Math.floor(Math.max(0, firstSpeech - 0.5) * CHUNK_SAMPLE_RATE);
+  const to = Math.min(samples.length, from + SAMPLE_SECONDS * CHUNK_SAMPLE_RATE);
+  return wavFile(samples, from, to, `${file.name.replace(/\.[^.]+$/, '')}_sample.wav`);
+}
+
+// Run `task` over every item with at most `limit` in flight, keeping results in input order.
+// Once `signal` fires or any item fails no further items are started, since the result is lost anyway.
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>,
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let done = 0;
+  let failed = false;
+  const worker = async () => {
+    while (next < items.length && !failed) {
+      throwIfAborted(signal);
+      const index = next++;
+      try {
+        results[index] = await task(items[index], index);
+      } catch (err) {
+        failed = true;
+        throw err;
+      }
+      onProgress?.(++done, items.length);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+export async function processInChunks<R>(
+  file: File,
+  task: (chunk: MediaChunk) => Promise<R>,
+  onProgress?: (percent: number) => void,
+  signal?: AbortSignal
+): Promise<{ chunks: MediaChunk[]; results: R[] }> {
+  const chunks = await splitMediaIntoChunks(file, signal);
+  const results = await mapWithConcurrency(
+    chunks,
+    CHUNK_CONCURRENCY,
+    task,
+    (done, total) => onProgress?.(Math.round((done / total) * 100)),
+    signal
+  );
+  return { chunks, results };
+}
+
+// Move each chunk's timed items onto the source timeline and keep only those centred in the chunk's
+// own range, so lines spoken inside an overlap appear once
+function placeOnTimeline<T extends { startTime: number; endTime: number }>(
+  chunks: MediaChunk[],
+  results: T[][],
+  shift: (item: T, offset: number) => T
+): T[] {
+  const placed: T[] = [];
+  results.forEach((items, i) => {
+    const chunk = chunks[i];
+    const isLast = i === chunks.length - 1;
+    items.forEach(item => {
+      const middle = (item.startTime + item.endTime) / 2 + chunk.audioStart;
+      if (middle < chunk.start || (middle >= chunk.end && !isLast)) return;
+      placed.push(shift(item, chunk.audioStart));
+    });
+  });
+  return placed.sort((a, b) => a.startTime - b.startTime);
+}
+
+export function stitchChunkSubtitles(chunks: MediaChunk[], results: Subtitle[][]): Subtitle[] {
+  return placeOnTimeline(chunks, results, (sub, offset) => {
+    const words = sub.words?.map(word => ({
+      ...word,
+      startTime: word.startTime + offset,
+      endTime: word.endTime + offset,
+    }));
+    return { ...sub, startTime: sub.startTime + offset, endTime: sub.endTime + offset, ...(words ? { words } : {}) };
+  }).map((sub, index) => ({ ...sub, id: index + 1 }));
+}
+
+// Timestamped transcript paragraphs are placed the same way; paragraphs without times are dropped
+export function stitchChunkTimedSegments(chunks: MediaChunk[], results: TranscriptSegment[][]): TranscriptSegment[] {
+  const timed = results.map(segments =>
+    segments
+      .filter(s => s.startTime !== undefined)
+      .map(s => ({ ...s, startTime: s.startTime!, endTime: s.endTime ?? s.startTime! }))
+  );
+  return placeOnTimeline(chunks, timed, (segment, offset) => ({
+    ...segment,
+    startTime: segment.startTime + offset,
+    endTime: segment.endTime + offset,
+  }));
+}
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+// Number of opening words of `current` that repeat the end of `joined` (speech inside the overlap)
+function overlapWordCount(joined: string, current: string): number {
+  const tailKeys = joined.split(/\s+/).slice(-15).map(normalizeWord);
+  const headKeys = current.split(/\s+/).map(normalizeWord);
+
+  // Longest opening run of this chunk that was already transcribed near the end of the previous one
+  for (let size = Math.min(tailKeys.length, headKeys.length); size >= 2; size--) {
+    const run = headKeys.slice(0, size).join(' ');
+    for (let at = 0; at + size <= tailKeys.length; at++) {
+      if (tailKeys.slice(at, at + size).join(' ') === run) return size;
+    }
+  }
+  return 0;
+}
+
+const dropLeadingWords = (text: string, count: number) =>
+  count > 0 ? text.replace(new RegExp(`^(?:\\S+\\s+){${count}}`), '') : text;
+
+// Join transcripts of consecutive chunks, dropping the words the next chunk repeats from the overlap
+export function stitchChunkTexts(texts: string[]): string {
+  return texts.reduce((joined, text) => {
+    const current = text.trim();
+    if (!joined) return current;
+    if (!current) return joined;
+
+    const overlap = overlapWordCount(joined, current);
+    if (overlap >= current.split(/\s+/).length) return joined;
+    // Drop the repeated words but keep this chunk's own line breaks
+    return `${joined}\n${dropLeadingWords(current, overlap)}`;
+  }, '');
+}
+
+// Same overlap removal for speaker turns. Each chunk labels its speakers on its own, so "Speaker 1"
+// in one chunk is not guaranteed to be the same voice in the next.
+export function stitchChunkSegments(results: TranscriptSegment[][]): TranscriptSegment[] {
+  const stitched: TranscriptSegment[] = [];
+  let joined = '';
+  results.forEach(segments => {
+    let overlap = joined ? overlapWordCount(joined, segments.map(s => s.text).join(' ')) : 0;
+    segments.forEach(segment => {
+      let text = segment.text.trim();
+      if (overlap > 0) {
+        const words = text.split(/\s+/).length;
+        text = words <= overlap ? '' : dropLeadingWords(text, overlap);
+        overlap = Math.max(0, overlap - words);
+      }
+      if (!text) return;
+      stitched.push({ ...segment, text });
+      joined = `${joined} ${text}`;
+    });
+  });
+  return stitched;
+}
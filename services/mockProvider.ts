@@ -0,0 +1,176 @@
+import { AiProvider, MediaKind, Subtitle, Transcript, TranscriptMode, TranscriptSegment, TranslationGlossary } from '../types';
+import { abortableDelay } from '../utils/abortHelpers';
+import { estimateWordTimings } from '../utils/wordTiming';
+import { toLanguageDetection } from '../utils/languageHelpers';
+import { NO_GLOSSARY, replaceTerm } from '../utils/glossaryHelpers';
+
+// Offline stand-in for a real backend. Output depends only on the file's name and size, so the
+// same upload always gives the same transcript, cues and summary, and every tool can be
+// exercised without a network or an API key.
+
+const LATENCY_MS = 600; // long enough to see loading states
+const CUE_SECONDS = 3;
+const MAX_CUES = 400;
+const LINES_PER_TURN = 2; // sentences (or cues) before the mock conversation switches speaker
+const MOCK_CONFIDENCE = 0.97;
+
+const SENTENCES = [
+  'Welcome back, everyone, and thanks for joining us today.',
+  'Let us start with a quick look at where things stand.',
+  'The first results came in earlier than we expected.',
+  'Most of the feedback so far has been positive.',
+  'There are still a few open questions about the timeline.',
+  'We will need another week to finish the review.',
+  'Could you share the numbers from the last quarter?',
+  'That sounds reasonable, but let us double check it.',
+  'The team agreed to move the launch to the next sprint.',
+  'I will send a short summary after the call.',
+  'Does anyone have anything else to add?',
+  'Great, then we can wrap up here.',
+];
+
+// FNV-1a, used as the seed so results are stable per file
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Small seeded PRNG (mulberry32)
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const fileSeed = (file: File) => hashString(`${file.name}:${file.size}`);
+
+const pickSentences = (file: File, count: number): string[] => {
+  const random = createRandom(fileSeed(file));
+  return Array.from({ length: count }, () => SENTENCES[Math.floor(random() * SENTENCES.length)]);
+};
+
+// Real duration from the media element when the browser can read it, otherwise a size-based guess
+const getMediaDuration = (file: File, kind: MediaKind): Promise<number> =>
+  new Promise(resolve => {
+    const fallback = Math.max(CUE_SECONDS, Math.min(600, file.size / 32000));
+    if (typeof document === 'undefined') {
+      resolve(fallback);
+      return;
+    }
+    const media = document.createElement(kind);
+    const url = URL.createObjectURL(file);
+    const done = (duration: number) => {
+      URL.revokeObjectURL(url);
+      resolve(Number.isFinite(duration) && duration > 0 ? duration : fallback);
+    };
+    media.preload = 'metadata';
+    media.onloadedmetadata = () => done(media.duration);
+    media.onerror = () => done(NaN);
+    media.src = url;
+  });
+
+// Two people taking turns, so speaker labels and renaming can be tried out
+const mockSpeaker = (index: number) => `Speaker ${(Math.floor(index / LINES_PER_TURN) % 2) + 1}`;
+
+// In timestamped mode each turn lasts as long as its sentences would as cues
+const mockTranscript = (file: File, mode: TranscriptMode): Transcript => {
+  const sentences = pickSentences(file, 8);
+  const segments = Array.from({ length: sentences.length / LINES_PER_TURN }, (_, turn): TranscriptSegment => {
+    const segment: TranscriptSegment = {
+      speaker: mockSpeaker(turn * LINES_PER_TURN),
+      text: sentences.slice(turn * LINES_PER_TURN, (turn + 1) * LINES_PER_TURN).join(' '),
+      language: 'en',
+    };
+    if (mode === 'timestamped') {
+      segment.startTime = turn * LINES_PER_TURN * CUE_SECONDS;
+      segment.endTime = segment.startTime + LINES_PER_TURN * CUE_SECONDS - 0.5;
+    }
+    return segment;
+  });
+  const text = mode === 'timestamped' ? segments.map(s => s.text).join('\n\n') : sentences.join(' ');
+  return { language: 'English', text, segments, detectedLanguage: { code: 'en', name: 'English', confidence: MOCK_CONFIDENCE } };
+};
+
+// Glossary terms are swapped in, so the glossary check has something to verify offline
+const mockTranslate = (text: string, targetLanguage: string, glossary: TranslationGlossary = NO_GLOSSARY) =>
+  `[${targetLanguage}] ${glossary.terms.reduce((result, t) => replaceTerm(result, t.source, t.target), text)}`;
+
+// Mock speech is always English; text carries the "[Language]" tag mockTranslate put in front of it
+const mockDetect = (source: File | string) => {
+  const tag = typeof source === 'string' ? source.match(/^\s*\[([^\]]+)\]/)?.[1] : undefined;
+  return toLanguageDetection({ name: tag ?? 'English', confidence: MOCK_CONFIDENCE });
+};
+
+const mockSummary = (file: File, kind: MediaKind): string => {
+  const [first, second, third, fourth] = pickSentences(file, 4);
+  return [
+    '1. Executive Summary',
+    `This mock summary stands in for a real analysis of the ${kind} file "${file.name}". ${first}`,
+    '',
+    '2. Key Takeaways',
+    `- ${second}`,
+    `- ${third}`,
+    '',
+    '3. Action Items',
+    `- ${fourth}`,
+  ].join('\n');
+};
+
+export const mockProvider: AiProvider = {
+  id: 'mock',
+  name: 'Mock (offline)',
+  description: 'Deterministic placeholder output generated in the browser. No network or API key needed.',
+  models: [{ id: 'mock-1', label: 'Mock model' }],
+  defaultModel: 'mock-1',
+  capabilities: ['transcribe', 'timedTranscribe', 'translate', 'summarize'],
+
+  transcribe: async (file, _kind, mode, options) => {
+    await abortableDelay(LATENCY_MS, options.signal);
+    return mockTranscript(file, mode);
+  },
+
+  transcribeTimed: async (file, language, options) => {
+    const kind: MediaKind = file.type.startsWith('audio/') ? 'audio' : 'video';
+    const duration = await getMediaDuration(file, kind);
+    await abortableDelay(LATENCY_MS, options.signal);
+    const count = Math.min(MAX_CUES, Math.max(1, Math.floor(duration / CUE_SECONDS)));
+    return pickSentences(file, count).map((text, index): Subtitle => {
+      const sub: Subtitle = {
+        id: index + 1,
+        startTime: index * CUE_SECONDS,
+        endTime: Math.min(duration, index * CUE_SECONDS + CUE_SECONDS - 0.5),
+        text: language ? mockTranslate(text, language) : text,
+        speaker: mockSpeaker(index),
+      };
+      return { ...sub, words: estimateWordTimings(sub) };
+    });
+  },
+
+  translateSubtitles: async (subtitles, targetLanguage, glossary, options, onProgress) => {
+    for (let percent = 25; percent <= 100; percent += 25) {
+      await abortableDelay(LATENCY_MS / 4, options.signal);
+      onProgress?.(percent);
+    }
+    return subtitles.map(sub => ({ ...sub, text: mockTranslate(sub.text, targetLanguage, glossary) }));
+  },
+
+  translateMedia: async (file, _kind, targetLanguage, glossary, options) => {
+    await abortableDelay(LATENCY_MS, options.signal);
+    return mockTranslate(mockTranscript(file, 'plain').text, targetLanguage, glossary);
+  },
+
+  summarize: async (file, kind, options) => {
+    await abortableDelay(LATENCY_MS, options.signal);
+    return mockSummary(file, kind);
+  },
+
+  detectLanguage: async (source, options) => {
+    await abortableDelay(LATENCY_MS / 2, options.signal);
+    return mockDetect(source);
+  },
+};
@@ -0,0 +1,190 @@
+import { ProviderId } from '../types';
+import { EncryptedPayload, encryptText, decryptText } from '../utils/cryptoHelpers';
+
+// Which backend the AI tools use and how it is configured, kept in localStorage so it survives
+// reloads. API keys can optionally be encrypted with a passphrase; the decrypted keys then only
+// live in memory for the current tab.
+
+const STORAGE_KEY = 'quickscribe.providerSettings';
+
+export type SafetyCategory =
+  | 'HARM_CATEGORY_HATE_SPEECH'
+  | 'HARM_CATEGORY_SEXUALLY_EXPLICIT'
+  | 'HARM_CATEGORY_HARASSMENT'
+  | 'HARM_CATEGORY_DANGEROUS_CONTENT';
+
+export type SafetyThreshold = 'BLOCK_NONE' | 'BLOCK_ONLY_HIGH' | 'BLOCK_MEDIUM_AND_ABOVE' | 'BLOCK_LOW_AND_ABOVE';
+
+export const SAFETY_CATEGORIES: { id: SafetyCategory; label: string }[] = [
+  { id: 'HARM_CATEGORY_HATE_SPEECH', label: 'Hate speech' },
+  { id: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', label: 'Sexually explicit' },
+  { id: 'HARM_CATEGORY_HARASSMENT', label: 'Harassment' },
+  { id: 'HARM_CATEGORY_DANGEROUS_CONTENT', label: 'Dangerous content' },
+];
+
+export const SAFETY_THRESHOLDS: { id: SafetyThreshold; label: string }[] = [
+  { id: 'BLOCK_NONE', label: 'Block none' },
+  { id: 'BLOCK_ONLY_HIGH', label: 'Block only high' },
+  { id: 'BLOCK_MEDIUM_AND_ABOVE', label: 'Block medium and above' },
+  { id: 'BLOCK_LOW_AND_ABOVE', label: 'Block low and above' },
+];
+
+export interface GeminiSettings {
+  apiKey: string;
+  thinkingBudget: number; // tokens; 0 turns thinking off, -1 lets the model decide
+  safety: Record<SafetyCategory, SafetyThreshold>;
+}
+
+export interface HttpProviderSettings {
+  baseUrl: string; // OpenAI-compatible API root, e.g. http://localhost:8000/v1
+  apiKey: string; // sent as a Bearer token when set
+  transcriptionModel: string; // used for /audio/transcriptions; the selected model handles chat
+}
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  models: Partial<Record<ProviderId, string>>; // empty means the provider's default
+  gemini: GeminiSettings;
+  http: HttpProviderSettings;
+  cacheResults: boolean; // reuse stored results for identical requests
+}
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: 'gemini',
+  models: {},
+  gemini: {
+    apiKey: '',
+    thinkingBudget: 0,
+    // Transcripts of films and news regularly trip the default filters, so nothing is blocked by default
+    safety: {
+      HARM_CATEGORY_HATE_SPEECH: 'BLOCK_NONE',
+      HARM_CATEGORY_SEXUALLY_EXPLICIT: 'BLOCK_NONE',
+      HARM_CATEGORY_HARASSMENT: 'BLOCK_NONE',
+      HARM_CATEGORY_DANGEROUS_CONTENT: 'BLOCK_NONE',
+    },
+  },
+  http: {
+    baseUrl: 'http://localhost:8000/v1',
+    apiKey: '',
+    transcriptionModel: 'whisper-1',
+  },
+  cacheResults: true,
+};
+
+interface Secrets {
+  geminiApiKey: string;
+  httpApiKey: string;
+}
+
+// What is written to localStorage. With a vault the apiKey fields are blank and the keys are in `vault`.
+interface StoredSettings extends ProviderSettings {
+  vault?: EncryptedPayload;
+}
+
+// Decrypted keys and the passphrase for re-encrypting them, for this tab only
+let sessionSecrets: Secrets | null = null;
+let sessionPassphrase: string | null = null;
+let pendingVaultWrite: Promise<void> = Promise.resolve();
+
+const readStored = (): StoredSettings | null => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+  } catch {
+    return null;
+  }
+};
+
+const writeStored = (stored: StoredSettings) => localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+
+const extractSecrets = (settings: ProviderSettings): Secrets => ({
+  geminiApiKey: settings.gemini.apiKey,
+  httpApiKey: settings.http.apiKey,
+});
+
+const withSecrets = (settings: ProviderSettings, secrets: Secrets): ProviderSettings => ({
+  ...settings,
+  gemini: { ...settings.gemini, apiKey: secrets.geminiApiKey },
+  http: { ...settings.http, apiKey: secrets.httpApiKey },
+});
+
+const EMPTY_SECRETS: Secrets = { geminiApiKey: '', httpApiKey: '' };
+
+export function loadProviderSettings(): ProviderSettings {
+  const saved = readStored();
+  if (!saved) return DEFAULT_PROVIDER_SETTINGS;
+  const { vault, ...rest } = saved;
+  const settings: ProviderSettings = {
+    ...DEFAULT_PROVIDER_SETTINGS,
+    ...rest,
+    models: { ...rest.models },
+    gemini: {
+      ...DEFAULT_PROVIDER_SETTINGS.gemini,
+      ...rest.gemini,
+      safety: { ...DEFAULT_PROVIDER_SETTINGS.gemini.safety, ...rest.gemini?.safety },
+    },
+    http: { ...DEFAULT_PROVIDER_SETTINGS.http, ...rest.http },
+  };
+  return vault ? withSecrets(settings, sessionSecrets ?? EMPTY_SECRETS) : settings;
+}
+
+export function saveProviderSettings(settings: ProviderSettings): void {
+  const vault = readStored()?.vault;
+  if (!vault) {
+    writeStored(settings);
+    return;
+  }
+
+  // Everything but the keys is saved right away; while locked the keys cannot change
+  writeStored({ ...withSecrets(settings, EMPTY_SECRETS), vault });
+  if (!sessionPassphrase) return;
+  sessionSecrets = extractSecrets(settings);
+  const passphrase = sessionPassphrase;
+  pendingVaultWrite = pendingVaultWrite.then(async () => {
+    if (!sessionSecrets) return;
+    const next = await encryptText(JSON.stringify(sessionSecrets), passphrase);
+    const stored = readStored();
+    if (stored?.vault) writeStored({ ...stored, vault: next });
+  });
+}
+
+export function isEncryptionEnabled(): boolean {
+  return !!readStored()?.vault;
+}
+
+// Encrypted keys exist but have not been unlocked in this tab
+export function isSettingsLocked(): boolean {
+  return isEncryptionEnabled() && !sessionSecrets;
+}
+
+export async function unlockSettings(passphrase: string): Promise<boolean> {
+  const vault = readStored()?.vault;
+  if (!vault) return true;
+  const decrypted = await decryptText(vault, passphrase);
+  if (decrypted === null) return false;
+  sessionSecrets = { ...EMPTY_SECRETS, ...JSON.parse(decrypted) };
+  sessionPassphrase = passphrase;
+  return true;
+}
+
+export function lockSettings(): void {
+  sessionSecrets = null;
+  sessionPassphrase = null;
+}
+
+export async function enableEncryption(passphrase: string): Promise<void> {
+  const settings = loadProviderSettings();
+  const secrets = extractSecrets(settings);
+  const vault = await encryptText(JSON.stringify(secrets), passphrase);
+  writeStored({ ...withSecrets(settings, EMPTY_SECRETS), vault });
+  sessionSecrets = secrets;
+  sessionPassphrase = passphrase;
+}
+
+// Stores the keys in plain text again; only possible while unlocked
+export async function disableEncryption(): Promise<void> {
+  if (isSettingsLocked()) throw new Error('Unlock your settings before turning off encryption.');
+  await pendingVaultWrite;
+  const settings = loadProviderSettings();
+  lockSettings();
+  writeStored(settings);
+}
@@ -0,0 +1,201 @@
+import { ProviderRequestOptions } from '../types';
+import { abortableDelay, isAbortError } from '../utils/abortHelpers';
+
+// Shared retry loop and error taxonomy for AI requests. Whatever a backend throws is classified
+// into one of the error classes below, retried with exponential backoff when that can help, and
+// finally surfaced with a remediation hint the UI shows next to the message.
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 30000;
+// A server asking us to wait longer than this is treated as a hard limit rather than a hiccup
+const MAX_RETRY_AFTER_MS = 60000;
+
+export type AiErrorKind =
+  | 'payloadTooLarge'
+  | 'rateLimited'
+  | 'serverBusy'
+  | 'safetyBlocked'
+  | 'invalidFormat'
+  | 'network'
+  | 'auth'
+  | 'unknown';
+
+export interface AiErrorDetails {
+  status?: number;
+  retryAfterMs?: number; // from a Retry-After header or the API's retry info
+  cause?: unknown;
+}
+
+export class AiRequestError extends Error {
+  readonly kind: AiErrorKind;
+  readonly hint?: string;
+  readonly retryable: boolean;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+  readonly cause?: unknown;
+
+  constructor(kind: AiErrorKind, message: string, hint: string | undefined, retryable: boolean, details: AiErrorDetails = {}) {
+    super(message);
+    this.name = 'AiRequestError';
+    this.kind = kind;
+    this.hint = hint;
+    this.retryable = retryable;
+    this.status = details.status;
+    this.retryAfterMs = details.retryAfterMs;
+    this.cause = details.cause;
+  }
+}
+
+export class PayloadTooLargeError extends AiRequestError {
+  constructor(message = 'The file is too large to send to the API in one request.', details?: AiErrorDetails) {
+    super('payloadTooLarge', message, 'Use a shorter clip or a more compressed file, e.g. convert it to MP3 or a lower resolution first.', false, details);
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+export class RateLimitedError extends AiRequestError {
+  constructor(message = 'Too many requests were sent with this API key.', details: AiErrorDetails = {}) {
+    const wait = details.retryAfterMs ? `about ${Math.ceil(details.retryAfterMs / 1000)} seconds` : 'a minute';
+    super('rateLimited', message, `Wait ${wait} and try again, or check the quota for your API key.`, true, details);
+    this.name = 'RateLimitedError';
+  }
+}
+
+export class ServerBusyError extends AiRequestError {
+  constructor(message = 'The AI service is overloaded or timed out.', details?: AiErrorDetails) {
+    super('serverBusy', message, 'This is usually temporary. Try again in a few minutes, or use a shorter clip.', true, details);
+    this.name = 'ServerBusyError';
+  }
+}
+
+export class SafetyBlockedError extends AiRequestError {
+  constructor(message = 'The model refused to process this content because of its safety filters.', details?: AiErrorDetails) {
+    super('safetyBlocked', message, 'Lower the safety thresholds in Settings, or remove the part of the file that triggers the filter.', false, details);
+    this.name = 'SafetyBlockedError';
+  }
+}
+
+export class InvalidFormatError extends AiRequestError {
+  constructor(message = 'The API could not read this file. The format might be unsupported or the file corrupted.', details?: AiErrorDetails) {
+    super('invalidFormat', message, 'Convert it to MP3 or MP4 with the converter tools and try again.', false, details);
+    this.name = 'InvalidFormatError';
+  }
+}
+
+export class NetworkError extends AiRequestError {
+  constructor(message = 'Could not reach the AI service.', details?: AiErrorDetails) {
+    super('network', message, 'Check your internet connection. Large uploads on slow connections can also fail; try a smaller file.', true, details);
+    this.name = 'NetworkError';
+  }
+}
+
+export class AuthError extends AiRequestError {
+  constructor(message = 'The API key was rejected.', details?: AiErrorDetails) {
+    super('auth', message, 'Check the key in Settings and use Validate to test it.', false, details);
+    this.name = 'AuthError';
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+const statusOf = (error: any, message: string): number => {
+  if (typeof error?.status === 'number') return error.status;
+  const match = message.match(/(?:status|code)[:\s]+(\d{3})\b/i) || message.match(/\((\d{3})\)/);
+  return match ? Number(match[1]) : 0;
+};
+
+// Google APIs put the wait into the error body as RetryInfo, e.g. "retryDelay": "23s"
+const retryAfterOf = (error: any, message: string): number | undefined => {
+  if (typeof error?.retryAfterMs === 'number') return error.retryAfterMs;
+  const match = message.match(/retryDelay"?\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Number(match[1]) * 1000 : undefined;
+};
+
+export function classifyAiError(error: unknown): AiRequestError {
+  if (error instanceof AiRequestError) return error;
+
+  const e = error as any;
+  const message = String(e?.message ?? e ?? '');
+  const lower = message.toLowerCase();
+  const status = statusOf(e, message);
+  const details: AiErrorDetails = { status: status || undefined, retryAfterMs: retryAfterOf(e, message), cause: error };
+
+  if (status === 413 || lower.includes('too large') || lower.includes('payload size')) {
+    return new PayloadTooLargeError(undefined, details);
+  }
+  if (status === 429 || message.includes('RESOURCE_EXHAUSTED') || lower.includes('rate limit') || lower.includes('quota')) {
+    return new RateLimitedError(undefined, details);
+  }
+  if (status === 401 || status === 403 || message.includes('API_KEY_INVALID') || message.includes('PERMISSION_DENIED') || lower.includes('api key not valid')) {
+    return new AuthError(undefined, details);
+  }
+  if ([500, 502, 503, 504].includes(status) || message.includes('UNAVAILABLE') || message.includes('DEADLINE_EXCEEDED') || lower.includes('overloaded')) {
+    return new ServerBusyError(undefined, details);
+  }
+  if (message.includes('PROHIBITED_CONTENT') || lower.includes('blockreason') || lower.includes('content_filter')) {
+    return new SafetyBlockedError(undefined, details);
+  }
+  if (status === 400 || message.includes('INVALID_ARGUMENT') || lower.includes('unsupported mime')) {
+    return new InvalidFormatError(undefined, details);
+  }
+  if (
+    e instanceof TypeError ||
+    lower.includes('xhr error') ||
+    lower.includes('rpc failed') ||
+    lower.includes('fetch') ||
+    lower.includes('networkerror') ||
+    lower.includes('network error')
+  ) {
+    return new NetworkError(undefined, details);
+  }
+  return new AiRequestError('unknown', message || 'The request failed.', undefined, false, details);
+}
+
+// Full backoff for the attempt with jitter in its upper half, or the server's own wait plus a little jitter.
+// null means the server wants us to wait too long to be worth retrying.
+export function retryDelayFor(error: AiRequestError, attempt: number): number | null {
+  if (error.retryAfterMs !== undefined) {
+    return error.retryAfterMs > MAX_RETRY_AFTER_MS ? null : error.retryAfterMs + Math.random() * 1000;
+  }
+  const backoff = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+  return backoff / 2 + Math.random() * (backoff / 2);
+}
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  signal?: AbortSignal;
+  label?: string; // for the console, e.g. "Transcribing audio"
+}
+
+// Run `task` until it succeeds, a non-retryable error comes back or the attempts run out.
+// Always rejects with an AiRequestError, or an AbortError when cancelled.
+export async function runWithRetry<T>(task: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { maxAttempts = DEFAULT_MAX_ATTEMPTS, signal, label = 'Request' } = options;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (e) {
+      if (isAbortError(e)) throw e;
+      const error = classifyAiError(e);
+      console.warn(`${label}: attempt ${attempt}/${maxAttempts} failed (${error.kind})`, e);
+      const delay = error.retryable && attempt < maxAttempts ? retryDelayFor(error, attempt) : null;
+      if (delay === null) throw error;
+      await abortableDelay(delay, signal);
+    }
+  }
+}
+
+// Placeholder text, or a result assembled around a failed part: shown to the user, but reported
+// so it is not cached as the answer to the request
+export function markIncomplete<T>(options: ProviderRequestOptions, value: T): T {
+  options.onIncomplete?.();
+  return value;
+}
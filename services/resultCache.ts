@@ -0,0 +1,215 @@
+import { ProviderId, Subtitle, TranslationGlossary } from '../types';
+import { isGlossaryEmpty } from '../utils/glossaryHelpers';
+
+// IndexedDB store for AI results, so asking for the same thing twice costs nothing. A result is
+// keyed by what determines it: the input's content hash, the operation, the target language and
+// glossary, the provider, its model and settings, and the version of the prompt behind the operation.
+
+const DB_NAME = 'quickscribe-cache';
+const DB_VERSION = 1;
+const STORE = 'results';
+
+// Files above this size are fingerprinted from evenly spaced samples instead of hashed whole
+const FULL_HASH_LIMIT_BYTES = 64 * 1024 * 1024;
+const SAMPLE_COUNT = 16;
+const SAMPLE_BYTES = 1024 * 1024;
+
+export type CacheOperation =
+  | 'transcribeAudio'
+  | 'transcribeVideo'
+  | 'timestampedAudio'
+  | 'timestampedVideo'
+  | 'subtitles'
+  | 'translateSubtitles'
+  | 'translateAudio'
+  | 'translateVideo'
+  | 'summarizeAudio'
+  | 'summarizeVideo'
+  | 'detectLanguage';
+
+// Bump an entry whenever the prompts behind that operation change, so stale results stop matching
+export const PROMPT_VERSIONS: Record<CacheOperation, number> = {
+  transcribeAudio: 3,
+  transcribeVideo: 3,
+  timestampedAudio: 2,
+  timestampedVideo: 2,
+  subtitles: 3,
+  translateSubtitles: 3,
+  translateAudio: 2,
+  translateVideo: 2,
+  summarizeAudio: 2,
+  summarizeVideo: 2,
+  detectLanguage: 1,
+};
+
+export const CACHE_OPERATION_LABELS: Record<CacheOperation, string> = {
+  transcribeAudio: 'Audio transcript',
+  transcribeVideo: 'Video transcript',
+  timestampedAudio: 'Timestamped audio transcript',
+  timestampedVideo: 'Timestamped video transcript',
+  subtitles: 'Subtitles',
+  translateSubtitles: 'Subtitle translation',
+  translateAudio: 'Audio translation',
+  translateVideo: 'Video translation',
+  summarizeAudio: 'Audio summary',
+  summarizeVideo: 'Video summary',
+  detectLanguage: 'Language detection',
+};
+
+export interface CacheRequest {
+  operation: CacheOperation;
+  provider: ProviderId;
+  model: string;
+  language?: string;
+  glossary?: TranslationGlossary; // terms the translation was asked to follow
+  config?: object; // provider settings besides the model that change the result, e.g. the server URL
+  source: File | Subtitle[];
+}
+
+export interface CacheEntryInfo {
+  key: string;
+  operation: CacheOperation;
+  provider: ProviderId;
+  model: string;
+  language?: string;
+  sourceName: string; // file name, or a description of the subtitle track
+  createdAt: number;
+  size: number; // bytes of the stored result as JSON
+}
+
+interface CacheEntry<T = unknown> extends CacheEntryInfo {
+  value: T;
+}
+
+// Hashing a large file takes a moment, so each File object is only hashed once
+const fileHashes = new WeakMap<File, Promise<string>>();
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+
+const sha256 = async (data: BufferSource | string): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-256', typeof data === 'string' ? new TextEncoder().encode(data) : data));
+
+async function hashFileContent(file: File): Promise<string> {
+  if (file.size <= FULL_HASH_LIMIT_BYTES) return sha256(await file.arrayBuffer());
+  const step = (file.size - SAMPLE_BYTES) / (SAMPLE_COUNT - 1);
+  const samples = await Promise.all(
+    Array.from({ length: SAMPLE_COUNT }, (_, i) => file.slice(Math.round(i * step), Math.round(i * step) + SAMPLE_BYTES).arrayBuffer())
+  );
+  const hashes = await Promise.all(samples.map(sha256));
+  return sha256(`${file.size}:${hashes.join(':')}`);
+}
+
+export function hashFile(file: File): Promise<string> {
+  let hash = fileHashes.get(file);
+  if (!hash) {
+    hash = hashFileContent(file);
+    fileHashes.set(file, hash);
+  }
+  return hash;
+}
+
+// Translated cues keep everything but word timing (speakers, ASS styling, VTT settings and
+// identifiers), so any change to those has to miss the cache
+const hashSource = (source: File | Subtitle[]) =>
+  source instanceof File
+    ? hashFile(source)
+    : sha256(JSON.stringify(source.map(({ words, ...cue }) => cue)));
+
+export async function cacheKey(request: CacheRequest): Promise<string> {
+  const hash = await hashSource(request.source);
+  const version = PROMPT_VERSIONS[request.operation];
+  const parts = [request.operation, `v${version}`, request.provider, request.model, request.language ?? '', hash];
+  // The same model name on another server, or with other thinking/safety settings, answers differently
+  if (request.config) parts.push(await sha256(JSON.stringify(request.config)));
+  // Editing the glossary changes what the translation should say, so it must miss the cache
+  if (request.glossary && !isGlossaryEmpty(request.glossary)) {
+    parts.push(await sha256(JSON.stringify(request.glossary)));
+  }
+  return parts.join('|');
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'key' });
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again, e.g. after the user allows storage
+    dbPromise.catch(() => (dbPromise = null));
+  }
+  return dbPromise;
+}
+
+// Run one request against the store and resolve with its result
+async function withStore<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+const sourceName = (source: File | Subtitle[]) =>
+  source instanceof File ? source.name : `${source.length} subtitle${source.length === 1 ? '' : 's'}`;
+
+// Cache failures (private browsing, quota) only cost the cache, never the request itself
+export async function readCachedResult<T>(key: string): Promise<CacheEntry<T> | null> {
+  try {
+    return (await withStore<CacheEntry<T> | undefined>('readonly', store => store.get(key))) ?? null;
+  } catch (e) {
+    console.warn('Result cache unavailable:', e);
+    return null;
+  }
+}
+
+export async function writeCachedResult<T>(key: string, request: CacheRequest, value: T): Promise<void> {
+  const entry: CacheEntry<T> = {
+    key,
+    operation: request.operation,
+    provider: request.provider,
+    model: request.model,
+    language: request.language,
+    sourceName: sourceName(request.source),
+    createdAt: Date.now(),
+    size: new Blob([JSON.stringify(value)]).size,
+    value,
+  };
+  try {
+    await withStore('readwrite', store => store.put(entry));
+  } catch (e) {
+    console.warn('Could not store result in cache:', e);
+  }
+}
+
+// Entries without their stored values, newest first. A cursor reads one record at a time, so the
+// stored transcripts are never all in memory at once just to list them.
+export async function listCacheEntries(): Promise<CacheEntryInfo[]> {
+  const db = await openDb();
+  const entries: CacheEntryInfo[] = [];
+  await new Promise<void>((resolve, reject) => {
+    const request = db.transaction(STORE, 'readonly').objectStore(STORE).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve();
+      const { value, ...info } = cursor.value as CacheEntry;
+      entries.push(info);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function deleteCacheEntry(key: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(key));
+}
+
+export async function clearResultCache(): Promise<void> {
+  await withStore('readwrite', store => store.clear());
+}
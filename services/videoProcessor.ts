@@ -1,27 +1,75 @@
 
-import { Subtitle, SubtitleStyle } from '../types';
+import { Subtitle, SubtitleStyle, SubtitleTrack } from '../types';
+import { resolveWordTimings, spokenWordCount } from '../utils/wordTiming';
+import { abortError, onAbort } from '../utils/abortHelpers';
+
+// Everything a canvas/MediaRecorder job holds on to. `release` is safe to call more than once.
+interface RecordingJob {
+  video: HTMLVideoElement;
+  audioCtx: AudioContext;
+  canvas: HTMLCanvasElement | null;
+  recorder: MediaRecorder | null;
+  release: () => void;
+}
+
+// Load `file` into a detached video element wired for recording. When `signal` fires, the recorder is
+// stopped without producing a result, all resources are released and `reject` gets an AbortError.
+function createRecordingJob(file: File, reject: (reason: unknown) => void, signal?: AbortSignal): RecordingJob {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.src = url;
+  video.crossOrigin = 'anonymous';
+  // We need to play the video to record it.
+  // We unmute it to capture the audio stream.
+  video.muted = false;
+  video.preload = 'auto';
+
+  // Create AudioContext outside to handle audio mixing
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  const audioCtx = new AudioContextClass();
+
+  let detach = () => {};
+  const job: RecordingJob = {
+    video,
+    audioCtx,
+    canvas: null,
+    recorder: null,
+    release: () => {
+      detach();
+      video.pause();
+      video.onended = null;
+      video.remove();
+      job.canvas?.remove();
+      if (audioCtx.state !== 'closed') audioCtx.close();
+      URL.revokeObjectURL(url);
+    },
+  };
+  detach = onAbort(signal, () => {
+    if (job.recorder && job.recorder.state !== 'inactive') {
+      job.recorder.onstop = null;
+      job.recorder.stop();
+    }
+    job.release();
+    reject(abortError());
+  });
+  return job;
+}
 
 export const burnSubtitles = async (
   videoFile: File,
   subtitles: Subtitle[],
   config: SubtitleStyle,
-  onProgress: (progress: number) => void
+  onProgress: (progress: number) => void,
+  secondaryTrack?: SubtitleTrack,
+  signal?: AbortSignal
 ): Promise<Blob> => {
   return new Promise((resolve, reject) => {
-    const video = document.createElement('video');
-    video.src = URL.createObjectURL(videoFile);
-    video.crossOrigin = 'anonymous';
-    // We need to play the video to record it. 
-    // We unmute it to capture the audio stream.
-    video.muted = false; 
-    video.preload = 'auto';
-    
-    // Create AudioContext outside to handle audio mixing
-    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-    const audioCtx = new AudioContextClass();
+    const job = createRecordingJob(videoFile, reject, signal);
+    const { video, audioCtx } = job;
 
     video.onloadedmetadata = () => {
       const canvas = document.createElement('canvas');
+      job.canvas = canvas;
       // Ensure dimensions are even numbers (requirement for some encoders)
       canvas.width = video.videoWidth % 2 === 0 ? video.videoWidth : video.videoWidth - 1;
       canvas.height = video.videoHeight % 2 === 0 ? video.videoHeight : video.videoHeight - 1;
@@ -74,6 +122,7 @@ export const burnSubtitles = async (
         mimeType: selectedMimeType,
         videoBitsPerSecond: 8000000 // 8 Mbps target quality
       });
+      job.recorder = recorder;
       
       const chunks: BlobPart[] = [];
       recorder.ondataavailable = (e) => {
@@ -84,12 +133,7 @@ export const burnSubtitles = async (
         const blob = new Blob(chunks, { type: selectedMimeType });
         resolve(blob);
         // Cleanup resources
-        setTimeout(() => {
-            video.remove();
-            canvas.remove();
-            audioCtx.close();
-            URL.revokeObjectURL(video.src);
-        }, 100);
+        setTimeout(job.release, 100);
       };
       
       // Handle video ending - Use event listener for reliability
@@ -109,7 +153,7 @@ export const burnSubtitles = async (
 
       // Render Loop function
       const renderFrame = () => {
-        if (video.ended) return;
+        if (video.ended || signal?.aborted) return;
 
         if (!video.paused && !video.ended) {
             // Draw Video Frame
@@ -117,12 +161,26 @@ export const burnSubtitles = async (
             
             // Draw Subtitles
             const currentTime = video.currentTime;
-            const activeSubtitle = subtitles.find(
-                s => currentTime >= s.startTime && currentTime <= s.endTime
-            );
-
-            if (activeSubtitle) {
-                drawSubtitleText(ctx!, activeSubtitle.text, config, canvas.width, canvas.height);
+            const isActive = (s: Subtitle) => currentTime >= s.startTime && currentTime <= s.endTime;
+            const activeSubtitle = subtitles.find(isActive);
+            const activeSecondary = secondaryTrack?.subtitles.find(isActive);
+            const primaryHighlight = activeSubtitle && wordHighlight(activeSubtitle, config, currentTime);
+            const secondaryHighlight = activeSecondary && wordHighlight(activeSecondary, secondaryTrack!.config, currentTime);
+
+            if (activeSubtitle && activeSecondary && secondaryTrack!.config.position === config.position) {
+                drawStackedSubtitles(
+                    ctx!,
+                    activeSubtitle.text, config, primaryHighlight,
+                    activeSecondary.text, secondaryTrack!.config, secondaryHighlight,
+                    canvas.width, canvas.height
+                );
+            } else {
+                if (activeSubtitle) {
+                    drawSubtitleText(ctx!, activeSubtitle.text, config, canvas.width, canvas.height, 0, primaryHighlight);
+                }
+                if (activeSecondary) {
+                    drawSubtitleText(ctx!, activeSecondary.text, secondaryTrack!.config, canvas.width, canvas.height, 0, secondaryHighlight);
+                }
             }
 
             // Update Progress
@@ -170,26 +228,23 @@ export const trimVideo = async (
   videoFile: File,
   startTime: number,
   endTime: number,
-  onProgress: (progress: number) => void
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
 ): Promise<Blob> => {
   return new Promise((resolve, reject) => {
-    const video = document.createElement('video');
-    video.src = URL.createObjectURL(videoFile);
-    video.crossOrigin = 'anonymous';
-    video.muted = false; // Capture audio
-    video.preload = 'auto';
-
-    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-    const audioCtx = new AudioContextClass();
+    const job = createRecordingJob(videoFile, reject, signal);
+    const { video, audioCtx } = job;
 
     video.onloadedmetadata = () => {
       // Validate range
       if (startTime >= endTime || startTime < 0 || endTime > video.duration) {
+          job.release();
           reject(new Error("Invalid trim range."));
           return;
       }
 
       const canvas = document.createElement('canvas');
+      job.canvas = canvas;
       canvas.width = video.videoWidth % 2 === 0 ? video.videoWidth : video.videoWidth - 1;
       canvas.height = video.videoHeight % 2 === 0 ? video.videoHeight : video.videoHeight - 1;
       const ctx = canvas.getContext('2d', { alpha: false });
@@ -220,6 +275,7 @@ export const trimVideo = async (
           mimeType: selectedMimeType,
           videoBitsPerSecond: 8000000 
       });
+      job.recorder = recorder;
 
       const chunks: BlobPart[] = [];
       recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
@@ -227,12 +283,7 @@ export const trimVideo = async (
       recorder.onstop = () => {
           const blob = new Blob(chunks, { type: selectedMimeType });
           resolve(blob);
-          setTimeout(() => {
-              video.remove();
-              canvas.remove();
-              audioCtx.close();
-              URL.revokeObjectURL(video.src);
-          }, 100);
+          setTimeout(job.release, 100);
       };
 
       // Seek to start
@@ -246,7 +297,7 @@ export const trimVideo = async (
       };
 
       const renderFrame = () => {
-          if (video.paused || video.ended) return;
+          if (video.paused || video.ended || signal?.aborted) return;
 
           // Draw
           ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
@@ -279,17 +330,12 @@ export const trimVideo = async (
 export const convertVideo = async (
   videoFile: File,
   targetFormat: string,
-  onProgress: (progress: number) => void
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
 ): Promise<Blob> => {
   return new Promise((resolve, reject) => {
-    const video = document.createElement('video');
-    video.src = URL.createObjectURL(videoFile);
-    video.crossOrigin = 'anonymous';
-    video.muted = false; // Capture audio
-    video.preload = 'auto';
-
-    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-    const audioCtx = new AudioContextClass();
+    const job = createRecordingJob(videoFile, reject, signal);
+    const { video, audioCtx } = job;
 
     video.onloadedmetadata = () => {
       // Setup Audio
@@ -307,6 +353,7 @@ export const convertVideo = async (
 
       if (!isAudioOnly) {
           canvas = document.createElement('canvas');
+          job.canvas = canvas;
           canvas.width = video.videoWidth % 2 === 0 ? video.videoWidth : video.videoWidth - 1;
           canvas.height = video.videoHeight % 2 === 0 ? video.videoHeight : video.videoHeight - 1;
           ctx = canvas.getContext('2d', { alpha: false });
@@ -370,6 +417,7 @@ export const convertVideo = async (
           mimeType: selectedMimeType,
           videoBitsPerSecond: 8000000 // 8 Mbps
       });
+      job.recorder = recorder;
 
       const chunks: BlobPart[] = [];
       recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
@@ -378,12 +426,7 @@ export const convertVideo = async (
           // Create blob with the actual MIME type, but we will let the download anchor tag handle the extension
           const blob = new Blob(chunks, { type: selectedMimeType });
           resolve(blob);
-          setTimeout(() => {
-              video.remove();
-              if (canvas) canvas.remove();
-              audioCtx.close();
-              URL.revokeObjectURL(video.src);
-          }, 100);
+          setTimeout(job.release, 100);
       };
 
       video.onended = () => {
@@ -392,7 +435,7 @@ export const convertVideo = async (
       };
 
       const renderFrame = () => {
-          if (video.paused || video.ended) return;
+          if (video.paused || video.ended || signal?.aborted) return;
 
           if (ctx && canvas) {
               ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
@@ -429,22 +472,25 @@ function hexToRgba(hex: string, alpha: number) {
   return `rgba(${parseInt(result[1], 16)}, ${parseInt(result[2], 16)}, ${parseInt(result[3], 16)}, ${alpha})`;
 }
 
-function drawSubtitleText(
-  ctx: CanvasRenderingContext2D, 
-  text: string, 
-  config: SubtitleStyle, 
-  width: number, 
-  height: number
-) {
+// Karaoke state of a cue: how many of its words have started and the colour to draw them in
+interface WordHighlight {
+  spoken: number;
+  color: string;
+}
+
+function wordHighlight(sub: Subtitle, config: SubtitleStyle, time: number): WordHighlight | undefined {
+  if (!config.highlightColor) return undefined;
+  return { spoken: spokenWordCount(resolveWordTimings(sub), time), color: config.highlightColor };
+}
+
+function layoutSubtitleText(ctx: CanvasRenderingContext2D, text: string, config: SubtitleStyle, width: number) {
   const referenceWidth = 800;
   const scaleFactor = width / referenceWidth; 
   const scaledFontSize = Math.max(config.fontSize * scaleFactor, 12);
   
   ctx.font = `600 ${scaledFontSize}px ${config.fontFamily}`;
-  ctx.textAlign = 'center';
-  ctx.textBaseline = 'top';
 
-  const words = text.split(/\s+/);
+  const words = text.trim().split(/\s+/);
   const lines: string[] = [];
   let currentLine = words[0];
   const maxWidth = width * 0.9; 
@@ -462,7 +508,48 @@ function drawSubtitleText(
   lines.push(currentLine);
 
   const lineHeight = scaledFontSize * 1.4;
-  const totalTextHeight = lines.length * lineHeight;
+  return { lines, scaledFontSize, lineHeight, totalTextHeight: lines.length * lineHeight };
+}
+
+// Two tracks sharing a position: the first track sits directly above the second
+function drawStackedSubtitles(
+  ctx: CanvasRenderingContext2D,
+  firstText: string,
+  firstConfig: SubtitleStyle,
+  firstHighlight: WordHighlight | undefined,
+  secondText: string,
+  secondConfig: SubtitleStyle,
+  secondHighlight: WordHighlight | undefined,
+  width: number,
+  height: number
+) {
+  const firstHeight = layoutSubtitleText(ctx, firstText, firstConfig, width).totalTextHeight;
+  const secondHeight = layoutSubtitleText(ctx, secondText, secondConfig, width).totalTextHeight;
+
+  if (firstConfig.position === 'top') {
+    drawSubtitleText(ctx, firstText, firstConfig, width, height, 0, firstHighlight);
+    drawSubtitleText(ctx, secondText, secondConfig, width, height, firstHeight, secondHighlight);
+  } else if (firstConfig.position === 'middle') {
+    drawSubtitleText(ctx, firstText, firstConfig, width, height, -secondHeight / 2, firstHighlight);
+    drawSubtitleText(ctx, secondText, secondConfig, width, height, firstHeight / 2, secondHighlight);
+  } else {
+    drawSubtitleText(ctx, firstText, firstConfig, width, height, -secondHeight, firstHighlight);
+    drawSubtitleText(ctx, secondText, secondConfig, width, height, 0, secondHighlight);
+  }
+}
+
+function drawSubtitleText(
+  ctx: CanvasRenderingContext2D, 
+  text: string, 
+  config: SubtitleStyle, 
+  width: number, 
+  height: number,
+  offsetY: number = 0,
+  highlight?: WordHighlight
+) {
+  const { lines, scaledFontSize, lineHeight, totalTextHeight } = layoutSubtitleText(ctx, text, config, width);
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
   
   let startY = 0;
   if (config.position === 'top') {
@@ -472,6 +559,10 @@ function drawSubtitleText(
   } else {
     startY = height * 0.9 - totalTextHeight;
   }
+  startY += offsetY;
+
+  // Lines hold the cue's words in order, so a running index matches them to their timing
+  let wordIndex = 0;
 
   lines.forEach((line, i) => {
     const y = startY + (i * lineHeight);
@@ -495,7 +586,19 @@ function drawSubtitleText(
     ctx.shadowBlur = 4;
     ctx.shadowOffsetX = 1;
     ctx.shadowOffsetY = 1;
-    ctx.fillText(line, x, y);
+    if (highlight) {
+      // Word by word from the line's left edge, each in its own colour
+      ctx.textAlign = 'left';
+      let wordX = x - textWidth / 2;
+      line.split(' ').forEach(word => {
+        ctx.fillStyle = wordIndex++ < highlight.spoken ? highlight.color : config.color;
+        ctx.fillText(word, wordX, y);
+        wordX += ctx.measureText(`${word} `).width;
+      });
+      ctx.textAlign = 'center';
+    } else {
+      ctx.fillText(line, x, y);
+    }
     ctx.shadowColor = 'transparent';
     ctx.shadowBlur = 0;
     ctx.shadowOffsetX = 0;
@@ -3,6 +3,75 @@ export interface Subtitle {
   startTime: number; // in seconds
   endTime: number; // in seconds
   text: string;
+  speaker?: string; // who is talking, e.g. "Speaker 1" from diarization or a VTT <v> / ASS Name field
+  words?: SubtitleWord[]; // word timing from the provider or from aligning the cue to the audio
+  ass?: AssCueProps; // present when the cue came from an .ass/.ssa file
+  vtt?: VttCueProps; // present when the cue came from a .vtt file
+}
+
+// One word of a cue, timed on the same timeline as the cue itself
+export interface SubtitleWord {
+  text: string;
+  startTime: number; // in seconds
+  endTime: number; // in seconds
+}
+
+// Per-cue fields of an ASS/SSA "Dialogue:" line that have no SRT equivalent
+export interface AssCueProps {
+  layer: number;
+  style: string;
+  name: string;
+  marginL: number;
+  marginR: number;
+  marginV: number;
+  effect: string;
+}
+
+// A style row from [V4+ Styles] / [V4 Styles], keyed by the section's Format field names
+export type AssStyle = Record<string, string>;
+
+// A raw "Comment:" event line. beforeCueId anchors it in front of a cue; undefined means after the last one.
+export interface AssComment {
+  line: string;
+  beforeCueId?: number;
+}
+
+// Everything in an ASS/SSA file besides the dialogue cues, kept so a round-trip does not lose it
+export interface AssDocument {
+  variant: 'ass' | 'ssa';
+  scriptInfo: string[]; // raw lines of [Script Info], including ; comments
+  styleFormat: string[];
+  styles: AssStyle[];
+  eventFormat: string[];
+  comments: AssComment[];
+  extraSections: { name: string; lines: string[] }[]; // [Fonts], [Graphics], etc.
+}
+
+// WebVTT cue settings that follow the timing line, e.g. "line:0 position:50% align:center"
+export interface VttCueSettings {
+  vertical?: 'rl' | 'lr';
+  line?: string;
+  position?: string;
+  size?: string;
+  align?: 'start' | 'center' | 'end' | 'left' | 'right';
+  region?: string;
+}
+
+export interface VttCueProps {
+  identifier?: string;
+  settings: VttCueSettings;
+}
+
+// A NOTE, STYLE or REGION block. beforeCueId anchors it in front of a cue; undefined means end of file.
+export interface VttBlock {
+  kind: 'NOTE' | 'STYLE' | 'REGION';
+  content: string;
+  beforeCueId?: number;
+}
+
+export interface VttDocument {
+  header: string[]; // text after "WEBVTT" on the first line, then any metadata lines before the first blank line
+  blocks: VttBlock[];
 }
 
 export interface SubtitleStyle {
@@ -12,6 +81,13 @@ export interface SubtitleStyle {
   backgroundOpacity: number; // 0 to 1
   position: 'top' | 'middle' | 'bottom';
   fontFamily: string;
+  highlightColor?: string; // karaoke: words turn this colour as they are spoken; unset means no highlighting
+}
+
+// A second subtitle track drawn with its own style, e.g. a translation alongside the original
+export interface SubtitleTrack {
+  subtitles: Subtitle[];
+  config: SubtitleStyle;
 }
 
 export interface VideoState {
@@ -19,3 +95,106 @@ export interface VideoState {
   url: string | null;
   duration: number;
 }
+
+export type ProviderId = 'gemini' | 'http' | 'mock';
+
+export type ProviderCapability = 'transcribe' | 'timedTranscribe' | 'translate' | 'summarize';
+
+export type MediaKind = 'audio' | 'video';
+
+// One uninterrupted turn of a single speaker, or a paragraph in a timestamped transcript
+export interface TranscriptSegment {
+  speaker?: string;
+  text: string;
+  startTime?: number; // seconds from the start of the file; set in timestamped mode
+  endTime?: number;
+  language?: string; // ISO 639 code, for recordings that switch language
+}
+
+// Identified spoken or written language
+export interface LanguageDetection {
+  code: string; // ISO 639-1 where one exists, otherwise ISO 639-3
+  name: string; // English display name, e.g. "Spanish"
+  confidence?: number; // 0–1; absent when the provider gives no estimate
+}
+
+export interface Transcript {
+  language: string; // display name, or 'Unknown' when nothing was said
+  text: string;
+  segments?: TranscriptSegment[]; // speaker turns, when the provider can tell voices apart
+  detectedLanguage?: LanguageDetection; // the main language; segments may differ in mixed recordings
+}
+
+// 'timestamped' asks for paragraphs with start and end times instead of plain text
+export type TranscriptMode = 'plain' | 'timestamped';
+
+// Approved translation of a product or brand term for one language pair
+export interface GlossaryTerm {
+  id: string;
+  sourceLanguage: string; // ISO 639-1
+  targetLanguage: string; // ISO 639-1
+  source: string;
+  target: string;
+}
+
+export interface Glossary {
+  terms: GlossaryTerm[];
+  doNotTranslate: string[]; // names kept exactly as written in every language
+}
+
+// The part of the glossary that applies to one translation request
+export interface TranslationGlossary {
+  terms: { source: string; target: string }[];
+  doNotTranslate: string[];
+}
+
+// A cue (or paragraph of a plain-text translation) that did not use the glossary
+export interface GlossaryViolation {
+  cueId: number; // subtitle id, or 1-based paragraph number for plain text
+  kind: 'term' | 'doNotTranslate';
+  term: string; // as written in the glossary's source column
+  expected: string;
+}
+
+export interface ProviderModel {
+  id: string;
+  label: string;
+}
+
+// Resolved from the saved settings for every call, so switching provider or model needs no reload
+export interface ProviderRequestOptions {
+  model: string;
+  signal?: AbortSignal; // cancels in-flight requests, retries and remaining chunks
+  onIncomplete?: () => void; // the result is a placeholder or partly failed, so it must not be cached
+  onProgress?: (percent: number) => void; // share of a long file's chunks finished so far
+}
+
+// A speech/LLM backend. The tools only talk to this interface, through services/aiProvider.
+export interface AiProvider {
+  id: ProviderId;
+  name: string;
+  description: string;
+  models: ProviderModel[];
+  defaultModel: string;
+  capabilities: ProviderCapability[];
+  transcribe(file: File, kind: MediaKind, mode: TranscriptMode, options: ProviderRequestOptions): Promise<Transcript>;
+  // Subtitle cues; `language` asks for a translation instead of the spoken language
+  transcribeTimed(file: File, language: string | undefined, options: ProviderRequestOptions): Promise<Subtitle[]>;
+  translateSubtitles(
+    subtitles: Subtitle[],
+    targetLanguage: string,
+    glossary: TranslationGlossary,
+    options: ProviderRequestOptions,
+    onProgress?: (percent: number) => void
+  ): Promise<Subtitle[]>;
+  translateMedia(
+    file: File,
+    kind: MediaKind,
+    targetLanguage: string,
+    glossary: TranslationGlossary,
+    options: ProviderRequestOptions
+  ): Promise<string>;
+  summarize(file: File, kind: MediaKind, options: ProviderRequestOptions): Promise<string>;
+  // Language of a media file's speech, or of a text sample such as subtitle cues
+  detectLanguage(source: File | string, options: ProviderRequestOptions): Promise<LanguageDetection | null>;
+}
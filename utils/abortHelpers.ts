@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+// Small pieces shared by every cancellable job. A cancelled job always rejects with an AbortError
+// DOMException so callers can tell "the user stopped it" apart from a real failure.
+
+export const abortError = () => new DOMException('The operation was cancelled.', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean => (error as any)?.name === 'AbortError';
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw abortError();
+}
+
+// setTimeout that rejects as soon as the signal fires, used for retry backoff
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const handleAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', handleAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', handleAbort, { once: true });
+  });
+}
+
+// Run `handler` once when the signal fires (immediately if it already has). Returns a detach function
+// to call when the job finishes normally.
+export function onAbort(signal: AbortSignal | undefined, handler: () => void): () => void {
+  if (!signal) return () => {};
+  if (signal.aborted) {
+    handler();
+    return () => {};
+  }
+  signal.addEventListener('abort', handler, { once: true });
+  return () => signal.removeEventListener('abort', handler);
+}
+
+// One cancellable job per component: `start` aborts any previous run and returns a fresh signal,
+// `cancel` stops the current one. Whatever is still running is cancelled on unmount.
+export function useAbortController() {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const start = useCallback((): AbortSignal => {
+    controllerRef.current?.abort();
+    controllerRef.current = new AbortController();
+    return controllerRef.current.signal;
+  }, []);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  }, []);
+
+  return { start, cancel };
+}
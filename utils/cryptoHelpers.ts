@@ -0,0 +1,48 @@
+// Passphrase-based encryption for values kept in localStorage: PBKDF2 derives an AES-GCM key,
+// and the salt and IV travel with the ciphertext.
+
+const PBKDF2_ITERATIONS = 250000;
+
+export interface EncryptedPayload {
+  salt: string; // base64
+  iv: string; // base64
+  data: string; // base64 ciphertext including the GCM tag
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => (binary += String.fromCharCode(b)));
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+async function deriveKey(passphrase: string, salt: Uint8Array): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export async function encryptText(text: string, passphrase: string): Promise<EncryptedPayload> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt);
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+  return { salt: toBase64(salt), iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+}
+
+// Returns null when the passphrase is wrong (the GCM tag does not verify)
+export async function decryptText(payload: EncryptedPayload, passphrase: string): Promise<string | null> {
+  try {
+    const key = await deriveKey(passphrase, fromBase64(payload.salt));
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, key, fromBase64(payload.data));
+    return new TextDecoder().decode(data);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,123 @@
+import { Subtitle } from '../types';
+import { wrapSubtitleText } from './qcHelpers';
+
+// Structural cue edits (split, merge, insert, re-flow). Operations that add or remove cues renumber
+// the list 1..n in order, so the ids shown in the editors match the sequence numbers generateSRT writes.
+
+const MIN_CUE_DURATION = 0.5;
+const DEFAULT_CUE_DURATION = 2;
+const INSERT_GAP = 0.1;
+
+// A copy of a cue's properties for a new cue: styling and VTT settings carry over, but a VTT
+// identifier must stay unique, so the new cue gets none
+function withoutIdentifier(sub: Subtitle): Subtitle {
+  if (!sub.vtt?.identifier) return sub;
+  const { identifier, ...vtt } = sub.vtt;
+  return { ...sub, vtt };
+}
+
+// Word timings belong to the text and times they were measured for, so a cue whose text or times
+// an edit changes drops them and they are estimated again
+function withoutWords(sub: Subtitle): Subtitle {
+  if (!sub.words) return sub;
+  const { words, ...rest } = sub;
+  return rest;
+}
+
+export function renumberSubtitles(subtitles: Subtitle[]): Subtitle[] {
+  return subtitles.map((sub, index) => (sub.id === index + 1 ? sub : { ...sub, id: index + 1 }));
+}
+
+// Where to break a cue when the caret is not inside it: the word boundary closest to the middle
+export function defaultSplitPosition(text: string): number {
+  const middle = text.length / 2;
+  let best = -1;
+  for (let i = 0; i < text.length; i++) {
+    if (/\s/.test(text[i]) && (best === -1 || Math.abs(i - middle) < Math.abs(best - middle))) best = i;
+  }
+  return best === -1 ? Math.floor(middle) : best;
+}
+
+// Split a cue at a character offset. The time is divided in proportion to the text on either side,
+// unless `atTime` (e.g. the playhead) falls inside the cue.
+export function splitSubtitle(subtitles: Subtitle[], id: number, position: number, atTime?: number): Subtitle[] {
+  const index = subtitles.findIndex(s => s.id === id);
+  if (index === -1) return subtitles;
+  const sub = subtitles[index];
+
+  const firstText = sub.text.slice(0, position).trim();
+  const secondText = sub.text.slice(position).trim();
+  if (!firstText || !secondText) return subtitles;
+
+  let splitTime: number;
+  if (atTime !== undefined && atTime > sub.startTime && atTime < sub.endTime) {
+    splitTime = atTime;
+  } else {
+    const ratio = firstText.length / (firstText.length + secondText.length);
+    splitTime = sub.startTime + (sub.endTime - sub.startTime) * ratio;
+  }
+  splitTime = Math.round(splitTime * 1000) / 1000;
+
+  const first: Subtitle = { ...withoutWords(sub), endTime: splitTime, text: firstText };
+  const second: Subtitle = { ...withoutWords(withoutIdentifier(sub)), startTime: splitTime, text: secondText };
+  return renumberSubtitles([...subtitles.slice(0, index), first, second, ...subtitles.slice(index + 1)]);
+}
+
+// Merge a cue with its neighbour; the result spans both and keeps the earlier cue's styling
+export function mergeSubtitles(subtitles: Subtitle[], id: number, direction: 'previous' | 'next'): Subtitle[] {
+  const index = subtitles.findIndex(s => s.id === id);
+  const firstIndex = direction === 'next' ? index : index - 1;
+  if (index === -1 || firstIndex < 0 || firstIndex + 1 >= subtitles.length) return subtitles;
+
+  const first = subtitles[firstIndex];
+  const second = subtitles[firstIndex + 1];
+  const merged: Subtitle = {
+    ...withoutWords(first),
+    startTime: Math.min(first.startTime, second.startTime),
+    endTime: Math.max(first.endTime, second.endTime),
+    text: `${first.text.trim()} ${second.text.trim()}`.replace(/[ \t]+/g, ' ').trim(),
+  };
+  return renumberSubtitles([...subtitles.slice(0, firstIndex), merged, ...subtitles.slice(firstIndex + 2)]);
+}
+
+// Insert a placeholder cue next to an existing one, fitted into the gap where there is room
+export function insertSubtitle(
+  subtitles: Subtitle[],
+  id: number,
+  position: 'before' | 'after',
+  text = 'New Subtitle'
+): Subtitle[] {
+  const index = subtitles.findIndex(s => s.id === id);
+  if (index === -1) return subtitles;
+  const sub = subtitles[index];
+
+  let startTime: number;
+  let endTime: number;
+  if (position === 'after') {
+    const next = subtitles[index + 1];
+    startTime = sub.endTime + INSERT_GAP;
+    const room = next ? next.startTime - INSERT_GAP - startTime : Infinity;
+    endTime = startTime + Math.max(MIN_CUE_DURATION, Math.min(DEFAULT_CUE_DURATION, room));
+  } else {
+    const prev = subtitles[index - 1];
+    endTime = Math.max(MIN_CUE_DURATION, sub.startTime - INSERT_GAP);
+    const earliest = prev ? prev.endTime + INSERT_GAP : 0;
+    startTime = Math.max(0, Math.min(endTime - MIN_CUE_DURATION, Math.max(earliest, endTime - DEFAULT_CUE_DURATION)));
+  }
+
+  // Inherit ASS/VTT cue properties so exports keep the surrounding style
+  const { id: _id, startTime: _start, endTime: _end, text: _text, ...props } = withoutWords(withoutIdentifier(sub));
+  const round = (seconds: number) => Math.round(seconds * 1000) / 1000;
+  const inserted: Subtitle = { ...props, id: 0, startTime: round(startTime), endTime: round(endTime), text };
+  const at = position === 'after' ? index + 1 : index;
+  return renumberSubtitles([...subtitles.slice(0, at), inserted, ...subtitles.slice(at)]);
+}
+
+// Re-wrap the line breaks of one cue, or of every cue when no id is given
+export function reflowSubtitles(subtitles: Subtitle[], maxChars: number, id?: number): Subtitle[] {
+  return subtitles.map(sub => {
+    if (id !== undefined && sub.id !== id) return sub;
+    const text = wrapSubtitleText(sub.text, maxChars);
+    return text === sub.text ? sub : { ...sub, text };
+  });
+}
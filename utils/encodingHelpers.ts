@@ -0,0 +1,312 @@
+// Character-set handling for subtitle files. Browsers only give us UTF-8 from File.text(),
+// so older releases in legacy code pages have to be sniffed and decoded by hand.
+
+export type TextEncodingId =
+  | 'utf-8'
+  | 'utf-16le'
+  | 'utf-16be'
+  | 'windows-1252'
+  | 'windows-1250'
+  | 'windows-1251'
+  | 'windows-1253'
+  | 'windows-1254'
+  | 'windows-1255'
+  | 'windows-1256'
+  | 'windows-874'
+  | 'iso-8859-2'
+  | 'iso-8859-5'
+  | 'iso-8859-7'
+  | 'iso-8859-15'
+  | 'shift_jis'
+  | 'gb18030'
+  | 'big5'
+  | 'euc-kr';
+
+export const TEXT_ENCODINGS: { id: TextEncodingId; label: string }[] = [
+  { id: 'utf-8', label: 'UTF-8' },
+  { id: 'utf-16le', label: 'UTF-16 LE' },
+  { id: 'utf-16be', label: 'UTF-16 BE' },
+  { id: 'windows-1252', label: 'Windows-1252 / ISO-8859-1 (Western European)' },
+  { id: 'iso-8859-15', label: 'ISO-8859-15 (Western European, Euro)' },
+  { id: 'windows-1250', label: 'Windows-1250 (Central European)' },
+  { id: 'iso-8859-2', label: 'ISO-8859-2 (Central European)' },
+  { id: 'windows-1251', label: 'Windows-1251 (Cyrillic)' },
+  { id: 'iso-8859-5', label: 'ISO-8859-5 (Cyrillic)' },
+  { id: 'windows-1253', label: 'Windows-1253 (Greek)' },
+  { id: 'iso-8859-7', label: 'ISO-8859-7 (Greek)' },
+  { id: 'windows-1254', label: 'Windows-1254 (Turkish)' },
+  { id: 'windows-1255', label: 'Windows-1255 (Hebrew)' },
+  { id: 'windows-1256', label: 'Windows-1256 (Arabic)' },
+  { id: 'windows-874', label: 'Windows-874 (Thai)' },
+  { id: 'shift_jis', label: 'Shift-JIS (Japanese)' },
+  { id: 'gb18030', label: 'GB18030 / GBK (Simplified Chinese)' },
+  { id: 'big5', label: 'Big5 (Traditional Chinese)' },
+  { id: 'euc-kr', label: 'EUC-KR (Korean)' },
+];
+
+export type ExportEncodingId =
+  | 'utf-8'
+  | 'utf-8-bom'
+  | 'utf-16le'
+  | 'windows-1252'
+  | 'iso-8859-1'
+  | 'windows-1250'
+  | 'windows-1251'
+  | 'shift_jis'
+  | 'gbk'
+  | 'big5'
+  | 'euc-kr';
+
+export const EXPORT_ENCODINGS: { id: ExportEncodingId; label: string }[] = [
+  { id: 'utf-8', label: 'UTF-8' },
+  { id: 'utf-8-bom', label: 'UTF-8 with BOM' },
+  { id: 'utf-16le', label: 'UTF-16 LE with BOM' },
+  { id: 'windows-1252', label: 'Windows-1252 (Western European)' },
+  { id: 'iso-8859-1', label: 'ISO-8859-1 (Latin-1)' },
+  { id: 'windows-1250', label: 'Windows-1250 (Central European)' },
+  { id: 'windows-1251', label: 'Windows-1251 (Cyrillic)' },
+  { id: 'shift_jis', label: 'Shift-JIS (Japanese)' },
+  { id: 'gbk', label: 'GBK (Simplified Chinese)' },
+  { id: 'big5', label: 'Big5 (Traditional Chinese)' },
+  { id: 'euc-kr', label: 'EUC-KR (Korean)' },
+];
+
+export function getEncodingLabel(id: TextEncodingId | ExportEncodingId): string {
+  return (TEXT_ENCODINGS.find(e => e.id === id) ?? EXPORT_ENCODINGS.find(e => e.id === id))?.label ?? id;
+}
+
+export interface EncodingDetection {
+  encoding: TextEncodingId;
+  confident: boolean; // false when the result is a statistical guess between legacy code pages
+}
+
+// Legacy encodings we try when the bytes are not valid UTF-8, in tie-break order
+const SINGLE_BYTE_CANDIDATES: TextEncodingId[] = [
+  'windows-1252',
+  'windows-1250',
+  'windows-1251',
+  'windows-1253',
+  'windows-1254',
+  'windows-1255',
+  'windows-1256',
+  'windows-874',
+];
+const MULTI_BYTE_CANDIDATES: TextEncodingId[] = ['shift_jis', 'gb18030', 'euc-kr'];
+
+// The most frequent letters of each single-byte script. Every legacy code page decodes to
+// *some* letters, so frequency is what tells Greek read as Greek from Greek read as Cyrillic
+const COMMON_LETTERS = new Set([
+  ...'\u043E\u0435\u0430\u0438\u043D\u0442\u0441\u0440\u0432\u043B\u043A\u043C\u0434\u043F\u0443\u044F\u044B\u044C', // Russian
+  ...'\u03B1\u03BF\u03B5\u03C4\u03B9\u03BD\u03C3\u03C1\u03BA\u03C0\u03BB\u03BC\u03C5\u03AC\u03AD\u03AF\u03CC\u03AE\u03C2', // Greek
+  ...'\u05D9\u05D5\u05D4\u05DC\u05D0\u05E8\u05DE\u05D1\u05E0\u05E9\u05EA\u05DB\u05DD\u05DF\u05DA\u05E2', // Hebrew
+  ...'\u0627\u0644\u064A\u0645\u0648\u0646\u0647\u0631\u062A\u0628\u0639\u0641\u062F\u0643\u0633\u0642', // Arabic
+  ...'\u0E32\u0E19\u0E23\u0E2D\u0E01\u0E07\u0E21\u0E40\u0E14\u0E22\u0E27\u0E17\u0E2A\u0E25\u0E1A\u0E04', // Thai
+]);
+
+// The most frequent Chinese characters. Any pair of high bytes decodes to *an* ideograph under
+// GB18030, but only real Chinese text is dense in these
+const COMMON_IDEOGRAPHS = new Set([
+  ...'\u7684\u4E00\u662F\u4E0D\u4E86\u5728\u4EBA\u6709\u6211\u4ED6\u8FD9\u4E2A\u4EEC\u4E2D\u6765\u4E0A\u5927\u4E3A\u548C\u56FD\u5730\u5230\u4EE5\u8BF4\u65F6',
+  ...'\u8981\u5C31\u51FA\u4F1A\u53EF\u4E5F\u4F60\u5BF9\u751F\u80FD\u800C\u5B50\u90A3\u5F97\u4E8E\u7740\u4E0B\u81EA\u4E4B\u5E74\u8FC7\u53D1\u540E\u4F5C\u91CC',
+  ...'\u7528\u9053\u884C\u6240\u7136\u5BB6\u79CD\u4E8B\u6210\u65B9\u591A\u7ECF\u4E48\u53BB\u6CD5\u5B66\u5982\u90FD\u540C\u73B0\u5F53\u6CA1\u52A8\u9762\u8D77',
+  ...'\u770B\u5B9A\u5929\u5206\u8FD8\u8FDB\u597D\u5C0F\u90E8\u5176\u4E9B\u4E3B\u6837\u7406\u5FC3\u5979\u672C\u524D\u5F00\u4F46\u56E0\u53EA\u4ECE\u60F3\u5B9E',
+  ...'\u65E5\u519B\u8005\u610F\u65E0\u529B\u5B83\u4E0E\u957F\u628A\u673A\u5341\u6C11\u7B2C\u516C\u6B64\u5DF2\u5DE5\u4F7F\u60C5\u660E\u6027\u77E5\u5168\u4E09',
+  ...'\u53C8\u5173\u70B9\u6B63\u4E1A\u5916\u5C06\u4E24\u9AD8\u95F4\u7531\u95EE\u5F88\u6700\u91CD\u5E76\u7269\u624B\u5E94\u6218\u5411\u5934\u6587\u4F53',
+]);
+
+function isAsciiLetter(char: string | undefined): boolean {
+  return !!char && /[A-Za-z]/.test(char);
+}
+
+// Rough plausibility score for decoded text: higher means it looks more like real subtitle text
+function scoreDecodedText(text: string): number {
+  let score = 0;
+  let hangul = 0;
+  let ideographs = 0;
+  let commonIdeographs = 0;
+  const chars = Array.from(text);
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) continue;
+    const besideAscii = isAsciiLetter(chars[i - 1]) || isAsciiLetter(chars[i + 1]);
+    if (code === 0xfffd || (code >= 0x80 && code <= 0x9f) || (code >= 0xe000 && code <= 0xf8ff)) {
+      score -= 5;
+    } else if (code >= 0xff61 && code <= 0xff9f) {
+      // Half-width katakana are rare in subtitles but are what Latin bytes turn into under Shift-JIS
+      score -= 2;
+    } else if (code >= 0x3040 && code <= 0x30ff) {
+      score += 5; // Kana
+    } else if (code >= 0xac00 && code <= 0xd7af) {
+      hangul++;
+    } else if (code >= 0x4e00 && code <= 0x9fff) {
+      // Latin text read as GB18030 pairs accented letters with their neighbours into ideographs
+      if (besideAscii) {
+        score -= 2;
+      } else {
+        ideographs++;
+        if (COMMON_IDEOGRAPHS.has(char)) commonIdeographs++;
+      }
+    } else if (/\p{M}/u.test(char)) {
+      continue; // Thai and Hebrew vowel marks
+    } else if (/\p{L}/u.test(char)) {
+      if (code <= 0x24f) {
+        // Accented Latin letters normally sit inside otherwise-ASCII words; long runs of them
+        // are the signature of Cyrillic, Greek or CJK bytes read as Western European
+        score += besideAscii ? 1 : 0;
+      } else {
+        // Cyrillic, Greek, Arabic etc. glued to ASCII letters means Latin text in the wrong code page
+        score += besideAscii ? -1 : COMMON_LETTERS.has(char) ? 2 : 1;
+      }
+    } else if (!/[\s\p{P}\u2000-\u206F\u20AC]/u.test(char)) {
+      score -= 1; // Stray symbols such as superscripts and currency signs
+    }
+  }
+  // Double-byte characters count for about as much as the two single-byte letters they would otherwise be.
+  // Korean rarely mixes in Hanja, whereas Chinese bytes read as EUC-KR come out half Hangul, half Hanja
+  score += ideographs + commonIdeographs * 5 + hangul * (ideographs > hangul * 0.2 ? 2 : 5);
+  return score;
+}
+
+function tryDecode(bytes: Uint8Array, encoding: string): string | null {
+  try {
+    return new TextDecoder(encoding, { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+// UTF-16 without a BOM still shows up as a zero byte next to almost every ASCII character
+function detectBomlessUtf16(bytes: Uint8Array): TextEncodingId | null {
+  const sample = bytes.subarray(0, Math.min(bytes.length, 4096));
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] === 0) {
+      if (i % 2 === 0) evenZeros++;
+      else oddZeros++;
+    }
+  }
+  const half = sample.length / 2;
+  if (oddZeros > half * 0.3 && evenZeros < half * 0.05) return 'utf-16le';
+  if (evenZeros > half * 0.3 && oddZeros < half * 0.05) return 'utf-16be';
+  return null;
+}
+
+export function detectEncoding(bytes: Uint8Array): EncodingDetection {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return { encoding: 'utf-8', confident: true };
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return { encoding: 'utf-16le', confident: true };
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return { encoding: 'utf-16be', confident: true };
+
+  const utf16 = detectBomlessUtf16(bytes);
+  if (utf16) return { encoding: utf16, confident: true };
+
+  // Legacy multi-byte text is almost never valid UTF-8 by accident, so a clean decode settles it
+  if (tryDecode(bytes, 'utf-8') !== null) return { encoding: 'utf-8', confident: true };
+
+  let best: { encoding: TextEncodingId; score: number } | null = null;
+  for (const encoding of [...SINGLE_BYTE_CANDIDATES, ...MULTI_BYTE_CANDIDATES]) {
+    const text = tryDecode(bytes, encoding);
+    if (text === null) continue;
+    const score = scoreDecodedText(text);
+    if (!best || score > best.score) best = { encoding, score };
+  }
+  return { encoding: best?.encoding ?? 'windows-1252', confident: false };
+}
+
+export function decodeText(bytes: Uint8Array, encoding: TextEncodingId): string {
+  // TextDecoder drops a matching BOM itself
+  return new TextDecoder(encoding).decode(bytes);
+}
+
+export interface DecodedTextFile {
+  text: string;
+  encoding: TextEncodingId; // encoding actually used
+  detected: EncodingDetection;
+}
+
+// Read an uploaded text file, sniffing its encoding unless the user picked one
+export async function readTextFile(file: File, encoding: TextEncodingId | 'auto' = 'auto'): Promise<DecodedTextFile> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const detected = detectEncoding(bytes);
+  const used = encoding === 'auto' ? detected.encoding : encoding;
+  return { text: decodeText(bytes, used), encoding: used, detected };
+}
+
+// Reverse lookup tables (character -> bytes) for legacy code pages, built once from TextDecoder
+const encoderTables = new Map<string, Map<string, number[]>>();
+
+function getEncoderTable(encoding: string): Map<string, number[]> {
+  let table = encoderTables.get(encoding);
+  if (table) return table;
+
+  table = new Map();
+  const decoder = new TextDecoder(encoding);
+  const add = (bytes: number[]) => {
+    const char = decoder.decode(new Uint8Array(bytes));
+    // Keep the first (shortest) byte sequence for each character
+    if (char.length > 0 && !char.includes('\uFFFD') && Array.from(char).length === 1 && !table!.has(char)) {
+      table!.set(char, bytes);
+    }
+  };
+
+  for (let byte = 0x80; byte <= 0xff; byte++) add([byte]);
+  if (['shift_jis', 'gbk', 'big5', 'euc-kr'].includes(encoding)) {
+    for (let lead = 0x81; lead <= 0xfe; lead++) {
+      for (let trail = 0x40; trail <= 0xfe; trail++) add([lead, trail]);
+    }
+  }
+
+  encoderTables.set(encoding, table);
+  return table;
+}
+
+export interface EncodedText {
+  bytes: Uint8Array;
+  unmappable: number; // characters replaced with '?' because the target encoding lacks them
+}
+
+export function encodeText(text: string, encoding: ExportEncodingId): EncodedText {
+  if (encoding === 'utf-8' || encoding === 'utf-8-bom') {
+    const body = new TextEncoder().encode(text);
+    if (encoding === 'utf-8') return { bytes: body, unmappable: 0 };
+    const bytes = new Uint8Array(body.length + 3);
+    bytes.set([0xef, 0xbb, 0xbf]);
+    bytes.set(body, 3);
+    return { bytes, unmappable: 0 };
+  }
+
+  if (encoding === 'utf-16le') {
+    const bytes = new Uint8Array(2 + text.length * 2);
+    bytes.set([0xff, 0xfe]);
+    for (let i = 0; i < text.length; i++) {
+      const unit = text.charCodeAt(i);
+      bytes[2 + i * 2] = unit & 0xff;
+      bytes[3 + i * 2] = unit >> 8;
+    }
+    return { bytes, unmappable: 0 };
+  }
+
+  // Most players choke on a lone LF in legacy files, so normalise line endings too
+  const source = text.replace(/\r?\n/g, '\r\n');
+  const table = encoding === 'iso-8859-1' ? null : getEncoderTable(encoding);
+  const out: number[] = [];
+  let unmappable = 0;
+
+  for (const char of source) {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) {
+      out.push(code);
+    } else if (!table) {
+      // ISO-8859-1 maps code points 0-255 straight to bytes
+      if (code <= 0xff) out.push(code);
+      else { out.push(0x3f); unmappable++; }
+    } else {
+      const bytes = table.get(char);
+      if (bytes) out.push(...bytes);
+      else { out.push(0x3f); unmappable++; }
+    }
+  }
+
+  return { bytes: new Uint8Array(out), unmappable };
+}
@@ -0,0 +1,350 @@
+import { Glossary, GlossaryTerm, GlossaryViolation, Subtitle, TranslationGlossary } from '../types';
+import { normalizeLanguageCode, sameLanguage, UNDETERMINED_LANGUAGE } from './languageHelpers';
+
+// Glossary terms in translation requests: matching them in text, the instructions given to the
+// model, the check that the translation followed them, and CSV/TBX import and export.
+
+export const NO_GLOSSARY: TranslationGlossary = { terms: [], doNotTranslate: [] };
+
+export const isGlossaryEmpty = (glossary: TranslationGlossary) =>
+  glossary.terms.length === 0 && glossary.doNotTranslate.length === 0;
+
+export const newTermId = () => Math.random().toString(36).slice(2, 10);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Scripts written without spaces between words, where a term is matched anywhere in the text
+const UNSPACED = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+
+// Whole words only, so "Pro" does not match inside "Product"
+function termPattern(term: string, caseSensitive: boolean): RegExp {
+  const trimmed = term.trim();
+  const before = UNSPACED.test(trimmed[0] ?? '') ? '' : '(?<![\\p{L}\\p{N}])';
+  const after = UNSPACED.test(trimmed[trimmed.length - 1] ?? '') ? '' : '(?![\\p{L}\\p{N}])';
+  const flags = caseSensitive ? 'gu' : 'giu';
+  return new RegExp(`${before}${escapeRegExp(trimmed).replace(/\s+/g, '\\s+')}${after}`, flags);
+}
+
+export const containsTerm = (text: string, term: string, caseSensitive = false): boolean =>
+  term.trim() !== '' && termPattern(term, caseSensitive).test(text);
+
+// Like termPattern, but each word may also end differently, so an inflected translation ("Kunden" for
+// "Kunde", "компании" for "компания") counts as following the glossary. Short words get shorter endings.
+function termFormPattern(term: string): RegExp {
+  const trimmed = term.trim();
+  if (UNSPACED.test(trimmed)) return termPattern(trimmed, false);
+  const words = trimmed.split(/\s+/).map(word => {
+    const stem = word.length >= 5 && /\p{L}$/u.test(word) ? word.slice(0, -1) : word;
+    return `${escapeRegExp(stem)}\\p{L}{0,${Math.min(4, Math.ceil(word.length / 2))}}`;
+  });
+  return new RegExp(`(?<![\\p{L}\\p{N}])${words.join('\\s+')}(?![\\p{L}\\p{N}])`, 'iu');
+}
+
+const containsTermForm = (text: string, term: string): boolean =>
+  term.trim() !== '' && termFormPattern(term).test(text);
+
+// Replace every occurrence of `term`, e.g. to apply the glossary to placeholder output
+export const replaceTerm = (text: string, term: string, replacement: string): string =>
+  term.trim() === '' ? text : text.replace(termPattern(term, false), () => replacement);
+
+// Terms for a language pair. An undetermined source (auto-detect that has not finished) takes
+// the terms of every source language; the same source term is only listed once.
+export function glossaryForPair(glossary: Glossary, sourceLanguage: string | undefined, targetLanguage: string): TranslationGlossary {
+  const anySource = normalizeLanguageCode(sourceLanguage) === UNDETERMINED_LANGUAGE;
+  const seen = new Set<string>();
+  const terms = glossary.terms
+    .filter(t => sameLanguage(t.targetLanguage, targetLanguage) && (anySource || sameLanguage(t.sourceLanguage, sourceLanguage)))
+    .filter(t => {
+      const key = t.source.trim().toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map(({ source, target }) => ({ source: source.trim(), target: target.trim() }));
+  return { terms, doNotTranslate: glossary.doNotTranslate.map(t => t.trim()).filter(Boolean) };
+}
+
+// Only the entries that occur in `text`, so a batch of cues carries no irrelevant terms
+export const glossaryForText = (glossary: TranslationGlossary, text: string): TranslationGlossary => ({
+  terms: glossary.terms.filter(t => containsTerm(text, t.source)),
+  doNotTranslate: glossary.doNotTranslate.filter(term => containsTerm(text, term)),
+});
+
+// Prompt lines every provider adds to a translation request; empty when there is nothing to enforce
+export function glossaryInstructions(glossary: TranslationGlossary): string {
+  if (isGlossaryEmpty(glossary)) return '';
+  const lines = ['Glossary (mandatory, applies to every occurrence including inflected forms):'];
+  glossary.terms.forEach(t => lines.push(`- "${t.source}" must be translated as "${t.target}"`));
+  if (glossary.doNotTranslate.length > 0) {
+    lines.push(`Never translate or transliterate these names; keep them exactly as written: ${glossary.doNotTranslate.map(t => `"${t}"`).join(', ')}`);
+  }
+  return lines.join('\n');
+}
+
+// Cues whose original uses a glossary term that the translation does not render as required, in any
+// inflected form. Do-not-translate names must appear with their exact spelling and capitalisation.
+export function checkGlossaryCues(originals: Subtitle[], translated: Subtitle[], glossary: TranslationGlossary): GlossaryViolation[] {
+  if (isGlossaryEmpty(glossary)) return [];
+  const originalById = new Map(originals.map(sub => [sub.id, sub]));
+  const violations: GlossaryViolation[] = [];
+  translated.forEach(sub => {
+    const original = originalById.get(sub.id);
+    if (!original) return;
+    glossary.terms.forEach(t => {
+      if (containsTerm(original.text, t.source) && !containsTermForm(sub.text, t.target)) {
+        violations.push({ cueId: sub.id, kind: 'term', term: t.source, expected: t.target });
+      }
+    });
+    glossary.doNotTranslate.forEach(term => {
+      if (containsTerm(original.text, term) && !containsTerm(sub.text, term, true)) {
+        violations.push({ cueId: sub.id, kind: 'doNotTranslate', term, expected: term });
+      }
+    });
+  });
+  return violations;
+}
+
+const sameTerm = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// A translation of speech has no source text to compare with, so only terms left in the source
+// language can be caught: a paragraph using a source term instead of its required translation
+export function checkGlossaryText(text: string, glossary: TranslationGlossary): GlossaryViolation[] {
+  const violations: GlossaryViolation[] = [];
+  text.split(/\n\s*\n|\n/).filter(p => p.trim()).forEach((paragraph, index) => {
+    glossary.terms.forEach(t => {
+      if (sameTerm(t.source, t.target) || !containsTerm(paragraph, t.source) || containsTermForm(paragraph, t.target)) return;
+      violations.push({ cueId: index + 1, kind: 'term', term: t.source, expected: t.target });
+    });
+  });
+  return violations;
+}
+
+// --- CSV ---
+
+const CSV_HEADER = ['source_language', 'source', 'target_language', 'target', 'do_not_translate'];
+
+// Alternative column names used by spreadsheets and other tools' glossary exports
+const CSV_COLUMNS: Record<string, string> = {
+  source_language: 'source_language', source_lang: 'source_language', src_lang: 'source_language',
+  source: 'source', source_term: 'source', term: 'source', src: 'source',
+  target_language: 'target_language', target_lang: 'target_language', tgt_lang: 'target_language',
+  target: 'target', target_term: 'target', translation: 'target', tgt: 'target',
+  do_not_translate: 'do_not_translate', dnt: 'do_not_translate', translatable: 'translatable',
+};
+
+const YES = /^(yes|y|true|1|x)$/i;
+const NO = /^(no|n|false|0)$/i;
+
+const csvCell = (value: string) => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export function formatGlossaryCsv(glossary: Glossary): string {
+  const rows = [
+    CSV_HEADER,
+    ...glossary.terms.map(t => [t.sourceLanguage, t.source, t.targetLanguage, t.target, '']),
+    ...glossary.doNotTranslate.map(term => ['', term, '', '', 'yes']),
+  ];
+  return rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+// Spreadsheets in some locales save with semicolons or tabs instead of commas
+function detectDelimiter(firstLine: string): string {
+  const counts = [',', ';', '\t'].map(d => ({ d, count: firstLine.split(d).length }));
+  return counts.sort((a, b) => b.count - a.count)[0].d;
+}
+
+function parseCsvRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+}
+
+export interface LanguagePair {
+  sourceLanguage: string;
+  targetLanguage: string;
+}
+
+// Rows without languages, e.g. a two-column "term,translation" sheet, take the `defaults` pair.
+// Without a header the columns are read as source, target.
+export function parseGlossaryCsv(text: string, defaults?: LanguagePair): Glossary {
+  const clean = text.replace(/^\uFEFF/, '');
+  const rows = parseCsvRows(clean, detectDelimiter(clean.split(/\r?\n/)[0] ?? ''));
+  if (rows.length === 0) throw new Error('The CSV file is empty.');
+
+  const header = rows[0].map(c => CSV_COLUMNS[c.trim().toLowerCase().replace(/[\s-]+/g, '_')]);
+  const hasHeader = header.includes('source');
+  const columns = hasHeader ? header : ['source', 'target'];
+  const glossary: Glossary = { terms: [], doNotTranslate: [] };
+
+  rows.slice(hasHeader ? 1 : 0).forEach((cells, index) => {
+    const value = (name: string) => (cells[columns.indexOf(name)] ?? '').trim();
+    const source = value('source');
+    if (!source) return;
+    if (YES.test(value('do_not_translate')) || NO.test(value('translatable'))) {
+      glossary.doNotTranslate.push(source);
+      return;
+    }
+    const target = value('target');
+    if (!target) return;
+    const sourceLanguage = value('source_language') || defaults?.sourceLanguage;
+    const targetLanguage = value('target_language') || defaults?.targetLanguage;
+    if (!sourceLanguage || !targetLanguage) {
+      throw new Error(`Row ${index + (hasHeader ? 2 : 1)} has no source or target language.`);
+    }
+    glossary.terms.push({
+      id: newTermId(),
+      sourceLanguage: normalizeLanguageCode(sourceLanguage),
+      targetLanguage: normalizeLanguageCode(targetLanguage),
+      source,
+      target,
+    });
+  });
+  return glossary;
+}
+
+// --- TBX ---
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const langSec = (language: string, term: string, note = '') =>
+  `        <langSec xml:lang="${escapeXml(language)}"><termSec><term>${escapeXml(term)}</term>${note}</termSec></langSec>`;
+
+// TBX-Basic (ISO 30042:2019). A concept holds one source term and all its translations; names
+// that must not be translated are single-language concepts marked as not translatable.
+export function formatGlossaryTbx(glossary: Glossary): string {
+  const concepts = new Map<string, GlossaryTerm[]>();
+  glossary.terms.forEach(t => {
+    const key = `${t.sourceLanguage}|${t.source.trim().toLowerCase()}`;
+    concepts.set(key, [...(concepts.get(key) ?? []), t]);
+  });
+  const sourceCounts = new Map<string, number>();
+  glossary.terms.forEach(t => sourceCounts.set(t.sourceLanguage, (sourceCounts.get(t.sourceLanguage) ?? 0) + 1));
+  const mainLanguage = [...sourceCounts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 'en';
+
+  let id = 0;
+  const entries: string[] = [];
+  concepts.forEach(terms => {
+    const [first] = terms;
+    entries.push(
+      `      <conceptEntry id="c${++id}">`,
+      langSec(first.sourceLanguage, first.source),
+      ...terms.map(t => langSec(t.targetLanguage, t.target)),
+      '      </conceptEntry>'
+    );
+  });
+  glossary.doNotTranslate.forEach(term => {
+    entries.push(
+      `      <conceptEntry id="c${++id}">`,
+      langSec(mainLanguage, term, '<termNote type="translatable">no</termNote>'),
+      '      </conceptEntry>'
+    );
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tbx type="TBX-Basic" style="dca" xml:lang="${escapeXml(mainLanguage)}" xmlns="urn:iso:std:iso:30042:ed-2">`,
+    '  <tbxHeader>',
+    '    <fileDesc><sourceDesc><p>QuickScribe AI glossary</p></sourceDesc></fileDesc>',
+    '  </tbxHeader>',
+    '  <text>',
+    '    <body>',
+    ...entries,
+    '    </body>',
+    '  </text>',
+    '</tbx>',
+    '',
+  ].join('\n');
+}
+
+const XML_NS = 'http://www.w3.org/XML/1998/namespace';
+const languageOf = (element: Element) => element.getAttributeNS(XML_NS, 'lang') || element.getAttribute('xml:lang') || '';
+const childrenNamed = (element: Element, ...names: string[]) =>
+  Array.from(element.getElementsByTagName('*')).filter(child => names.includes(child.localName));
+
+// Reads TBX 2019 (conceptEntry/langSec/termSec) and the older martif TBX (termEntry/langSet/tig).
+// The file's xml:lang is the source language when an entry has it, otherwise the entry's first
+// language; every other language in the entry becomes a translation of it.
+export function parseGlossaryTbx(content: string): Glossary {
+  const xml = new DOMParser().parseFromString(content.replace(/^\uFEFF/, ''), 'application/xml');
+  if (xml.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid TBX file. The XML could not be read.');
+  }
+  const fileLanguage = normalizeLanguageCode(languageOf(xml.documentElement));
+  const glossary: Glossary = { terms: [], doNotTranslate: [] };
+
+  childrenNamed(xml.documentElement, 'conceptEntry', 'termEntry').forEach(entry => {
+    const languages = childrenNamed(entry, 'langSec', 'langSet')
+      .map(section => ({
+        language: normalizeLanguageCode(languageOf(section)),
+        term: childrenNamed(section, 'term')[0]?.textContent?.trim() ?? '',
+        notTranslatable: childrenNamed(section, 'termNote').some(note =>
+          note.getAttribute('type') === 'translatable' && NO.test(note.textContent?.trim() ?? '')),
+      }))
+      .filter(l => l.term);
+    if (languages.length === 0) return;
+
+    if (languages.some(l => l.notTranslatable)) {
+      glossary.doNotTranslate.push(languages[0].term);
+      return;
+    }
+    const source = languages.find(l => l.language === fileLanguage) ?? languages[0];
+    languages
+      .filter(l => l !== source)
+      .forEach(l => glossary.terms.push({
+        id: newTermId(),
+        sourceLanguage: source.language,
+        targetLanguage: l.language,
+        source: source.term,
+        target: l.term,
+      }));
+  });
+  return glossary;
+}
+
+// Imported entries replace existing ones for the same pair and source term
+export function mergeGlossaries(current: Glossary, imported: Glossary): Glossary {
+  const key = (t: GlossaryTerm) => `${t.sourceLanguage}|${t.targetLanguage}|${t.source.trim().toLowerCase()}`;
+  const importedKeys = new Set(imported.terms.map(key));
+  const dnt = new Map([...current.doNotTranslate, ...imported.doNotTranslate].map(t => [t.trim().toLowerCase(), t.trim()]));
+  return {
+    terms: [...current.terms.filter(t => !importedKeys.has(key(t))), ...imported.terms],
+    doNotTranslate: [...dnt.values()],
+  };
+}
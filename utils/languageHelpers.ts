@@ -0,0 +1,133 @@
+import { LanguageDetection, TranscriptSegment } from '../types';
+
+// Spoken/written language identification results: ISO 639 codes, their display names, mixing
+// per-chunk or per-segment results and comparing a detected language with a translation target.
+
+export const UNDETERMINED_LANGUAGE = 'und'; // ISO 639-2 "undetermined"
+export const LOW_CONFIDENCE = 0.6; // below this a detection is flagged for the user to check
+
+// ISO 639-1 codes of the languages the tools offer, plus other common ones providers report
+const LANGUAGE_NAMES: Record<string, string> = {
+  af: 'Afrikaans', ar: 'Arabic', bg: 'Bulgarian', bn: 'Bengali', ca: 'Catalan', cs: 'Czech',
+  cy: 'Welsh', da: 'Danish', de: 'German', el: 'Greek', en: 'English', es: 'Spanish',
+  et: 'Estonian', fa: 'Persian', fi: 'Finnish', fil: 'Filipino', fr: 'French', ga: 'Irish',
+  gu: 'Gujarati', he: 'Hebrew', hi: 'Hindi', hr: 'Croatian', hu: 'Hungarian', hy: 'Armenian',
+  id: 'Indonesian', is: 'Icelandic', it: 'Italian', ja: 'Japanese', ka: 'Georgian', kk: 'Kazakh',
+  km: 'Khmer', kn: 'Kannada', ko: 'Korean', lt: 'Lithuanian', lv: 'Latvian', mk: 'Macedonian',
+  ml: 'Malayalam', mr: 'Marathi', ms: 'Malay', my: 'Burmese', ne: 'Nepali', nl: 'Dutch',
+  no: 'Norwegian', pa: 'Punjabi', pl: 'Polish', pt: 'Portuguese', ro: 'Romanian', ru: 'Russian',
+  sk: 'Slovak', sl: 'Slovenian', sq: 'Albanian', sr: 'Serbian', sv: 'Swedish', sw: 'Swahili',
+  ta: 'Tamil', te: 'Telugu', th: 'Thai', tl: 'Tagalog', tr: 'Turkish', uk: 'Ukrainian',
+  ur: 'Urdu', uz: 'Uzbek', vi: 'Vietnamese', zh: 'Chinese', zu: 'Zulu',
+};
+
+// Names and three-letter codes providers use instead of the two-letter code
+const ALIASES: Record<string, string> = {
+  eng: 'en', spa: 'es', fra: 'fr', fre: 'fr', deu: 'de', ger: 'de', ita: 'it', por: 'pt',
+  nld: 'nl', dut: 'nl', rus: 'ru', zho: 'zh', chi: 'zh', jpn: 'ja', kor: 'ko', ara: 'ar',
+  hin: 'hi', tur: 'tr', pol: 'pl', ukr: 'uk', vie: 'vi', tha: 'th', ind: 'id', ben: 'bn',
+  mandarin: 'zh', cantonese: 'zh', farsi: 'fa', 'chinese (simplified)': 'zh', 'chinese (traditional)': 'zh',
+  'brazilian portuguese': 'pt', iw: 'he', nb: 'no', nn: 'no',
+};
+
+const CODES_BY_NAME = Object.fromEntries(Object.entries(LANGUAGE_NAMES).map(([code, name]) => [name.toLowerCase(), code]));
+
+// "en", "en-US", "eng", "English" and "english" all become "en"; anything unrecognised is kept
+// lower-cased so two unknown values can still be compared. "auto" (not detected yet) is undetermined.
+export function normalizeLanguageCode(value: string | undefined | null): string {
+  const raw = (value || '').trim().toLowerCase();
+  if (!raw || raw === 'unknown' || raw === 'detected' || raw === 'auto') return UNDETERMINED_LANGUAGE;
+  if (LANGUAGE_NAMES[raw]) return raw;
+  if (ALIASES[raw]) return ALIASES[raw];
+  if (CODES_BY_NAME[raw]) return CODES_BY_NAME[raw];
+  const base = raw.split(/[-_]/)[0];
+  if (LANGUAGE_NAMES[base]) return base;
+  return ALIASES[base] ?? raw;
+}
+
+// Every language with a known name, alphabetically, for pickers that are not tied to one provider
+export const KNOWN_LANGUAGES: { code: string; name: string }[] = Object.entries(LANGUAGE_NAMES)
+  .map(([code, name]) => ({ code, name }))
+  .sort((a, b) => a.name.localeCompare(b.name));
+
+export function languageName(code: string): string {
+  const normalized = normalizeLanguageCode(code);
+  if (normalized === UNDETERMINED_LANGUAGE) return 'Unknown';
+  return LANGUAGE_NAMES[normalized] ?? code;
+}
+
+// Both sides may be a code or a display name ("es" vs "Spanish"); undetermined never matches
+export function sameLanguage(a: string | undefined, b: string | undefined): boolean {
+  const left = normalizeLanguageCode(a);
+  return left !== UNDETERMINED_LANGUAGE && left === normalizeLanguageCode(b);
+}
+
+const clampConfidence = (value: unknown): number | undefined => {
+  const number = Number(value);
+  if (!Number.isFinite(number)) return undefined;
+  // Some models answer in percent
+  return Math.min(1, Math.max(0, number > 1 ? number / 100 : number));
+};
+
+// A detection from a model reply, which may carry a code, a name or both
+export function toLanguageDetection(raw: any): LanguageDetection | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const code = normalizeLanguageCode(raw.code || raw.name);
+  if (code === UNDETERMINED_LANGUAGE) return null;
+  const confidence = clampConfidence(raw.confidence);
+  return {
+    code,
+    name: LANGUAGE_NAMES[code] ?? (typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : code),
+    ...(confidence !== undefined ? { confidence } : {}),
+  };
+}
+
+export interface LanguageShare {
+  code: string;
+  name: string;
+  share: number; // 0–1, by amount of text
+}
+
+// How much of the transcript is in each language, largest first
+export function languageMix(segments: TranscriptSegment[]): LanguageShare[] {
+  const totals = new Map<string, number>();
+  let total = 0;
+  segments.forEach(segment => {
+    if (!segment.language) return;
+    const length = segment.text.length;
+    totals.set(segment.language, (totals.get(segment.language) ?? 0) + length);
+    total += length;
+  });
+  if (total === 0) return [];
+  return [...totals.entries()]
+    .map(([code, length]) => ({ code, name: languageName(code), share: length / total }))
+    .sort((a, b) => b.share - a.share);
+}
+
+// One detection from several (per chunk, or per sample), each weighted by how much speech it
+// covered. The winner's confidence is lowered by the share the other languages took.
+export function mergeDetections(parts: { detection: LanguageDetection | undefined; weight: number }[]): LanguageDetection | undefined {
+  const byCode = new Map<string, { detection: LanguageDetection; weight: number; confidence: number; rated: number }>();
+  let total = 0;
+  parts.forEach(({ detection, weight }) => {
+    if (!detection || weight <= 0) return;
+    const entry = byCode.get(detection.code) ?? { detection, weight: 0, confidence: 0, rated: 0 };
+    entry.weight += weight;
+    if (detection.confidence !== undefined) {
+      entry.confidence += detection.confidence * weight;
+      entry.rated += weight;
+    }
+    byCode.set(detection.code, entry);
+    total += weight;
+  });
+  const best = [...byCode.values()].sort((a, b) => b.weight - a.weight)[0];
+  if (!best) return undefined;
+  const { code, name } = best.detection;
+  if (best.rated === 0) return { code, name };
+  return { code, name, confidence: (best.confidence / best.rated) * (best.weight / total) };
+}
+
+// "English (97%)"; the percentage is left out when the provider gave no estimate
+export function formatDetection(detection: LanguageDetection): string {
+  return detection.confidence === undefined ? detection.name : `${detection.name} (${Math.round(detection.confidence * 100)}%)`;
+}
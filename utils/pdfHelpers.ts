@@ -0,0 +1,360 @@
+import { jsPDF } from 'jspdf';
+import { Subtitle } from '../types';
+
+// Scripts we ship a Noto font for. 'latin' uses jsPDF's built-in Helvetica and needs no download.
+export type PdfScript =
+  | 'latin'
+  | 'extended-latin'
+  | 'arabic'
+  | 'bengali'
+  | 'devanagari'
+  | 'thai'
+  | 'chinese'
+  | 'japanese'
+  | 'korean';
+
+interface PdfFont {
+  family: string;
+  file: string;
+  // Lazy so that the multi-megabyte CJK fonts are only fetched when a document needs them
+  load: () => Promise<{ default: string }>;
+}
+
+const PDF_FONTS: Record<Exclude<PdfScript, 'latin'>, PdfFont> = {
+  'extended-latin': {
+    family: 'NotoSans',
+    file: 'NotoSans_400Regular.ttf',
+    load: () => import('@expo-google-fonts/noto-sans/400Regular/NotoSans_400Regular.ttf?url'),
+  },
+  arabic: {
+    family: 'NotoSansArabic',
+    file: 'NotoSansArabic_400Regular.ttf',
+    load: () => import('@expo-google-fonts/noto-sans-arabic/400Regular/NotoSansArabic_400Regular.ttf?url'),
+  },
+  bengali: {
+    family: 'NotoSansBengali',
+    file: 'NotoSansBengali_400Regular.ttf',
+    load: () => import('@expo-google-fonts/noto-sans-bengali/400Regular/NotoSansBengali_400Regular.ttf?url'),
+  },
+  devanagari: {
+    family: 'NotoSansDevanagari',
+    file: 'NotoSansDevanagari_400Regular.ttf',
+    load: () => import('@expo-google-fonts/noto-sans-devanagari/400Regular/NotoSansDevanagari_400Regular.ttf?url'),
+  },
+  thai: {
+    family: 'NotoSansThai',
+    file: 'NotoSansThai_400Regular.ttf',
+    load: () => import('@expo-google-fonts/noto-sans-thai/400Regular/NotoSansThai_400Regular.ttf?url'),
+  },
+  chinese: {
+    family: 'NotoSansSC',
+    file: 'NotoSansSC_400Regular.ttf',
+    load: () => import('@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf?url'),
+  },
+  japanese: {
+    family: 'NotoSansJP',
+    file: 'NotoSansJP_400Regular.ttf',
+    load: () => import('@expo-google-fonts/noto-sans-jp/400Regular/NotoSansJP_400Regular.ttf?url'),
+  },
+  korean: {
+    family: 'NotoSansKR',
+    file: 'NotoSansKR_400Regular.ttf',
+    load: () => import('@expo-google-fonts/noto-sans-kr/400Regular/NotoSansKR_400Regular.ttf?url'),
+  },
+};
+
+const SCRIPT_RANGES: { script: PdfScript; pattern: RegExp }[] = [
+  { script: 'arabic', pattern: /[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF]/g },
+  { script: 'bengali', pattern: /[\u0980-\u09FF]/g },
+  { script: 'devanagari', pattern: /[\u0900-\u097F]/g },
+  { script: 'thai', pattern: /[\u0E00-\u0E7F]/g },
+  { script: 'japanese', pattern: /[\u3040-\u30FF\u31F0-\u31FF]/g },
+  { script: 'korean', pattern: /[\uAC00-\uD7AF\u1100-\u11FF\u3130-\u318F]/g },
+  { script: 'chinese', pattern: /[\u4E00-\u9FFF\u3400-\u4DBF]/g },
+];
+
+// Pick the font script for a block of text by counting characters of each script
+export function detectPdfScript(text: string): PdfScript {
+  const counts = SCRIPT_RANGES.map(({ script, pattern }) => ({ script, count: (text.match(pattern) || []).length }));
+
+  // Kana anywhere means Japanese, even when Kanji outnumber it
+  const japanese = counts.find(c => c.script === 'japanese')!;
+  const chinese = counts.find(c => c.script === 'chinese')!;
+  if (japanese.count > 0) japanese.count += chinese.count;
+
+  const best = counts.reduce((a, b) => (b.count > a.count ? b : a));
+  if (best.count > 0) return best.script;
+
+  // Helvetica only covers WinAnsi; Cyrillic, Greek, Vietnamese etc. need Noto Sans
+  return /[^\u0000-\u00FF\u2013-\u2026]/.test(text) ? 'extended-latin' : 'latin';
+}
+
+export function isRtlScript(script: PdfScript): boolean {
+  return script === 'arabic';
+}
+
+// jsPDF places glyphs one by one without shaping, which breaks conjuncts and vowel signs in these
+// scripts. Their text is drawn by the browser on a canvas instead and embedded as images.
+export function needsShaping(script: PdfScript): script is 'bengali' | 'devanagari' {
+  return script === 'bengali' || script === 'devanagari';
+}
+
+const fontDataCache = new Map<PdfScript, string>();
+
+function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+  }
+  return btoa(binary);
+}
+
+// Register the font for a script on this document and return its family name
+async function useScriptFont(doc: jsPDF, script: PdfScript): Promise<string> {
+  if (script === 'latin') return 'helvetica';
+  const font = PDF_FONTS[script];
+
+  let data = fontDataCache.get(script);
+  if (!data) {
+    const { default: url } = await font.load();
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Could not load the ${font.family} font for PDF export.`);
+    data = arrayBufferToBase64(await response.arrayBuffer());
+    fontDataCache.set(script, data);
+  }
+
+  if (!doc.getFontList()[font.family]) {
+    doc.addFileToVFS(font.file, data);
+    // Identity-H makes jsPDF embed only the glyphs the document uses, so a CJK sheet carries a few
+    // hundred KB of font instead of the whole multi-megabyte file
+    doc.addFont(font.file, font.family, 'normal', 'Identity-H');
+    // Only the regular weight is bundled; register it as bold too so setFont(family, 'bold') is safe
+    doc.addFont(font.file, font.family, 'bold', 'Identity-H');
+  }
+  return font.family;
+}
+
+const browserFonts = new Set<string>();
+
+// Make the script's font available to canvas text and return its family name
+async function useBrowserFont(script: 'bengali' | 'devanagari'): Promise<string> {
+  const font = PDF_FONTS[script];
+  if (!browserFonts.has(font.family)) {
+    const { default: url } = await font.load();
+    try {
+      document.fonts.add(await new FontFace(font.family, `url(${url})`).load());
+    } catch {
+      throw new Error(`Could not load the ${font.family} font for PDF export.`);
+    }
+    browserFonts.add(font.family);
+  }
+  return font.family;
+}
+
+// Canvas resolution for shaped text, about 300 dpi
+const PX_PER_MM = 12;
+const PT_TO_MM = 25.4 / 72;
+
+const canvasFont = (family: string, fontSize: number) => `${fontSize * PT_TO_MM * PX_PER_MM}px "${family}"`;
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+// Width in mm of the shaped text at a PDF font size
+function measureShaped(text: string, family: string, fontSize: number): number {
+  measureContext ??= document.createElement('canvas').getContext('2d')!;
+  measureContext.font = canvasFont(family, fontSize);
+  return measureContext.measureText(text).width / PX_PER_MM;
+}
+
+// Word wrap by shaped widths; jsPDF's splitTextToSize measures the unshaped glyphs
+function wrapShaped(text: string, family: string, fontSize: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && measureShaped(candidate, family, fontSize) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+    lines.push(line);
+  });
+  return lines;
+}
+
+// Draw one line on a canvas and place it with its baseline at `y`, like doc.text would.
+// The image reaches above and below the line so tall vowel signs and descenders are not clipped.
+function drawShapedLine(
+  doc: jsPDF,
+  line: string,
+  family: string,
+  x: number,
+  y: number,
+  color = '#000'
+) {
+  if (!line) return;
+  const fontSize = doc.getFontSize();
+  const em = fontSize * PT_TO_MM;
+  const ascent = em * 1.2;
+  const width = measureShaped(line, family, fontSize);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(width * PX_PER_MM) + 2;
+  canvas.height = Math.ceil(em * 1.8 * PX_PER_MM);
+  const ctx = canvas.getContext('2d')!;
+  ctx.font = canvasFont(family, fontSize);
+  ctx.fillStyle = color;
+  ctx.fillText(line, 1, ascent * PX_PER_MM);
+  doc.addImage(canvas, 'PNG', x - 1 / PX_PER_MM, y - ascent, canvas.width / PX_PER_MM, canvas.height / PX_PER_MM, undefined, 'FAST');
+}
+
+export interface PdfExportOptions {
+  showTimecodes?: boolean;
+  secondary?: Subtitle[]; // second column for bilingual sheets, matched to `subtitles` by position
+  columnTitles?: [string, string];
+  title?: string;
+  fileName?: string; // shown in the header
+  showHeaderFooter?: boolean; // file name header and "Page X of Y" footer
+}
+
+interface PdfColumn {
+  x: number;
+  width: number;
+  font: string;
+  rtl: boolean;
+  shaped: boolean; // drawn through a canvas, see needsShaping
+}
+
+function formatTimecode(seconds: number): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const pad = (num: number, size: number) => String(num).padStart(size, '0');
+  const h = Math.floor(totalMs / 3600000);
+  const m = Math.floor((totalMs % 3600000) / 60000);
+  const s = Math.floor((totalMs % 60000) / 1000);
+  return `${pad(h, 2)}:${pad(m, 2)}:${pad(s, 2)},${pad(totalMs % 1000, 3)}`;
+}
+
+export async function createSubtitlePdf(subtitles: Subtitle[], options: PdfExportOptions = {}): Promise<Blob> {
+  const { showTimecodes = true, secondary, columnTitles, title, fileName, showHeaderFooter = false } = options;
+
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 12;
+  const top = showHeaderFooter ? 20 : margin;
+  const bottom = pageHeight - (showHeaderFooter ? 18 : margin);
+  const lineHeight = 6;
+  const gutter = 8;
+
+  const makeColumn = async (texts: string[], x: number, width: number): Promise<PdfColumn> => {
+    const script = detectPdfScript(texts.join('\n'));
+    if (needsShaping(script)) {
+      return { x, width, font: await useBrowserFont(script), rtl: false, shaped: true };
+    }
+    return { x, width, font: await useScriptFont(doc, script), rtl: isRtlScript(script), shaped: false };
+  };
+
+  const contentWidth = pageWidth - margin * 2;
+  const columns: PdfColumn[] = secondary
+    ? [
+        await makeColumn(subtitles.map(s => s.text), margin, (contentWidth - gutter) / 2),
+        await makeColumn(secondary.map(s => s.text), margin + (contentWidth + gutter) / 2, (contentWidth - gutter) / 2),
+      ]
+    : [await makeColumn(subtitles.map(s => s.text), margin, contentWidth)];
+
+  const drawText = (lines: string[], column: PdfColumn, y: number) => {
+    if (column.shaped) {
+      lines.forEach((line, i) => drawShapedLine(doc, line, column.font, column.x, y + i * lineHeight));
+      return;
+    }
+    doc.setFont(column.font, 'normal');
+    if (column.rtl) {
+      // Text is stored in logical order; let jsPDF's bidi engine reorder it for left-to-right drawing
+      doc.text(lines, column.x + column.width, y, {
+        align: 'right',
+        isInputVisual: false,
+        isOutputVisual: true,
+        isInputRtl: true,
+        isOutputRtl: false,
+      });
+    } else {
+      doc.text(lines, column.x, y);
+    }
+  };
+
+  // Titles and the file name can be in any script, so each is drawn with a font that covers it
+  const drawLabel = async (text: string, x: number, y: number, style: 'normal' | 'bold' = 'bold', color = '#000') => {
+    const script = detectPdfScript(text);
+    if (needsShaping(script)) {
+      drawShapedLine(doc, text, await useBrowserFont(script), x, y, color);
+      return;
+    }
+    doc.setFont(await useScriptFont(doc, script), style);
+    if (isRtlScript(script)) {
+      doc.text(text, x, y, { isInputVisual: false, isOutputVisual: true, isInputRtl: true, isOutputRtl: false });
+    } else {
+      doc.text(text, x, y);
+    }
+  };
+
+  let y = top;
+
+  if (title) {
+    doc.setFontSize(16);
+    await drawLabel(title, margin, y + 2);
+    y += 12;
+  }
+
+  doc.setFontSize(12);
+
+  if (secondary && columnTitles) {
+    for (const [i, column] of columns.entries()) await drawLabel(columnTitles[i], column.x, y);
+    y += 3;
+    doc.setDrawColor(200);
+    doc.line(margin, y, pageWidth - margin, y);
+    y += lineHeight;
+  }
+
+  subtitles.forEach((sub, index) => {
+    const texts = secondary ? [sub.text, secondary[index]?.text ?? ''] : [sub.text];
+    const wrapped = texts.map((text, i) => {
+      if (columns[i].shaped) return wrapShaped(text, columns[i].font, doc.getFontSize(), columns[i].width);
+      doc.setFont(columns[i].font, 'normal');
+      return doc.splitTextToSize(text, columns[i].width) as string[];
+    });
+    const textLines = Math.max(...wrapped.map(lines => lines.length));
+    const blockHeight = (showTimecodes ? lineHeight : 0) + textLines * lineHeight + 4;
+
+    if (y + blockHeight > bottom && y > top) {
+      doc.addPage();
+      y = top;
+    }
+
+    if (showTimecodes) {
+      doc.setFont('helvetica', 'bold');
+      doc.text(`${formatTimecode(sub.startTime)} --> ${formatTimecode(sub.endTime)}`, margin, y);
+      y += lineHeight;
+    }
+
+    wrapped.forEach((lines, i) => drawText(lines, columns[i], y));
+    y += textLines * lineHeight + 4;
+  });
+
+  if (showHeaderFooter) {
+    const pageCount = doc.getNumberOfPages();
+    doc.setFontSize(9);
+    doc.setTextColor(120);
+    for (let page = 1; page <= pageCount; page++) {
+      doc.setPage(page);
+      if (fileName) await drawLabel(fileName, margin, 10, 'normal', 'rgb(120, 120, 120)');
+      doc.setFont('helvetica', 'normal');
+      doc.text(`Page ${page} of ${pageCount}`, pageWidth - margin, pageHeight - 8, { align: 'right' });
+    }
+  }
+
+  return doc.output('blob');
+}
@@ -0,0 +1,228 @@
+import { Subtitle } from '../types';
+import { renumberSubtitles } from './cueEditing';
+
+// Subtitle quality-control checks (reading speed, layout, timing) with automatic fixes
+
+export interface QcRules {
+  maxCps: number; // characters per second, spaces included
+  maxLineLength: number;
+  maxLines: number;
+  minDuration: number; // seconds
+  maxDuration: number; // seconds
+  minGap: number; // seconds between consecutive cues
+}
+
+export type QcPresetId = 'netflix' | 'bbc' | 'generator';
+
+export const QC_PRESETS: { id: QcPresetId; label: string; rules: QcRules }[] = [
+  {
+    id: 'netflix',
+    label: 'Netflix-style (42 chars, 20 CPS)',
+    rules: { maxCps: 20, maxLineLength: 42, maxLines: 2, minDuration: 0.833, maxDuration: 7, minGap: 0.083 },
+  },
+  {
+    id: 'bbc',
+    label: 'BBC-style (37 chars, 17 CPS)',
+    rules: { maxCps: 17, maxLineLength: 37, maxLines: 2, minDuration: 1.2, maxDuration: 8, minGap: 0.04 },
+  },
+  {
+    // Matches what generateSubtitlesFromVideo asks the model for
+    id: 'generator',
+    label: 'AI Generator (42 chars, 2 lines)',
+    rules: { maxCps: 21, maxLineLength: 42, maxLines: 2, minDuration: 0.7, maxDuration: 7, minGap: 0 },
+  },
+];
+
+export function getQcPreset(id: QcPresetId): QcRules {
+  return QC_PRESETS.find(p => p.id === id)!.rules;
+}
+
+// The preset these rules came from, or null once the user has tweaked them
+export function findQcPreset(rules: QcRules): QcPresetId | null {
+  const match = QC_PRESETS.find(p =>
+    (Object.keys(p.rules) as (keyof QcRules)[]).every(key => p.rules[key] === rules[key])
+  );
+  return match?.id ?? null;
+}
+
+export type QcIssueType =
+  | 'empty'
+  | 'order'
+  | 'overlap'
+  | 'gap'
+  | 'min-duration'
+  | 'max-duration'
+  | 'cps'
+  | 'line-length'
+  | 'line-count';
+
+export interface QcIssue {
+  id: string;
+  subtitleId: number;
+  type: QcIssueType;
+  severity: 'error' | 'warning';
+  message: string;
+  fixable: boolean;
+}
+
+// Text as the viewer sees it: no ASS override blocks or HTML/VTT tags
+function visibleText(text: string): string {
+  return text.replace(/\{[^}]*\}/g, '').replace(/<[^>]*>/g, '');
+}
+
+function countChars(text: string): number {
+  return visibleText(text).replace(/\n/g, '').length;
+}
+
+// Wrap into the fewest lines that fit maxLength, then narrow the width so the lines come out balanced
+export function wrapSubtitleText(text: string, maxLength: number): string {
+  const words = text.replace(/\s+/g, ' ').trim().split(' ');
+
+  const wrap = (width: number): string[] => {
+    const lines: string[] = [];
+    let current = '';
+    for (const word of words) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (current && visibleText(candidate).length > width) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = candidate;
+      }
+    }
+    if (current) lines.push(current);
+    return lines;
+  };
+
+  const lines = wrap(maxLength);
+  let best = lines;
+  for (let width = maxLength - 1; width > 0; width--) {
+    const narrower = wrap(width);
+    if (narrower.length !== lines.length) break;
+    best = narrower;
+  }
+  return best.join('\n');
+}
+
+const fmt = (seconds: number) => `${seconds.toFixed(2)}s`;
+
+// Timings are compared to the millisecond, like the SRT files they end up in
+const EPSILON = 0.0005;
+const roundMs = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+export function checkSubtitles(subtitles: Subtitle[], rules: QcRules): QcIssue[] {
+  const issues: QcIssue[] = [];
+  const add = (sub: Subtitle, type: QcIssueType, severity: QcIssue['severity'], message: string, fixable: boolean) => {
+    issues.push({ id: `${type}-${sub.id}-${issues.length}`, subtitleId: sub.id, type, severity, message, fixable });
+  };
+
+  subtitles.forEach((sub, index) => {
+    const next = subtitles[index + 1];
+    const prev = subtitles[index - 1];
+    const duration = sub.endTime - sub.startTime;
+    // Latest this cue may end without crowding the next one
+    const limit = next && next.startTime >= sub.startTime ? next.startTime - rules.minGap : Infinity;
+
+    if (!visibleText(sub.text).trim()) {
+      add(sub, 'empty', 'error', 'Empty cue', true);
+      return;
+    }
+
+    if (prev && sub.startTime < prev.startTime) {
+      add(sub, 'order', 'error', 'Starts before the previous cue', true);
+    }
+
+    if (next && next.startTime >= sub.startTime && next.startTime < sub.endTime) {
+      const canFix = next.startTime - rules.minGap > sub.startTime;
+      add(sub, 'overlap', 'error', `Overlaps the next cue by ${fmt(sub.endTime - next.startTime)}`, canFix);
+    } else if (next && next.startTime >= sub.endTime && next.startTime - sub.endTime < rules.minGap - EPSILON) {
+      add(sub, 'gap', 'warning', `Gap to the next cue is ${fmt(next.startTime - sub.endTime)} (min ${fmt(rules.minGap)})`, limit > sub.startTime);
+    }
+
+    if (duration < rules.minDuration - EPSILON) {
+      const message = duration <= 0 ? 'Ends before it starts' : `Too short: ${fmt(duration)} (min ${fmt(rules.minDuration)})`;
+      add(sub, 'min-duration', duration <= 0 ? 'error' : 'warning', message, limit > sub.startTime);
+    } else if (duration > rules.maxDuration + EPSILON) {
+      add(sub, 'max-duration', 'warning', `Too long: ${fmt(duration)} (max ${fmt(rules.maxDuration)})`, true);
+    }
+
+    const chars = countChars(sub.text);
+    const cps = duration > 0 ? chars / duration : Infinity;
+    if (duration > 0 && cps > rules.maxCps + EPSILON) {
+      // Extending the cue only helps if there is room before the next one
+      const needed = sub.startTime + chars / rules.maxCps;
+      add(sub, 'cps', 'warning', `Reading speed ${cps.toFixed(1)} CPS (max ${rules.maxCps})`, needed <= limit && needed - sub.startTime <= rules.maxDuration);
+    }
+
+    const lines = visibleText(sub.text).split('\n');
+    const fitsWhenWrapped = wrapSubtitleText(sub.text, rules.maxLineLength).split('\n').length <= rules.maxLines;
+    const longest = Math.max(...lines.map(line => line.length));
+    if (longest > rules.maxLineLength) {
+      add(sub, 'line-length', 'warning', `Line of ${longest} characters (max ${rules.maxLineLength})`, fitsWhenWrapped);
+    }
+    if (lines.length > rules.maxLines) {
+      add(sub, 'line-count', 'warning', `${lines.length} lines (max ${rules.maxLines})`, fitsWhenWrapped);
+    }
+  });
+
+  return issues;
+}
+
+// Fixing removes empty cues and re-sorts out-of-order ones, so the results are renumbered 1..n
+export function fixQcIssue(subtitles: Subtitle[], issue: QcIssue, rules: QcRules): Subtitle[] {
+  return renumberSubtitles(applyFix(subtitles, issue, rules));
+}
+
+// The fix itself, keeping ids so the other issues found in the same pass still point at their cues
+function applyFix(subtitles: Subtitle[], issue: QcIssue, rules: QcRules): Subtitle[] {
+  const index = subtitles.findIndex(s => s.id === issue.subtitleId);
+  if (index === -1) return subtitles;
+  const sub = subtitles[index];
+  const next = subtitles[index + 1];
+  const limit = next && next.startTime >= sub.startTime ? next.startTime - rules.minGap : Infinity;
+
+  const update = (changes: Partial<Subtitle>) =>
+    subtitles.map((s, i) => (i === index ? { ...s, ...changes } : s));
+  const setEnd = (endTime: number) => update({ endTime: roundMs(endTime) });
+
+  switch (issue.type) {
+    case 'empty':
+      return subtitles.filter((_, i) => i !== index);
+
+    case 'order':
+      return [...subtitles].sort((a, b) => a.startTime - b.startTime);
+
+    case 'overlap':
+    case 'gap':
+      return limit > sub.startTime ? setEnd(limit) : subtitles;
+
+    case 'min-duration': {
+      const endTime = Math.min(sub.startTime + rules.minDuration, limit);
+      return endTime > sub.startTime ? setEnd(endTime) : subtitles;
+    }
+
+    case 'max-duration':
+      return setEnd(sub.startTime + rules.maxDuration);
+
+    case 'cps': {
+      const needed = sub.startTime + countChars(sub.text) / rules.maxCps;
+      const endTime = Math.min(needed, limit, sub.startTime + rules.maxDuration);
+      return endTime > sub.endTime ? setEnd(endTime) : subtitles;
+    }
+
+    case 'line-length':
+    case 'line-count':
+      return update({ text: wrapSubtitleText(sub.text, rules.maxLineLength) });
+  }
+}
+
+export function fixAllQcIssues(subtitles: Subtitle[], rules: QcRules): Subtitle[] {
+  let result = subtitles;
+  // One fix can expose another (sorting reveals overlaps, extending a cue narrows a gap), so run a few passes
+  for (let pass = 0; pass < 3; pass++) {
+    const issues = checkSubtitles(result, rules).filter(issue => issue.fixable);
+    if (issues.length === 0) break;
+    for (const issue of issues) result = applyFix(result, issue, rules);
+  }
+  return renumberSubtitles(result);
+}
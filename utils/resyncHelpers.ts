@@ -0,0 +1,80 @@
+import { Subtitle } from '../types';
+import { FrameRateId, getFrameRate } from './srtHelpers';
+
+// Retiming beyond a constant offset: linear (scale + offset), frame-rate conversion and
+// piecewise-linear sync through several anchor points.
+
+export interface TimeMapping {
+  scale: number;
+  offset: number; // seconds, applied after scaling
+}
+
+// A known-good time: the cue starting at `from` should start at `to`
+export interface SyncPoint {
+  from: number;
+  to: number;
+}
+
+export const IDENTITY_MAPPING: TimeMapping = { scale: 1, offset: 0 };
+
+export function applyMapping(time: number, mapping: TimeMapping): number {
+  return time * mapping.scale + mapping.offset;
+}
+
+// Scale and offset that move both points exactly onto their targets
+export function twoPointMapping(a: SyncPoint, b: SyncPoint): TimeMapping {
+  if (a.from === b.from) return { scale: 1, offset: a.to - a.from };
+  const scale = (b.to - a.to) / (b.from - a.from);
+  return { scale, offset: a.to - scale * a.from };
+}
+
+// Subtitles timed against a video at `from` fps, retimed for the same video played at `to` fps
+// (e.g. a 23.976 fps film release sped up to 25 fps for PAL)
+export function frameRateMapping(from: FrameRateId, to: FrameRateId): TimeMapping {
+  return { scale: getFrameRate(from).fps / getFrameRate(to).fps, offset: 0 };
+}
+
+export const FRAME_RATE_CONVERSIONS: { id: string; label: string; from: FrameRateId; to: FrameRateId }[] = [
+  { id: '23.976-25', label: '23.976 → 25 fps (PAL speed-up)', from: '23.976', to: '25' },
+  { id: '25-23.976', label: '25 → 23.976 fps (PAL to NTSC film)', from: '25', to: '23.976' },
+  { id: '24-25', label: '24 → 25 fps', from: '24', to: '25' },
+  { id: '25-24', label: '25 → 24 fps', from: '25', to: '24' },
+  { id: '23.976-24', label: '23.976 → 24 fps', from: '23.976', to: '24' },
+  { id: '24-23.976', label: '24 → 23.976 fps', from: '24', to: '23.976' },
+];
+
+// Map a time through a chain of anchors. Between two anchors time is interpolated linearly, so each
+// stretch between cuts gets its own offset and drift; outside the anchors the nearest stretch is
+// extended. A single anchor is a plain offset.
+export function piecewiseTime(time: number, points: SyncPoint[]): number {
+  if (points.length === 0) return time;
+  if (points.length === 1) return time + points[0].to - points[0].from;
+
+  let segment = 0;
+  while (segment < points.length - 2 && time >= points[segment + 1].from) segment++;
+  return applyMapping(time, twoPointMapping(points[segment], points[segment + 1]));
+}
+
+// Sort anchors and drop any that share a source time, which would make a stretch zero-length
+export function normalizeSyncPoints(points: SyncPoint[]): SyncPoint[] {
+  const sorted = [...points].sort((a, b) => a.from - b.from);
+  return sorted.filter((point, index) => index === 0 || point.from !== sorted[index - 1].from);
+}
+
+export interface CueRange {
+  from: number; // first cue id, inclusive
+  to: number; // last cue id, inclusive
+}
+
+// Retime every cue, or only those in `range`, with the given time function
+export function retimeSubtitles(
+  subtitles: Subtitle[],
+  map: (time: number) => number,
+  range?: CueRange | null
+): Subtitle[] {
+  const round = (seconds: number) => Math.max(0, Math.round(seconds * 1000) / 1000);
+  return subtitles.map(sub => {
+    if (range && (sub.id < range.from || sub.id > range.to)) return sub;
+    return { ...sub, startTime: round(map(sub.startTime)), endTime: round(map(sub.endTime)) };
+  });
+}
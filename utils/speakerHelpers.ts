@@ -0,0 +1,56 @@
+import { Subtitle } from '../types';
+
+// Speaker labels on cues and transcript turns: listing, renaming and rendering them as text.
+// Both Subtitle and TranscriptSegment fit the small shape below.
+
+interface SpeakerText {
+  speaker?: string;
+  text: string;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Distinct speakers in order of first appearance
+export function listSpeakers(items: { speaker?: string }[]): string[] {
+  const seen = new Set<string>();
+  items.forEach(item => {
+    if (item.speaker) seen.add(item.speaker);
+  });
+  return [...seen];
+}
+
+// Names are only written out when there is more than one voice; a lone speaker's name adds nothing
+export const namesSpeakers = (items: { speaker?: string }[]): boolean => listSpeakers(items).length > 1;
+
+// Renaming to a name that is already in use merges the two speakers
+export function renameSpeaker<T extends { speaker?: string }>(items: T[], from: string, to: string): T[] {
+  return items.map(item => (item.speaker === from ? { ...item, speaker: to } : item));
+}
+
+// Same rename inside text written by formatDialogue, where each turn starts with "Name: "
+export function renameSpeakerInDialogue(text: string, from: string, to: string): string {
+  return text.replace(new RegExp(`^${escapeRegExp(from)}:`, 'gm'), `${to}:`);
+}
+
+// "Alice: Hello" for formats with no speaker field of their own
+export function labelSpeakers(subtitles: Subtitle[]): Subtitle[] {
+  return subtitles.map(sub => (sub.speaker ? { ...sub, text: `${sub.speaker}: ${sub.text}` } : sub));
+}
+
+// Script-style transcript: consecutive lines of the same speaker become one "Name: ..." paragraph,
+// without the name when only one voice speaks
+export function formatDialogue(items: SpeakerText[]): string {
+  const named = namesSpeakers(items);
+  const turns: SpeakerText[] = [];
+  items.forEach(item => {
+    const text = item.text.replace(/\s*\n\s*/g, ' ').trim();
+    if (!text) return;
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === item.speaker) {
+      last.text += ` ${text}`;
+    } else {
+      turns.push({ speaker: item.speaker, text });
+    }
+  });
+  return turns.map(turn => (named && turn.speaker ? `${turn.speaker}: ${turn.text}` : turn.text)).join('\n\n');
+}
@@ -1,5 +1,8 @@
-import { Subtitle } from '../types';
-import { jsPDF } from 'jspdf';
+import { Subtitle, SubtitleStyle, AssComment, AssCueProps, AssDocument, AssStyle, VttCueSettings, VttDocument, VttBlock } from '../types';
+import { createDocx } from './docxHelpers';
+import { createSubtitlePdf, PdfExportOptions } from './pdfHelpers';
+import { encodeText, ExportEncodingId } from './encodingHelpers';
+import { labelSpeakers, formatDialogue } from './speakerHelpers';
 
 // Helper to convert SRT time string "00:00:01,500" or "00:00:01.500" to seconds
 export function timeToSeconds(timeString: string | undefined | null): number {
@@ -96,75 +99,1408 @@ export function generateSRT(subtitles: Subtitle[]): string {
   }).join('\n\n');
 }
 
-export function generateVTT(subtitles: Subtitle[]): string {
-  const header = "WEBVTT\n\n";
-  const body = subtitles.map((sub) => {
-    return `${secondsToTime(sub.startTime, '.')} --> ${secondsToTime(sub.endTime, '.')}\n${sub.text}`;
-  }).join('\n\n');
-  return header + body;
+// --- WebVTT ---
+
+const VTT_TIMESTAMP = /^(?:(\d{2,}):)?([0-5]\d):([0-5]\d)\.(\d{3})$/;
+
+// "01:02:03.456" or "02:03.456" to seconds; null if the timestamp is not valid WebVTT
+function vttTimeToSeconds(value: string): number | null {
+  const match = value.trim().match(VTT_TIMESTAMP);
+  if (!match) return null;
+  return Number(match[1] || 0) * 3600 + Number(match[2]) * 60 + Number(match[3]) + Number(match[4]) / 1000;
+}
+
+function secondsToVttTime(seconds: number): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const pad = (num: number, size: number) => String(num).padStart(size, '0');
+  const h = Math.floor(totalMs / 3600000);
+  const m = Math.floor((totalMs % 3600000) / 60000);
+  const s = Math.floor((totalMs % 60000) / 1000);
+  return `${pad(h, 2)}:${pad(m, 2)}:${pad(s, 2)}.${pad(totalMs % 1000, 3)}`;
+}
+
+export function parseVttCueSettings(value: string): VttCueSettings {
+  const settings: VttCueSettings = {};
+  value.trim().split(/[ \t]+/).forEach((token) => {
+    const colon = token.indexOf(':');
+    if (colon <= 0) return;
+    const name = token.slice(0, colon);
+    const setting = token.slice(colon + 1);
+    if (!setting) return;
+    switch (name) {
+      case 'vertical':
+        if (setting === 'rl' || setting === 'lr') settings.vertical = setting;
+        break;
+      case 'align':
+        if (['start', 'center', 'end', 'left', 'right'].includes(setting)) {
+          settings.align = setting as VttCueSettings['align'];
+        }
+        break;
+      case 'line':
+      case 'position':
+      case 'size':
+      case 'region':
+        settings[name] = setting;
+        break;
+    }
+  });
+  return settings;
+}
+
+export function formatVttCueSettings(settings: VttCueSettings | undefined): string {
+  if (!settings) return '';
+  const order: (keyof VttCueSettings)[] = ['vertical', 'line', 'position', 'size', 'align', 'region'];
+  return order
+    .filter(key => settings[key])
+    .map(key => `${key}:${settings[key]}`)
+    .join(' ');
+}
+
+// Drop WebVTT-only markup (voice/class/lang spans, inline timestamps, ruby) and entity escapes
+export function stripVttMarkup(text: string): string {
+  return text
+    .replace(/<\/?(?:v|c|lang|ruby|rt)(?:[.\s][^>]*)?>/g, '')
+    .replace(/<\d{2,}:\d{2}(?::\d{2})?\.\d{3}>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
+
+const unescapeVtt = (text: string) =>
+  text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&nbsp;/g, ' ').replace(/&amp;/g, '&');
+
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// A cue spoken by one voice ("<v Alice>Hello</v>") becomes its speaker plus the bare text. Voices with
+// classes or several voices in one cue are left in the text so nothing is lost on export.
+function splitVoice(text: string): { speaker?: string; text: string } {
+  const voice = text.match(/^<v[ \t]+([^>\n]+)>/);
+  if (!voice || (text.match(/<v[ .\t]/g) ?? []).length > 1) return { text };
+  const speaker = unescapeVtt(voice[1]).trim();
+  if (!speaker) return { text };
+  return { speaker, text: text.slice(voice[0].length).replace(/<\/v>\s*$/, '') };
+}
+
+export function parseVTT(content: string): { subtitles: Subtitle[]; document: VttDocument } {
+  const document: VttDocument = { header: [], blocks: [] };
+  const subtitles: Subtitle[] = [];
+  const normalized = content.replace(/^\uFEFF/, '').replace(/\r\n/g, '\n').replace(/\r/g, '\n');
+  const blocks = normalized.split(/\n[ \t]*\n/);
+
+  // Blocks waiting for the next cue so they can be anchored in front of it
+  let pending: VttBlock[] = [];
+
+  blocks.forEach((block, blockIndex) => {
+    const lines = block.replace(/^\n+/, '').split('\n');
+    while (lines.length > 0 && !lines[lines.length - 1].trim()) lines.pop();
+    if (lines.length === 0) return;
+
+    if (blockIndex === 0 && /^WEBVTT(?:[ \t]|$)/.test(lines[0])) {
+      const timingLine = lines.findIndex(line => line.includes('-->'));
+      // Some files have no blank line between the header and the first cue. A cue identifier must
+      // follow a blank line, so every line above that cue's timing still belongs to the header.
+      const headerEnd = timingLine === -1 ? lines.length : timingLine;
+      document.header = [lines[0].slice('WEBVTT'.length).trim(), ...lines.slice(1, headerEnd)];
+      if (timingLine === -1) return;
+      lines.splice(0, headerEnd);
+    }
+
+    const keyword = lines[0].match(/^(NOTE|STYLE|REGION)(?:[ \t]|$)/);
+    if (keyword && !lines[0].includes('-->')) {
+      pending.push({ kind: keyword[1] as VttBlock['kind'], content: lines.join('\n') });
+      return;
+    }
+
+    const timingIndex = lines[0].includes('-->') ? 0 : (lines[1]?.includes('-->') ? 1 : -1);
+    if (timingIndex === -1) return;
+
+    const timing = lines[timingIndex].match(/^\s*(\S+)[ \t]+-->[ \t]+(\S+)(.*)$/);
+    if (!timing) return;
+
+    const startTime = vttTimeToSeconds(timing[1]);
+    const endTime = vttTimeToSeconds(timing[2]);
+    if (startTime === null || endTime === null) return;
+
+    const { speaker, text } = splitVoice(lines.slice(timingIndex + 1).join('\n'));
+    if (!text.trim()) return;
+
+    const id = subtitles.length + 1;
+    pending.forEach(b => { b.beforeCueId = id; });
+    document.blocks.push(...pending);
+    pending = [];
+
+    subtitles.push({
+      id,
+      startTime,
+      endTime,
+      text,
+      ...(speaker ? { speaker } : {}),
+      vtt: {
+        identifier: timingIndex === 1 ? lines[0].trim() : undefined,
+        settings: parseVttCueSettings(timing[3]),
+      },
+    });
+  });
+
+  document.blocks.push(...pending);
+
+  return { subtitles, document };
+}
+
+export function generateVTT(subtitles: Subtitle[], sourceDocument?: VttDocument | null): string {
+  const [title = '', ...metadata] = sourceDocument?.header ?? [];
+  const parts: string[] = [[title ? `WEBVTT ${title}` : 'WEBVTT', ...metadata].join('\n')];
+
+  const blocks = sourceDocument?.blocks ?? [];
+  const emitted = new Set<VttBlock>();
+  const emit = (block: VttBlock) => {
+    emitted.add(block);
+    parts.push(block.content);
+  };
+
+  // STYLE and REGION blocks are only valid before the first cue
+  blocks.filter(b => b.kind !== 'NOTE').forEach(emit);
+
+  subtitles.forEach((sub) => {
+    blocks
+      .filter(b => b.kind === 'NOTE' && !emitted.has(b) && b.beforeCueId !== undefined && b.beforeCueId <= sub.id)
+      .forEach(emit);
+
+    const settings = formatVttCueSettings(sub.vtt?.settings);
+    // Blank lines and "-->" would end the cue early, so they cannot appear inside cue text
+    const text = sub.text.replace(/\n[ \t]*\n+/g, '\n').replace(/-->/g, '->');
+    const identifier = sub.vtt?.identifier ? `${sub.vtt.identifier}\n` : '';
+    const voice = sub.speaker && !/^<v[ .\t]/.test(text) ? `<v ${escapeVtt(sub.speaker)}>` : '';
+    parts.push(`${identifier}${secondsToVttTime(sub.startTime)} --> ${secondsToVttTime(sub.endTime)}${settings ? ` ${settings}` : ''}\n${voice}${text}`);
+  });
+
+  blocks.filter(b => !emitted.has(b)).forEach(emit);
+
+  return parts.join('\n\n') + '\n';
 }
 
 export function generateText(subtitles: Subtitle[]): string {
   return subtitles.map(sub => sub.text).join('\n');
 }
 
+// --- Advanced SubStation Alpha (.ass) / SubStation Alpha (.ssa) ---
+
+const ASS_STYLE_FORMAT = [
+  'Name', 'Fontname', 'Fontsize', 'PrimaryColour', 'SecondaryColour', 'OutlineColour', 'BackColour',
+  'Bold', 'Italic', 'Underline', 'StrikeOut', 'ScaleX', 'ScaleY', 'Spacing', 'Angle',
+  'BorderStyle', 'Outline', 'Shadow', 'Alignment', 'MarginL', 'MarginR', 'MarginV', 'Encoding'
+];
+
+const SSA_STYLE_FORMAT = [
+  'Name', 'Fontname', 'Fontsize', 'PrimaryColour', 'SecondaryColour', 'TertiaryColour', 'BackColour',
+  'Bold', 'Italic', 'BorderStyle', 'Outline', 'Shadow', 'Alignment', 'MarginL', 'MarginR', 'MarginV',
+  'AlphaLevel', 'Encoding'
+];
+
+const ASS_EVENT_FORMAT = ['Layer', 'Start', 'End', 'Style', 'Name', 'MarginL', 'MarginR', 'MarginV', 'Effect', 'Text'];
+const SSA_EVENT_FORMAT = ['Marked', 'Start', 'End', 'Style', 'Name', 'MarginL', 'MarginR', 'MarginV', 'Effect', 'Text'];
+
+const DEFAULT_ASS_STYLE: AssStyle = {
+  Name: 'Default', Fontname: 'Arial', Fontsize: '48', PrimaryColour: '&H00FFFFFF', SecondaryColour: '&H000000FF',
+  OutlineColour: '&H00000000', BackColour: '&H80000000', Bold: '0', Italic: '0', Underline: '0', StrikeOut: '0',
+  ScaleX: '100', ScaleY: '100', Spacing: '0', Angle: '0', BorderStyle: '1', Outline: '2', Shadow: '1',
+  Alignment: '2', MarginL: '20', MarginR: '20', MarginV: '30', Encoding: '1'
+};
+
+// Legacy SSA alignment: 1-3 bottom, 5-7 top, 9-11 middle. ASS uses numpad layout 1-9.
+function ssaToAssAlignment(value: string): string {
+  const n = Number(value);
+  if (n >= 9) return String(n - 5);
+  if (n >= 5) return String(n + 2);
+  return String(n || 2);
+}
+
+function assToSsaAlignment(value: string): string {
+  const n = Number(value);
+  if (n >= 7) return String(n - 2);
+  if (n >= 4) return String(n + 5);
+  return String(n || 2);
+}
+
+export function createDefaultAssDocument(): AssDocument {
+  return {
+    variant: 'ass',
+    scriptInfo: [
+      '; Script generated by QuickScribe AI',
+      'Title: Subtitles',
+      'ScriptType: v4.00+',
+      'WrapStyle: 0',
+      'ScaledBorderAndShadow: yes',
+      'PlayResX: 1920',
+      'PlayResY: 1080',
+    ],
+    styleFormat: [...ASS_STYLE_FORMAT],
+    styles: [{ ...DEFAULT_ASS_STYLE }],
+    eventFormat: [...ASS_EVENT_FORMAT],
+    comments: [],
+    extraSections: [],
+  };
+}
+
+// "0:00:01.50" (centiseconds) to seconds. timeToSeconds would read ".50" as 50ms.
+function assTimeToSeconds(value: string): number {
+  const match = value.trim().match(/^(\d+):(\d{1,2}):(\d{1,2})(?:[.,](\d+))?$/);
+  if (!match) return 0;
+  const fraction = match[4] ? Number(`0.${match[4]}`) : 0;
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]) + fraction;
+}
+
+function secondsToAssTime(seconds: number): string {
+  const totalCs = Math.max(0, Math.round(seconds * 100));
+  const h = Math.floor(totalCs / 360000);
+  const m = Math.floor((totalCs % 360000) / 6000);
+  const s = Math.floor((totalCs % 6000) / 100);
+  const cs = totalCs % 100;
+  const pad = (num: number) => String(num).padStart(2, '0');
+  return `${h}:${pad(m)}:${pad(s)}.${pad(cs)}`;
+}
+
+// Split "a, b, c" into exactly `count` fields; the last field (Text) keeps any commas.
+function splitAssFields(value: string, count: number): string[] {
+  const fields: string[] = [];
+  let rest = value;
+  for (let i = 0; i < count - 1; i++) {
+    const comma = rest.indexOf(',');
+    if (comma === -1) {
+      fields.push(rest.trim());
+      rest = '';
+      continue;
+    }
+    fields.push(rest.slice(0, comma).trim());
+    rest = rest.slice(comma + 1);
+  }
+  fields.push(rest);
+  return fields;
+}
+
+// ASS hard line breaks (\N) become real newlines; soft breaks (\n) and override tags are kept as written.
+function assTextToPlain(text: string): string {
+  return text.replace(/\\N/g, '\n');
+}
+
+function plainTextToAss(text: string): string {
+  return text.replace(/\r?\n/g, '\\N');
+}
+
+// Remove {\override} blocks and ASS escapes for formats that cannot express them
+export function stripAssOverrides(text: string): string {
+  return text
+    .replace(/\{[^}]*\}/g, '')
+    .replace(/\\N/g, '\n')
+    .replace(/\\n/g, ' ')
+    .replace(/\\h/g, ' ');
+}
+
+export function parseASS(content: string): { subtitles: Subtitle[]; document: AssDocument } {
+  const document: AssDocument = {
+    variant: 'ass',
+    scriptInfo: [],
+    styleFormat: [],
+    styles: [],
+    eventFormat: [],
+    comments: [],
+    extraSections: [],
+  };
+  const subtitles: Subtitle[] = [];
+  const lines = content.replace(/^\uFEFF/, '').replace(/\r\n/g, '\n').replace(/\r/g, '\n').split('\n');
+
+  let section = '';
+  let extra: { name: string; lines: string[] } | null = null;
+  // Comments seen since the last dialogue line, anchored to the next cue once it is parsed
+  let pendingComments: AssComment[] = [];
+
+  lines.forEach((rawLine) => {
+    const line = rawLine.trim();
+    const header = line.match(/^\[(.+)\]$/);
+    if (header) {
+      section = header[1].toLowerCase();
+      extra = null;
+      if (section === 'v4 styles') document.variant = 'ssa';
+      if (!['script info', 'v4+ styles', 'v4 styles', 'events'].includes(section)) {
+        extra = { name: header[1], lines: [] };
+        document.extraSections.push(extra);
+      }
+      return;
+    }
+
+    if (extra) {
+      if (line) extra.lines.push(rawLine);
+      return;
+    }
+    if (!line) return;
+
+    const colon = line.indexOf(':');
+    const key = colon === -1 ? '' : line.slice(0, colon).trim();
+    const value = colon === -1 ? '' : line.slice(colon + 1).trimStart();
+
+    if (section === 'script info') {
+      document.scriptInfo.push(line);
+      if (key.toLowerCase() === 'scripttype' && /v4\.00$/i.test(value.trim())) {
+        document.variant = 'ssa';
+      }
+    } else if (section === 'v4+ styles' || section === 'v4 styles') {
+      if (key === 'Format') {
+        document.styleFormat = value.split(',').map(f => f.trim());
+      } else if (key === 'Style') {
+        const format = document.styleFormat.length > 0
+          ? document.styleFormat
+          : (section === 'v4 styles' ? SSA_STYLE_FORMAT : ASS_STYLE_FORMAT);
+        const fields = splitAssFields(value, format.length);
+        const style: AssStyle = {};
+        format.forEach((name, i) => { style[name] = (fields[i] ?? '').trim(); });
+        document.styles.push(style);
+      }
+    } else if (section === 'events') {
+      if (key === 'Format') {
+        document.eventFormat = value.split(',').map(f => f.trim());
+      } else if (key === 'Comment') {
+        pendingComments.push({ line });
+      } else if (key === 'Dialogue') {
+        const format = document.eventFormat.length > 0
+          ? document.eventFormat
+          : (document.variant === 'ssa' ? SSA_EVENT_FORMAT : ASS_EVENT_FORMAT);
+        const fields = splitAssFields(value, format.length);
+        const get = (name: string) => {
+          const index = format.findIndex(f => f.toLowerCase() === name.toLowerCase());
+          return index === -1 ? '' : (fields[index] ?? '');
+        };
+
+        // Empty dialogue lines are kept; they are often placeholders still to be filled in
+        const text = assTextToPlain(get('Text'));
+
+        const layerField = get('Layer') || get('Marked').replace(/^Marked=/i, '');
+        const ass: AssCueProps = {
+          layer: Number(layerField) || 0,
+          style: get('Style').trim() || 'Default',
+          name: get('Name').trim() || get('Actor').trim(),
+          marginL: Number(get('MarginL')) || 0,
+          marginR: Number(get('MarginR')) || 0,
+          marginV: Number(get('MarginV')) || 0,
+          effect: get('Effect').trim(),
+        };
+
+        const id = subtitles.length + 1;
+        pendingComments.forEach(c => { c.beforeCueId = id; });
+        document.comments.push(...pendingComments);
+        pendingComments = [];
+
+        subtitles.push({
+          id,
+          startTime: assTimeToSeconds(get('Start')),
+          endTime: assTimeToSeconds(get('End')),
+          text,
+          ...(ass.name ? { speaker: ass.name } : {}),
+          ass,
+        });
+      }
+    }
+  });
+
+  document.comments.push(...pendingComments);
+
+  if (document.styles.length === 0) {
+    document.styleFormat = [...ASS_STYLE_FORMAT];
+    document.styles.push({ ...DEFAULT_ASS_STYLE });
+  }
+
+  return { subtitles, document };
+}
+
+// Normalise a style row to ASS field names so it can be written as either variant
+function toAssStyle(style: AssStyle, from: 'ass' | 'ssa'): AssStyle {
+  const normalised: AssStyle = { ...DEFAULT_ASS_STYLE, ...style };
+  if (from === 'ssa') {
+    if (style.TertiaryColour !== undefined) normalised.OutlineColour = style.TertiaryColour;
+    normalised.Alignment = ssaToAssAlignment(style.Alignment ?? '2');
+  }
+  return normalised;
+}
+
+function fromAssStyle(style: AssStyle, to: 'ass' | 'ssa'): AssStyle {
+  if (to === 'ass') return style;
+  return {
+    ...style,
+    TertiaryColour: style.OutlineColour,
+    Alignment: assToSsaAlignment(style.Alignment),
+    AlphaLevel: style.AlphaLevel ?? '0',
+  };
+}
+
+export function generateASS(
+  subtitles: Subtitle[],
+  sourceDocument?: AssDocument | null,
+  variant: 'ass' | 'ssa' = sourceDocument?.variant ?? 'ass'
+): string {
+  const base = sourceDocument ?? createDefaultAssDocument();
+  const sameVariant = base.variant === variant;
+
+  const scriptInfo = base.scriptInfo.map(line =>
+    /^ScriptType\s*:/i.test(line) ? `ScriptType: ${variant === 'ssa' ? 'v4.00' : 'v4.00+'}` : line
+  );
+  if (!scriptInfo.some(line => /^ScriptType\s*:/i.test(line))) {
+    scriptInfo.unshift(`ScriptType: ${variant === 'ssa' ? 'v4.00' : 'v4.00+'}`);
+  }
+
+  const defaultStyleFormat = variant === 'ssa' ? SSA_STYLE_FORMAT : ASS_STYLE_FORMAT;
+  const styleFormat = sameVariant && base.styleFormat.length > 0 ? base.styleFormat : defaultStyleFormat;
+  const styles = sameVariant
+    ? base.styles
+    : base.styles.map(style => fromAssStyle(toAssStyle(style, base.variant), variant));
+
+  // Any style referenced by a cue but missing from the header gets a copy of Default
+  const styleNames = new Set(styles.map(s => s.Name));
+  const missingStyles = Array.from(new Set(subtitles.map(s => s.ass?.style || 'Default')))
+    .filter(name => !styleNames.has(name))
+    .map(name => fromAssStyle({ ...DEFAULT_ASS_STYLE, Name: name }, variant));
+
+  const defaultEventFormat = variant === 'ssa' ? SSA_EVENT_FORMAT : ASS_EVENT_FORMAT;
+  const eventFormat = sameVariant && base.eventFormat.length > 0 ? base.eventFormat : defaultEventFormat;
+
+  // Comments only carry over between files of the same variant, since they follow its event format
+  const comments = sameVariant ? base.comments : [];
+  const emitted = new Set<AssComment>();
+  const events: string[] = [];
+  const emit = (comment: AssComment) => {
+    emitted.add(comment);
+    events.push(comment.line);
+  };
+
+  subtitles.forEach((sub) => {
+    comments
+      .filter(c => !emitted.has(c) && c.beforeCueId !== undefined && c.beforeCueId <= sub.id)
+      .forEach(emit);
+
+    const ass = sub.ass;
+    // The speaker wins over the parsed Name so renames reach the file; a comma would split the field
+    const name = (sub.speaker ?? ass?.name ?? '').replace(/,/g, ';');
+    const values: Record<string, string> = {
+      layer: String(ass?.layer ?? 0),
+      marked: 'Marked=0',
+      start: secondsToAssTime(sub.startTime),
+      end: secondsToAssTime(sub.endTime),
+      style: ass?.style || 'Default',
+      name,
+      actor: name,
+      marginl: String(ass?.marginL ?? 0).padStart(4, '0'),
+      marginr: String(ass?.marginR ?? 0).padStart(4, '0'),
+      marginv: String(ass?.marginV ?? 0).padStart(4, '0'),
+      effect: ass?.effect ?? '',
+      text: plainTextToAss(sub.text),
+    };
+    events.push(`Dialogue: ${eventFormat.map(f => values[f.toLowerCase()] ?? '').join(',')}`);
+  });
+
+  comments.filter(c => !emitted.has(c)).forEach(emit);
+
+  const sections = [
+    ['[Script Info]', ...scriptInfo].join('\n'),
+    [
+      variant === 'ssa' ? '[V4 Styles]' : '[V4+ Styles]',
+      `Format: ${styleFormat.join(', ')}`,
+      ...[...styles, ...missingStyles].map(style => `Style: ${styleFormat.map(f => style[f] ?? '').join(',')}`),
+    ].join('\n'),
+    [
+      '[Events]',
+      `Format: ${eventFormat.join(', ')}`,
+      ...events,
+    ].join('\n'),
+    ...base.extraSections.map(section => [`[${section.name}]`, ...section.lines].join('\n')),
+  ];
+
+  return sections.join('\n\n') + '\n';
+}
+
+// --- TTML / DFXP / IMSC1 ---
+
+const TTML_NS = 'http://www.w3.org/ns/ttml';
+const TTML_STYLE_NS = 'http://www.w3.org/ns/ttml#styling';
+const TTML_PARAM_NS = 'http://www.w3.org/ns/ttml#parameter';
+
+export type TtmlProfile = 'dfxp' | 'imsc1';
+
+export interface TtmlOptions {
+  profile?: TtmlProfile;
+  style?: SubtitleStyle;
+  language?: string;
+}
+
+export const DEFAULT_TTML_STYLE: SubtitleStyle = {
+  fontSize: 48,
+  color: '#ffffff',
+  backgroundColor: '#000000',
+  backgroundOpacity: 0.6,
+  position: 'bottom',
+  fontFamily: 'Arial, sans-serif',
+};
+
+// Frame/tick rates declared on the <tt> root, needed to resolve "f" and "t" time expressions
+interface TtmlTiming {
+  frameRate: number;
+  subFrameRate: number;
+  tickRate: number;
+}
+
+// Resolve a TTML time expression: clock time ("00:00:01.5", "00:00:01:12" frames) or offset ("1.5s", "1500ms", "36f", "10000000t")
+export function ttmlTimeToSeconds(value: string | null, timing: TtmlTiming = { frameRate: 30, subFrameRate: 1, tickRate: 1 }): number | null {
+  if (!value) return null;
+  const expr = value.trim();
+
+  const clock = expr.match(/^(\d{2,}):(\d{2}):(\d{2})(?:(\.\d+)|:(\d{2,})(?:\.(\d+))?)?$/);
+  if (clock) {
+    const base = Number(clock[1]) * 3600 + Number(clock[2]) * 60 + Number(clock[3]);
+    if (clock[4]) return base + Number(clock[4]);
+    if (clock[5]) {
+      const subFrames = clock[6] ? Number(clock[6]) / timing.subFrameRate : 0;
+      return base + (Number(clock[5]) + subFrames) / timing.frameRate;
+    }
+    return base;
+  }
+
+  const offset = expr.match(/^(\d+(?:\.\d+)?)(h|m|s|ms|f|t)$/);
+  if (offset) {
+    const amount = Number(offset[1]);
+    switch (offset[2]) {
+      case 'h': return amount * 3600;
+      case 'm': return amount * 60;
+      case 's': return amount;
+      case 'ms': return amount / 1000;
+      case 'f': return amount / timing.frameRate;
+      case 't': return amount / timing.tickRate;
+    }
+  }
+  return null;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function ttmlColor(hex: string, opacity: number = 1): string {
+  const clean = hex.replace('#', '');
+  const full = clean.length === 3 ? clean.split('').map(c => c + c).join('') : clean.slice(0, 6);
+  const alpha = Math.round(Math.max(0, Math.min(1, opacity)) * 255).toString(16).padStart(2, '0');
+  return `#${full}${alpha}`.toLowerCase();
+}
+
+// Flatten <p> content: <br/> becomes a newline, <span> text is kept without its styling
+function ttmlNodeText(node: Node): string {
+  let text = '';
+  node.childNodes.forEach((child) => {
+    if (child.nodeType === 3) {
+      text += (child.nodeValue || '').replace(/\s+/g, ' ');
+    } else if (child.nodeType === 1) {
+      const element = child as Element;
+      text += element.localName === 'br' ? '\n' : ttmlNodeText(element);
+    }
+  });
+  return text;
+}
+
+export function parseTTML(content: string): { subtitles: Subtitle[]; style: Partial<SubtitleStyle> } {
+  const xml = new DOMParser().parseFromString(content.replace(/^\uFEFF/, ''), 'application/xml');
+  if (xml.getElementsByTagName('parsererror').length > 0) {
+    throw new Error("Invalid TTML file. The XML could not be read.");
+  }
+
+  const root = xml.documentElement;
+  const param = (name: string) => root.getAttributeNS(TTML_PARAM_NS, name) || root.getAttribute(`ttp:${name}`);
+  const multiplier = (param('frameRateMultiplier') || '1 1').split(/\s+/).map(Number);
+  const timing: TtmlTiming = {
+    frameRate: (Number(param('frameRate')) || 30) * ((multiplier[0] || 1) / (multiplier[1] || 1)),
+    subFrameRate: Number(param('subFrameRate')) || 1,
+    tickRate: Number(param('tickRate')) || (param('frameRate') ? Number(param('frameRate')) : 1),
+  };
+
+  const subtitles: Subtitle[] = [];
+  const paragraphs = Array.from(xml.getElementsByTagNameNS('*', 'p'));
+
+  paragraphs.forEach((p) => {
+    // In a parallel time container, begin is relative to the nearest timed ancestor
+    let parentBegin = 0;
+    for (let el = p.parentElement; el; el = el.parentElement) {
+      parentBegin += ttmlTimeToSeconds(el.getAttribute('begin'), timing) ?? 0;
+    }
+
+    let begin = ttmlTimeToSeconds(p.getAttribute('begin'), timing);
+    let end = ttmlTimeToSeconds(p.getAttribute('end'), timing);
+    const dur = ttmlTimeToSeconds(p.getAttribute('dur'), timing);
+
+    // Some files time the <span> children instead of the <p>
+    if (begin === null) {
+      const span = p.querySelector('[begin]');
+      begin = ttmlTimeToSeconds(span?.getAttribute('begin') ?? null, timing);
+      end = ttmlTimeToSeconds(span?.getAttribute('end') ?? null, timing);
+    }
+    if (begin === null) return;
+    if (end === null) end = begin + (dur ?? 0);
+
+    const text = ttmlNodeText(p).split('\n').map(line => line.trim()).join('\n').trim();
+    if (!text) return;
+
+    subtitles.push({
+      id: subtitles.length + 1,
+      startTime: parentBegin + begin,
+      endTime: parentBegin + end,
+      text,
+    });
+  });
+
+  // Map the first declared style back onto the app's style model
+  const style: Partial<SubtitleStyle> = {};
+  const styleElement = xml.getElementsByTagNameNS('*', 'style')[0];
+  if (styleElement) {
+    const attr = (name: string) => styleElement.getAttributeNS(TTML_STYLE_NS, name) || styleElement.getAttribute(`tts:${name}`);
+    const color = attr('color');
+    const background = attr('backgroundColor');
+    const fontSize = attr('fontSize');
+    const fontFamily = attr('fontFamily');
+    if (color?.startsWith('#')) style.color = color.slice(0, 7);
+    if (background?.startsWith('#')) {
+      style.backgroundColor = background.slice(0, 7);
+      style.backgroundOpacity = background.length === 9 ? parseInt(background.slice(7), 16) / 255 : 1;
+    }
+    if (fontSize?.endsWith('px')) style.fontSize = parseFloat(fontSize);
+    if (fontFamily) style.fontFamily = fontFamily;
+  }
+  const region = xml.getElementsByTagNameNS('*', 'region')[0];
+  const displayAlign = region?.getAttributeNS(TTML_STYLE_NS, 'displayAlign') || region?.getAttribute('tts:displayAlign');
+  if (displayAlign) {
+    style.position = displayAlign === 'before' ? 'top' : displayAlign === 'center' ? 'middle' : 'bottom';
+  }
+
+  return { subtitles, style };
+}
+
+export function generateTTML(subtitles: Subtitle[], options: TtmlOptions = {}): string {
+  const { profile = 'imsc1', style = DEFAULT_TTML_STYLE, language = 'en' } = options;
+  const displayAlign = style.position === 'top' ? 'before' : style.position === 'middle' ? 'center' : 'after';
+
+  // IMSC1 requires a root extent when lengths are given in pixels
+  const rootAttributes = [
+    `xmlns="${TTML_NS}"`,
+    `xmlns:tts="${TTML_STYLE_NS}"`,
+    `xmlns:ttp="${TTML_PARAM_NS}"`,
+    profile === 'imsc1' ? 'xmlns:ittp="http://www.w3.org/ns/ttml/profile/imsc1#parameter"' : '',
+    `xml:lang="${escapeXml(language)}"`,
+    'ttp:timeBase="media"',
+    profile === 'imsc1' ? 'ttp:profile="http://www.w3.org/ns/ttml/profile/imsc1/text"' : '',
+    profile === 'imsc1' ? 'tts:extent="1920px 1080px"' : '',
+  ].filter(Boolean).join(' ');
+
+  const paragraphs = subtitles.map((sub) => {
+    const plain = stripVttMarkup(stripAssOverrides(sub.text)).replace(/<\/?(?:b|i|u|font)(?:\s[^>]*)?>/g, '');
+    const lines = plain.split('\n').map(line => escapeXml(line));
+    // HH:MM:SS.mmm is a valid TTML clock-time expression, so the WebVTT formatter can be reused
+    return `      <p begin="${secondsToVttTime(sub.startTime)}" end="${secondsToVttTime(sub.endTime)}"><span style="s1">${lines.join('<br/>')}</span></p>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tt ${rootAttributes}>`,
+    '  <head>',
+    '    <styling>',
+    `      <style xml:id="s1" tts:fontFamily="${escapeXml(style.fontFamily)}" tts:fontSize="${style.fontSize}px" tts:color="${ttmlColor(style.color)}" tts:backgroundColor="${ttmlColor(style.backgroundColor, style.backgroundOpacity)}" tts:textAlign="center"/>`,
+    '    </styling>',
+    '    <layout>',
+    `      <region xml:id="r1" tts:origin="10% 10%" tts:extent="80% 80%" tts:displayAlign="${displayAlign}" tts:textAlign="center"/>`,
+    '    </layout>',
+    '  </head>',
+    '  <body region="r1">',
+    '    <div>',
+    ...paragraphs,
+    '    </div>',
+    '  </body>',
+    '</tt>',
+    '',
+  ].join('\n');
+}
+
+// --- Frame-based formats: MicroDVD (.sub) and Scenarist SCC (CEA-608) ---
+
+export type FrameRateId = '23.976' | '24' | '25' | '29.97df' | '29.97ndf' | '30';
+
+export interface FrameRate {
+  id: FrameRateId;
+  label: string;
+  fps: number;
+  dropFrame: boolean;
+}
+
+export const FRAME_RATES: FrameRate[] = [
+  { id: '23.976', label: '23.976 fps (Film, NTSC)', fps: 24000 / 1001, dropFrame: false },
+  { id: '24', label: '24 fps (Cinema)', fps: 24, dropFrame: false },
+  { id: '25', label: '25 fps (PAL)', fps: 25, dropFrame: false },
+  { id: '29.97df', label: '29.97 fps Drop-Frame (NTSC)', fps: 30000 / 1001, dropFrame: true },
+  { id: '29.97ndf', label: '29.97 fps Non-Drop (NTSC)', fps: 30000 / 1001, dropFrame: false },
+  { id: '30', label: '30 fps', fps: 30, dropFrame: false },
+];
+
+export function getFrameRate(id: FrameRateId): FrameRate {
+  return FRAME_RATES.find(rate => rate.id === id) ?? FRAME_RATES[0];
+}
+
+// Match a declared numeric rate (e.g. the MicroDVD "{1}{1}23.976" header) to the closest known rate
+function frameRateFromNumber(fps: number): FrameRate | null {
+  if (!fps || !isFinite(fps)) return null;
+  const match = FRAME_RATES.filter(rate => !rate.dropFrame || rate.id === '29.97df')
+    .reduce((best, rate) => Math.abs(rate.fps - fps) < Math.abs(best.fps - fps) ? rate : best);
+  return Math.abs(match.fps - fps) < 0.05 ? match : { id: '30', label: `${fps} fps`, fps, dropFrame: false };
+}
+
+// SMPTE timecode -> seconds. Drop-frame skips frame numbers 0 and 1 every minute except each tenth minute.
+export function timecodeToSeconds(timecode: string, rate: FrameRate): number {
+  const match = timecode.trim().match(/^(\d{1,2}):(\d{2}):(\d{2})[:;.,](\d{2})$/);
+  if (!match) return 0;
+  const [h, m, s, f] = match.slice(1).map(Number);
+  const nominal = Math.round(rate.fps);
+  let frames = (h * 3600 + m * 60 + s) * nominal + f;
+  if (rate.dropFrame) {
+    const totalMinutes = h * 60 + m;
+    frames -= 2 * (totalMinutes - Math.floor(totalMinutes / 10));
+  }
+  return frames / rate.fps;
+}
+
+export function secondsToTimecode(seconds: number, rate: FrameRate): string {
+  const nominal = Math.round(rate.fps);
+  let frames = Math.max(0, Math.round(seconds * rate.fps));
+  if (rate.dropFrame) {
+    const framesPer10Min = Math.round(rate.fps * 600); // 17982 at 29.97
+    const framesPerMin = nominal * 60 - 2; // 1798
+    const tens = Math.floor(frames / framesPer10Min);
+    const rem = frames % framesPer10Min;
+    frames += 18 * tens + (rem > 1 ? 2 * Math.floor((rem - 2) / framesPerMin) : 0);
+  }
+  const pad = (num: number) => String(num).padStart(2, '0');
+  const f = frames % nominal;
+  const totalSeconds = Math.floor(frames / nominal);
+  const h = Math.floor(totalSeconds / 3600);
+  const m = Math.floor((totalSeconds % 3600) / 60);
+  const s = totalSeconds % 60;
+  return `${pad(h)}:${pad(m)}:${pad(s)}${rate.dropFrame ? ';' : ':'}${pad(f)}`;
+}
+
+export function parseMicroDVD(content: string, rate: FrameRate): { subtitles: Subtitle[]; frameRate: FrameRate } {
+  const subtitles: Subtitle[] = [];
+  let effectiveRate = rate;
+  const lines = content.replace(/^\uFEFF/, '').replace(/\r\n/g, '\n').replace(/\r/g, '\n').split('\n');
+
+  lines.forEach((line, index) => {
+    const match = line.trim().match(/^\{(\d+)\}\{(\d*)\}(.*)$/);
+    if (!match) return;
+    const start = Number(match[1]);
+    const end = match[2] ? Number(match[2]) : start + Math.round(effectiveRate.fps * 2);
+    const body = match[3];
+
+    // "{1}{1}23.976" on the first line declares the frame rate of the file
+    if (index === 0 && start === end && start <= 1) {
+      const declared = frameRateFromNumber(parseFloat(body));
+      if (declared) {
+        effectiveRate = declared;
+        return;
+      }
+    }
+
+    const text = body.split('|').join('\n').trim();
+    if (!text) return;
+    subtitles.push({
+      id: subtitles.length + 1,
+      startTime: start / effectiveRate.fps,
+      endTime: end / effectiveRate.fps,
+      text,
+    });
+  });
+
+  return { subtitles, frameRate: effectiveRate };
+}
+
+export function generateMicroDVD(subtitles: Subtitle[], rate: FrameRate): string {
+  const header = `{1}{1}${Number(rate.fps.toFixed(3))}`;
+  const lines = subtitles.map((sub) => {
+    const text = stripVttMarkup(stripAssOverrides(sub.text)).split('\n').join('|');
+    return `{${Math.round(sub.startTime * rate.fps)}}{${Math.round(sub.endTime * rate.fps)}}${text}`;
+  });
+  return [header, ...lines].join('\n') + '\n';
+}
+
+// CEA-608 character tables. Standard characters mostly follow ASCII with a few substitutions.
+const CEA608_STANDARD_OVERRIDES: Record<number, string> = {
+  0x2a: 'á', 0x5c: 'é', 0x5e: 'í', 0x5f: 'ó', 0x60: 'ú', 0x7b: 'ç', 0x7c: '÷', 0x7d: 'Ñ', 0x7e: 'ñ', 0x7f: '█',
+};
+const CEA608_SPECIAL = ['®', '°', '½', '¿', '™', '¢', '£', '♪', 'à', ' ', 'è', 'â', 'ê', 'î', 'ô', 'û'];
+const CEA608_EXTENDED_12 = [
+  'Á', 'É', 'Ó', 'Ú', 'Ü', 'ü', '‘', '¡', '*', '’', '—', '©', '℠', '•', '“', '”',
+  'À', 'Â', 'Ç', 'È', 'Ê', 'Ë', 'ë', 'Î', 'Ï', 'ï', 'Ô', 'Ù', 'ù', 'Û', '«', '»',
+];
+const CEA608_EXTENDED_13 = [
+  'Ã', 'ã', 'Í', 'Ì', 'ì', 'Ò', 'ò', 'Õ', 'õ', '{', '}', '\\', '^', '_', '|', '~',
+  'Ä', 'ä', 'Ö', 'ö', 'ß', '¥', '¤', '¦', 'Å', 'å', 'Ø', 'ø', '┌', '┐', '└', '┘',
+];
+
+// Preamble address codes (channel 1, white, column 0) for rows 1-15
+const CEA608_PAC_ROWS: [number, number][] = [
+  [0x11, 0x40], [0x11, 0x60], [0x12, 0x40], [0x12, 0x60], [0x15, 0x40], [0x15, 0x60], [0x16, 0x40],
+  [0x16, 0x60], [0x17, 0x40], [0x17, 0x60], [0x10, 0x40], [0x13, 0x40], [0x13, 0x60], [0x14, 0x40], [0x14, 0x60],
+];
+
+const SCC_LINE_WIDTH = 32;
+const SCC_MAX_ROWS = 4;
+
+function withOddParity(byte: number): number {
+  let ones = 0;
+  for (let bit = 0; bit < 7; bit++) ones += (byte >> bit) & 1;
+  return ones % 2 === 0 ? byte | 0x80 : byte & 0x7f;
+}
+
+function toSccWord(b1: number, b2: number): string {
+  return ((withOddParity(b1) << 8) | withOddParity(b2)).toString(16).padStart(4, '0');
+}
+
+function decodeCea608Standard(byte: number): string {
+  if (byte < 0x20) return '';
+  return CEA608_STANDARD_OVERRIDES[byte] ?? String.fromCharCode(byte);
+}
+
+export function parseSCC(content: string, rate: FrameRate = getFrameRate('29.97df')): Subtitle[] {
+  const subtitles: Subtitle[] = [];
+  const lines = content.replace(/^\uFEFF/, '').replace(/\r\n/g, '\n').replace(/\r/g, '\n').split('\n');
+
+  let nonDisplayed: string[] = [''];
+  let displayed: { text: string; start: number } | null = null;
+  let mode: 'pop-on' | 'roll-up' | 'paint-on' = 'pop-on';
+  let lastControl = '';
+
+  const flush = (time: number) => {
+    if (displayed && displayed.text.trim()) {
+      subtitles.push({
+        id: subtitles.length + 1,
+        startTime: displayed.start,
+        endTime: Math.max(time, displayed.start),
+        text: displayed.text.split('\n').map(l => l.trim()).filter(Boolean).join('\n'),
+      });
+    }
+    displayed = null;
+  };
+
+  // Roll-up and paint-on write straight to the screen; pop-on writes to an off-screen buffer
+  const write = (chars: string, time: number) => {
+    if (mode === 'pop-on') {
+      nonDisplayed[nonDisplayed.length - 1] += chars;
+    } else {
+      if (!displayed) displayed = { text: '', start: time };
+      displayed.text += chars;
+    }
+  };
+  const newRow = (time: number) => {
+    if (mode === 'pop-on') {
+      if (nonDisplayed[nonDisplayed.length - 1].trim()) nonDisplayed.push('');
+    } else if (displayed && displayed.text.trim() && !displayed.text.endsWith('\n')) {
+      displayed.text += '\n';
+    } else if (!displayed) {
+      displayed = { text: '', start: time };
+    }
+  };
+
+  lines.forEach((line) => {
+    const match = line.trim().match(/^(\d{1,2}:\d{2}:\d{2}[:;.,]\d{2})\s+(.+)$/);
+    if (!match) return;
+    const lineRate = match[1].includes(';') && !rate.dropFrame ? getFrameRate('29.97df') : rate;
+    const baseTime = timecodeToSeconds(match[1], lineRate);
+    const words = match[2].trim().split(/\s+/);
+
+    words.forEach((word, index) => {
+      // Each byte pair takes one frame to transmit
+      const time = baseTime + index / lineRate.fps;
+      const value = parseInt(word, 16);
+      if (isNaN(value)) return;
+      const b1 = (value >> 8) & 0x7f;
+      const b2 = value & 0x7f;
+
+      if (b1 >= 0x10 && b1 <= 0x1f) {
+        const channelB1 = b1 & 0x17; // fold channel 2 codes onto channel 1
+        const isSpecialChar = (channelB1 === 0x11 && b2 >= 0x30 && b2 <= 0x3f) ||
+          ((channelB1 === 0x12 || channelB1 === 0x13) && b2 >= 0x20 && b2 <= 0x3f);
+
+        // Control codes are sent twice for redundancy; the repeat is ignored
+        if (!isSpecialChar) {
+          if (word === lastControl) {
+            lastControl = '';
+            return;
+          }
+          lastControl = word;
+        } else {
+          lastControl = '';
+        }
+
+        if (isSpecialChar) {
+          if (channelB1 === 0x11) {
+            write(CEA608_SPECIAL[b2 - 0x30], time);
+          } else {
+            // Extended characters replace the standard fallback character sent just before them
+            const table = channelB1 === 0x12 ? CEA608_EXTENDED_12 : CEA608_EXTENDED_13;
+            if (mode === 'pop-on') {
+              const row = nonDisplayed.length - 1;
+              nonDisplayed[row] = nonDisplayed[row].slice(0, -1);
+            } else if (displayed) {
+              displayed.text = displayed.text.slice(0, -1);
+            }
+            write(table[b2 - 0x20], time);
+          }
+          return;
+        }
+
+        if ((channelB1 === 0x14 || channelB1 === 0x15) && b2 >= 0x20 && b2 <= 0x2f) {
+          switch (b2) {
+            case 0x20: // RCL: resume caption loading (pop-on)
+              mode = 'pop-on';
+              break;
+            case 0x25: case 0x26: case 0x27: // RU2-RU4
+              mode = 'roll-up';
+              break;
+            case 0x29: // RDC: resume direct captioning (paint-on)
+              mode = 'paint-on';
+              break;
+            case 0x21: // BS: backspace
+              if (mode === 'pop-on') {
+                const row = nonDisplayed.length - 1;
+                nonDisplayed[row] = nonDisplayed[row].slice(0, -1);
+              } else if (displayed) {
+                displayed.text = displayed.text.slice(0, -1);
+              }
+              break;
+            case 0x2c: // EDM: erase displayed memory
+              flush(time);
+              break;
+            case 0x2d: // CR: carriage return, a roll-up line is complete
+              if (mode === 'roll-up') flush(time);
+              break;
+            case 0x2e: // ENM: erase non-displayed memory
+              nonDisplayed = [''];
+              break;
+            case 0x2f: { // EOC: swap memories, the loaded caption appears now
+              flush(time);
+              const text = nonDisplayed.join('\n');
+              displayed = text.trim() ? { text, start: time } : null;
+              nonDisplayed = [''];
+              break;
+            }
+          }
+          return;
+        }
+
+        if (channelB1 === 0x17 && b2 >= 0x21 && b2 <= 0x23) {
+          write(' '.repeat(b2 - 0x20), time); // tab offsets
+          return;
+        }
+        if (channelB1 === 0x11 && b2 >= 0x20 && b2 <= 0x2f) {
+          write(' ', time); // mid-row style change displays as a space
+          return;
+        }
+        if (b2 >= 0x40 && b2 <= 0x7f) {
+          newRow(time); // preamble address code: cursor moves to a new row
+        }
+        return;
+      }
+
+      lastControl = '';
+      write(decodeCea608Standard(b1) + decodeCea608Standard(b2), time);
+    });
+  });
+
+  const last = subtitles[subtitles.length - 1];
+  flush(last ? last.endTime + 2 : 2);
+  return subtitles;
+}
+
+// Greedy word wrap to the 32-column caption grid
+function wrapForScc(text: string): string[] {
+  const rows: string[] = [];
+  text.split('\n').forEach((paragraph) => {
+    let current = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach((word) => {
+      const candidate = current ? `${current} ${word}` : word;
+      if (candidate.length <= SCC_LINE_WIDTH) {
+        current = candidate;
+      } else {
+        if (current) rows.push(current);
+        current = word.slice(0, SCC_LINE_WIDTH);
+      }
+    });
+    if (current) rows.push(current);
+  });
+  return rows.slice(-SCC_MAX_ROWS);
+}
+
+// Encode one row of text as 608 byte pairs. Characters outside the 608 set are dropped.
+function encodeSccText(text: string): string[] {
+  const words: string[] = [];
+  let pending: number | null = null;
+
+  const pushStandard = (byte: number) => {
+    if (pending === null) {
+      pending = byte;
+    } else {
+      words.push(toSccWord(pending, byte));
+      pending = null;
+    }
+  };
+  const pushCode = (b1: number, b2: number) => {
+    if (pending !== null) {
+      words.push(toSccWord(pending, 0x00));
+      pending = null;
+    }
+    words.push(toSccWord(b1, b2));
+  };
+
+  const standardLookup = new Map(Object.entries(CEA608_STANDARD_OVERRIDES).map(([code, ch]) => [ch, Number(code)]));
+
+  Array.from(text).forEach((ch) => {
+    const code = ch.charCodeAt(0);
+    const override = standardLookup.get(ch);
+    if (override !== undefined) {
+      pushStandard(override);
+    } else if (code >= 0x20 && code < 0x7f && !(code in CEA608_STANDARD_OVERRIDES)) {
+      pushStandard(code);
+    } else if (CEA608_SPECIAL.includes(ch)) {
+      pushCode(0x11, 0x30 + CEA608_SPECIAL.indexOf(ch));
+    } else if (CEA608_EXTENDED_12.includes(ch) || CEA608_EXTENDED_13.includes(ch)) {
+      // Send a plain fallback first for decoders that do not support extended characters
+      const fallback = ch.normalize('NFD').replace(/[\u0300-\u036f]/g, '').charCodeAt(0);
+      const usable = fallback >= 0x20 && fallback < 0x7f && !(fallback in CEA608_STANDARD_OVERRIDES);
+      pushStandard(usable ? fallback : 0x20);
+      const is12 = CEA608_EXTENDED_12.includes(ch);
+      pushCode(is12 ? 0x12 : 0x13, 0x20 + (is12 ? CEA608_EXTENDED_12 : CEA608_EXTENDED_13).indexOf(ch));
+    }
+  });
+
+  if (pending !== null) words.push(toSccWord(pending, 0x00));
+  return words;
+}
+
+export function generateSCC(subtitles: Subtitle[], rate: FrameRate = getFrameRate('29.97df')): string {
+  const control = (b2: number) => {
+    const word = toSccWord(0x14, b2);
+    return [word, word];
+  };
+  const lines: string[] = [];
+  let busyUntil = 0; // earliest time the next line can start without overlapping the previous one
+
+  subtitles.forEach((sub, index) => {
+    const rows = wrapForScc(stripVttMarkup(stripAssOverrides(sub.text)).replace(/<[^>]+>/g, ''));
+    if (rows.length === 0) return;
+
+    const words: string[] = [...control(0x2e), ...control(0x20)]; // ENM, RCL
+    rows.forEach((row, rowIndex) => {
+      const [b1, base] = CEA608_PAC_ROWS[15 - rows.length + rowIndex];
+      // Centre the row: indent PACs move in steps of 4 columns, tab offsets add the remainder
+      const column = Math.floor((SCC_LINE_WIDTH - row.length) / 2);
+      const indent = Math.floor(column / 4) * 4;
+      const pac = toSccWord(b1, base + 0x10 + (indent / 4) * 2);
+      words.push(pac, pac);
+      if (column > indent) {
+        const tab = toSccWord(0x17, 0x20 + (column - indent));
+        words.push(tab, tab);
+      }
+      words.push(...encodeSccText(row));
+    });
+    words.push(...control(0x2f)); // EOC
+
+    // Start sending early enough that EOC lands on the cue start
+    const sendTime = Math.max(busyUntil, sub.startTime - (words.length - 2) / rate.fps);
+    lines.push(`${secondsToTimecode(sendTime, rate)}\t${words.join(' ')}`);
+    busyUntil = sendTime + words.length / rate.fps;
+
+    const next = subtitles[index + 1];
+    // A following pop-on caption replaces this one, so only clear the screen when there is a gap
+    if (!next || next.startTime - sub.endTime > 0.1) {
+      const clearTime = Math.max(busyUntil, sub.endTime);
+      lines.push(`${secondsToTimecode(clearTime, rate)}\t${control(0x2c).join(' ')}`);
+      busyUntil = clearTime + 2 / rate.fps;
+    }
+  });
+
+  return ['Scenarist_SCC V1.0', '', lines.join('\n\n'), ''].join('\n');
+}
+
+// --- Format detection ---
+
+export type SubtitleFileFormat = 'srt' | 'vtt' | 'ass' | 'ssa' | 'ttml' | 'sub' | 'scc';
+
+export interface ParsedSubtitleFile {
+  format: SubtitleFileFormat;
+  subtitles: Subtitle[];
+  ass?: AssDocument;
+  vtt?: VttDocument;
+  style?: Partial<SubtitleStyle>; // styling declared in the file itself (TTML)
+  frameRate?: FrameRate; // rate used to read a frame-based file (declared in the file or supplied by the caller)
+}
+
+export interface ParseOptions {
+  frameRate?: FrameRateId; // for MicroDVD files without a rate header and for SCC timecodes
+}
+
+// File-input accept string for every format parseSubtitleFile understands
+export const SUBTITLE_FILE_ACCEPT = '.srt,.vtt,.ass,.ssa,.ttml,.dfxp,.xml';
+
+// Frame-numbered formats need a frame rate, so only tools that ask for one accept them
+export const FRAME_BASED_FILE_ACCEPT = '.sub,.scc';
+
+export function detectSubtitleFormat(content: string, fileName: string = ''): SubtitleFileFormat {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  const head = content.replace(/^\uFEFF/, '').trimStart();
+
+  if (/^\[Script Info\]/i.test(head) || /^\[V4\+? Styles\]/im.test(head)) {
+    return /ScriptType:\s*v4\.00\s*$/im.test(head) || /^\[V4 Styles\]/im.test(head) ? 'ssa' : 'ass';
+  }
+  if (head.startsWith('WEBVTT')) return 'vtt';
+  if (/^Scenarist_SCC/i.test(head)) return 'scc';
+  if (/^\{\d+\}\{\d*\}/.test(head)) return 'sub';
+  if (/^(?:<\?xml[^>]*>\s*)?(?:<!--[\s\S]*?-->\s*)*<(?:\w+:)?tt[\s>]/.test(head)) return 'ttml';
+  if (extension === 'ttml' || extension === 'dfxp') return 'ttml';
+  if (extension === 'ass' || extension === 'ssa' || extension === 'vtt') return extension;
+  return 'srt';
+}
+
+// Parse any supported subtitle file. Throws when nothing usable is found.
+export function parseSubtitleFile(content: string, fileName: string = '', options: ParseOptions = {}): ParsedSubtitleFile {
+  const format = detectSubtitleFormat(content, fileName);
+
+  if (format === 'sub') {
+    const { subtitles, frameRate } = parseMicroDVD(content, getFrameRate(options.frameRate ?? '23.976'));
+    if (subtitles.length === 0) throw new Error("Could not find any {start}{end} lines in this MicroDVD file.");
+    return { format, subtitles, frameRate };
+  }
+
+  if (format === 'scc') {
+    const frameRate = getFrameRate(options.frameRate ?? '29.97df');
+    const subtitles = parseSCC(content, frameRate);
+    if (subtitles.length === 0) throw new Error("Could not decode any captions from this SCC file.");
+    return { format, subtitles, frameRate };
+  }
+
+  if (format === 'ass' || format === 'ssa') {
+    const { subtitles, document } = parseASS(content);
+    if (subtitles.length === 0) throw new Error("Could not find any Dialogue lines in this file.");
+    return { format, subtitles, ass: document };
+  }
+
+  if (format === 'ttml') {
+    const { subtitles, style } = parseTTML(content);
+    if (subtitles.length === 0) throw new Error("Could not find any timed <p> elements in this file.");
+    return { format, subtitles, style };
+  }
+
+  if (!content.includes('-->')) {
+    throw new Error("Invalid subtitle file. Missing timestamp arrows (-->).");
+  }
+
+  if (format === 'vtt') {
+    const { subtitles, document } = parseVTT(content);
+    if (subtitles.length === 0) throw new Error("Could not parse any subtitles from this file.");
+    return { format, subtitles, vtt: document };
+  }
+
+  const subtitles = parseSRT(content.replace(/^\uFEFF/, '').trim());
+  if (subtitles.length === 0) throw new Error("Could not parse any subtitles from this file.");
+  return { format, subtitles };
+}
+
+export type SubtitleExportFormat = 'srt' | 'vtt' | 'ass' | 'ssa' | 'ttml' | 'dfxp' | 'sub' | 'scc' | 'docx' | 'txt' | 'pdf';
+
+export interface ConvertOptions {
+  ass?: AssDocument | null; // header/styles to reuse when the source was ASS/SSA
+  vtt?: VttDocument | null; // header, NOTE/STYLE/REGION blocks to reuse when the source was WebVTT
+  style?: SubtitleStyle; // tts: styling for TTML/DFXP output
+  frameRate?: FrameRateId; // for MicroDVD and SCC output
+  pdf?: PdfExportOptions; // layout for PDF output
+  encoding?: ExportEncodingId; // character set for SRT, ASS/SSA, MicroDVD and TXT output
+  speakerLabels?: boolean; // prefix "Name: " where the format has no speaker field; TXT becomes a dialogue script
+}
+
+// WebVTT cue text for ASS: bold, italic and underline become override tags, other markup is dropped
+function vttTextToAss(text: string): string {
+  const styled = text.replace(/<(\/?)([biu])(?:\.[^>]*)?>/g, (_, close: string, tag: string) => `{\\${tag}${close ? 0 : 1}}`);
+  return stripVttMarkup(styled);
+}
+
+// Cues from a WebVTT source rewritten for ASS; cues parsed from ASS keep their override tags
+const vttCuesToAss = (subtitles: Subtitle[]): Subtitle[] =>
+  subtitles.map(sub => (sub.vtt ? { ...sub, text: vttTextToAss(sub.text) } : sub));
+
+// Drop ASS override tags and (unless the target is WebVTT) VTT markup from cue text
+function stripCueMarkup(subtitles: Subtitle[], keepVtt: boolean = false): Subtitle[] {
+  if (subtitles.some(sub => sub.ass)) {
+    subtitles = subtitles.map(sub => sub.ass ? { ...sub, text: stripAssOverrides(sub.text) } : sub);
+  }
+  if (!keepVtt && subtitles.some(sub => sub.vtt)) {
+    subtitles = subtitles.map(sub => sub.vtt ? { ...sub, text: stripVttMarkup(sub.text) } : sub);
+  }
+  return subtitles;
+}
+
+function textBlob(content: string, type: string, encoding: ExportEncodingId = 'utf-8'): Blob {
+  if (encoding === 'utf-8') return new Blob([content], { type });
+  return new Blob([encodeText(content, encoding).bytes], { type });
+}
+
 export async function convertSubtitles(
   subtitles: Subtitle[], 
-  format: 'srt' | 'vtt' | 'docx' | 'txt' | 'pdf'
+  format: SubtitleExportFormat,
+  options: ConvertOptions = {}
 ): Promise<Blob> {
+  if (format === 'ass' || format === 'ssa') {
+    return textBlob(generateASS(vttCuesToAss(subtitles), options.ass, format), 'text/plain', options.encoding);
+  }
+
+  // Formats below cannot express ASS override tags, so render them as plain text
+  subtitles = stripCueMarkup(subtitles, format === 'vtt');
+
+  // WebVTT carries speakers as <v> voice spans; everywhere else the name goes into the text
+  if (options.speakerLabels && format === 'txt') {
+    return textBlob(formatDialogue(subtitles), 'text/plain', options.encoding);
+  }
+  if (options.speakerLabels && format !== 'vtt') {
+    subtitles = labelSpeakers(subtitles);
+  }
+
   switch (format) {
     case 'srt':
-      return new Blob([generateSRT(subtitles)], { type: 'text/plain' });
+      return textBlob(generateSRT(subtitles), 'text/plain', options.encoding);
     
     case 'vtt':
-      return new Blob([generateVTT(subtitles)], { type: 'text/plain' });
+      // WebVTT must be UTF-8, so the only choice that applies is whether to write a BOM
+      return textBlob(generateVTT(subtitles, options.vtt), 'text/vtt', options.encoding === 'utf-8-bom' ? 'utf-8-bom' : 'utf-8');
     
+    case 'ttml':
+    case 'dfxp':
+      return new Blob(
+        [generateTTML(subtitles, { profile: format === 'ttml' ? 'imsc1' : 'dfxp', style: options.style })],
+        { type: 'application/ttml+xml' }
+      );
+
+    case 'sub':
+      return textBlob(generateMicroDVD(subtitles, getFrameRate(options.frameRate ?? '23.976')), 'text/plain', options.encoding);
+
+    case 'scc':
+      return new Blob([generateSCC(subtitles, getFrameRate(options.frameRate ?? '29.97df'))], { type: 'text/plain' });
+
     case 'txt':
-      return new Blob([generateText(subtitles)], { type: 'text/plain' });
+      return textBlob(generateText(subtitles), 'text/plain', options.encoding);
     
     case 'docx':
-      // Create a basic HTML-based doc for simplicity which Word can open
-      const htmlContent = `
-        <html xmlns:o='urn:schemas-microsoft-com:office:office' xmlns:w='urn:schemas-microsoft-com:office:word' xmlns='http://www.w3.org/TR/REC-html40'>
-        <head><meta charset='utf-8'><title>Subtitles</title></head>
-        <body>
-          ${subtitles.map(sub => `
-            <p><strong>${secondsToTime(sub.startTime)} --> ${secondsToTime(sub.endTime)}</strong><br/>
-            ${sub.text}</p>
-          `).join('')}
-        </body></html>
-      `;
-      return new Blob([htmlContent], { type: 'application/msword' });
+      return createDocx([
+        { type: 'title', text: 'Subtitles' },
+        {
+          type: 'table',
+          header: ['#', 'Timecode', 'Text'],
+          rows: subtitles.map((sub, index) => [
+            String(index + 1),
+            `${secondsToTime(sub.startTime)}\n${secondsToTime(sub.endTime)}`,
+            sub.text,
+          ]),
+          widths: [700, 2300, 6600],
+        },
+      ], 'Subtitles');
 
     case 'pdf':
-      const doc = new jsPDF();
-      let y = 10;
-      const lineHeight = 10;
-      const pageHeight = doc.internal.pageSize.height;
-
-      doc.setFont("helvetica", "normal");
-      doc.setFontSize(12);
-
-      subtitles.forEach((sub) => {
-        // Check for page break
-        if (y + (lineHeight * 2) > pageHeight - 10) {
-            doc.addPage();
-            y = 10;
-        }
+      return createSubtitlePdf(subtitles, options.pdf);
+
+    default:
+      throw new Error("Unsupported format");
+  }
+}
+
+// --- Dual-language export ---
 
-        doc.setFont("helvetica", "bold");
-        doc.text(`${secondsToTime(sub.startTime)} --> ${secondsToTime(sub.endTime)}`, 10, y);
-        y += 6;
+export type BilingualExportFormat = 'srt' | 'vtt' | 'ass' | 'pdf' | 'docx';
+
+export interface BilingualOptions extends ConvertOptions {
+  titles?: [string, string]; // labels for the two languages, e.g. ['Original', 'Spanish']
+}
 
-        doc.setFont("helvetica", "normal");
-        const splitText = doc.splitTextToSize(sub.text, 180);
-        doc.text(splitText, 10, y);
-        y += (splitText.length * 6) + 4; // Add spacing
+// One cue per original line with its translation (matched by position) on the line below
+export function stackBilingualSubtitles(original: Subtitle[], translated: Subtitle[]): Subtitle[] {
+  return original.map((sub, index) => {
+    const translation = translated[index]?.text.trim();
+    return translation ? { ...sub, text: `${sub.text}\n${translation}` } : sub;
+  });
+}
+
+// Default script with the original pinned to the top of the frame and the translation at the bottom
+export function createBilingualAssDocument(): AssDocument {
+  const document = createDefaultAssDocument();
+  document.styles = [
+    { ...DEFAULT_ASS_STYLE, Name: 'Top', Alignment: '8', PrimaryColour: '&H0000FFFF' },
+    { ...DEFAULT_ASS_STYLE, Name: 'Bottom', Alignment: '2' },
+  ];
+  return document;
+}
+
+function withAssStyle(sub: Subtitle, style: string): Subtitle {
+  const ass = sub.ass ?? { layer: 0, style, name: '', marginL: 0, marginR: 0, marginV: 0, effect: '' };
+  return { ...sub, ass: { ...ass, style } };
+}
+
+export async function convertBilingualSubtitles(
+  original: Subtitle[],
+  translated: Subtitle[],
+  format: BilingualExportFormat,
+  options: BilingualOptions = {}
+): Promise<Blob> {
+  const titles = options.titles ?? ['Original', 'Translation'];
+
+  switch (format) {
+    case 'srt':
+    case 'vtt':
+      return convertSubtitles(stackBilingualSubtitles(original, translated), format, options);
+
+    case 'ass': {
+      const translatedAss = vttCuesToAss(translated);
+      const events = vttCuesToAss(original).flatMap((sub, index) => {
+        const translation = translatedAss[index];
+        if (!translation) return [withAssStyle(sub, 'Top')];
+        return [withAssStyle(sub, 'Top'), withAssStyle({ ...translation, startTime: sub.startTime, endTime: sub.endTime }, 'Bottom')];
+      });
+      return textBlob(generateASS(events, createBilingualAssDocument(), 'ass'), 'text/plain', options.encoding);
+    }
+
+    case 'pdf':
+      return createSubtitlePdf(stripCueMarkup(original), {
+        showHeaderFooter: true,
+        ...options.pdf,
+        secondary: stripCueMarkup(translated),
+        columnTitles: titles,
       });
-      
-      return doc.output('blob');
+
+    case 'docx': {
+      const plainTranslated = stripCueMarkup(translated);
+      return createDocx([
+        { type: 'title', text: 'Study Sheet' },
+        {
+          type: 'table',
+          header: ['#', 'Timecode', ...titles],
+          rows: stripCueMarkup(original).map((sub, index) => [
+            String(index + 1),
+            `${secondsToTime(sub.startTime)}\n${secondsToTime(sub.endTime)}`,
+            sub.text,
+            plainTranslated[index]?.text ?? '',
+          ]),
+          widths: [600, 1800, 3600, 3600],
+        },
+      ], 'Study Sheet');
+    }
 
     default:
       throw new Error("Unsupported format");
   }
-}
\ No newline at end of file
+}
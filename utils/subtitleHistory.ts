@@ -0,0 +1,128 @@
+import { useReducer, useEffect, useCallback, useRef, RefObject } from 'react';
+import { Subtitle } from '../types';
+
+// Undo/redo history for an editable subtitle list, shared by the editor and generator tools
+
+const MAX_HISTORY = 100;
+// Edits to the same field within this window are undone together, so typing a word is one step
+const GROUP_WINDOW_MS = 1000;
+
+type SubtitleUpdate = Subtitle[] | ((prev: Subtitle[]) => Subtitle[]);
+
+interface HistoryState {
+  past: Subtitle[][];
+  present: Subtitle[];
+  future: Subtitle[][];
+  lastGroup: string | null;
+  lastEditAt: number;
+}
+
+type HistoryAction =
+  | { type: 'edit'; update: SubtitleUpdate; group?: string; at: number }
+  | { type: 'reset'; subtitles: Subtitle[] }
+  | { type: 'undo' }
+  | { type: 'redo' };
+
+function historyReducer(state: HistoryState, action: HistoryAction): HistoryState {
+  switch (action.type) {
+    case 'edit': {
+      const next = typeof action.update === 'function' ? action.update(state.present) : action.update;
+      if (next === state.present) return state;
+
+      const grouped = action.group !== undefined
+        && action.group === state.lastGroup
+        && action.at - state.lastEditAt < GROUP_WINDOW_MS;
+      return {
+        past: grouped ? state.past : [...state.past, state.present].slice(-MAX_HISTORY),
+        present: next,
+        future: [],
+        lastGroup: action.group ?? null,
+        lastEditAt: action.at,
+      };
+    }
+    case 'reset':
+      return { past: [], present: action.subtitles, future: [], lastGroup: null, lastEditAt: 0 };
+    case 'undo': {
+      if (state.past.length === 0) return state;
+      return {
+        past: state.past.slice(0, -1),
+        present: state.past[state.past.length - 1],
+        future: [state.present, ...state.future],
+        lastGroup: null,
+        lastEditAt: 0,
+      };
+    }
+    case 'redo': {
+      if (state.future.length === 0) return state;
+      return {
+        past: [...state.past, state.present],
+        present: state.future[0],
+        future: state.future.slice(1),
+        lastGroup: null,
+        lastEditAt: 0,
+      };
+    }
+  }
+}
+
+export interface SubtitleHistory {
+  subtitles: Subtitle[];
+  // Records an undoable edit. Consecutive edits with the same group key are merged into one step.
+  setSubtitles: (update: SubtitleUpdate, group?: string) => void;
+  // Replaces the list and clears the history, e.g. after loading a file
+  resetSubtitles: (subtitles: Subtitle[]) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  // Attach to the editor's root element; the shortcuts only apply to keystrokes inside it
+  editorRef: RefObject<HTMLDivElement>;
+}
+
+export function useSubtitleHistory(initial: Subtitle[] = []): SubtitleHistory {
+  const [state, dispatch] = useReducer(historyReducer, {
+    past: [],
+    present: initial,
+    future: [],
+    lastGroup: null,
+    lastEditAt: 0,
+  });
+
+  const setSubtitles = useCallback((update: SubtitleUpdate, group?: string) => {
+    dispatch({ type: 'edit', update, group, at: Date.now() });
+  }, []);
+  const resetSubtitles = useCallback((subtitles: Subtitle[]) => dispatch({ type: 'reset', subtitles }), []);
+  const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+  const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+  const editorRef = useRef<HTMLDivElement>(null);
+
+  // Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y). Inputs are controlled, so the browser's own undo would fight ours.
+  // Keystrokes elsewhere on the page keep the browser's native undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      if (!(e.target instanceof Node) || !editorRef.current?.contains(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        dispatch({ type: e.shiftKey ? 'redo' : 'undo' });
+      } else if (key === 'y' && !e.shiftKey) {
+        e.preventDefault();
+        dispatch({ type: 'redo' });
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  return {
+    subtitles: state.present,
+    setSubtitles,
+    resetSubtitles,
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+    editorRef,
+  };
+}
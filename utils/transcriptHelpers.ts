@@ -0,0 +1,97 @@
+import { Subtitle, TranscriptSegment } from '../types';
+import { generateSRT } from './srtHelpers';
+import { labelSpeakers, namesSpeakers } from './speakerHelpers';
+
+// Timestamped transcripts: paragraphs with a start time, built from timed cues, looked up against
+// the player position and exported as TXT, Markdown or SRT.
+
+interface TimedText {
+  speaker?: string;
+  text: string;
+  startTime: number;
+  endTime: number;
+}
+
+const PARAGRAPH_GAP_SECONDS = 2; // a pause this long starts a new paragraph
+const PARAGRAPH_SECONDS = 45; // past this, the next sentence end closes the paragraph
+const FALLBACK_SECONDS = 5; // SRT length of a last paragraph with no end time
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// "01:02:03", always with hours so the stamps line up in plain text
+export function formatClock(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  return `${pad(Math.floor(total / 3600))}:${pad(Math.floor((total % 3600) / 60))}:${pad(total % 60)}`;
+}
+
+export const isTimestamped = (segments: TranscriptSegment[] | undefined): boolean =>
+  !!segments && segments.length > 0 && segments.every(s => s.startTime !== undefined);
+
+// Merge cues into paragraphs, breaking on a speaker change, a long pause, or a sentence end once
+// the paragraph has run long
+export function groupTimedParagraphs(cues: TimedText[]): TranscriptSegment[] {
+  const paragraphs: TimedText[] = [];
+  cues.forEach(cue => {
+    const text = cue.text.replace(/\s*\n\s*/g, ' ').trim();
+    if (!text) return;
+    const last = paragraphs[paragraphs.length - 1];
+    const continues = last
+      && last.speaker === cue.speaker
+      && cue.startTime - last.endTime < PARAGRAPH_GAP_SECONDS
+      && !(last.endTime - last.startTime >= PARAGRAPH_SECONDS && /[.!?…]["'”)\]]*$/.test(last.text));
+    if (continues) {
+      last.text += ` ${text}`;
+      last.endTime = Math.max(last.endTime, cue.endTime);
+    } else {
+      paragraphs.push({ speaker: cue.speaker, text, startTime: cue.startTime, endTime: cue.endTime });
+    }
+  });
+  return paragraphs.map(({ speaker, ...rest }) => (speaker ? { speaker, ...rest } : rest));
+}
+
+// The paragraph being spoken at `time`: the last one that has started
+export function activeSegmentIndex(segments: TranscriptSegment[], time: number): number {
+  let active = -1;
+  segments.forEach((segment, index) => {
+    if ((segment.startTime ?? Infinity) <= time) active = index;
+  });
+  return active;
+}
+
+// "[00:01:23] Speaker 1: ..." paragraphs separated by a blank line
+export function formatTimestampedText(segments: TranscriptSegment[]): string {
+  const named = namesSpeakers(segments);
+  return segments
+    .map(s => `[${formatClock(s.startTime ?? 0)}] ${named && s.speaker ? `${s.speaker}: ` : ''}${s.text}`)
+    .join('\n\n');
+}
+
+export function formatTimestampedMarkdown(segments: TranscriptSegment[], title: string): string {
+  const named = namesSpeakers(segments);
+  const body = segments.map(s => {
+    const speaker = named && s.speaker ? `**${s.speaker}:** ` : '';
+    return `**[${formatClock(s.startTime ?? 0)}]** ${speaker}${s.text}`;
+  });
+  return [`# ${title}`, ...body].join('\n\n') + '\n';
+}
+
+// One cue per paragraph; a paragraph without an end time runs until the next one starts
+export function transcriptToSubtitles(segments: TranscriptSegment[]): Subtitle[] {
+  return segments.map((segment, index) => {
+    const startTime = segment.startTime ?? 0;
+    const next = segments[index + 1]?.startTime;
+    const endTime = segment.endTime ?? next ?? startTime + FALLBACK_SECONDS;
+    return {
+      id: index + 1,
+      startTime,
+      endTime: Math.max(startTime, endTime),
+      text: segment.text,
+      ...(segment.speaker ? { speaker: segment.speaker } : {}),
+    };
+  });
+}
+
+export function formatTimestampedSrt(segments: TranscriptSegment[]): string {
+  const subtitles = transcriptToSubtitles(segments);
+  return generateSRT(namesSpeakers(segments) ? labelSpeakers(subtitles) : subtitles);
+}
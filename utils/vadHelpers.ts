@@ -0,0 +1,160 @@
+import { Subtitle } from '../types';
+
+// Client-side voice activity detection: finds every stretch of speech in a recording and
+// retimes cues onto those boundaries without another model call.
+
+export interface SpeechSegment {
+  start: number; // seconds
+  end: number;
+}
+
+export interface VadOptions {
+  frameSize: number; // seconds per analysis frame
+  minSpeech: number; // shorter bursts (clicks, breaths) are dropped
+  minSilence: number; // shorter pauses are bridged
+  hangover: number; // speech is held this long after energy drops, so word endings are not clipped
+}
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = {
+  frameSize: 0.02,
+  minSpeech: 0.25,
+  minSilence: 0.3,
+  hangover: 0.15,
+};
+
+// Decode any audio or video file the browser can play to a single mono channel
+export async function decodeMonoAudio(file: File): Promise<{ samples: Float32Array; sampleRate: number }> {
+  const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+  try {
+    const buffer = await audioContext.decodeAudioData(await file.arrayBuffer());
+    const samples = new Float32Array(buffer.length);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const data = buffer.getChannelData(channel);
+      for (let i = 0; i < data.length; i++) samples[i] += data[i] / buffer.numberOfChannels;
+    }
+    return { samples, sampleRate: buffer.sampleRate };
+  } finally {
+    audioContext.close();
+  }
+}
+
+function percentile(sorted: Float32Array, fraction: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))];
+}
+
+// Energy in dB of consecutive frames of samples[from, to), after a pre-emphasis filter that takes
+// out hum and rumble below the voice range
+export function frameEnergyDb(samples: Float32Array, frameLength: number, from = 0, to = samples.length): Float32Array {
+  const frames = Math.max(0, Math.floor((to - from) / frameLength));
+  const energy = new Float32Array(frames);
+  let previous = from > 0 ? samples[from - 1] : 0;
+  for (let f = 0; f < frames; f++) {
+    let sum = 0;
+    for (let i = from + f * frameLength; i < from + (f + 1) * frameLength; i++) {
+      const value = samples[i] - 0.97 * previous;
+      previous = samples[i];
+      sum += value * value;
+    }
+    energy[f] = 10 * Math.log10(sum / frameLength + 1e-10);
+  }
+  return energy;
+}
+
+export function detectSpeechSegments(
+  samples: Float32Array,
+  sampleRate: number,
+  options: Partial<VadOptions> = {}
+): SpeechSegment[] {
+  const { frameSize, minSpeech, minSilence, hangover } = { ...DEFAULT_VAD_OPTIONS, ...options };
+  const frameLength = Math.max(1, Math.round(sampleRate * frameSize));
+  const energy = frameEnergyDb(samples, frameLength);
+  const frames = energy.length;
+  if (frames === 0) return [];
+
+  // Adaptive thresholds: placed between this recording's noise floor and its speech level,
+  // with hysteresis so speech has to be clearly louder to start than to continue
+  const sorted = energy.slice().sort();
+  const noise = percentile(sorted, 0.1);
+  const speech = percentile(sorted, 0.9);
+  const range = Math.max(speech - noise, 6);
+  const enter = noise + range * 0.35;
+  const stay = noise + range * 0.2;
+
+  const hangoverFrames = Math.round(hangover / frameSize);
+  const raw: SpeechSegment[] = [];
+  let start = -1;
+  let quietFrames = 0;
+  for (let f = 0; f < frames; f++) {
+    if (start === -1) {
+      if (energy[f] > enter) {
+        start = f;
+        quietFrames = 0;
+      }
+    } else if (energy[f] > stay) {
+      quietFrames = 0;
+    } else if (++quietFrames > hangoverFrames) {
+      raw.push({ start: start * frameSize, end: (f - quietFrames + 1 + hangoverFrames) * frameSize });
+      start = -1;
+    }
+  }
+  if (start !== -1) raw.push({ start: start * frameSize, end: frames * frameSize });
+
+  // Bridge short pauses, then drop bursts too short to be speech
+  const merged: SpeechSegment[] = [];
+  for (const segment of raw) {
+    const last = merged[merged.length - 1];
+    if (last && segment.start - last.end < minSilence) last.end = segment.end;
+    else merged.push({ ...segment });
+  }
+  return merged.filter(segment => segment.end - segment.start >= minSpeech);
+}
+
+export async function detectSpeechInFile(file: File, options?: Partial<VadOptions>): Promise<SpeechSegment[]> {
+  const { samples, sampleRate } = await decodeMonoAudio(file);
+  return detectSpeechSegments(samples, sampleRate, options);
+}
+
+export interface SnapResult {
+  subtitles: Subtitle[];
+  adjusted: number; // cues whose timing changed
+}
+
+// Move each cue's start to the nearest speech onset and its end to the nearest speech offset,
+// as long as the boundary is within `maxShift` seconds. Cues never end up overlapping.
+export function snapSubtitlesToSpeech(subtitles: Subtitle[], segments: SpeechSegment[], maxShift = 1): SnapResult {
+  const nearest = (time: number, points: number[]): number => {
+    let best = time;
+    let bestDistance = maxShift;
+    for (const point of points) {
+      const distance = Math.abs(point - time);
+      if (distance <= bestDistance) {
+        best = point;
+        bestDistance = distance;
+      }
+    }
+    return best;
+  };
+  const onsets = segments.map(s => s.start);
+  const offsets = segments.map(s => s.end);
+  const round = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+  let adjusted = 0;
+  const result: Subtitle[] = [];
+  subtitles.forEach((sub, index) => {
+    const prev = result[index - 1];
+    const next = subtitles[index + 1];
+    let startTime = round(nearest(sub.startTime, onsets));
+    let endTime = round(nearest(sub.endTime, offsets));
+
+    if (prev && startTime < prev.endTime) startTime = Math.max(sub.startTime, prev.endTime);
+    if (next && endTime > next.startTime) endTime = Math.min(sub.endTime, next.startTime);
+    if (endTime <= startTime) {
+      startTime = sub.startTime;
+      endTime = sub.endTime;
+    }
+
+    if (startTime !== sub.startTime || endTime !== sub.endTime) adjusted++;
+    result.push({ ...sub, startTime, endTime });
+  });
+  return { subtitles: result, adjusted };
+}
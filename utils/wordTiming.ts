@@ -0,0 +1,128 @@
+import { Subtitle, SubtitleWord } from '../types';
+import { decodeMonoAudio, frameEnergyDb } from './vadHelpers';
+
+// Word-level timing inside cues: an estimate from the text alone, a refinement that moves the
+// word boundaries into the quiet dips of the cue's audio, and the lookups the players use for
+// karaoke highlighting.
+
+export const DEFAULT_HIGHLIGHT_COLOR = '#facc15';
+
+const FRAME_SECONDS = 0.01;
+const MIN_WORD_SECONDS = 0.05;
+const BOUNDARY_SEARCH = 0.4; // how far a boundary may move, as a share of the average word length
+
+const round = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+export const cueWordTexts = (text: string): string[] => text.split(/\s+/).filter(Boolean);
+
+// Longer words take longer to say; the +1 keeps short words and numbers from collapsing to nothing
+const wordWeight = (word: string) => word.replace(/[^\p{L}\p{N}]/gu, '').length + 1;
+
+// Share [start, end] out between the words in proportion to their length
+function spreadWords(texts: string[], start: number, end: number): SubtitleWord[] {
+  const total = texts.reduce((sum, text) => sum + wordWeight(text), 0);
+  let time = start;
+  return texts.map(text => {
+    const startTime = time;
+    time += ((end - start) * wordWeight(text)) / total;
+    return { text, startTime: round(startTime), endTime: round(time) };
+  });
+}
+
+export function estimateWordTimings(sub: Subtitle): SubtitleWord[] {
+  return spreadWords(cueWordTexts(sub.text), sub.startTime, sub.endTime);
+}
+
+// The cue's stored word timing brought in line with its current text and timing. Words that no
+// longer match the text (after an edit, split or translation) are estimated again; words left
+// outside the cue by a retime are shifted back in, or squeezed when the cue got shorter.
+export function resolveWordTimings(sub: Subtitle): SubtitleWord[] {
+  const texts = cueWordTexts(sub.text);
+  const words = sub.words;
+  if (!words || words.length !== texts.length || texts.length === 0) {
+    return spreadWords(texts, sub.startTime, sub.endTime);
+  }
+
+  const first = words[0].startTime;
+  const last = words[words.length - 1].endTime;
+  if (last <= first) return spreadWords(texts, sub.startTime, sub.endTime);
+  if (first >= sub.startTime - 0.001 && last <= sub.endTime + 0.001) {
+    return words.map((word, i) => ({ ...word, text: texts[i] }));
+  }
+
+  const span = sub.endTime - sub.startTime;
+  const map = last - first <= span
+    ? (time: number) => time + (first < sub.startTime ? sub.startTime - first : sub.endTime - last)
+    : (time: number) => sub.startTime + ((time - first) * span) / (last - first);
+  return words.map((word, i) => ({ text: texts[i], startTime: round(map(word.startTime)), endTime: round(map(word.endTime)) }));
+}
+
+// How many words have started by `time`; those are drawn in the highlight colour
+export const spokenWordCount = (words: SubtitleWord[], time: number): number =>
+  words.filter(word => word.startTime <= time).length;
+
+const smooth = (values: Float32Array): Float32Array =>
+  values.map((value, i) => (values[Math.max(0, i - 1)] + value + values[Math.min(values.length - 1, i + 1)]) / 3);
+
+// Energy-based alignment: trim the quiet edges of each cue, start from the length-based estimate
+// over what is left, then move every boundary between two words to the quietest frame nearby,
+// which is where the short gap between words usually is.
+export function alignWordsToAudio(subtitles: Subtitle[], samples: Float32Array, sampleRate: number): Subtitle[] {
+  const frameLength = Math.max(1, Math.round(sampleRate * FRAME_SECONDS));
+  const minFrames = Math.round(MIN_WORD_SECONDS / FRAME_SECONDS);
+
+  return subtitles.map(sub => {
+    const texts = cueWordTexts(sub.text);
+    if (texts.length === 0) return sub;
+
+    const from = Math.max(0, Math.floor(sub.startTime * sampleRate));
+    const to = Math.min(samples.length, Math.ceil(sub.endTime * sampleRate));
+    const energy = smooth(frameEnergyDb(samples, frameLength, from, to));
+    // Too short to split by ear, or past the end of the audio
+    if (energy.length < texts.length * minFrames) return { ...sub, words: estimateWordTimings(sub) };
+
+    let min = Infinity;
+    let max = -Infinity;
+    energy.forEach(value => {
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    });
+    const threshold = min + (max - min) * 0.3;
+    const first = Math.max(0, energy.findIndex(value => value > threshold));
+    let last = energy.length - 1;
+    while (last > first && energy[last] <= threshold) last--;
+
+    const frameTime = (frame: number) => sub.startTime + frame * FRAME_SECONDS;
+    const guesses = spreadWords(texts, frameTime(first), frameTime(last + 1))
+      .map(word => Math.round((word.startTime - sub.startTime) / FRAME_SECONDS));
+    const window = Math.max(2, Math.round(((last + 1 - first) / texts.length) * BOUNDARY_SEARCH));
+
+    const boundaries = [first];
+    for (let i = 1; i < texts.length; i++) {
+      const previous = boundaries[i - 1];
+      const next = i + 1 < texts.length ? guesses[i + 1] : last + 1;
+      const lo = Math.min(last, Math.max(previous + minFrames, guesses[i] - window));
+      const hi = Math.min(last, next - minFrames, guesses[i] + window);
+      let best = Math.max(lo, Math.min(guesses[i], hi));
+      for (let frame = lo; frame <= hi; frame++) {
+        if (energy[frame] < energy[best]) best = frame;
+      }
+      boundaries.push(Math.max(previous, best));
+    }
+    boundaries.push(Math.max(boundaries[boundaries.length - 1], last + 1));
+
+    return {
+      ...sub,
+      words: texts.map((text, i) => ({
+        text,
+        startTime: round(frameTime(boundaries[i])),
+        endTime: round(frameTime(boundaries[i + 1])),
+      })),
+    };
+  });
+}
+
+export async function alignWordsInFile(file: File, subtitles: Subtitle[]): Promise<Subtitle[]> {
+  const { samples, sampleRate } = await decodeMonoAudio(file);
+  return alignWordsToAudio(subtitles, samples, sampleRate);
+}